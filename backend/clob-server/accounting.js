@@ -0,0 +1,167 @@
+// Protocol Fee Ledger and LP Accounting
+//
+// The AMM is the counterparty to every curve trade, so LPs fund its
+// worst-case loss (see market-maker.js) and own its trading P&L plus
+// `lpShare` of the AMM fees. The protocol keeps the rest of the fees.
+
+const DEFAULT_FEES = { amm: 0.01, clob: 0.002, lpShare: 0.5 };
+const MAX_SNAPSHOTS = 1000;
+
+function createAccounting() {
+  return {
+    feeLedger: [],
+    feesCollected: { amm: 0, clob: 0 },
+    ammCash: 0, // net collateral the AMM has taken in (buys minus sells)
+    providers: {},
+    lpCapital: 0,
+    snapshots: [],
+  };
+}
+
+// Charge `fees[venue]` on a trade's notional and book it in the ledger
+function chargeFee(state, { user, venue, notional }, now = Date.now()) {
+  const fee = Math.abs(notional) * state.fees[venue];
+  if (fee <= 0) return 0;
+
+  state.accounting.feesCollected[venue] += fee;
+  state.accounting.feeLedger.push({
+    timestamp: now,
+    user,
+    venue,
+    notional: Math.abs(notional),
+    fee,
+  });
+  return fee;
+}
+
+function recordAmmCash(state, amount) {
+  state.accounting.ammCash += amount;
+}
+
+// Shares the AMM has sold, net, per outcome since the market opened
+function outstandingShares(state) {
+  const initial = state.amm.initialQuantities;
+  return state.amm.onDate.quantities.map((q, i) => q - initial[i]);
+}
+
+function ammLiability(state, maker) {
+  const outstanding = outstandingShares(state);
+  const settlement = state.settlement;
+
+  if (settlement) {
+    // Void markets refund traders, so the AMM hands its takings back
+    const owed = settlement.outcome === 'void'
+      ? state.accounting.ammCash
+      : outstanding[settlement.outcome];
+    return { markToMarket: owed, worstCase: owed };
+  }
+
+  const prices = maker.probabilities(state.amm.onDate.quantities);
+  return {
+    markToMarket: outstanding.reduce((acc, shares, i) => acc + shares * prices[i], 0),
+    worstCase: Math.max(...outstanding),
+  };
+}
+
+// `maker` is the market's bound market maker (getMarketMaker)
+function computePnl(state, maker) {
+  const { accounting, fees } = state;
+  const ammFees = accounting.feesCollected.amm;
+  const clobFees = accounting.feesCollected.clob;
+  const lpFees = ammFees * fees.lpShare;
+  const protocolFees = ammFees - lpFees + clobFees;
+
+  const liability = ammLiability(state, maker);
+  const ammPnl = accounting.ammCash - liability.markToMarket;
+  const lpPnl = ammPnl + lpFees;
+  const requiredSubsidy = maker.worstCaseLoss();
+
+  return {
+    fees: { amm: ammFees, clob: clobFees, lp: lpFees, protocol: protocolFees },
+    amm: {
+      cash: accounting.ammCash,
+      markToMarketLiability: liability.markToMarket,
+      worstCaseLiability: liability.worstCase,
+      pnl: ammPnl,
+    },
+    lp: {
+      capital: accounting.lpCapital,
+      requiredSubsidy,
+      coverage: requiredSubsidy > 0 ? accounting.lpCapital / requiredSubsidy : null,
+      pnl: lpPnl,
+      return: accounting.lpCapital > 0 ? lpPnl / accounting.lpCapital : null,
+    },
+    protocol: { pnl: protocolFees },
+  };
+}
+
+function recordSnapshot(state, maker, now = Date.now()) {
+  const pnl = computePnl(state, maker);
+  state.accounting.snapshots.push({
+    timestamp: now,
+    b: maker.liquidity,
+    feesTotal: pnl.fees.amm + pnl.fees.clob,
+    ammPnl: pnl.amm.pnl,
+    lpPnl: pnl.lp.pnl,
+    lpReturn: pnl.lp.return,
+    protocolPnl: pnl.protocol.pnl,
+  });
+
+  if (state.accounting.snapshots.length > MAX_SNAPSHOTS) {
+    state.accounting.snapshots = state.accounting.snapshots.slice(-MAX_SNAPSHOTS);
+  }
+}
+
+function depositLiquidity(state, provider, amount, now = Date.now()) {
+  const accounting = state.accounting;
+  const existing = accounting.providers[provider] || { capital: 0, depositedAt: now };
+  existing.capital += amount;
+  accounting.providers[provider] = existing;
+  accounting.lpCapital += amount;
+  return existing;
+}
+
+// While the market is open, LP capital may not drop below the worst-case loss
+function withdrawLiquidity(state, provider, amount, maker) {
+  const accounting = state.accounting;
+  const existing = accounting.providers[provider];
+  if (!existing || existing.capital < amount) {
+    return { error: 'Withdrawal exceeds provided capital' };
+  }
+
+  const required = maker.worstCaseLoss();
+  if (state.market.status === 'open' && accounting.lpCapital - amount < required) {
+    return { error: `Withdrawal would leave the AMM under-funded: ${required.toFixed(4)} required` };
+  }
+
+  existing.capital -= amount;
+  accounting.lpCapital -= amount;
+  return { provider: existing };
+}
+
+// Each LP owns a capital-weighted share of the pool's P&L
+function providerReturns(state, lpPnl) {
+  const { providers, lpCapital } = state.accounting;
+  return Object.entries(providers).map(([provider, { capital, depositedAt }]) => {
+    const share = lpCapital > 0 ? capital / lpCapital : 0;
+    return {
+      provider,
+      capital,
+      share,
+      pnl: lpPnl * share,
+      depositedAt,
+    };
+  });
+}
+
+module.exports = {
+  DEFAULT_FEES,
+  createAccounting,
+  chargeFee,
+  recordAmmCash,
+  computePnl,
+  recordSnapshot,
+  depositLiquidity,
+  withdrawLiquidity,
+  providerReturns,
+};
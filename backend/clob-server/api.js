@@ -1,324 +1,1520 @@
 // Market API Routes
 
-const { getAllPrices, tradeCost, sharesForBudget, NUM_DAYS } = require('./lmsr');
+const { formatPrices, bundleIndices } = require('./lmsr');
+const { MARKET_MAKERS, getMarketMaker, createPool } = require('./market-maker');
+const { planBuy, planSell } = require('./router');
 const {
+  placeLimitOrder,
+  placeMarketOrder,
+  previewOrder,
+  cancelOrder,
+  getBookSnapshot,
+  getUserOrders,
+} = require('./orderbook');
+const {
+  MARKET_KINDS,
+  DEFAULT_MIN_B,
   createMarket,
+  numOutcomes,
   getB,
+  createRegistry,
+  upgradeRegistry,
+  getMarket,
+  addMarket,
   ensureUserBalance,
   updateBalance,
+  addCostBasis,
   getUserShares,
   recordTrade,
   setSession,
   getSession,
-  loadState,
-  saveState,
-  resolveMarket,
 } = require('./state');
+const {
+  VOID_OUTCOME,
+  resolveMarket,
+  claimPayout,
+  settlementReport,
+} = require('./settlement');
+const {
+  chargeFee,
+  recordAmmCash,
+  computePnl,
+  recordSnapshot,
+  depositLiquidity,
+  withdrawLiquidity,
+  providerReturns,
+} = require('./accounting');
+const { recordPrices, getPriceHistory } = require('./history');
+const { createStore } = require('./storage');
+const {
+  isOpen,
+  parseCreateSession,
+  openSession,
+  checkVersion,
+  checkAllocation,
+  applyTrade,
+  closeSession,
+} = require('./channel');
+const {
+  SIGNER_FIELDS,
+  normalizeAddress,
+  isNonceUsed,
+  consumeNonce,
+  createAuthenticator,
+} = require('./auth');
+const {
+  validateLimits,
+  activeHalt,
+  recordNotional,
+  checkTrade,
+  logRejection,
+  checkPriceMove,
+} = require('./risk');
+const { recordBuy, recordSell, ledgerReport } = require('./ledger');
+
+let registry = null;
+let store = null; // snapshot + journal, see storage.js
+let replaying = false;
+let pendingEntries = []; // entries a request produced, journaled after it
+let requestTime = null; // see at()
+let publish = () => {}; // market feed broadcaster, see feed.js
+let clobAddress = null;
+let signStateUpdate = null; // CLOB co-signature for channel updates, see server.js
+let openChannel = null; // co-signs and submits app sessions to ClearNode, see server.js
+let authenticator = createAuthenticator(); // signed requests, see auth.js
+
+// Run `fn` with the clock stopped at `timestamp`: the wall clock for a live
+// request (its journal record is stamped with it), the record's timestamp on
+// replay. Replayed trades, candles, fees and risk windows keep their times.
+function at(timestamp, fn) {
+  const previous = requestTime;
+  requestTime = timestamp;
+  try {
+    return fn();
+  } finally {
+    requestTime = previous;
+  }
+}
 
-let marketState = null;
-let statePath = null;
+function clock() {
+  return requestTime === null ? Date.now() : requestTime;
+}
+
+function getState(marketId) {
+  return registry ? getMarket(registry, marketId) : null;
+}
 
-function getState() {
-  return marketState;
+// Journal an accepted mutation (and anything it set off, e.g. a halt),
+// snapshotting the registry every so often. Handlers and journal writes are
+// synchronous, so requests apply one at a time in journal order. Memory is
+// changed first, so a failed append rolls it back to what the journal holds.
+function commit(marketId, route, body) {
+  const timestamp = clock();
+  const entries = [{ marketId, route, body }, ...pendingEntries].map(entry => ({ ...entry, timestamp }));
+  pendingEntries = [];
+  if (!store || replaying) return;
+  try {
+    for (const entry of entries) store.append(entry);
+  } catch (err) {
+    restoreFromJournal(err);
+    throw err;
+  }
+  if (store.snapshotDue()) store.snapshot(registry);
 }
 
-function persist() {
-  if (marketState && statePath) {
-    saveState(marketState, statePath);
+// Journal a POST's outcome: the request if it changed state, or, for a
+// signed request that was rejected, just its nonce, so replay keeps it used
+function journal(marketId, route, data, result) {
+  if (READ_ONLY_ROUTES.includes(route)) return;
+  if (!result.error) return commit(marketId, route, data);
+  pendingEntries = [];
+  const field = SIGNER_FIELDS[route];
+  if (field && data.nonce !== undefined) {
+    commit(marketId, '/nonce', { address: data[field], nonce: data.nonce, expiry: data.expiry });
   }
 }
 
-function handlePrices() {
-  if (!marketState) return { error: 'No market exists' };
+// Load the last snapshot (or create the market registry), replay whatever
+// the journal has past it, and start journaling on top
+function loadRegistry() {
+  const { snapshot, pending } = store.load();
+  if (!snapshot) {
+    console.log('Creating new market...');
+    registry = createRegistry();
+    console.log('Market created and initialized from iran.json prices');
+  } else {
+    registry = upgradeRegistry(snapshot);
+    for (const state of Object.values(registry.markets)) {
+      console.log(`Loaded existing market: ${state.market.id} (${state.market.status})`);
+    }
+  }
   
-  const b = getB(marketState);
+  if (pending.length > 0) {
+    console.log(`Replaying ${pending.length} journal entries...`);
+    for (const { seq, route, error } of replayEntries(registry, pending)) {
+      console.warn(`Journal entry ${seq} (${route}) did not replay: ${error}`);
+    }
+  }
+  store.open(registry);
+}
+
+// A request failed part way (its append threw, or its handler did): put
+// memory back in line with the journal, exactly as a restart would
+function restoreFromJournal(err) {
+  console.error(`Restoring market state from the journal after: ${err.message}`);
+  pendingEntries = [];
+  store.close();
+  try {
+    loadRegistry();
+  } catch (loadErr) {
+    console.error('Failed to restore market state:', loadErr);
+  }
+}
+
+function withLabels(state, prices) {
+  return prices.map((p, i) => ({ ...p, label: state.market.outcomes[i].label }));
+}
+
+function handlePrices(state) {
+  const maker = getMarketMaker(state);
+  const prices = maker.probabilities(state.amm.onDate.quantities);
   
   return {
-    onDate: getAllPrices(marketState.amm.onDate.quantities, b, 'on_date'),
-    byDate: getAllPrices(marketState.amm.byDate.quantities, b, 'by_date'),
-    b,
-    totalVolume: marketState.market.totalVolume,
-    status: marketState.market.status,
+    marketId: state.market.id,
+    onDate: withLabels(state, formatPrices(prices, 'on_date')),
+    byDate: state.market.ordered ? withLabels(state, formatPrices(prices, 'by_date')) : null,
+    b: maker.liquidity,
+    marketMaker: maker.type,
+    totalVolume: state.market.totalVolume,
+    status: state.market.status,
   };
 }
 
-function handleBuy(body) {
-  if (!marketState) return { error: 'No market exists' };
-  if (marketState.market.status !== 'open') return { error: 'Market not open' };
-  
-  const { user, marketType, dayIndex, amount } = body;
-  if (!user || !marketType || dayIndex === undefined || !amount || amount <= 0) {
-    return { error: 'Invalid params: user, marketType, dayIndex, amount required' };
+function roundRoute(route) {
+  const venue = v => ({
+    shares: Math.round(v.shares * 10000) / 10000,
+    amount: Math.round(v.amount * 10000) / 10000,
+    avgPrice: v.avgPrice === null ? null : Math.round(v.avgPrice * 10000) / 10000,
+    fees: Math.round(v.fees * 10000) / 10000,
+  });
+  return {
+    amm: venue(route.venues.amm),
+    clob: venue(route.venues.clob),
+    fees: Math.round(route.fees * 10000) / 10000,
+    avgPrice: route.avgPrice === null ? null : Math.round(route.avgPrice * 10000) / 10000,
+  };
+}
+
+const POSITIONS = ['yes', 'no'];
+
+// dayIndex/endIndex must name an outcome: a fractional index covers none
+function isOutcomeIndex(state, index) {
+  return Number.isInteger(index) && index >= 0 && index < numOutcomes(state);
+}
+
+// Resolve the atomic outcomes an AMM trade covers, or an error message. A NO
+// is the complementary bundle: every outcome the question doesn't cover.
+function tradeIndices(state, body, position = 'yes') {
+  const { marketType, dayIndex, endIndex } = body;
+  if (!['on_date', 'by_date', 'between'].includes(marketType)) {
+    return { error: 'Invalid marketType: must be on_date, by_date or between' };
   }
-  
-  if (dayIndex < 0 || dayIndex >= NUM_DAYS) {
+  if (marketType !== 'on_date' && !state.market.ordered) {
+    return { error: `${marketType} trades need ordered outcomes` };
+  }
+  if (!isOutcomeIndex(state, dayIndex)) {
     return { error: 'Invalid dayIndex' };
   }
+  if (marketType === 'between' && (!isOutcomeIndex(state, endIndex) || endIndex < dayIndex)) {
+    return { error: 'Invalid endIndex: between trades need dayIndex <= endIndex' };
+  }
+  const indices = bundleIndices(marketType, dayIndex, endIndex);
+  if (position === 'yes') return { indices };
   
-  const b = getB(marketState);
-  const quantities = marketType === 'on_date' 
-    ? marketState.amm.onDate.quantities 
-    : marketState.amm.byDate.quantities;
+  const complement = state.market.outcomes.map((_, i) => i).filter(i => !indices.includes(i));
+  if (complement.length === 0) return { error: 'NO on a question covering every outcome is empty' };
+  return { indices: complement };
+}
+
+// The order book only exists for atomic (on_date) YES outcomes
+function bookSide(state, marketType, dayIndex, side, position) {
+  if (marketType !== 'on_date' || position === 'no') return [];
+  const outcome = state.book.outcomes[dayIndex];
+  return side === 'buy' ? outcome.asks : outcome.bids;
+}
+
+// Validate a buy (budget `amount`) or sell (`shares`) and route it across the
+// book and the AMM curve without touching state
+function planTrade(state, side, body, position = 'yes') {
+  const { marketType, dayIndex, amount, shares } = body;
+  const size = side === 'buy' ? amount : shares;
+  if (!marketType || dayIndex === undefined || !size || size <= 0) {
+    const sizeParam = side === 'buy' ? 'amount' : 'shares';
+    return { error: `Invalid params: marketType, dayIndex, ${sizeParam} required` };
+  }
   
-  // Calculate shares for budget
-  const shares = sharesForBudget(quantities, dayIndex, b, amount, true);
+  const { indices, error } = tradeIndices(state, body, position);
+  if (error) return { error };
   
-  // Execute trade
-  const delta = new Array(NUM_DAYS).fill(0);
-  delta[dayIndex] = shares;
-  const cost = tradeCost(quantities, delta, b);
+  const params = {
+    quantities: state.amm.onDate.quantities,
+    maker: getMarketMaker(state),
+    indices,
+    fees: state.fees,
+  };
+  const route = side === 'buy'
+    ? planBuy({ ...params, asks: bookSide(state, marketType, dayIndex, 'buy', position), budget: amount })
+    : planSell({ ...params, bids: bookSide(state, marketType, dayIndex, 'sell', position), shares });
+  
+  return { indices, route };
+}
+
+function formatQuote(side, route) {
+  return {
+    side,
+    shares: Math.round(route.shares * 10000) / 10000,
+    [side === 'buy' ? 'cost' : 'revenue']: Math.round(route.total * 10000) / 10000,
+    fees: Math.round(route.fees * 10000) / 10000,
+    avgPrice: route.avgPrice === null ? null : Math.round(route.avgPrice * 10000) / 10000,
+    priceBefore: Math.round(route.priceBefore * 10000) / 10000,
+    priceAfter: Math.round(route.priceAfter * 10000) / 10000,
+    priceImpact: Math.round(route.priceImpact * 10000) / 10000,
+    route: roundRoute(route),
+  };
+}
+
+function handleQuote(state, body) {
+  if (state.market.status !== 'open') return { error: 'Market not open' };
   
-  // Update AMM quantities
-  for (let i = 0; i < NUM_DAYS; i++) {
-    quantities[i] += delta[i];
+  const { side, position = 'yes' } = body;
+  if (side !== 'buy' && side !== 'sell') {
+    return { error: 'Invalid side: must be buy or sell' };
+  }
+  if (!POSITIONS.includes(position)) {
+    return { error: 'Invalid position: must be yes or no' };
   }
   
-  // Update user balance
-  updateBalance(marketState, user, marketType, dayIndex, shares);
+  const { route, error } = planTrade(state, side, body, position);
+  if (error) return { error };
+  
+  return { marketId: state.market.id, position, ...formatQuote(side, route) };
+}
+
+// Snapshot P&L and prices once a trade has settled, and push the new
+// prices to feed subscribers
+function recordActivity(state, volume) {
+  const maker = getMarketMaker(state);
+  recordSnapshot(state, maker, clock());
+  recordPrices(state, maker, volume, clock());
+  broadcast(state, 'prices', handlePrices(state));
+  if (!replaying) tripBreaker(state);
+}
+
+function logTrade(state, trade) {
+  recordTrade(state, trade, clock());
+  broadcast(state, 'trades', state.trades[state.trades.length - 1]);
+}
+
+function publishBook(state, dayIndex) {
+  broadcast(state, 'book', getBookSnapshot(state.book, dayIndex));
+}
+
+// Replayed history is not news to feed subscribers
+function broadcast(state, channel, data) {
+  if (!replaying) publish(state.market.id, channel, data);
+}
+
+// The outcome a NO trade is a NO on, for the ledger; by/between NOs are
+// tracked as their legs like any other bundle
+function noOutcome(position, marketType, dayIndex) {
+  return position === 'no' && marketType === 'on_date' ? dayIndex : null;
+}
+
+// `position` 'no' buys the complementary bundle (the /buy/no route)
+function handleBuy(state, body, position = 'yes') {
+  if (state.market.status !== 'open') return { error: 'Market not open' };
+  
+  const { user, marketType, dayIndex, minShares, channelVersion } = body;
+  if (!user) return { error: 'Invalid params: user required' };
   
-  // Update volume
-  marketState.market.totalVolume += cost;
+  const { indices, route, error } = planTrade(state, 'buy', body, position);
+  if (error) return { error };
   
-  recordTrade(marketState, {
+  // Slippage guard: the curve or book may have moved since the quote
+  if (minShares !== undefined && route.shares < minShares) {
+    return {
+      error: `Slippage exceeded: ${route.shares.toFixed(4)} shares below minShares ${minShares}`,
+      quote: formatQuote('buy', route),
+    };
+  }
+  
+  const riskError = guardTrade(state, position === 'no' ? '/buy/no' : '/buy', {
     user,
-    type: 'buy',
-    marketType,
-    dayIndex,
-    amount: cost,
-    shares,
+    notional: route.total,
+    positions: positionsAfter(state, user, indices, route.shares),
   });
+  if (riskError) return { error: riskError };
+  
+  const channelError = checkChannel(user, 'buy', route.total, channelVersion);
+  if (channelError) return { error: channelError };
+  
+  const quantities = state.amm.onDate.quantities;
+  const amm = route.venues.amm;
+  const clob = route.venues.clob;
+  
+  let fills = [];
+  if (clob.shares > 0) {
+    fills = placeMarketOrder(state.book, { user, dayIndex, side: 'buy', shares: clob.shares }, clock()).fills;
+    settleFills(state, fills);
+    publishBook(state, dayIndex);
+  }
+  
+  let ammPaid = 0;
+  if (amm.shares > 0) {
+    // A bundle's cost is split across its legs at pre-trade prices
+    const legPrices = getMarketMaker(state).prices(quantities);
+    for (const i of indices) quantities[i] += amm.shares;
+    updateBalance(state, user, indices, amm.shares);
+    addCostBasis(state, user, amm.amount);
+    recordAmmCash(state, amm.amount);
+    const fee = chargeFee(state, { user, venue: 'amm', notional: amm.amount }, clock());
+    ammPaid = amm.amount + fee;
+    recordBuy(state.balances[user].ledger, {
+      indices,
+      shares: amm.shares,
+      cost: amm.amount + fee,
+      fee,
+      prices: legPrices,
+      noOutcome: noOutcome(position, marketType, dayIndex),
+    });
+    
+    // Update volume
+    state.market.totalVolume += amm.amount;
+    
+    logTrade(state, {
+      user,
+      venue: 'amm',
+      type: 'buy',
+      marketType,
+      position,
+      dayIndex,
+      indices,
+      amount: amm.amount,
+      fee,
+      shares: amm.shares,
+    });
+  }
   
-  persist();
+  recordNotional(state.risk, user, route.total, clock());
+  recordActivity(state, route.amount);
+  const stateUpdate = settleChannels(state, user, channelPayments(user, 'buy', ammPaid, fills));
   
   return {
     success: true,
-    cost: Math.round(cost * 10000) / 10000,
-    shares: Math.round(shares * 10000) / 10000,
-    prices: handlePrices(),
+    cost: Math.round(route.total * 10000) / 10000,
+    fees: Math.round(route.fees * 10000) / 10000,
+    shares: Math.round(route.shares * 10000) / 10000,
+    avgPrice: route.avgPrice === null ? null : Math.round(route.avgPrice * 10000) / 10000,
+    priceImpact: Math.round(route.priceImpact * 10000) / 10000,
+    route: roundRoute(route),
+    fills: fills.map(formatFill),
+    prices: handlePrices(state),
+    stateUpdate,
   };
 }
 
-function handleSell(body) {
-  if (!marketState) return { error: 'No market exists' };
-  if (marketState.market.status !== 'open') return { error: 'Market not open' };
+function handleSell(state, body, position = 'yes') {
+  if (state.market.status !== 'open') return { error: 'Market not open' };
   
-  const { user, marketType, dayIndex, shares } = body;
-  if (!user || !marketType || dayIndex === undefined || !shares || shares <= 0) {
-    return { error: 'Invalid params: user, marketType, dayIndex, shares required' };
-  }
+  const { user, marketType, dayIndex, shares, minRevenue, channelVersion } = body;
+  if (!user) return { error: 'Invalid params: user required' };
+  
+  const { indices, route, error } = planTrade(state, 'sell', body, position);
+  if (error) return { error };
   
   // Check user has shares
-  const userShares = getUserShares(marketState, user, marketType, dayIndex);
+  const userShares = getUserShares(state, user, indices);
   if (userShares < shares - 0.001) {
     return { error: `Insufficient shares: have ${userShares}, need ${shares}` };
   }
   
-  const b = getB(marketState);
-  const quantities = marketType === 'on_date' 
-    ? marketState.amm.onDate.quantities 
-    : marketState.amm.byDate.quantities;
+  // Slippage guard: the curve or book may have moved since the quote
+  if (minRevenue !== undefined && route.total < minRevenue) {
+    return {
+      error: `Slippage exceeded: revenue ${route.total.toFixed(4)} below minRevenue ${minRevenue}`,
+      quote: formatQuote('sell', route),
+    };
+  }
   
-  // Calculate revenue
-  const delta = new Array(NUM_DAYS).fill(0);
-  delta[dayIndex] = -shares;
-  const revenue = -tradeCost(quantities, delta, b);
+  const riskError = guardTrade(state, position === 'no' ? '/sell/no' : '/sell', { user, notional: route.total });
+  if (riskError) return { error: riskError };
   
-  // Update AMM quantities
-  for (let i = 0; i < NUM_DAYS; i++) {
-    quantities[i] += delta[i];
-  }
+  const channelError = checkChannel(user, 'sell', route.total, channelVersion);
+  if (channelError) return { error: channelError };
   
-  // Update user balance
-  updateBalance(marketState, user, marketType, dayIndex, -shares);
+  const quantities = state.amm.onDate.quantities;
+  const amm = route.venues.amm;
+  const clob = route.venues.clob;
   
-  // Update volume
-  marketState.market.totalVolume += revenue;
+  let fills = [];
+  if (clob.shares > 0) {
+    fills = placeMarketOrder(state.book, { user, dayIndex, side: 'sell', shares: clob.shares }, clock()).fills;
+    settleFills(state, fills);
+    publishBook(state, dayIndex);
+  }
   
-  recordTrade(marketState, {
-    user,
-    type: 'sell',
-    marketType,
-    dayIndex,
-    amount: -revenue,
-    shares,
-  });
+  // Debit what filled, which a long route can leave short of `shares`
+  const filled = fills.reduce((acc, fill) => acc + fill.shares, 0) + amm.shares;
+  updateBalance(state, user, indices, -filled);
   
-  persist();
+  let ammPaid = 0;
+  if (amm.shares > 0) {
+    for (const i of indices) quantities[i] -= amm.shares;
+    addCostBasis(state, user, -amm.amount);
+    recordAmmCash(state, -amm.amount);
+    const fee = chargeFee(state, { user, venue: 'amm', notional: amm.amount }, clock());
+    ammPaid = amm.amount - fee;
+    recordSell(state.balances[user].ledger, {
+      indices,
+      shares: amm.shares,
+      proceeds: amm.amount - fee,
+      fee,
+      noOutcome: noOutcome(position, marketType, dayIndex),
+    });
+    
+    // Update volume
+    state.market.totalVolume += amm.amount;
+    
+    logTrade(state, {
+      user,
+      venue: 'amm',
+      type: 'sell',
+      marketType,
+      position,
+      dayIndex,
+      indices,
+      amount: -amm.amount,
+      fee,
+      shares: amm.shares,
+    });
+  }
+  
+  recordNotional(state.risk, user, route.total, clock());
+  recordActivity(state, route.amount);
+  const stateUpdate = settleChannels(state, user, channelPayments(user, 'sell', ammPaid, fills));
   
   return {
     success: true,
-    revenue: Math.round(revenue * 10000) / 10000,
-    shares: Math.round(shares * 10000) / 10000,
-    prices: handlePrices(),
+    revenue: Math.round(route.total * 10000) / 10000,
+    fees: Math.round(route.fees * 10000) / 10000,
+    shares: Math.round(route.shares * 10000) / 10000,
+    avgPrice: route.avgPrice === null ? null : Math.round(route.avgPrice * 10000) / 10000,
+    priceImpact: Math.round(route.priceImpact * 10000) / 10000,
+    route: roundRoute(route),
+    fills: fills.map(formatFill),
+    prices: handlePrices(state),
+    stateUpdate,
   };
 }
 
-function handleGetPositions(address) {
-  if (!marketState) return { error: 'No market exists' };
-  
-  ensureUserBalance(marketState, address);
-  const balance = marketState.balances[address];
-  const b = getB(marketState);
-  
-  const onDatePrices = getAllPrices(marketState.amm.onDate.quantities, b, 'on_date');
-  const byDatePrices = getAllPrices(marketState.amm.byDate.quantities, b, 'by_date');
+// ==================== RISK ====================
+
+// Risk limits are enforced on live requests only: replayed ones passed them
+function guardTrade(state, route, check) {
+  if (replaying) return null;
+  const rejection = checkTrade(state.risk, check);
+  if (!rejection) return null;
+  logRejection(state.risk, { marketId: state.market.id, route, user: check.user, ...rejection });
+  return rejection.error;
+}
+
+// Holdings of each outcome in `indices` after buying `shares` more,
+// counting resting bids that could still fill
+function positionsAfter(state, user, indices, shares) {
+  const balance = state.balances[user];
+  const bids = getUserOrders(state.book, user).filter(o => o.side === 'buy');
+  return indices.map(i => {
+    const resting = bids.filter(o => o.dayIndex === i).reduce((acc, o) => acc + o.remaining, 0);
+    return (balance ? balance.onDate[i] : 0) + resting + shares;
+  });
+}
+
+function tripBreaker(state) {
+  const halt = checkPriceMove(state.risk, state.priceHistory, clock());
+  if (halt) setHalt(state, halt);
+}
+
+// Halts are time-stamped, so they are journaled as set rather than
+// recomputed on replay, right after the request that set them
+function setHalt(state, halt) {
+  state.risk.halt = halt;
+  if (!replaying) pendingEntries.push({ marketId: state.market.id, route: '/risk/halt', body: halt });
+  if (halt.resumedAt) {
+    console.warn(`[risk] ${state.market.id} resumed`);
+  } else {
+    console.warn(`[risk] ${state.market.id} halted until ${new Date(halt.haltedUntil).toISOString()}: ${halt.reason}`);
+  }
+}
+
+function handleGetRisk(state) {
+  return {
+    marketId: state.market.id,
+    limits: state.risk.limits,
+    halted: Boolean(activeHalt(state.risk)),
+    halt: state.risk.halt,
+    rejections: state.risk.rejections.slice(-50),
+  };
+}
+
+// Admin: adjust limits, and/or halt or resume trading by hand
+function handleRisk(state, body) {
+  const { limits, action, duration, reason } = body;
+  if (limits === undefined && action === undefined) {
+    return { error: 'Provide limits and/or action: halt, resume' };
+  }
+  if (limits !== undefined) {
+    const error = validateLimits(limits);
+    if (error) return { error };
+  }
+  if (action !== undefined && action !== 'halt' && action !== 'resume') {
+    return { error: 'Invalid action: must be halt or resume' };
+  }
+  if (duration !== undefined && !(typeof duration === 'number' && duration > 0)) {
+    return { error: 'duration must be a positive number of seconds' };
+  }
+  if (action === 'resume' && !replaying && !activeHalt(state.risk)) {
+    return { error: 'Market is not halted' };
+  }
   
-  const positions = [];
-  let totalValue = 0;
+  if (limits) Object.assign(state.risk.limits, limits);
   
-  for (let i = 0; i < NUM_DAYS; i++) {
-    if (balance.onDate[i] > 0) {
-      const value = balance.onDate[i] * onDatePrices[i].yesPrice;
-      totalValue += value;
-      positions.push({
-        marketType: 'on_date',
-        day: i + 1,
-        shares: Math.round(balance.onDate[i] * 10000) / 10000,
-        price: onDatePrices[i].yesPrice,
-        value: Math.round(value * 10000) / 10000,
+  // The halt itself is replayed from its own journal entry
+  if (action && !replaying) {
+    const now = clock();
+    if (action === 'halt') {
+      setHalt(state, {
+        reason: reason || 'Halted by admin',
+        outcome: null,
+        move: null,
+        haltedAt: now,
+        haltedUntil: now + (duration || state.risk.limits.haltDuration) * 1000,
       });
+    } else {
+      setHalt(state, { ...state.risk.halt, haltedUntil: now, resumedAt: now });
     }
-    if (balance.byDate[i] > 0) {
-      const value = balance.byDate[i] * byDatePrices[i].yesPrice;
-      totalValue += value;
-      positions.push({
-        marketType: 'by_date',
-        day: i + 1,
-        shares: Math.round(balance.byDate[i] * 10000) / 10000,
-        price: byDatePrices[i].yesPrice,
-        value: Math.round(value * 10000) / 10000,
-      });
+  }
+  
+  return { success: true, ...handleGetRisk(state) };
+}
+
+// ==================== CHANNEL SETTLEMENT ====================
+
+// What a user's resting orders, in every market, would take out of their
+// channel if filled: bids pay from the user's allocation, asks from the CLOB's
+function channelReserved(user) {
+  const reserved = { buy: 0, sell: 0 };
+  for (const state of Object.values(registry.markets)) {
+    for (const order of getUserOrders(state.book, user)) {
+      reserved[order.side] += order.price * order.remaining;
+    }
+  }
+  return reserved;
+}
+
+// Users with an open Yellow session trade out of their channel allocation,
+// less what their resting orders have set aside
+function checkChannel(user, side, amount, channelVersion) {
+  const session = getSession(registry, user);
+  if (!isOpen(session)) return null;
+  return checkVersion(session, channelVersion) ||
+    checkAllocation(session, side, amount, channelReserved(user)[side]);
+}
+
+// What a user pays for an order's immediate fills (buy) or is paid (sell),
+// fees included, plus what a limit order leaves resting at its price
+function orderChannelAmount(state, { dayIndex, side, price = null, shares }) {
+  const { fills, remaining } = previewOrder(state.book, { dayIndex, side, price, shares });
+  const notional = fillsNotional(fills);
+  const fee = notional * state.fees.clob;
+  const immediate = side === 'buy' ? notional + fee : notional - fee;
+  return immediate + (price === null ? 0 : price * remaining);
+}
+
+// Net what each user pays the CLOB over one request (negative: is paid). The
+// taker settles their AMM leg with the CLOB; each book fill has the buyer pay
+// in and the seller paid out, the taker's side carrying the fee.
+function channelPayments(taker, side, ammPaid, fills) {
+  const payments = new Map();
+  const pay = (user, amount) => payments.set(user, (payments.get(user) || 0) + amount);
+  if (ammPaid) pay(taker, side === 'buy' ? ammPaid : -ammPaid);
+  for (const fill of fills) {
+    const notional = fill.price * fill.shares;
+    const buyer = fill.side === 'buy' ? fill.taker : fill.maker;
+    const seller = fill.side === 'buy' ? fill.maker : fill.taker;
+    pay(buyer, notional + (buyer === fill.taker ? fill.fee : 0));
+    pay(seller, -(notional - (seller === fill.taker ? fill.fee : 0)));
+  }
+  return payments;
+}
+
+// Move each payment between the payer's allocations, for users with an open
+// session, and return the taker's update (null without a session). Makers'
+// sessions move with their fills; they read the new version off their
+// positions. The taker's allocation is checked up front and resting orders
+// keep the makers' set aside, so a shortfall here throws, which rolls the
+// whole request back rather than letting an allocation go negative.
+function settleChannels(state, taker, payments) {
+  let stateUpdate = null;
+  for (const [user, amount] of payments) {
+    const session = getSession(registry, user);
+    if (!isOpen(session) || Math.abs(amount) < 1e-9) continue;
+    
+    const side = amount > 0 ? 'buy' : 'sell';
+    const update = applyTrade(session, {
+      user,
+      side,
+      amount: Math.abs(amount),
+      sessionData: { marketId: state.market.id, side, amount: Math.round(Math.abs(amount) * 10000) / 10000 },
+    });
+    if (update.error) throw new Error(`Channel settlement failed for ${user}: ${update.error}`);
+    if (user === taker) stateUpdate = update;
+  }
+  return stateUpdate;
+}
+
+// Add the CLOB's signature to a channel update; the user adds theirs
+async function cosign(stateUpdate) {
+  if (!signStateUpdate) return;
+  try {
+    stateUpdate.sig = [await signStateUpdate(stateUpdate.req)];
+  } catch (err) {
+    stateUpdate.signatureError = err.message;
+  }
+}
+
+// ==================== ORDER BOOK ====================
+
+function formatOrder(order) {
+  return {
+    ...order,
+    shares: Math.round(order.shares * 10000) / 10000,
+    filled: Math.round(order.filled * 10000) / 10000,
+    remaining: Math.round(order.remaining * 10000) / 10000,
+  };
+}
+
+function formatFill(fill) {
+  return {
+    ...fill,
+    shares: Math.round(fill.shares * 10000) / 10000,
+    amount: Math.round(fill.price * fill.shares * 10000) / 10000,
+    fee: Math.round((fill.fee || 0) * 10000) / 10000,
+  };
+}
+
+function validateOrder(state, body, requirePrice) {
+  const { user, dayIndex, side, price, shares } = body;
+  if (!user || dayIndex === undefined || !side || !shares || shares <= 0) {
+    return 'Invalid params: user, dayIndex, side, shares required';
+  }
+  if (side !== 'buy' && side !== 'sell') {
+    return 'Invalid side: must be buy or sell';
+  }
+  if (!isOutcomeIndex(state, dayIndex)) {
+    return 'Invalid dayIndex';
+  }
+  if (requirePrice && (typeof price !== 'number' || price <= 0 || price >= 1)) {
+    return 'Invalid price: must be between 0 and 1';
+  }
+  if (side === 'sell') {
+    const userShares = getUserShares(state, user, [dayIndex]);
+    if (userShares < shares - 0.001) {
+      return `Insufficient shares: have ${userShares}, need ${shares}`;
     }
   }
+  return null;
+}
+
+function fillsNotional(fills) {
+  return fills.reduce((acc, fill) => acc + fill.price * fill.shares, 0);
+}
+
+// Sell orders escrow their shares up front, so only the buyer is credited here.
+// The taker pays the book's fee; resting (maker) orders trade fee-free.
+function settleFills(state, fills) {
+  for (const fill of fills) {
+    const buyer = fill.side === 'buy' ? fill.taker : fill.maker;
+    const seller = fill.side === 'buy' ? fill.maker : fill.taker;
+    const notional = fill.price * fill.shares;
+    updateBalance(state, buyer, [fill.dayIndex], fill.shares);
+    addCostBasis(state, buyer, notional);
+    addCostBasis(state, seller, -notional);
+    fill.fee = chargeFee(state, { user: fill.taker, venue: 'clob', notional }, clock());
+
+    const buyerFee = buyer === fill.taker ? fill.fee : 0;
+    const sellerFee = seller === fill.taker ? fill.fee : 0;
+    recordBuy(ensureUserBalance(state, buyer).ledger, {
+      indices: [fill.dayIndex],
+      shares: fill.shares,
+      cost: notional + buyerFee,
+      fee: buyerFee,
+    });
+    recordSell(ensureUserBalance(state, seller).ledger, {
+      indices: [fill.dayIndex],
+      shares: fill.shares,
+      proceeds: notional - sellerFee,
+      fee: sellerFee,
+    });
+
+    logTrade(state, {
+      user: fill.taker,
+      counterparty: fill.maker,
+      venue: 'clob',
+      type: fill.side,
+      marketType: 'on_date',
+      dayIndex: fill.dayIndex,
+      price: fill.price,
+      amount: notional,
+      fee: fill.fee,
+      shares: fill.shares,
+      orderId: fill.takerOrderId,
+      makerOrderId: fill.makerOrderId,
+    });
+  }
+}
+
+function handleLimitOrder(state, body) {
+  if (state.market.status !== 'open') return { error: 'Market not open' };
+
+  const error = validateOrder(state, body, true);
+  if (error) return { error };
+
+  const { user, dayIndex, side, shares, channelVersion } = body;
+  const price = Math.round(body.price * 10000) / 10000;
+
+  const riskError = guardTrade(state, '/order/limit', {
+    user,
+    notional: price * shares,
+    positions: side === 'buy' ? positionsAfter(state, user, [dayIndex], shares) : [],
+  });
+  if (riskError) return { error: riskError };
+
+  const channelAmount = orderChannelAmount(state, { dayIndex, side, price, shares });
+  const channelError = checkChannel(user, side, channelAmount, channelVersion);
+  if (channelError) return { error: channelError };
+
+  if (side === 'sell') {
+    updateBalance(state, user, [dayIndex], -shares);
+  }
+
+  const { order, fills } = placeLimitOrder(state.book, { user, dayIndex, side, price, shares }, clock());
+  settleFills(state, fills);
+  recordNotional(state.risk, user, fillsNotional(fills), clock());
+  if (fills.length > 0) recordActivity(state, fillsNotional(fills));
+  publishBook(state, dayIndex);
+  const stateUpdate = settleChannels(state, user, channelPayments(user, side, 0, fills));
+
+  return {
+    success: true,
+    order: formatOrder(order),
+    fills: fills.map(formatFill),
+    book: getBookSnapshot(state.book, dayIndex),
+    stateUpdate,
+  };
+}
+
+function handleMarketOrder(state, body) {
+  if (state.market.status !== 'open') return { error: 'Market not open' };
+
+  const error = validateOrder(state, body, false);
+  if (error) return { error };
+
+  const { user, dayIndex, side, shares, channelVersion } = body;
+
+  // Prices are below 1, so `shares` bounds the notional
+  const riskError = guardTrade(state, '/order/market', {
+    user,
+    notional: shares,
+    positions: side === 'buy' ? positionsAfter(state, user, [dayIndex], shares) : [],
+  });
+  if (riskError) return { error: riskError };
+
+  const channelError = checkChannel(user, side, orderChannelAmount(state, { dayIndex, side, shares }), channelVersion);
+  if (channelError) return { error: channelError };
+
+  if (side === 'sell') {
+    updateBalance(state, user, [dayIndex], -shares);
+  }
+
+  const { order, fills } = placeMarketOrder(state.book, { user, dayIndex, side, shares }, clock());
+  settleFills(state, fills);
+  recordNotional(state.risk, user, fillsNotional(fills), clock());
+
+  // Unfilled remainder of a market sell goes back to the seller
+  if (side === 'sell' && order.remaining > 0) {
+    updateBalance(state, user, [dayIndex], order.remaining);
+  }
+  if (fills.length > 0) {
+    recordActivity(state, fillsNotional(fills));
+    publishBook(state, dayIndex);
+  }
+  const stateUpdate = settleChannels(state, user, channelPayments(user, side, 0, fills));
+
+  return {
+    success: true,
+    order: formatOrder(order),
+    fills: fills.map(formatFill),
+    book: getBookSnapshot(state.book, dayIndex),
+    stateUpdate,
+  };
+}
+
+function handleCancelOrder(state, body) {
+  const { user, orderId } = body;
+  if (!user || orderId === undefined) {
+    return { error: 'Invalid params: user, orderId required' };
+  }
+
+  const result = cancelOrder(state.book, Number(orderId), user);
+  if (result.error) return result;
+
+  const { order } = result;
+  if (order.side === 'sell') {
+    updateBalance(state, user, [order.dayIndex], order.remaining);
+  }
+  publishBook(state, order.dayIndex);
+
+  return { success: true, order: formatOrder(order) };
+}
+
+function handleGetBook(state, dayIndex) {
+  if (!isOutcomeIndex(state, dayIndex)) {
+    return { error: 'Invalid dayIndex' };
+  }
+
+  return getBookSnapshot(state.book, dayIndex);
+}
+
+function handleGetOrders(state, address) {
+  return {
+    address,
+    orders: getUserOrders(state.book, address).map(formatOrder),
+  };
+}
+
+// Prices to mark holdings at: the curve while open, the payout once
+// resolved, and none for a void market (which refunds cost basis)
+function markPrices(state) {
+  const settlement = state.settlement;
+  if (!settlement) return getMarketMaker(state).probabilities(state.amm.onDate.quantities);
+  if (settlement.outcome === VOID_OUTCOME) return null;
+  return state.market.outcomes.map((_, i) => (i === settlement.outcome ? 1 : 0));
+}
+
+function handleGetPositions(state, address) {
+  const balance = ensureUserBalance(state, address);
+  const report = ledgerReport(balance.ledger, markPrices(state));
   
-  const session = getSession(marketState, address);
+  // By/between bundles are held as their atomic legs, so every position is
+  // an on_date YES or NO holding. `available` excludes shares escrowed in
+  // sell orders; a NO is available as far as all of its legs are.
+  const noShares = j => report.positions
+    .filter(p => p.position === 'no' && p.outcome !== j)
+    .reduce((acc, p) => acc + p.shares, 0);
+  const available = position => {
+    if (position.position === 'no') {
+      const legs = state.market.outcomes.map((_, j) => j).filter(j => j !== position.outcome);
+      return Math.min(position.shares, getUserShares(state, address, legs));
+    }
+    return Math.max(0, Math.min(position.shares, balance.onDate[position.outcome] - noShares(position.outcome)));
+  };
+  const positions = report.positions.map(position => ({
+    marketType: 'on_date',
+    day: position.outcome + 1,
+    label: state.market.outcomes[position.outcome].label,
+    available: Math.round(available(position) * 10000) / 10000,
+    ...position,
+  }));
+  
+  const settlement = state.settlement;
+  const claimable = settlement && !settlement.claims[address] ? settlement.payouts[address] || 0 : 0;
   
   return {
+    marketId: state.market.id,
     address,
     positions,
-    totalShareValue: Math.round(totalValue * 10000) / 10000,
-    session,
+    totalShareValue: report.value,
+    costBasis: report.costBasis,
+    pnl: {
+      realized: report.realizedPnl,
+      unrealized: report.unrealizedPnl,
+      total: report.totalPnl,
+    },
+    deposited: report.deposited,
+    withdrawn: report.withdrawn,
+    fees: report.fees,
+    claimable: Math.round(claimable * 10000) / 10000,
+    openOrders: getUserOrders(state.book, address).map(formatOrder),
+    collateral: Math.round((registry.collateral[address] || 0) * 10000) / 10000,
+    session: getSession(registry, address),
   };
 }
 
-function handleRegisterSession(body) {
-  if (!marketState) return { error: 'No market exists' };
+const DEFAULT_TRADES_PAGE = 100;
+const MAX_TRADES_PAGE = 1000;
+
+// Full trade history, newest first; page back with `before` (a trade id)
+function handleGetTrades(state, query) {
+  const address = query.address ? normalizeAddress(query.address) : null;
+  const limit = Math.min(Math.max(parseInt(query.limit, 10) || DEFAULT_TRADES_PAGE, 1), MAX_TRADES_PAGE);
+  
+  const matching = address
+    ? state.trades.filter(t => t.user === address || t.counterparty === address)
+    : state.trades;
+  const before = query.before !== undefined ? Number(query.before) : Infinity;
+  const page = matching.filter(t => t.id < before).slice(-limit).reverse();
   
-  const { user, sessionId, userBalance, clobBalance, version } = body;
+  return {
+    marketId: state.market.id,
+    address,
+    total: matching.length,
+    trades: page,
+    nextBefore: page.length === limit ? page[page.length - 1].id : null,
+  };
+}
+
+// Check a session request before it goes to ClearNode: the user has no open
+// session, `createSession` is theirs, with the CLOB, in the channel asset, and
+// it allocates enough to cover the user's resting orders, which settle
+// through the session once it's open
+function checkSessionRequest(body) {
+  const { user } = body;
   if (!user) return { error: 'Missing user address' };
+  if (!openChannel) return { error: 'Channel settlement unavailable' };
+  const existing = getSession(registry, user);
+  if (isOpen(existing)) return { error: `Close channel session ${existing.sessionId} first` };
   
-  setSession(marketState, user, { sessionId, userBalance, clobBalance, version });
-  persist();
+  const balances = parseCreateSession(body.createSession, { user, clobAddress });
+  if (balances.error) return balances;
+  const reserved = channelReserved(user);
+  const error = checkAllocation(balances, 'buy', reserved.buy) || checkAllocation(balances, 'sell', reserved.sell);
+  if (error) return { error: `Resting orders need more than the session allocates: ${error}` };
+  return balances;
+}
+
+// Yellow channel sessions span every market, so they live on the registry.
+// `body` carries the session as ClearNode created it, see openChannelSession.
+function handleRegisterSession(body) {
+  const { user } = body;
+  if (!user) return { error: 'Missing user address' };
+  
+  const result = openSession(getSession(registry, user), { ...body, clobAddress });
+  if (result.error) return result;
+  setSession(registry, user, result.session, clock());
   
-  return { success: true, session: getSession(marketState, user) };
+  return { success: true, session: getSession(registry, user) };
 }
 
-function handleGetState() {
-  if (!marketState) return { error: 'No market exists' };
+// Settle the channel's final allocations and stop trading through it
+function handleCloseSession(body) {
+  const { user, channelVersion } = body;
+  if (!user) return { error: 'Missing user address' };
   
+  const session = getSession(registry, user);
+  if (!isOpen(session)) return { error: 'No open channel session' };
+  const error = checkVersion(session, channelVersion);
+  if (error) return { error };
+  
+  const stateUpdate = closeSession(session, user, clock());
+  
+  return { success: true, session, stateUpdate };
+}
+
+function handleGetState(state) {
   return {
-    market: marketState.market,
+    market: state.market,
     amm: {
-      b: getB(marketState),
-      alpha: marketState.amm.alpha,
-      minB: marketState.amm.minB,
+      type: state.amm.type,
+      b: getB(state),
+      fixedB: state.amm.b,
+      alpha: state.amm.alpha,
+      minB: state.amm.minB,
+      reserves: state.amm.reserves,
+      worstCaseLoss: getMarketMaker(state).worstCaseLoss(),
     },
-    tradeCount: marketState.trades.length,
-    recentTrades: marketState.trades.slice(-10),
+    fees: state.fees,
+    tradeCount: state.trades.length,
+    recentTrades: state.trades.slice(-10),
   };
 }
 
-function handleResolve(body) {
-  if (!marketState) return { error: 'No market exists' };
+// Resolve to a winning day, or `{ outcome: 'void' }` to refund at cost basis
+function handleResolve(state, body) {
+  if (state.market.status !== 'open') return { error: 'Market already resolved' };
   
-  const { winningDay } = body;
-  if (!winningDay || winningDay < 1 || winningDay > NUM_DAYS) {
-    return { error: 'Provide winningDay: 1-28' };
+  const { winningDay, outcome } = body;
+  const isVoid = outcome === VOID_OUTCOME;
+  // winningDay is 1-based; anything but a whole outcome would pay no one
+  if (!isVoid && !(Number.isInteger(winningDay) && isOutcomeIndex(state, winningDay - 1))) {
+    return { error: `Provide winningDay: 1-${numOutcomes(state)}, or outcome: void` };
   }
   
-  const result = resolveMarket(marketState, winningDay);
-  persist();
+  const result = resolveMarket(state, isVoid ? VOID_OUTCOME : winningDay - 1, clock());
+  
+  // Resolution empties every book
+  state.market.outcomes.forEach((_, dayIndex) => publishBook(state, dayIndex));
+  broadcast(state, 'resolution', {
+    resolution: result.resolution,
+    cancelledOrders: result.cancelledOrders,
+  });
+  broadcast(state, 'prices', handlePrices(state));
   
   return { success: true, ...result };
 }
 
+function handleClaim(state, body) {
+  const { user } = body;
+  if (!user) return { error: 'Missing user address' };
+  
+  const result = claimPayout(registry, state, user, clock());
+  if (result.error) return result;
+  
+  return {
+    success: true,
+    payout: Math.round(result.payout * 10000) / 10000,
+    collateral: Math.round(result.collateral * 10000) / 10000,
+  };
+}
+
+// ==================== PRICE HISTORY ====================
+
+function handleGetHistory(state, query) {
+  const { outcome, interval, limit } = query;
+  return getPriceHistory(state, getMarketMaker(state), {
+    outcome: outcome === undefined || outcome === '' ? null : Number(outcome),
+    interval: interval || undefined,
+    limit: Number(limit) > 0 ? Math.floor(Number(limit)) : undefined,
+  });
+}
+
+// ==================== FEES & LIQUIDITY ====================
+
+// Round every number in a (nested) accounting report
+function roundPnl(value) {
+  if (typeof value === 'number') return Math.round(value * 10000) / 10000;
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(roundPnl);
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, roundPnl(v)]));
+}
+
+function handleGetAccounting(state) {
+  const pnl = computePnl(state, getMarketMaker(state));
+
+  return {
+    marketId: state.market.id,
+    feeRates: state.fees,
+    ...roundPnl(pnl),
+    providers: providerReturns(state, pnl.lp.pnl).map(roundPnl),
+    feeLedgerSize: state.accounting.feeLedger.length,
+    recentFees: roundPnl(state.accounting.feeLedger.slice(-10)),
+    history: roundPnl(state.accounting.snapshots),
+  };
+}
+
+function handleLiquidity(state, body, action) {
+  const { provider, amount } = body;
+  if (!provider || typeof amount !== 'number' || amount <= 0) {
+    return { error: 'Invalid params: provider, amount required' };
+  }
+
+  let capital;
+  if (action === 'deposit') {
+    capital = depositLiquidity(state, provider, amount, clock()).capital;
+  } else {
+    const result = withdrawLiquidity(state, provider, amount, getMarketMaker(state));
+    if (result.error) return result;
+    capital = result.provider.capital;
+  }
+  
+  return {
+    success: true,
+    provider,
+    capital: Math.round(capital * 10000) / 10000,
+    lpCapital: Math.round(state.accounting.lpCapital * 10000) / 10000,
+  };
+}
+
+// ==================== MARKETS ====================
+
+// Route names under /api/market that a market id must not shadow
+const RESERVED_IDS = [
+  'prices', 'history', 'state', 'positions', 'trades', 'book', 'orders', 'settlement', 'accounting', 'lp',
+  'quote', 'buy', 'sell', 'order', 'session', 'resolve', 'claim', 'risk',
+];
+
+const MAX_FEE = 0.1;
+
+function positiveOrUndefined(value) {
+  return value === undefined || (typeof value === 'number' && value > 0);
+}
+
+function handleListMarkets() {
+  return {
+    defaultMarketId: registry.defaultMarketId,
+    markets: Object.values(registry.markets).map(state => ({
+      id: state.market.id,
+      title: state.market.title,
+      kind: state.market.kind,
+      outcomes: state.market.outcomes.length,
+      status: state.market.status,
+      marketMaker: state.amm.type,
+      b: getB(state),
+      totalVolume: state.market.totalVolume,
+      source: state.market.source || null,
+    })),
+  };
+}
+
+function handleCreateMarket(body) {
+  const {
+    id, title, kind = 'date', outcomes, initialPrices, events, marketMaker = 'lmsr',
+    b, alpha, minB, initialVolume, ammFee, clobFee, lpFeeShare, riskLimits, source,
+  } = body;
+  
+  if (!id || !/^[a-z0-9-]+$/.test(id)) {
+    return { error: 'Invalid id: use lowercase letters, digits and dashes' };
+  }
+  if (RESERVED_IDS.includes(id)) {
+    return { error: `Market id "${id}" is reserved` };
+  }
+  if (registry.markets[id]) {
+    return { error: `Market ${id} already exists` };
+  }
+  if (!MARKET_KINDS.includes(kind)) {
+    return { error: `Invalid kind: must be one of ${MARKET_KINDS.join(', ')}` };
+  }
+  if (!Array.isArray(outcomes) || outcomes.length < 2) {
+    return { error: 'Provide at least two outcomes' };
+  }
+  if (outcomes.some(o => !(typeof o === 'string' ? o : o && o.label))) {
+    return { error: 'Every outcome needs a label' };
+  }
+  if (initialPrices !== undefined && (
+    !Array.isArray(initialPrices) ||
+    initialPrices.length !== outcomes.length ||
+    initialPrices.some(p => typeof p !== 'number' || p <= 0)
+  )) {
+    return { error: 'initialPrices must be positive and match outcomes' };
+  }
+  if (![b, alpha, minB, initialVolume].every(positiveOrUndefined)) {
+    return { error: 'b, alpha, minB and initialVolume must be positive numbers' };
+  }
+  if (!MARKET_MAKERS.includes(marketMaker)) {
+    return { error: `Invalid marketMaker: must be one of ${MARKET_MAKERS.join(', ')}` };
+  }
+  if (![ammFee, clobFee].every(f => f === undefined || (typeof f === 'number' && f >= 0 && f <= MAX_FEE))) {
+    return { error: `ammFee and clobFee must be between 0 and ${MAX_FEE}` };
+  }
+  if (lpFeeShare !== undefined && (typeof lpFeeShare !== 'number' || lpFeeShare < 0 || lpFeeShare > 1)) {
+    return { error: 'lpFeeShare must be between 0 and 1' };
+  }
+  if (riskLimits !== undefined) {
+    const error = validateLimits(riskLimits);
+    if (error) return { error: `Invalid riskLimits: ${error}` };
+  }
+  if (source !== undefined && !(
+    source && typeof source.platform === 'string' && typeof source.slug === 'string'
+  )) {
+    return { error: 'source must name a platform and slug' };
+  }
+  
+  const prices = initialPrices || outcomes.map(() => 1 / outcomes.length);
+  const pool = createPool(marketMaker, prices, { b, alpha, minB: minB || DEFAULT_MIN_B });
+  if (pool.error) return { error: `Invalid ${marketMaker} market: ${pool.error}` };
+  
+  const state = addMarket(registry, createMarket({
+    id, title, kind, outcomes, initialPrices, events, marketMaker,
+    b, alpha, minB, initialVolume, ammFee, clobFee, lpFeeShare, riskLimits, source,
+  }, clock()));
+  
+  return { success: true, market: state.market, prices: handlePrices(state) };
+}
+
 // ==================== ROUTER ====================
 
+function sendJson(res, result, status) {
+  res.writeHead(status || (result.error ? 400 : 200), { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(result));
+}
+
+function sendServerError(res, err) {
+  console.error('Market API error:', err);
+  res.writeHead(500, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: err.message }));
+}
+
+function routeMarket(state, method, route, data) {
+  if (method === 'GET') {
+    if (route === '/prices') return handlePrices(state);
+    if (route === '/history') return handleGetHistory(state, data);
+    if (route === '/state') return handleGetState(state);
+    if (route === '/settlement') return settlementReport(state);
+    if (route === '/accounting') return handleGetAccounting(state);
+    if (route === '/risk') return handleGetRisk(state);
+    if (route === '/trades') return handleGetTrades(state, data);
+    if (route.startsWith('/positions/')) {
+      return handleGetPositions(state, normalizeAddress(route.slice('/positions/'.length)));
+    }
+    if (route.startsWith('/book/')) {
+      return handleGetBook(state, Number(route.slice('/book/'.length)));
+    }
+    if (route.startsWith('/orders/')) {
+      return handleGetOrders(state, normalizeAddress(route.slice('/orders/'.length)));
+    }
+    return null;
+  }
+  
+  if (method === 'POST') {
+    if (route === '/quote') return handleQuote(state, data);
+    if (route === '/buy') return handleBuy(state, data);
+    if (route === '/sell') return handleSell(state, data);
+    if (route === '/buy/no') return handleBuy(state, data, 'no');
+    if (route === '/sell/no') return handleSell(state, data, 'no');
+    if (route === '/order/limit') return handleLimitOrder(state, data);
+    if (route === '/order/market') return handleMarketOrder(state, data);
+    if (route === '/order/cancel') return handleCancelOrder(state, data);
+    if (route === '/session') return handleRegisterSession(data);
+    if (route === '/session/close') return handleCloseSession(data);
+    if (route === '/resolve') return handleResolve(state, data);
+    if (route === '/claim') return handleClaim(state, data);
+    if (route === '/lp/deposit') return handleLiquidity(state, data, 'deposit');
+    if (route === '/lp/withdraw') return handleLiquidity(state, data, 'withdraw');
+    if (route === '/risk') return handleRisk(state, data);
+  }
+  return null;
+}
+
+// POST routes that only read state, and so are never journaled
+const READ_ONLY_ROUTES = ['/quote'];
+
+// Mark a signed request's nonce used; journaled with the request, so replay
+// rebuilds the nonce store too
+function consumeRequestNonce(route, body) {
+  const field = SIGNER_FIELDS[route];
+  if (field && body.nonce !== undefined) {
+    consumeNonce(registry.nonces, body[field], body.nonce, body.expiry, Math.floor(clock() / 1000));
+  }
+}
+
+// Re-run one journaled request against the current registry, at the time it
+// was first applied
+function applyEntry(entry) {
+  return at(entry.timestamp === undefined ? null : entry.timestamp, () => applyRequest(entry));
+}
+
+function applyRequest({ marketId, route, body }) {
+  consumeRequestNonce(route, body);
+  if (route === '/nonce') {
+    consumeNonce(registry.nonces, body.address, body.nonce, body.expiry, Math.floor(clock() / 1000));
+    return { success: true };
+  }
+  if (route === '/markets') return handleCreateMarket(body);
+  const state = registry.markets[marketId];
+  if (!state) return { error: `Unknown market ${marketId}` };
+  if (route === '/risk/halt') {
+    state.risk.halt = body;
+    return { success: true };
+  }
+  return routeMarket(state, 'POST', route, body);
+}
+
+// Run `fn` against `target` as journal replay does: no signature or risk
+// checks, nothing journaled or broadcast
+function withRegistry(target, fn) {
+  const previous = registry;
+  registry = target;
+  replaying = true;
+  try {
+    return fn();
+  } finally {
+    registry = previous || target;
+    replaying = false;
+  }
+}
+
+// Replay journal entries, in order, onto `target`. Returns the entries that
+// no longer apply cleanly (an audit finding, not a startup failure).
+function replayEntries(target, entries) {
+  return withRegistry(target, () => {
+    const failed = [];
+    for (const entry of entries) {
+      const result = applyEntry(entry);
+      if (!result || result.error) {
+        failed.push({ seq: entry.seq, route: entry.route, error: result ? result.error : 'Unknown route' });
+      }
+    }
+    return failed;
+  });
+}
+
+// Apply one request to `target` the same way and return the handler's
+// result, e.g. to drive the engine from the simulator
+function executeRequest(target, entry) {
+  return withRegistry(target, () => applyEntry(entry) || { error: 'Unknown route' });
+}
+
+// Run a market route, journal it if it mutated state, and reply (after the
+// CLOB co-signs any channel update). False for unknown routes.
+function execute(res, state, method, route, data) {
+  const result = method === 'POST' && !READ_ONLY_ROUTES.includes(route)
+    ? mutate(state.market.id, route, data, () => routeMarket(state, method, route, data))
+    : routeMarket(state, method, route, data);
+  if (!result) return false;
+  
+  if (result.stateUpdate) {
+    cosign(result.stateUpdate).then(() => sendJson(res, result));
+    return true;
+  }
+  sendJson(res, result);
+  return true;
+}
+
+// Run a mutating POST handler at one instant and journal its outcome. If the
+// handler throws part way, undo what it changed.
+function mutate(marketId, route, data, handler) {
+  return at(Date.now(), () => {
+    let result;
+    try {
+      result = handler();
+    } catch (err) {
+      if (store && !replaying) restoreFromJournal(err);
+      throw err;
+    }
+    if (result) journal(marketId, route, data, result);
+    return result;
+  });
+}
+
+// Open the user's app session on ClearNode, then register it at the id,
+// version and allocations ClearNode accepted. Those go into the journaled
+// body, so replay registers the same session without asking ClearNode again.
+function openChannelSession(res, marketId, data) {
+  const fail = error => sendJson(res, mutate(marketId, '/session', data, () => ({ error })));
+  const checked = checkSessionRequest(data);
+  if (checked.error) return fail(checked.error);
+  
+  openChannel(data.createSession)
+    .then(({ sessionId, version }) => {
+      Object.assign(data, { sessionId, version, ...checked });
+      execute(res, registry.markets[marketId], 'POST', '/session', data);
+    }, err => fail(`ClearNode rejected the session: ${err.message}`))
+    .catch(err => sendServerError(res, err));
+}
+
+// Verify a signed request, then run `handler` with the signer's address
+// checksummed (one wallet, one set of balances) and its nonce consumed. The
+// nonce is journaled with the request, or on its own if the request fails.
+function authorized(res, marketId, route, data, handler) {
+  authenticator.authenticate(marketId, route, data, registry.nonces)
+    .then(auth => {
+      if (auth.error) return sendJson(res, { error: auth.error }, auth.status);
+      // Verification is async: an identical request may have landed meanwhile
+      if (isNonceUsed(registry.nonces, auth.address, data.nonce)) {
+        return sendJson(res, { error: 'Nonce already used' }, 401);
+      }
+      data[SIGNER_FIELDS[route]] = auth.address;
+      consumeRequestNonce(route, data);
+      return handler();
+    })
+    .catch(err => sendServerError(res, err));
+  return true;
+}
+
 function createMarketRouter(opts = {}) {
   const path = require('path');
-  statePath = opts.statePath || path.join(__dirname, 'data', 'market-state.json');
+  const statePath = opts.statePath || path.join(__dirname, 'data', 'market-state.json');
+  if (opts.publish) publish = opts.publish;
+  if (opts.signStateUpdate) signStateUpdate = opts.signStateUpdate;
+  if (opts.openChannel) openChannel = opts.openChannel;
+  clobAddress = opts.clobAddress || null;
+  authenticator = createAuthenticator({ admins: opts.admins, chainId: opts.chainId });
   
-  // Load or create market
-  marketState = loadState(statePath);
-  if (!marketState) {
-    console.log('Creating new market...');
-    marketState = createMarket({
-      id: 'us-iran-2026',
-      alpha: 0.04,
-      minB: 150,
-      initialVolume: 1000,
-    });
-    persist();
-    console.log('Market created and initialized from iran.json prices');
-  } else {
-    console.log(`Loaded existing market: ${marketState.market.id} (${marketState.market.status})`);
-  }
+  store = createStore(statePath, { snapshotInterval: opts.snapshotInterval });
+  loadRegistry();
+  store.snapshot(registry);
   
   return function handleMarketRequest(req, res, parsedUrl, body) {
     const url = parsedUrl || req.url;
     const method = req.method;
     
-    let pathname = url;
-    if (url.includes('?')) {
-      pathname = url.split('?')[0];
-    }
+    const [pathname, search = ''] = url.split('?');
     
     if (!pathname.startsWith('/api/market')) return false;
-    const route = pathname.slice('/api/market'.length) || '/';
-    
-    let result;
     
     try {
-      if (method === 'GET') {
-        if (route === '/prices') {
-          result = handlePrices();
-        } else if (route === '/state') {
-          result = handleGetState();
-        } else if (route.startsWith('/positions/')) {
-          const address = route.slice('/positions/'.length);
-          result = handleGetPositions(address);
-        } else {
-          return false;
-        }
-      } else if (method === 'POST') {
-        const data = typeof body === 'string' ? JSON.parse(body) : body;
-        
-        if (route === '/buy') {
-          result = handleBuy(data);
-        } else if (route === '/sell') {
-          result = handleSell(data);
-        } else if (route === '/session') {
-          result = handleRegisterSession(data);
-        } else if (route === '/resolve') {
-          result = handleResolve(data);
-        } else {
-          return false;
+      // GET handlers take the query string, POST handlers the JSON body
+      let data = Object.fromEntries(new URLSearchParams(search));
+      if (method === 'POST') {
+        data = typeof body === 'string' ? JSON.parse(body) : body;
+      }
+      
+      // Registry: /api/markets
+      if (pathname === '/api/markets') {
+        if (method === 'GET') {
+          sendJson(res, handleListMarkets());
+          return true;
         }
-      } else {
-        return false;
+        if (method !== 'POST') return false;
+        return authorized(res, null, '/markets', data, () => {
+          sendJson(res, mutate(null, '/markets', data, () => handleCreateMarket(data)));
+        });
       }
       
-      res.writeHead(result.error ? 400 : 200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(result));
-      return true;
+      // /api/market/:id/<route>, or /api/market/<route> for the default market
+      const route = pathname.slice('/api/market'.length) || '/';
+      const [, first, ...rest] = route.split('/');
+      let state = getMarket(registry);
+      let marketRoute = route;
+      if (first && registry.markets[first]) {
+        state = registry.markets[first];
+        marketRoute = '/' + rest.join('/');
+      }
+      
+      if (method === 'POST' && SIGNER_FIELDS[marketRoute]) {
+        const marketId = state.market.id;
+        return authorized(res, marketId, marketRoute, data, () => {
+          if (marketRoute === '/session') return openChannelSession(res, marketId, data);
+          // Look the market up again: the registry may have been restored
+          // while the signature was being verified
+          execute(res, registry.markets[marketId], method, marketRoute, data);
+        });
+      }
+      return execute(res, state, method, marketRoute, data);
       
     } catch (err) {
-      console.error('Market API error:', err);
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: err.message }));
+      sendServerError(res, err);
       return true;
     }
   };
 }
 
-module.exports = { createMarketRouter, getState };
+// Current prices for the feed's subscribe snapshot; default market if no id
+function getMarketSnapshot(marketId) {
+  const state = marketId ? registry.markets[marketId] : getMarket(registry);
+  return state ? handlePrices(state) : null;
+}
+
+// Snapshot and release the journal, e.g. on shutdown
+function closeMarketStore() {
+  if (store) store.close(registry);
+  store = null;
+}
+
+module.exports = {
+  createMarketRouter,
+  getState,
+  getMarketSnapshot,
+  replayEntries,
+  executeRequest,
+  closeMarketStore,
+};
@@ -0,0 +1,197 @@
+// Request Authentication: EIP-712 signed requests
+//
+// Every mutating POST carries the acting address, a nonce, an expiry (unix
+// seconds) and an EIP-712 signature over them:
+//
+//   { user, ..., nonce, expiry, signature }
+//
+// The signed MarketRequest covers the market, the route (`action`), side and
+// amount for wallet display, and `params`: the canonical JSON of every other
+// body field, so nothing the server acts on can be altered in transit.
+//
+// Nonces are single-use per address and live on the registry (journaled with
+// the request), so a signed request can't be replayed, even across restarts.
+// Expiry is capped, which bounds how long a used nonce must be remembered.
+//
+// Admin routes (resolve, market creation, risk limits) are signed by `admin`,
+// which must be one of the configured admin addresses.
+
+const { verifyTypedData, getAddress, isAddress } = require('viem');
+const { sepolia } = require('viem/chains');
+
+const AUTH_DOMAIN = { name: 'Xiphias Markets', version: '1' };
+
+const REQUEST_TYPES = {
+  MarketRequest: [
+    { name: 'user', type: 'address' },
+    { name: 'marketId', type: 'string' },
+    { name: 'action', type: 'string' },
+    { name: 'side', type: 'string' },
+    { name: 'amount', type: 'string' },
+    { name: 'params', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+  ],
+};
+
+const MAX_EXPIRY = 3600;
+
+// Routes that need a signature, and the body field naming who signs
+const SIGNER_FIELDS = {
+  '/buy': 'user',
+  '/sell': 'user',
+  '/buy/no': 'user',
+  '/sell/no': 'user',
+  '/order/limit': 'user',
+  '/order/market': 'user',
+  '/order/cancel': 'user',
+  '/session': 'user',
+  '/session/close': 'user',
+  '/claim': 'user',
+  '/lp/deposit': 'provider',
+  '/lp/withdraw': 'provider',
+  '/resolve': 'admin',
+  '/markets': 'admin',
+  '/risk': 'admin',
+};
+
+const ADMIN_ROUTES = ['/resolve', '/markets', '/risk'];
+
+const AUTH_FIELDS = ['user', 'provider', 'admin', 'nonce', 'expiry', 'signature'];
+
+// JSON with object keys sorted, so client and server agree byte for byte
+function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// AMM trades sign their route as the side: "buy", "sell", "buy no", "sell no"
+function requestSide(route, body) {
+  if (/^\/(buy|sell)(\/no)?$/.test(route)) return route.slice(1).replace('/', ' ');
+  return body.side || '';
+}
+
+function requestAmount(body) {
+  const amount = body.amount !== undefined ? body.amount : body.shares;
+  return amount === undefined ? '' : String(amount);
+}
+
+// The MarketRequest a body was signed as. `marketId` is null for /markets.
+function requestMessage(marketId, route, body) {
+  const field = SIGNER_FIELDS[route];
+  const params = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!AUTH_FIELDS.includes(key)) params[key] = value;
+  }
+
+  return {
+    user: body[field],
+    marketId: marketId || '',
+    action: route,
+    side: requestSide(route, body),
+    amount: requestAmount(body),
+    params: canonicalJson(params),
+    nonce: BigInt(body.nonce),
+    expiry: BigInt(body.expiry),
+  };
+}
+
+// Balances are keyed by checksummed address; other ids pass through
+function normalizeAddress(address) {
+  return isAddress(address) ? getAddress(address) : address;
+}
+
+// ==================== NONCES ====================
+
+// `nonces` is registry.nonces: address -> { nonce: expiry }
+function isNonceUsed(nonces, address, nonce) {
+  return Boolean(nonces[address] && nonces[address][String(nonce)] !== undefined);
+}
+
+// Expired nonces can't be replayed anyway (their signatures are rejected)
+function consumeNonce(nonces, address, nonce, expiry, now = Math.floor(Date.now() / 1000)) {
+  const used = nonces[address] || {};
+  for (const [key, expiresAt] of Object.entries(used)) {
+    if (expiresAt <= now) delete used[key];
+  }
+  used[String(nonce)] = Number(expiry);
+  nonces[address] = used;
+}
+
+// ==================== VERIFICATION ====================
+
+function createAuthenticator({ admins = [], chainId = sepolia.id, maxExpiry = MAX_EXPIRY } = {}) {
+  const adminSet = new Set(admins.filter(isAddress).map(a => getAddress(a)));
+  const domain = { ...AUTH_DOMAIN, chainId };
+
+  function isAdmin(address) {
+    return adminSet.has(address);
+  }
+
+  // Resolves to { address } with the body's signer field checksummed, or
+  // { error, status } (401 bad signature, 403 not allowed)
+  async function authenticate(marketId, route, body, nonces) {
+    const field = SIGNER_FIELDS[route];
+    if (!field) return { address: null };
+
+    const { nonce, expiry, signature } = body;
+    if (!isAddress(body[field] || '')) {
+      return { error: `Missing or invalid ${field} address`, status: 401 };
+    }
+    if (!signature || nonce === undefined || expiry === undefined) {
+      return { error: 'Signed request required: provide nonce, expiry and signature', status: 401 };
+    }
+    if (!/^\d+$/.test(String(nonce)) || !/^\d+$/.test(String(expiry))) {
+      return { error: 'nonce and expiry must be non-negative integers', status: 401 };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (Number(expiry) <= now) return { error: 'Request expired', status: 401 };
+    if (Number(expiry) > now + maxExpiry) {
+      return { error: `expiry must be within ${maxExpiry}s`, status: 401 };
+    }
+
+    const address = getAddress(body[field]);
+    if (isNonceUsed(nonces, address, nonce)) return { error: 'Nonce already used', status: 401 };
+
+    let valid = false;
+    try {
+      valid = await verifyTypedData({
+        address,
+        domain,
+        types: REQUEST_TYPES,
+        primaryType: 'MarketRequest',
+        message: requestMessage(marketId, route, body),
+        signature,
+      });
+    } catch (err) {
+      valid = false;
+    }
+    if (!valid) return { error: 'Invalid signature', status: 401 };
+
+    if (ADMIN_ROUTES.includes(route) && !isAdmin(address)) {
+      return { error: 'Admin role required', status: 403 };
+    }
+
+    return { address };
+  }
+
+  return { domain, isAdmin, authenticate };
+}
+
+module.exports = {
+  AUTH_DOMAIN,
+  REQUEST_TYPES,
+  SIGNER_FIELDS,
+  ADMIN_ROUTES,
+  canonicalJson,
+  requestMessage,
+  normalizeAddress,
+  isNonceUsed,
+  consumeNonce,
+  createAuthenticator,
+};
@@ -0,0 +1,187 @@
+// Yellow State-Channel Settlement
+//
+// A user trading through a Yellow app session holds a `ytest.usd` allocation
+// against the CLOB's. Every trade moves what the user pays or is paid (fees
+// included) from one allocation to the other and bumps the session version;
+// the resulting `submit_app_state` request is co-signed by the CLOB and the
+// user, and closing the session settles the final allocations with
+// `close_app_session`. The CLOB is the counterparty to AMM trades. Book fills
+// are between two users, so the CLOB sits in the middle: the buyer pays into
+// the CLOB's allocation on the buyer's session and the seller is paid out of
+// it on theirs. An allocation never goes negative: a trade it can't cover is
+// rejected, and resting orders keep what they would pay set aside.
+//
+// A session opens from a `create_app_session` request the user signed: the
+// CLOB checks it, co-signs it and submits it to ClearNode, and the session's
+// id and starting allocations are what ClearNode created from it.
+
+const CHANNEL_ASSET = 'ytest.usd';
+const EPSILON = 1e-9;
+
+function formatAmount(amount) {
+  return String(Math.round(amount * 1e6) / 1e6);
+}
+
+function generateRequestId() {
+  return Math.floor(Math.random() * 2147483647);
+}
+
+// NitroRPC request payload, signed by each participant as `req`
+function createChannelRequest(method, params) {
+  return [generateRequestId(), method, params, Math.floor(Date.now() / 1000)];
+}
+
+function allocations(session, user) {
+  return [
+    { participant: user, asset: CHANNEL_ASSET, amount: formatAmount(session.userBalance) },
+    { participant: session.clobAddress, asset: CHANNEL_ASSET, amount: formatAmount(session.clobBalance) },
+  ];
+}
+
+// Rounding can leave an emptied allocation a hair below zero
+function dust(amount) {
+  return Math.abs(amount) < EPSILON ? 0 : amount;
+}
+
+function isOpen(session) {
+  return Boolean(session && session.status !== 'closed');
+}
+
+function sameAddress(a, b) {
+  return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+// Check a user-signed `create_app_session` request ({ req, sig }) between
+// `user` and the CLOB, and read the starting allocations out of it
+function parseCreateSession(createSession, { user, clobAddress }) {
+  const { req, sig } = createSession || {};
+  if (!Array.isArray(req) || req[1] !== 'create_app_session' || !req[2] || typeof req[2] !== 'object') {
+    return { error: 'createSession.req must be a create_app_session request' };
+  }
+  if (!Array.isArray(sig) || sig.length === 0) {
+    return { error: 'createSession.sig must carry the user\'s signature' };
+  }
+
+  const { definition, allocations: requested } = req[2];
+  const participants = definition && definition.participants;
+  if (!Array.isArray(participants) || participants.length !== 2 ||
+      !participants.some(p => sameAddress(p, user)) || !participants.some(p => sameAddress(p, clobAddress))) {
+    return { error: 'Session participants must be the user and the CLOB' };
+  }
+  if (!Array.isArray(requested) || requested.some(a => !a || a.asset !== CHANNEL_ASSET)) {
+    return { error: `Session allocations must be in ${CHANNEL_ASSET}` };
+  }
+
+  const balances = { userBalance: 0, clobBalance: 0 };
+  for (const allocation of requested) {
+    const amount = Number(allocation.amount);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return { error: 'Session allocations must be non-negative amounts' };
+    }
+    if (sameAddress(allocation.participant, user)) {
+      balances.userBalance += amount;
+    } else if (sameAddress(allocation.participant, clobAddress)) {
+      balances.clobBalance += amount;
+    } else {
+      return { error: 'Session allocations must go to the user and the CLOB' };
+    }
+  }
+  return balances;
+}
+
+// Register the session ClearNode created. Allocations only ever come from its
+// creation, so a session can't be registered twice, and a user closes their
+// open session before opening another.
+function openSession(existing, { sessionId, userBalance, clobBalance, version = 0, clobAddress }) {
+  if (!sessionId) return { error: 'Missing sessionId' };
+  if (![userBalance, clobBalance].every(b => typeof b === 'number' && b >= 0)) {
+    return { error: 'userBalance and clobBalance must be non-negative numbers' };
+  }
+  if (!Number.isInteger(version) || version < 0) {
+    return { error: 'version must be a non-negative integer' };
+  }
+  if (existing && existing.sessionId === sessionId) {
+    return { error: `Session ${sessionId} is already registered${isOpen(existing) ? '' : ' and closed'}` };
+  }
+  if (isOpen(existing)) {
+    return { error: `Close channel session ${existing.sessionId} first` };
+  }
+
+  return {
+    session: {
+      sessionId,
+      asset: CHANNEL_ASSET,
+      userBalance,
+      clobBalance,
+      version,
+      clobAddress: clobAddress || null,
+      status: 'open',
+      closedAt: null,
+    },
+  };
+}
+
+// Trades quote the session version they were built on
+function checkVersion(session, version) {
+  if (version === undefined) {
+    return `Open channel session: provide channelVersion (current ${session.version})`;
+  }
+  if (version !== session.version) {
+    return `Stale channel state: version ${version}, expected ${session.version}`;
+  }
+  return null;
+}
+
+// `side` is the user's side: a buy pays `amount` to the CLOB, a sell is paid
+// it. `reserved` is what the paying allocation already owes resting orders.
+function checkAllocation(session, side, amount, reserved = 0) {
+  const available = (side === 'buy' ? session.userBalance : session.clobBalance) - reserved;
+  if (amount > available + EPSILON) {
+    const who = side === 'buy' ? 'user' : 'CLOB';
+    return `Trade exceeds ${who} channel allocation: ${amount.toFixed(4)} > ${available.toFixed(4)}`;
+  }
+  return null;
+}
+
+// Move `amount` and bump the version, or return { error } if the paying
+// allocation can't cover it; the session is left untouched then
+function applyTrade(session, { user, side, amount, sessionData }) {
+  const error = checkAllocation(session, side, amount);
+  if (error) return { error };
+
+  const delta = side === 'buy' ? -amount : amount;
+  session.userBalance = dust(session.userBalance + delta);
+  session.clobBalance = dust(session.clobBalance - delta);
+  session.version += 1;
+
+  const params = {
+    app_session_id: session.sessionId,
+    intent: 'operate',
+    version: session.version,
+    allocations: allocations(session, user),
+    session_data: JSON.stringify(sessionData),
+  };
+  return { version: session.version, req: createChannelRequest('submit_app_state', params), sig: [] };
+}
+
+function closeSession(session, user, now = Date.now()) {
+  session.status = 'closed';
+  session.closedAt = now;
+
+  const params = {
+    app_session_id: session.sessionId,
+    allocations: allocations(session, user),
+  };
+  return { version: session.version, req: createChannelRequest('close_app_session', params), sig: [] };
+}
+
+module.exports = {
+  CHANNEL_ASSET,
+  isOpen,
+  parseCreateSession,
+  openSession,
+  checkVersion,
+  checkAllocation,
+  applyTrade,
+  closeSession,
+};
@@ -0,0 +1,47 @@
+// Constant-Product Pool for Binary Markets
+//
+// A fixed-product market maker: the pool holds YES and NO reserves whose
+// product stays constant. Collateral paid in mints complete sets into the
+// pool and the bought side is paid out of it, so an outcome's price is the
+// other side's share of the reserves.
+//
+// Written as a cost function over the outstanding shares q, like the LMSR:
+// with opening reserves r the pool holds R_i = r_i + C(q) - q_i, and C(q)
+// solves R_0 * R_1 = r_0 * r_1.
+
+function costFunction(quantities, reserves) {
+  const [r0, r1] = reserves;
+  const a0 = r0 - quantities[0];
+  const a1 = r1 - quantities[1];
+  return (Math.sqrt((a0 - a1) ** 2 + 4 * r0 * r1) - (a0 + a1)) / 2;
+}
+
+function poolReserves(quantities, reserves) {
+  const cost = costFunction(quantities, reserves);
+  return reserves.map((r, i) => r + cost - quantities[i]);
+}
+
+function allPrices(quantities, reserves) {
+  const [yes, no] = poolReserves(quantities, reserves);
+  return [no / (yes + no), yes / (yes + no)];
+}
+
+// Opening reserves pricing the outcomes at `prices`, with their geometric
+// mean (the pool's depth) equal to `liquidity`
+function reservesFromPrices(prices, liquidity) {
+  const [p0, p1] = prices.map(p => Math.max(0.001, p / (prices[0] + prices[1])));
+  return [liquidity * Math.sqrt(p1 / p0), liquidity * Math.sqrt(p0 / p1)];
+}
+
+// A side can pay out at most what it opened with
+function worstCaseLoss(reserves) {
+  return Math.max(...reserves);
+}
+
+module.exports = {
+  costFunction,
+  poolReserves,
+  allPrices,
+  reservesFromPrices,
+  worstCaseLoss,
+};
@@ -0,0 +1,137 @@
+// Public WebSocket Market Feed
+//
+// Clients subscribe per market and receive price updates, trades, order book
+// changes and resolution events as they happen, instead of polling HTTP.
+//
+// Client -> server:
+//   { type: 'subscribe', marketId?, channels? }   (default market, all channels)
+//   { type: 'unsubscribe', marketId? }
+//   { type: 'ping' }
+// Server -> client:
+//   { type: 'subscribed', marketId, channels }, then a 'snapshot' of prices
+//   { type: <channel>, marketId, data, timestamp }
+//   { type: 'error', error }
+
+const WebSocket = require('ws');
+
+const CHANNELS = ['prices', 'trades', 'book', 'resolution'];
+const HEARTBEAT_INTERVAL = 30000;
+
+function send(ws, message) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws, error) {
+  send(ws, { type: 'error', error });
+}
+
+// `getSnapshot(marketId)` returns a market's current prices (with its
+// canonical marketId), or null for unknown markets.
+function createMarketFeed({ server, path = '/ws', getSnapshot }) {
+  const wss = new WebSocket.Server({ server, path });
+  const subscriptions = new Map(); // ws -> Map<marketId, Set<channel>>
+
+  function subscribe(ws, { marketId, channels = CHANNELS }) {
+    const snapshot = getSnapshot(marketId);
+    if (!snapshot) {
+      return sendError(ws, `Unknown market: ${marketId}`);
+    }
+    if (!Array.isArray(channels) || channels.some(c => !CHANNELS.includes(c))) {
+      return sendError(ws, `Invalid channels: use ${CHANNELS.join(', ')}`);
+    }
+
+    subscriptions.get(ws).set(snapshot.marketId, new Set(channels));
+    send(ws, { type: 'subscribed', marketId: snapshot.marketId, channels });
+    send(ws, { type: 'snapshot', marketId: snapshot.marketId, data: snapshot, timestamp: Date.now() });
+  }
+
+  function unsubscribe(ws, { marketId }) {
+    const snapshot = getSnapshot(marketId);
+    const id = snapshot ? snapshot.marketId : marketId;
+    subscriptions.get(ws).delete(id);
+    send(ws, { type: 'unsubscribed', marketId: id });
+  }
+
+  function handleMessage(ws, raw) {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (error) {
+      return sendError(ws, 'Invalid JSON');
+    }
+    // `null`, numbers, strings and arrays are all valid JSON
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      return sendError(ws, 'Message must be a JSON object');
+    }
+
+    switch (message.type) {
+      case 'subscribe':
+        return subscribe(ws, message);
+      case 'unsubscribe':
+        return unsubscribe(ws, message);
+      case 'ping':
+        return send(ws, { type: 'pong', timestamp: Date.now() });
+      default:
+        return sendError(ws, `Unknown message type: ${message.type}`);
+    }
+  }
+
+  wss.on('connection', (ws) => {
+    subscriptions.set(ws, new Map());
+    ws.isAlive = true;
+
+    ws.on('pong', () => { ws.isAlive = true; });
+
+    // A bad frame only ever gets an error back on its own socket
+    ws.on('message', (raw) => {
+      try {
+        handleMessage(ws, raw);
+      } catch (error) {
+        console.error('[feed] Message handler failed:', error);
+        sendError(ws, 'Internal error');
+      }
+    });
+
+    ws.on('close', () => subscriptions.delete(ws));
+  });
+
+  // Drop clients that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  function publish(marketId, channel, data) {
+    const message = { type: channel, marketId, data, timestamp: Date.now() };
+    for (const [ws, markets] of subscriptions) {
+      const channels = markets.get(marketId);
+      if (channels && channels.has(channel)) send(ws, message);
+    }
+  }
+
+  function close() {
+    for (const ws of wss.clients) ws.terminate();
+    wss.close();
+  }
+
+  return {
+    publish,
+    close,
+    clientCount: () => wss.clients.size,
+  };
+}
+
+module.exports = {
+  CHANNELS,
+  createMarketFeed,
+};
@@ -0,0 +1,114 @@
+// Price History and OHLC Candles
+//
+// After every trade the market's outcome prices are snapshotted, so charts
+// can be drawn from real market movement. Candles bucket those snapshots by
+// interval; a bucket's open is the previous bucket's close so the series has
+// no gaps between trades.
+
+const MAX_PRICE_SNAPSHOTS = 10000;
+const DEFAULT_CANDLE_LIMIT = 500;
+
+const INTERVALS = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+function round(value) {
+  return Math.round(value * 10000) / 10000;
+}
+
+// `maker` is the market's bound market maker; `volume` is the collateral
+// traded since the previous snapshot
+function recordPrices(state, maker, volume = 0, now = Date.now()) {
+  state.priceHistory.push({
+    timestamp: now,
+    prices: maker.probabilities(state.amm.onDate.quantities).map(round),
+    volume: round(volume),
+  });
+
+  if (state.priceHistory.length > MAX_PRICE_SNAPSHOTS) {
+    state.priceHistory = state.priceHistory.slice(-MAX_PRICE_SNAPSHOTS);
+  }
+}
+
+// Opening prices, so the first candle starts where the market did
+function seedPriceHistory(state, maker, now = Date.now()) {
+  if (state.priceHistory.length === 0) recordPrices(state, maker, 0, now);
+}
+
+function buildCandles(snapshots, outcome, intervalMs) {
+  const candles = [];
+  let lastClose = null;
+
+  for (const snapshot of snapshots) {
+    const price = snapshot.prices[outcome];
+    const bucket = Math.floor(snapshot.timestamp / intervalMs) * intervalMs;
+    let candle = candles[candles.length - 1];
+
+    if (!candle || candle.timestamp !== bucket) {
+      const open = lastClose === null ? price : lastClose;
+      candle = {
+        timestamp: bucket,
+        open,
+        high: Math.max(open, price),
+        low: Math.min(open, price),
+        close: price,
+        volume: 0,
+        trades: 0,
+      };
+      candles.push(candle);
+    }
+
+    candle.high = Math.max(candle.high, price);
+    candle.low = Math.min(candle.low, price);
+    candle.close = price;
+    candle.volume = round(candle.volume + (snapshot.volume || 0));
+    if (snapshot.volume > 0) candle.trades += 1;
+    lastClose = price;
+  }
+
+  return candles;
+}
+
+// `outcome` limits the series to one outcome index; otherwise every outcome
+// is returned. The probability curve is each candle's closing price.
+function getPriceHistory(state, maker, { outcome = null, interval = '1h', limit = DEFAULT_CANDLE_LIMIT } = {}) {
+  const intervalMs = INTERVALS[interval];
+  if (!intervalMs) {
+    return { error: `Invalid interval: use one of ${Object.keys(INTERVALS).join(', ')}` };
+  }
+  if (outcome !== null && (!Number.isInteger(outcome) || !state.market.outcomes[outcome])) {
+    return { error: `Invalid outcome: must be 0-${state.market.outcomes.length - 1}` };
+  }
+
+  seedPriceHistory(state, maker);
+  const snapshots = state.priceHistory;
+  const outcomes = outcome === null ? state.market.outcomes : [state.market.outcomes[outcome]];
+
+  return {
+    marketId: state.market.id,
+    interval,
+    from: snapshots[0].timestamp,
+    to: snapshots[snapshots.length - 1].timestamp,
+    series: outcomes.map(({ index, label }) => {
+      const candles = buildCandles(snapshots, index, intervalMs).slice(-limit);
+      return {
+        outcome: index,
+        label,
+        candles,
+        curve: candles.map(c => ({ timestamp: c.timestamp, price: c.close })),
+      };
+    }),
+  };
+}
+
+module.exports = {
+  INTERVALS,
+  recordPrices,
+  seedPriceHistory,
+  getPriceHistory,
+};
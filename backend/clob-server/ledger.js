@@ -0,0 +1,181 @@
+// Per-User Position Ledger
+//
+// A balance's `onDate` shares are what the user can trade right now (sell
+// orders escrow shares out of them). Its ledger tracks what the user owns and
+// what it cost: shares per outcome, escrowed ones included, with their cost
+// basis, plus the collateral paid in and taken out, fees, and the P&L
+// realised on sells and claims.
+//
+// Cost basis is average cost per outcome and includes fees. A bundle's cost
+// is split across its legs by their prices when it was bought.
+//
+// A NO on outcome k is held as its legs, every other outcome; `no` on outcome
+// k counts the shares bought that way so they can be reported as one NO
+// position. Legs sold one at a time break the bundle up again.
+
+const EPSILON = 1e-9;
+
+function createLedger(numOutcomes) {
+  return {
+    outcomes: Array.from({ length: numOutcomes }, () => ({ shares: 0, cost: 0, no: 0 })),
+    deposited: 0, // collateral paid in for buys, fees included
+    withdrawn: 0, // sell proceeds after fees, and claimed payouts
+    fees: 0,
+    realizedPnl: 0,
+  };
+}
+
+// Balances from before the ledger: holdings (escrow included) start at the
+// net cost basis, split by share count; nothing is realised yet
+function upgradeLedger(balance, escrowed) {
+  const ledger = createLedger(balance.onDate.length);
+  const owned = balance.onDate.map((shares, i) => shares + (escrowed[i] || 0));
+  const totalShares = owned.reduce((acc, shares) => acc + shares, 0);
+  const costBasis = Math.max(0, balance.costBasis || 0);
+
+  owned.forEach((shares, i) => {
+    ledger.outcomes[i].shares = shares;
+    ledger.outcomes[i].cost = totalShares > 0 ? costBasis * shares / totalShares : 0;
+  });
+  ledger.deposited = costBasis;
+  balance.ledger = ledger;
+  return ledger;
+}
+
+// `prices` weights the cost across a bundle's legs; equal split without them.
+// `noOutcome` marks the bundle as a NO on that outcome.
+function recordBuy(ledger, { indices, shares, cost, fee = 0, prices = null, noOutcome = null }) {
+  const weight = i => (prices ? prices[i] : 1);
+  const totalWeight = indices.reduce((acc, i) => acc + weight(i), 0);
+
+  for (const i of indices) {
+    const split = totalWeight > 0 ? weight(i) / totalWeight : 1 / indices.length;
+    ledger.outcomes[i].shares += shares;
+    ledger.outcomes[i].cost += cost * split;
+  }
+  if (noOutcome !== null) ledger.outcomes[noOutcome].no += shares;
+  ledger.deposited += cost;
+  ledger.fees += fee;
+}
+
+// The sold shares' average cost leaves the basis; the rest of the proceeds
+// is realised
+function recordSell(ledger, { indices, shares, proceeds, fee = 0, noOutcome = null }) {
+  let released = 0;
+  for (const i of indices) {
+    const position = ledger.outcomes[i];
+    const sold = Math.min(shares, position.shares);
+    const cost = position.shares > EPSILON ? position.cost * sold / position.shares : 0;
+    position.shares -= sold;
+    position.cost -= cost;
+    released += cost;
+    if (position.shares < EPSILON) {
+      position.shares = 0;
+      position.cost = 0;
+    }
+  }
+  if (noOutcome !== null) {
+    const position = ledger.outcomes[noOutcome];
+    position.no = Math.max(0, position.no - shares);
+  }
+  ledger.withdrawn += proceeds;
+  ledger.fees += fee;
+  ledger.realizedPnl += proceeds - released;
+}
+
+// Claiming redeems every holding, winning or not
+function recordClaim(ledger, payout) {
+  const released = ledger.outcomes.reduce((acc, position) => acc + position.cost, 0);
+  for (const position of ledger.outcomes) {
+    position.shares = 0;
+    position.cost = 0;
+    position.no = 0;
+  }
+  ledger.withdrawn += payout;
+  ledger.realizedPnl += payout - released;
+}
+
+function round(value) {
+  return Math.round(value * 10000) / 10000;
+}
+
+// NO shares per outcome still backed by their legs: where the NOs claim more
+// of an outcome than is held, they're scaled down to what is
+function heldNoShares(ledger) {
+  const no = ledger.outcomes.map(position => position.no);
+  ledger.outcomes.forEach((position, j) => {
+    const claimed = no.reduce((acc, shares, k) => (k === j ? acc : acc + shares), 0);
+    if (claimed <= position.shares + EPSILON) return;
+    const scale = position.shares / claimed;
+    no.forEach((shares, k) => {
+      if (k !== j) no[k] = shares * scale;
+    });
+  });
+  return no;
+}
+
+// Mark holdings to `prices` (one per outcome), or at cost when prices are
+// null (a void market refunds cost basis). Legs held as NOs are reported as
+// NO positions, priced as the sum of their legs.
+function ledgerReport(ledger, prices) {
+  const positions = [];
+  let costBasis = 0;
+  let value = 0;
+
+  const avgCost = i => {
+    const position = ledger.outcomes[i];
+    return position.shares > EPSILON ? position.cost / position.shares : 0;
+  };
+  const priceOf = i => (prices ? prices[i] : avgCost(i));
+  const no = heldNoShares(ledger);
+
+  function addPosition(outcome, side, shares, cost, price) {
+    if (shares <= EPSILON) return;
+    const positionValue = shares * price;
+    costBasis += cost;
+    value += positionValue;
+    positions.push({
+      outcome,
+      position: side,
+      shares: round(shares),
+      avgCost: round(cost / shares),
+      costBasis: round(cost),
+      price: round(price),
+      value: round(positionValue),
+      unrealizedPnl: round(positionValue - cost),
+    });
+  }
+
+  ledger.outcomes.forEach((position, i) => {
+    const asNo = no.reduce((acc, shares, k) => (k === i ? acc : acc + shares), 0);
+    const shares = position.shares - asNo;
+    addPosition(i, 'yes', shares, avgCost(i) * shares, priceOf(i));
+  });
+  no.forEach((shares, k) => {
+    const legs = ledger.outcomes.map((_, j) => j).filter(j => j !== k);
+    const cost = legs.reduce((acc, j) => acc + avgCost(j), 0) * shares;
+    const price = legs.reduce((acc, j) => acc + priceOf(j), 0);
+    addPosition(k, 'no', shares, cost, price);
+  });
+
+  return {
+    positions,
+    costBasis: round(costBasis),
+    value: round(value),
+    unrealizedPnl: round(value - costBasis),
+    realizedPnl: round(ledger.realizedPnl),
+    totalPnl: round(value - costBasis + ledger.realizedPnl),
+    deposited: round(ledger.deposited),
+    withdrawn: round(ledger.withdrawn),
+    fees: round(ledger.fees),
+  };
+}
+
+module.exports = {
+  createLedger,
+  upgradeLedger,
+  recordBuy,
+  recordSell,
+  recordClaim,
+  ledgerReport,
+};
@@ -1,7 +1,5 @@
 // LMSR (Logarithmic Market Scoring Rule) Pricing Engine
 
-const NUM_DAYS = 28; // February 2026
-
 // Log-sum-exp for numerical stability
 function logSumExp(values) {
   const max = Math.max(...values);
@@ -22,8 +20,11 @@ function allDayPrices(quantities, b) {
 }
 
 function getAllPrices(quantities, b, marketType = 'on_date') {
-  const dayPrices = allDayPrices(quantities, b);
-  
+  return formatPrices(allDayPrices(quantities, b), marketType);
+}
+
+// Display prices for each outcome's question, from per-outcome probabilities
+function formatPrices(dayPrices, marketType = 'on_date') {
   if (marketType === 'on_date') {
     return dayPrices.map((yesPrice, idx) => ({
       day: idx + 1,
@@ -56,15 +57,38 @@ function dynamicB(alpha, totalVolume, minB) {
   return Math.max(minB, alpha * totalVolume);
 }
 
-function sharesForBudget(quantities, dayIndex, b, budget, isBuy = true) {
+// Atomic outcomes covered by a question: "on" is a single day, "by" is every
+// day up to and including it, "between" is an inclusive range.
+function bundleIndices(marketType, dayIndex, endIndex) {
+  if (marketType === 'on_date') return [dayIndex];
+  const from = marketType === 'by_date' ? 0 : dayIndex;
+  const to = marketType === 'by_date' ? dayIndex : endIndex;
+  const indices = [];
+  for (let i = from; i <= to; i++) indices.push(i);
+  return indices;
+}
+
+function bundleVector(length, indices, shares) {
+  const delta = new Array(length).fill(0);
+  for (const i of indices) delta[i] = shares;
+  return delta;
+}
+
+function bundlePrice(quantities, indices, b) {
+  const prices = allDayPrices(quantities, b);
+  return indices.reduce((acc, i) => acc + prices[i], 0);
+}
+
+// `index` may be a single outcome or an array of outcomes bought as a bundle
+function sharesForBudget(quantities, index, b, budget, isBuy = true) {
+  const indices = Array.isArray(index) ? index : [index];
   const direction = isBuy ? 1 : -1;
   let low = 0;
   let high = budget * 100; // Upper bound on shares
   
   for (let iter = 0; iter < 50; iter++) {
     const mid = (low + high) / 2;
-    const delta = new Array(quantities.length).fill(0);
-    delta[dayIndex] = mid * direction;
+    const delta = bundleVector(quantities.length, indices, mid * direction);
     const cost = tradeCost(quantities, delta, b);
     
     if (Math.abs(cost - budget) < 0.0001) {
@@ -81,6 +105,14 @@ function sharesForBudget(quantities, dayIndex, b, budget, isBuy = true) {
   return (low + high) / 2;
 }
 
+// Signed share delta on one outcome that moves its price to targetPrice.
+// Closed form: the outcome's logit moves by delta / b.
+function sharesToPrice(quantities, index, b, targetPrice) {
+  const price = allDayPrices(quantities, b)[index];
+  const logit = p => Math.log(p / (1 - p));
+  return b * (logit(targetPrice) - logit(price));
+}
+
 function quantitiesFromPrices(prices, b) {
   const sum = prices.reduce((a, b) => a + b, 0);
   const normalized = prices.map(p => Math.max(0.001, p / sum));
@@ -92,12 +124,17 @@ function quantitiesFromPrices(prices, b) {
 }
 
 module.exports = {
-  NUM_DAYS,
+  logSumExp,
   costFunction,
   allDayPrices,
   getAllPrices,
+  formatPrices,
   tradeCost,
   dynamicB,
+  bundleIndices,
+  bundleVector,
+  bundlePrice,
   sharesForBudget,
+  sharesToPrice,
   quantitiesFromPrices,
 };
@@ -0,0 +1,59 @@
+// LS-LMSR (Liquidity-Sensitive LMSR) Pricing Engine
+//
+// Othman et al.: b grows with the shares outstanding, b(q) = alpha * sum(q),
+// so the market deepens as it trades instead of b being scaled from volume by
+// hand (which is what dynamicB approximates). Prices carry a small vig: they
+// sum to slightly more than 1. Quantities must stay positive.
+
+const { logSumExp } = require('./lmsr');
+
+function liquidity(quantities, alpha) {
+  return alpha * quantities.reduce((acc, q) => acc + q, 0);
+}
+
+function costFunction(quantities, alpha) {
+  const b = liquidity(quantities, alpha);
+  return b * logSumExp(quantities.map(q => q / b));
+}
+
+// dC/dq_i = alpha * lse + w_i - sum(w_j * q_j) / sum(q), w the LMSR weights
+function allPrices(quantities, alpha) {
+  const b = liquidity(quantities, alpha);
+  const total = b / alpha;
+  const scaled = quantities.map(q => q / b);
+  const lse = logSumExp(scaled);
+  const weights = scaled.map(s => Math.exp(s - lse));
+  const weighted = weights.reduce((acc, w, i) => acc + w * quantities[i], 0);
+  return weights.map(w => alpha * lse + w - weighted / total);
+}
+
+// The paper's choice for a target vig across n outcomes
+function alphaForVig(vig, n) {
+  return vig / (n * Math.log(n));
+}
+
+// Opening quantities with b(q) = b0 whose LMSR weights are `prices`, or null
+// if alpha is too large for them (some quantity would not be positive)
+function quantitiesFromPrices(prices, alpha, b0) {
+  const sum = prices.reduce((a, b) => a + b, 0);
+  const logPrices = prices.map(p => Math.log(Math.max(0.001, p / sum)));
+  const avgLog = logPrices.reduce((a, b) => a + b, 0) / logPrices.length;
+  const offset = 1 / (prices.length * alpha);
+
+  const quantities = logPrices.map(lp => b0 * (lp - avgLog + offset));
+  return quantities.every(q => q > 0) ? quantities : null;
+}
+
+// C(q) >= max(q), so paying out any outcome costs at most C(q0) - min(q0)
+function worstCaseLoss(initialQuantities, alpha) {
+  return costFunction(initialQuantities, alpha) - Math.min(...initialQuantities);
+}
+
+module.exports = {
+  liquidity,
+  costFunction,
+  allPrices,
+  alphaForVig,
+  quantitiesFromPrices,
+  worstCaseLoss,
+};
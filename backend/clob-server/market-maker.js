@@ -0,0 +1,155 @@
+// Market Makers: pluggable cost-function AMMs
+//
+// A market prices its atomic outcomes with one cost function C(q) over the
+// shares outstanding: a trade delta costs C(q + delta) - C(q), and outcome i's
+// marginal price is dC/dq_i. Market makers, chosen per market at creation:
+//   lmsr      LMSR with a fixed b, or b scaled with volume (dynamicB)
+//   ls-lmsr   liquidity-sensitive LMSR, b(q) = alpha * sum(q)
+//   cpmm      constant-product pool, binary markets only
+//
+// getMarketMaker(state) binds a market's engine to its current parameters;
+// the router, accounting and price history only use that interface.
+
+const lmsr = require('./lmsr');
+const lsLmsr = require('./ls-lmsr');
+const cpmm = require('./cpmm');
+
+const MARKET_MAKERS = ['lmsr', 'ls-lmsr', 'cpmm'];
+const DEFAULT_LS_VIG = 0.05;
+
+const ENGINES = {
+  lmsr: {
+    params: state => ({
+      b: state.amm.b || lmsr.dynamicB(state.amm.alpha, state.market.totalVolume, state.amm.minB),
+    }),
+    liquidity: (q, { b }) => b,
+    cost: (q, { b }) => lmsr.costFunction(q, b),
+    prices: (q, { b }) => lmsr.allDayPrices(q, b),
+    sharesForBudget: (q, indices, budget, { b }) => lmsr.sharesForBudget(q, indices, b, budget),
+    sharesToPrice: (q, index, target, { b }) => lmsr.sharesToPrice(q, index, b, target),
+    worstCaseLoss: ({ b }, n) => b * Math.log(n),
+  },
+  'ls-lmsr': {
+    params: state => ({ alpha: state.amm.alpha, initialQuantities: state.amm.initialQuantities }),
+    liquidity: (q, { alpha }) => lsLmsr.liquidity(q, alpha),
+    cost: (q, { alpha }) => lsLmsr.costFunction(q, alpha),
+    prices: (q, { alpha }) => lsLmsr.allPrices(q, alpha),
+    worstCaseLoss: ({ alpha, initialQuantities }) => lsLmsr.worstCaseLoss(initialQuantities, alpha),
+  },
+  cpmm: {
+    params: state => ({ reserves: state.amm.reserves }),
+    liquidity: (q, { reserves }) => Math.sqrt(reserves[0] * reserves[1]),
+    cost: (q, { reserves }) => cpmm.costFunction(q, reserves),
+    prices: (q, { reserves }) => cpmm.allPrices(q, reserves),
+    worstCaseLoss: ({ reserves }) => cpmm.worstCaseLoss(reserves),
+  },
+};
+
+function withDelta(quantities, index, delta) {
+  const next = quantities.slice();
+  next[index] += delta;
+  return next;
+}
+
+// Signed shares of one outcome that move its price to `target`, by bisection:
+// an outcome's price rises with its own quantity
+function solveSharesToPrice(prices, quantities, index, target) {
+  const priceAt = delta => prices(withDelta(quantities, index, delta))[index];
+  let low = -1;
+  let high = 1;
+  for (let i = 0; i < 60 && priceAt(low) > target; i++) low *= 2;
+  for (let i = 0; i < 60 && priceAt(high) < target; i++) high *= 2;
+
+  for (let iter = 0; iter < 100; iter++) {
+    const mid = (low + high) / 2;
+    if (priceAt(mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function getMarketMaker(state) {
+  const type = state.amm.type || 'lmsr';
+  const engine = ENGINES[type];
+  const params = engine.params(state);
+  const numOutcomes = state.market.outcomes.length;
+
+  const cost = q => engine.cost(q, params);
+  const prices = q => engine.prices(q, params);
+  const tradeCost = (q, delta) => cost(q.map((x, i) => x + (delta[i] || 0))) - cost(q);
+  const bundlePrice = (q, indices) => {
+    const p = prices(q);
+    return indices.reduce((acc, i) => acc + p[i], 0);
+  };
+
+  // Shares of the bundle `indices` that `budget` buys
+  function solveSharesForBudget(q, indices, budget) {
+    const costOf = shares => tradeCost(q, lmsr.bundleVector(q.length, indices, shares));
+    let low = 0;
+    let high = budget / Math.max(bundlePrice(q, indices), 1e-6);
+    for (let i = 0; i < 60 && costOf(high) < budget; i++) high *= 2;
+
+    for (let iter = 0; iter < 60; iter++) {
+      const mid = (low + high) / 2;
+      const spent = costOf(mid);
+      if (Math.abs(spent - budget) < 0.0001) return mid;
+      if (spent < budget) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return (low + high) / 2;
+  }
+
+  return {
+    type,
+    params,
+    liquidity: engine.liquidity(state.amm.onDate.quantities, params),
+    cost,
+    prices,
+    // Marginal prices scaled to sum to 1 (LS-LMSR prices carry a vig)
+    probabilities: q => {
+      const p = prices(q);
+      const total = p.reduce((acc, x) => acc + x, 0);
+      return p.map(x => x / total);
+    },
+    tradeCost,
+    bundlePrice,
+    sharesForBudget: (q, indices, budget) => (engine.sharesForBudget
+      ? engine.sharesForBudget(q, indices, budget, params)
+      : solveSharesForBudget(q, indices, budget)),
+    sharesToPrice: (q, index, target) => (engine.sharesToPrice
+      ? engine.sharesToPrice(q, index, target, params)
+      : solveSharesToPrice(prices, q, index, target)),
+    worstCaseLoss: () => engine.worstCaseLoss(params, numOutcomes),
+  };
+}
+
+// Opening quantities (and engine parameters) pricing a new market's outcomes
+// at `prices`, or { error } when the engine can't
+function createPool(type, prices, { b = null, alpha = null, minB }) {
+  if (type === 'lmsr') {
+    return { quantities: lmsr.quantitiesFromPrices(prices, b || minB) };
+  }
+  if (type === 'ls-lmsr') {
+    const lsAlpha = alpha || lsLmsr.alphaForVig(DEFAULT_LS_VIG, prices.length);
+    const quantities = lsLmsr.quantitiesFromPrices(prices, lsAlpha, b || minB);
+    if (!quantities) return { error: `alpha ${lsAlpha} is too large for these prices` };
+    return { quantities, alpha: lsAlpha };
+  }
+  if (type === 'cpmm') {
+    if (prices.length !== 2) return { error: 'cpmm markets need exactly two outcomes' };
+    return { quantities: [0, 0], reserves: cpmm.reservesFromPrices(prices, b || minB) };
+  }
+  return { error: `Unknown marketMaker ${type}: use ${MARKET_MAKERS.join(', ')}` };
+}
+
+module.exports = {
+  MARKET_MAKERS,
+  getMarketMaker,
+  createPool,
+};
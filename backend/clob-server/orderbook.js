@@ -0,0 +1,231 @@
+// Central Limit Order Book (price-time priority, one book per atomic outcome)
+
+const EPSILON = 1e-9;
+
+// ==================== BOOK STRUCTURE ====================
+
+function createBook(numOutcomes) {
+  return {
+    nextOrderId: 1,
+    outcomes: Array.from({ length: numOutcomes }, () => ({ bids: [], asks: [] })),
+  };
+}
+
+// Best bid first: highest price, then oldest order
+function compareBids(a, b) {
+  return b.price - a.price || a.id - b.id;
+}
+
+// Best ask first: lowest price, then oldest order
+function compareAsks(a, b) {
+  return a.price - b.price || a.id - b.id;
+}
+
+function insertOrder(levels, order, compare) {
+  let idx = levels.findIndex(existing => compare(order, existing) < 0);
+  if (idx === -1) idx = levels.length;
+  levels.splice(idx, 0, order);
+}
+
+function getOutcomeBook(book, dayIndex) {
+  return book.outcomes[dayIndex] || null;
+}
+
+function bestBid(book, dayIndex) {
+  const outcome = getOutcomeBook(book, dayIndex);
+  return outcome && outcome.bids.length > 0 ? outcome.bids[0] : null;
+}
+
+function bestAsk(book, dayIndex) {
+  const outcome = getOutcomeBook(book, dayIndex);
+  return outcome && outcome.asks.length > 0 ? outcome.asks[0] : null;
+}
+
+// ==================== MATCHING ====================
+
+function crosses(order, resting) {
+  if (order.price === null) return true; // market order
+  return order.side === 'buy'
+    ? resting.price <= order.price + EPSILON
+    : resting.price >= order.price - EPSILON;
+}
+
+// Fill an incoming order against the opposite side of the book.
+// Resting orders always trade at their own price.
+function matchOrder(book, order) {
+  const outcome = getOutcomeBook(book, order.dayIndex);
+  const opposite = order.side === 'buy' ? outcome.asks : outcome.bids;
+  const fills = [];
+
+  while (order.remaining > EPSILON && opposite.length > 0) {
+    const resting = opposite[0];
+    if (!crosses(order, resting)) break;
+
+    const shares = Math.min(order.remaining, resting.remaining);
+    order.remaining -= shares;
+    order.filled += shares;
+    resting.remaining -= shares;
+    resting.filled += shares;
+
+    fills.push({
+      makerOrderId: resting.id,
+      maker: resting.user,
+      takerOrderId: order.id,
+      taker: order.user,
+      side: order.side,
+      dayIndex: order.dayIndex,
+      price: resting.price,
+      shares,
+    });
+
+    if (resting.remaining <= EPSILON) {
+      resting.remaining = 0;
+      resting.status = 'filled';
+      opposite.shift();
+    }
+  }
+
+  if (order.remaining <= EPSILON) {
+    order.remaining = 0;
+  }
+
+  return fills;
+}
+
+// The fills an order would get right now, without touching the book. `price`
+// null is a market order; `remaining` is what would rest (or be cancelled).
+function previewOrder(book, { dayIndex, side, price = null, shares }) {
+  const outcome = getOutcomeBook(book, dayIndex);
+  const opposite = side === 'buy' ? outcome.asks : outcome.bids;
+  const fills = [];
+  let remaining = shares;
+
+  for (const resting of opposite) {
+    if (remaining <= EPSILON || !crosses({ side, price }, resting)) break;
+    const filled = Math.min(remaining, resting.remaining);
+    fills.push({ maker: resting.user, side, dayIndex, price: resting.price, shares: filled });
+    remaining -= filled;
+  }
+
+  return { fills, remaining: remaining <= EPSILON ? 0 : remaining };
+}
+
+function newOrder(book, { user, dayIndex, side, price, shares, type }, now) {
+  return {
+    id: book.nextOrderId++,
+    user,
+    dayIndex,
+    side,
+    type,
+    price,
+    shares,
+    filled: 0,
+    remaining: shares,
+    status: 'open',
+    timestamp: now,
+  };
+}
+
+function placeLimitOrder(book, params, now = Date.now()) {
+  const order = newOrder(book, { ...params, type: 'limit' }, now);
+  const fills = matchOrder(book, order);
+
+  if (order.remaining > 0) {
+    const outcome = getOutcomeBook(book, order.dayIndex);
+    if (order.side === 'buy') {
+      insertOrder(outcome.bids, order, compareBids);
+    } else {
+      insertOrder(outcome.asks, order, compareAsks);
+    }
+  } else {
+    order.status = 'filled';
+  }
+
+  return { order, fills };
+}
+
+// Market orders never rest: whatever the book cannot fill is cancelled.
+function placeMarketOrder(book, params, now = Date.now()) {
+  const order = newOrder(book, { ...params, price: null, type: 'market' }, now);
+  const fills = matchOrder(book, order);
+
+  order.status = order.remaining > 0 ? 'cancelled' : 'filled';
+  return { order, fills };
+}
+
+function findOrder(book, orderId) {
+  for (const outcome of book.outcomes) {
+    for (const levels of [outcome.bids, outcome.asks]) {
+      const idx = levels.findIndex(o => o.id === orderId);
+      if (idx !== -1) return { levels, idx, order: levels[idx] };
+    }
+  }
+  return null;
+}
+
+function cancelOrder(book, orderId, user) {
+  const found = findOrder(book, orderId);
+  if (!found) return { error: `Order ${orderId} not found` };
+  if (found.order.user !== user) return { error: 'Order belongs to another user' };
+
+  found.levels.splice(found.idx, 1);
+  found.order.status = 'cancelled';
+  return { order: found.order };
+}
+
+// ==================== QUERIES ====================
+
+function aggregateLevels(levels, depth) {
+  const aggregated = [];
+  for (const order of levels) {
+    const last = aggregated[aggregated.length - 1];
+    if (last && Math.abs(last.price - order.price) < EPSILON) {
+      last.shares += order.remaining;
+      last.orders += 1;
+    } else {
+      if (aggregated.length >= depth) break;
+      aggregated.push({ price: order.price, shares: order.remaining, orders: 1 });
+    }
+  }
+  return aggregated.map(level => ({
+    ...level,
+    shares: Math.round(level.shares * 10000) / 10000,
+  }));
+}
+
+function getBookSnapshot(book, dayIndex, depth = 20) {
+  const outcome = getOutcomeBook(book, dayIndex);
+  const bid = bestBid(book, dayIndex);
+  const ask = bestAsk(book, dayIndex);
+
+  return {
+    dayIndex,
+    bids: aggregateLevels(outcome.bids, depth),
+    asks: aggregateLevels(outcome.asks, depth),
+    bestBid: bid ? bid.price : null,
+    bestAsk: ask ? ask.price : null,
+    spread: bid && ask ? Math.round((ask.price - bid.price) * 10000) / 10000 : null,
+  };
+}
+
+function getUserOrders(book, user) {
+  const orders = [];
+  for (const outcome of book.outcomes) {
+    for (const order of [...outcome.bids, ...outcome.asks]) {
+      if (order.user === user) orders.push(order);
+    }
+  }
+  return orders.sort((a, b) => a.id - b.id);
+}
+
+module.exports = {
+  createBook,
+  bestBid,
+  bestAsk,
+  placeLimitOrder,
+  placeMarketOrder,
+  previewOrder,
+  cancelOrder,
+  getBookSnapshot,
+  getUserOrders,
+};
@@ -0,0 +1,165 @@
+// Risk Limits and Circuit Breaker
+//
+// Per-market guards on top of the LMSR economics:
+//   maxPosition      shares a user may hold in any one outcome
+//   maxNotional      collateral a user may trade per notionalWindow seconds
+//   maxPriceMove     largest move (0-1) of any outcome's price within
+//                    priceMoveWindow seconds; beyond it trading halts for
+//                    haltDuration seconds
+// A null limit is disabled. Limits are checked before a trade executes; the
+// breaker trips after one, so the trade that moved the price still stands.
+
+const DEFAULT_LIMITS = {
+  maxPosition: 100000,
+  maxNotional: 10000,
+  notionalWindow: 60,
+  maxPriceMove: 0.25,
+  priceMoveWindow: 300,
+  haltDuration: 300,
+};
+
+// Windows and durations can't be switched off, only the limits themselves
+const REQUIRED_LIMITS = ['notionalWindow', 'priceMoveWindow', 'haltDuration'];
+
+const MAX_REJECTIONS = 200;
+
+function createRisk(limits = {}) {
+  return {
+    limits: { ...DEFAULT_LIMITS, ...limits },
+    halt: null,
+    notional: {}, // user -> [[timestamp, amount], ...] inside the window
+    rejections: [],
+  };
+}
+
+function validateLimits(limits) {
+  if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+    return 'limits must be an object';
+  }
+  for (const [key, value] of Object.entries(limits)) {
+    if (!(key in DEFAULT_LIMITS)) {
+      return `Unknown limit ${key}: use ${Object.keys(DEFAULT_LIMITS).join(', ')}`;
+    }
+    if (value === null && !REQUIRED_LIMITS.includes(key)) continue;
+    if (typeof value !== 'number' || value <= 0) {
+      return `${key} must be a positive number${REQUIRED_LIMITS.includes(key) ? '' : ' or null'}`;
+    }
+  }
+  if (typeof limits.maxPriceMove === 'number' && limits.maxPriceMove >= 1) {
+    return 'maxPriceMove must be below 1';
+  }
+  return null;
+}
+
+function activeHalt(risk, now = Date.now()) {
+  return risk.halt && risk.halt.haltedUntil > now ? risk.halt : null;
+}
+
+// ==================== TRADE LIMITS ====================
+
+function recentNotional(risk, user, now) {
+  const cutoff = now - risk.limits.notionalWindow * 1000;
+  const entries = (risk.notional[user] || []).filter(([timestamp]) => timestamp > cutoff);
+  if (entries.length > 0) {
+    risk.notional[user] = entries;
+  } else {
+    delete risk.notional[user];
+  }
+  return entries.reduce((acc, [, amount]) => acc + amount, 0);
+}
+
+function recordNotional(risk, user, amount, now = Date.now()) {
+  if (!(amount > 0)) return;
+  recentNotional(risk, user, now);
+  risk.notional[user] = [...(risk.notional[user] || []), [now, amount]];
+}
+
+// `positions` are the user's holdings of each outcome the trade adds to, as
+// they would be after it. Returns { rule, error } for a breach, or null.
+function checkTrade(risk, { user, notional, positions = [] }, now = Date.now()) {
+  const { maxPosition, maxNotional, notionalWindow } = risk.limits;
+
+  const halt = activeHalt(risk, now);
+  if (halt) {
+    return {
+      rule: 'halt',
+      error: `Trading halted until ${new Date(halt.haltedUntil).toISOString()}: ${halt.reason}`,
+    };
+  }
+
+  const position = Math.max(0, ...positions);
+  if (maxPosition !== null && position > maxPosition) {
+    return {
+      rule: 'maxPosition',
+      error: `Position limit: ${position.toFixed(4)} shares exceeds maxPosition ${maxPosition}`,
+    };
+  }
+
+  const traded = recentNotional(risk, user, now);
+  if (maxNotional !== null && traded + notional > maxNotional) {
+    return {
+      rule: 'maxNotional',
+      error: `Notional limit: ${(traded + notional).toFixed(4)} in ${notionalWindow}s exceeds maxNotional ${maxNotional}`,
+    };
+  }
+
+  return null;
+}
+
+function logRejection(risk, { marketId, user, route, rule, error }) {
+  console.warn(`[risk] ${marketId} rejected ${route} by ${user} (${rule}): ${error}`);
+  risk.rejections.push({ timestamp: Date.now(), user, route, rule, error });
+  if (risk.rejections.length > MAX_REJECTIONS) {
+    risk.rejections = risk.rejections.slice(-MAX_REJECTIONS);
+  }
+}
+
+// ==================== CIRCUIT BREAKER ====================
+
+// A halt for the largest outcome move since the start of the window, or null.
+// Prices from before the last halt ended don't count, so a market reopens at
+// its post-halt price instead of tripping again on the same move.
+function checkPriceMove(risk, priceHistory, now = Date.now()) {
+  const { maxPriceMove, priceMoveWindow, haltDuration } = risk.limits;
+  if (maxPriceMove === null || priceHistory.length < 2) return null;
+
+  const cutoff = Math.max(now - priceMoveWindow * 1000, risk.halt ? risk.halt.haltedUntil : 0);
+  let reference = priceHistory[0];
+  for (let i = priceHistory.length - 1; i >= 0; i--) {
+    if (priceHistory[i].timestamp <= cutoff) {
+      reference = priceHistory[i];
+      break;
+    }
+  }
+
+  const latest = priceHistory[priceHistory.length - 1];
+  let outcome = 0;
+  let move = 0;
+  latest.prices.forEach((price, i) => {
+    const delta = Math.abs(price - (reference.prices[i] || 0));
+    if (delta > move) {
+      move = delta;
+      outcome = i;
+    }
+  });
+  if (move <= maxPriceMove) return null;
+
+  return {
+    reason: `Outcome ${outcome} moved ${move.toFixed(4)} within ${priceMoveWindow}s (maxPriceMove ${maxPriceMove})`,
+    outcome,
+    move: Math.round(move * 10000) / 10000,
+    haltedAt: now,
+    haltedUntil: now + haltDuration * 1000,
+  };
+}
+
+module.exports = {
+  DEFAULT_LIMITS,
+  createRisk,
+  validateLimits,
+  activeHalt,
+  recordNotional,
+  checkTrade,
+  logRejection,
+  checkPriceMove,
+};
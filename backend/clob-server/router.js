@@ -0,0 +1,159 @@
+// Smart Order Router: best execution across the AMM and the order book
+//
+// Orders are walked in marginal-price order: the router fills from whichever
+// venue is cheaper (buys) or richer (sells) right now, and switches venue as
+// soon as the AMM curve moves past the next resting order's price. Venue fee
+// rates are folded into that comparison, so "cheaper" means after fees. The
+// AMM is whichever market maker the market uses (market-maker.js).
+
+const { bundleVector } = require('./lmsr');
+
+const EPSILON = 1e-9;
+const MAX_LEGS = 1000;
+const NO_FEES = { amm: 0, clob: 0 };
+
+function addLeg(legs, venue, shares, amount, extra = {}) {
+  const last = legs[legs.length - 1];
+  if (venue === 'amm' && last && last.venue === 'amm') {
+    last.shares += shares;
+    last.amount += amount;
+    return;
+  }
+  legs.push({ venue, shares, amount, ...extra });
+}
+
+// Best executable price: the better of the AMM and the next resting order
+function marginalPrice(ammPrice, order, side) {
+  if (!order) return ammPrice;
+  return side === 'buy' ? Math.min(ammPrice, order.price) : Math.max(ammPrice, order.price);
+}
+
+function summarize(side, legs, fees, priceBefore, priceAfter) {
+  const venues = {};
+  for (const venue of ['amm', 'clob']) {
+    const venueLegs = legs.filter(l => l.venue === venue);
+    const shares = venueLegs.reduce((acc, l) => acc + l.shares, 0);
+    const amount = venueLegs.reduce((acc, l) => acc + l.amount, 0);
+    venues[venue] = {
+      shares,
+      amount,
+      avgPrice: shares > EPSILON ? amount / shares : null,
+      fees: amount * fees[venue],
+    };
+  }
+
+  const shares = venues.amm.shares + venues.clob.shares;
+  const amount = venues.amm.amount + venues.clob.amount;
+  const totalFees = venues.amm.fees + venues.clob.fees;
+  // What the trader pays (buy) or receives (sell) once fees are applied
+  const total = side === 'buy' ? amount + totalFees : amount - totalFees;
+
+  return {
+    legs,
+    venues,
+    shares,
+    amount,
+    fees: totalFees,
+    total,
+    avgPrice: shares > EPSILON ? total / shares : null,
+    priceBefore,
+    priceAfter,
+    priceImpact: priceBefore > EPSILON ? (priceAfter - priceBefore) / priceBefore : 0,
+  };
+}
+
+// Spend `budget` (fees included) buying the bundle `indices`. `asks` is the
+// resting ask side of the outcome's book (best first) and only exists for
+// single-outcome bundles; neither it nor `quantities` is mutated.
+function planBuy({ quantities, maker, indices, asks = [], budget, fees = NO_FEES }) {
+  const q = quantities.slice();
+  const legs = [];
+  let remaining = budget;
+  let askIdx = 0;
+  let askLeft = asks.length > 0 ? asks[0].remaining : 0;
+  const priceBefore = marginalPrice(maker.bundlePrice(q, indices), asks[0], 'buy');
+
+  for (let i = 0; i < MAX_LEGS && remaining > EPSILON; i++) {
+    const ammPrice = maker.bundlePrice(q, indices);
+    const ask = asks[askIdx];
+
+    if (ask && ask.price * (1 + fees.clob) <= ammPrice * (1 + fees.amm) + EPSILON) {
+      const shares = Math.min(askLeft, remaining / (ask.price * (1 + fees.clob)));
+      addLeg(legs, 'clob', shares, shares * ask.price, { orderId: ask.id, price: ask.price });
+      remaining -= shares * ask.price * (1 + fees.clob);
+      askLeft -= shares;
+      if (askLeft <= EPSILON) {
+        askIdx++;
+        askLeft = asks[askIdx] ? asks[askIdx].remaining : 0;
+      }
+      continue;
+    }
+
+    // AMM is cheaper: climb the curve until it matches the next ask after fees
+    let shares = maker.sharesForBudget(q, indices, remaining / (1 + fees.amm));
+    if (ask) {
+      const crossover = ask.price * (1 + fees.clob) / (1 + fees.amm);
+      shares = Math.min(shares, maker.sharesToPrice(q, indices[0], crossover));
+    }
+    if (shares <= EPSILON) break;
+
+    const delta = bundleVector(q.length, indices, shares);
+    const cost = Math.min(maker.tradeCost(q, delta), remaining / (1 + fees.amm));
+    for (const idx of indices) q[idx] += shares;
+    addLeg(legs, 'amm', shares, cost);
+    remaining -= cost * (1 + fees.amm);
+  }
+
+  const priceAfter = marginalPrice(maker.bundlePrice(q, indices), asks[askIdx], 'buy');
+  return summarize('buy', legs, fees, priceBefore, priceAfter);
+}
+
+// Sell `shares` of the bundle `indices`. `bids` is the resting bid side
+// (best first), again only for single-outcome bundles.
+function planSell({ quantities, maker, indices, bids = [], shares, fees = NO_FEES }) {
+  const q = quantities.slice();
+  const legs = [];
+  let remaining = shares;
+  let bidIdx = 0;
+  let bidLeft = bids.length > 0 ? bids[0].remaining : 0;
+  const priceBefore = marginalPrice(maker.bundlePrice(q, indices), bids[0], 'sell');
+
+  for (let i = 0; i < MAX_LEGS && remaining > EPSILON; i++) {
+    const ammPrice = maker.bundlePrice(q, indices);
+    const bid = bids[bidIdx];
+
+    if (bid && bid.price * (1 - fees.clob) >= ammPrice * (1 - fees.amm) - EPSILON) {
+      const fill = Math.min(bidLeft, remaining);
+      addLeg(legs, 'clob', fill, fill * bid.price, { orderId: bid.id, price: bid.price });
+      remaining -= fill;
+      bidLeft -= fill;
+      if (bidLeft <= EPSILON) {
+        bidIdx++;
+        bidLeft = bids[bidIdx] ? bids[bidIdx].remaining : 0;
+      }
+      continue;
+    }
+
+    // AMM pays more: sell down the curve until it matches the next bid after fees
+    let fill = remaining;
+    if (bid) {
+      const crossover = bid.price * (1 - fees.clob) / (1 - fees.amm);
+      fill = Math.min(fill, -maker.sharesToPrice(q, indices[0], crossover));
+    }
+    if (fill <= EPSILON) break;
+
+    const delta = bundleVector(q.length, indices, -fill);
+    const revenue = -maker.tradeCost(q, delta);
+    for (const idx of indices) q[idx] -= fill;
+    addLeg(legs, 'amm', fill, revenue);
+    remaining -= fill;
+  }
+
+  const priceAfter = marginalPrice(maker.bundlePrice(q, indices), bids[bidIdx], 'sell');
+  return summarize('sell', legs, fees, priceBefore, priceAfter);
+}
+
+module.exports = {
+  planBuy,
+  planSell,
+};
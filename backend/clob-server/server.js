@@ -5,20 +5,26 @@ const { createWalletClient, http } = require('viem');
 const { sepolia } = require('viem/chains');
 const http_module = require('http');
 const { createECDSAMessageSigner: sdkCreateECDSAMessageSigner } = require('@erc7824/nitrolite');
-const { createMarketRouter } = require('./api');
+const { createMarketRouter, getMarketSnapshot, closeMarketStore } = require('./api');
+const { createMarketFeed } = require('./feed');
 const path = require('path');
 
 const CLEARNODE_WS_URL = process.env.CLEARNODE_WS_URL || 'wss://clearnet-sandbox.yellow.com/ws';
 const CLOB_PRIVATE_KEY = process.env.CLOB_PRIVATE_KEY || generatePrivateKey();
 const SERVER_PORT = process.env.SERVER_PORT || 3001;
 const SESSION_DURATION = 3600;
+const RPC_TIMEOUT_MS = 15000;
 const AUTH_SCOPE = 'xiphias-markets.app';
 const APP_NAME = 'Xiphias Markets';
+// Comma-separated; admins may resolve markets and create new ones
+const ADMIN_ADDRESSES = (process.env.ADMIN_ADDRESSES || '').split(',').map(a => a.trim()).filter(Boolean);
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || 'http://localhost:3000').split(',').map(o => o.trim()).filter(Boolean);
 
 const clobAccount = privateKeyToAccount(CLOB_PRIVATE_KEY);
 console.log('==============================================');
 console.log('CLOB Server Starting...');
 console.log('CLOB Wallet Address:', clobAccount.address);
+console.log('Market Admins:', ADMIN_ADDRESSES.length > 0 ? ADMIN_ADDRESSES.join(', ') : 'none (set ADMIN_ADDRESSES)');
 console.log('==============================================');
 
 let wsConnection = null;
@@ -26,6 +32,7 @@ let wsStatus = 'disconnected';
 let sessionKey = null;
 let isAuthenticated = false;
 let sessionExpireTimestamp = '';
+const pendingCalls = new Map(); // requestId -> { resolve, reject, timer }, see rpcCall
 
 function generateSessionKeyPair() {
   const privateKey = generatePrivateKey();
@@ -91,6 +98,22 @@ function sendMessage(payload) {
   }
 }
 
+// Send a signed request to ClearNode and wait for its response params
+function rpcCall(request) {
+  return new Promise((resolve, reject) => {
+    if (!wsConnection || wsConnection.readyState !== WebSocket.OPEN) {
+      throw new Error('ClearNode not connected');
+    }
+    const requestId = request.req[0];
+    const timer = setTimeout(() => {
+      pendingCalls.delete(requestId);
+      reject(new Error('ClearNode did not respond'));
+    }, RPC_TIMEOUT_MS);
+    pendingCalls.set(requestId, { resolve, reject, timer });
+    sendMessage(request);
+  });
+}
+
 async function startAuthentication() {
   sessionKey = generateSessionKeyPair();
   console.log('CLOB Session Key:', sessionKey.address);
@@ -177,7 +200,16 @@ async function handleMessage(data) {
   const method = data.res ? data.res[1] : data.method;
 
   if (data.res) {
-    const [, responseMethod, params] = data.res;
+    const [requestId, responseMethod, params] = data.res;
+
+    const pending = pendingCalls.get(requestId);
+    if (pending) {
+      pendingCalls.delete(requestId);
+      clearTimeout(pending.timer);
+      if (responseMethod === 'error') pending.reject(new Error(params?.error || 'RPC error'));
+      else pending.resolve(params);
+      return;
+    }
 
     switch (responseMethod) {
       case 'auth_challenge':
@@ -200,6 +232,8 @@ async function handleMessage(data) {
   }
 }
 
+// Only ever handed channel states the market router built itself (trades and
+// session closes, see channel.js); there is no endpoint that signs for callers
 async function signPayload(payload) {
   if (!sessionKey) {
     throw new Error('CLOB not authenticated');
@@ -210,60 +244,45 @@ async function signPayload(payload) {
   return signature;
 }
 
-async function handleSignRequest(req, res, body) {
-  try {
-    const { action, message } = JSON.parse(body);
-
-    if (!isAuthenticated) {
-      res.writeHead(503, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'CLOB not authenticated' }));
-      return;
-    }
-
-    let signature;
-
-    switch (action) {
-      case 'sign-create-session':
-      case 'sign-state-update':
-      case 'sign-close-session':
-        if (!message || !message.req) {
-          throw new Error('Missing message.req payload');
-        }
-        signature = await signPayload(message.req);
-        break;
-
-      case 'get-clob-address':
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          address: clobAccount.address,
-          sessionKey: sessionKey?.address,
-          authenticated: isAuthenticated,
-        }));
-        return;
-
-      default:
-        throw new Error(`Unknown action: ${action}`);
-    }
+// Co-sign a user's create_app_session request (the market router has checked
+// it is between them and the CLOB, see channel.js) and submit it to ClearNode
+async function openChannel({ req, sig }) {
+  if (!isAuthenticated) {
+    throw new Error('CLOB not authenticated');
+  }
 
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ signature }));
-  } catch (error) {
-    console.error('Sign request error:', error);
-    res.writeHead(400, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: error.message }));
+  const clobSig = await signPayload(req);
+  const params = await rpcCall({ req, sig: [...sig, clobSig] });
+  const created = Array.isArray(params) ? params[0] : params;
+  if (!created?.app_session_id) {
+    throw new Error('No app session in ClearNode response');
   }
+  return { sessionId: created.app_session_id, version: Number(created.version) || 0 };
 }
 
 // ==================== MARKET ROUTER ====================
+let marketFeed = null;
+
 const handleMarketRequest = createMarketRouter({
   statePath: path.join(__dirname, 'data', 'market-state.json'),
   clobAddress: clobAccount.address,
+  signStateUpdate: signPayload,
+  openChannel,
+  admins: ADMIN_ADDRESSES,
+  chainId: sepolia.id,
+  publish: (marketId, channel, data) => {
+    if (marketFeed) marketFeed.publish(marketId, channel, data);
+  },
 });
 
 // ==================== HTTP SERVER ====================
 const httpServer = http_module.createServer((req, res) => {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
+  // CORS headers, for the configured frontend origins only
+  const origin = req.headers.origin;
+  if (origin && CORS_ORIGINS.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
   res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
 
@@ -294,17 +313,13 @@ const httpServer = http_module.createServer((req, res) => {
     return;
   }
 
-  if (req.method === 'POST' && req.url === '/api/sign') {
-    let body = '';
-    req.on('data', chunk => { body += chunk; });
-    req.on('end', () => handleSignRequest(req, res, body));
-    return;
-  }
-
   // Market API routes
   if (req.url.startsWith('/api/market')) {
     if (req.method === 'GET') {
-      handleMarketRequest(req, res, req.url, null);
+      if (!handleMarketRequest(req, res, req.url, null)) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Market route not found' }));
+      }
       return;
     }
     let body = '';
@@ -322,13 +337,22 @@ const httpServer = http_module.createServer((req, res) => {
   res.end(JSON.stringify({ error: 'Not found' }));
 });
 
+// ==================== MARKET FEED ====================
+// Shares the HTTP port; the Yellow ClearNode socket above is a client connection
+marketFeed = createMarketFeed({
+  server: httpServer,
+  path: '/ws',
+  getSnapshot: getMarketSnapshot,
+});
+
 // ==================== START SERVER ====================
 httpServer.listen(SERVER_PORT, () => {
   console.log(`CLOB Server listening on port ${SERVER_PORT}`);
   console.log(`Status: http://localhost:${SERVER_PORT}/status`);
   console.log(`CLOB Address: http://localhost:${SERVER_PORT}/clob-address`);
-  console.log(`Sign API: POST http://localhost:${SERVER_PORT}/api/sign`);
   console.log(`Market API: http://localhost:${SERVER_PORT}/api/market/*`);
+  console.log(`Markets: http://localhost:${SERVER_PORT}/api/markets`);
+  console.log(`Market Feed: ws://localhost:${SERVER_PORT}/ws`);
   console.log('');
   connectToYellow();
 });
@@ -336,6 +360,8 @@ httpServer.listen(SERVER_PORT, () => {
 process.on('SIGINT', () => {
   console.log('\nShutting down CLOB server...');
   if (wsConnection) wsConnection.close();
+  marketFeed.close();
+  closeMarketStore();
   httpServer.close(() => {
     console.log('Server closed');
     process.exit(0);
@@ -0,0 +1,114 @@
+// Market Resolution and Payout Settlement
+//
+// A resolved market pays 1 unit of collateral per share of the winning
+// outcome. A void market refunds every user their net cost basis instead.
+// Payouts are computed once at resolution and credited on claim.
+
+const { cancelOrder } = require('./orderbook');
+const { recordClaim } = require('./ledger');
+
+const VOID_OUTCOME = 'void';
+
+// Resting sell orders hold escrowed shares; hand them back before payouts
+function cancelRestingOrders(state) {
+  const orders = [];
+  for (const outcome of state.book.outcomes) {
+    orders.push(...outcome.bids, ...outcome.asks);
+  }
+
+  for (const order of orders) {
+    cancelOrder(state.book, order.id, order.user);
+    if (order.side === 'sell') {
+      state.balances[order.user].onDate[order.dayIndex] += order.remaining;
+    }
+  }
+  return orders.length;
+}
+
+function computePayouts(state, outcome) {
+  const payouts = {};
+  for (const [user, balance] of Object.entries(state.balances)) {
+    const payout = outcome === VOID_OUTCOME
+      ? Math.max(0, balance.costBasis || 0)
+      : balance.onDate[outcome] || 0;
+    if (payout > 0) {
+      payouts[user] = payout;
+    }
+  }
+  return payouts;
+}
+
+// `outcome` is a winning outcome index or VOID_OUTCOME
+function resolveMarket(state, outcome, now = Date.now()) {
+  const cancelledOrders = cancelRestingOrders(state);
+  const payouts = computePayouts(state, outcome);
+
+  state.market.status = 'resolved';
+  state.market.resolution = outcome === VOID_OUTCOME ? VOID_OUTCOME : outcome + 1;
+  state.settlement = {
+    outcome,
+    resolvedAt: now,
+    payouts,
+    claims: {},
+  };
+
+  return {
+    resolution: state.market.resolution,
+    cancelledOrders,
+    payouts,
+  };
+}
+
+function claimPayout(registry, state, user, now = Date.now()) {
+  const settlement = state.settlement;
+  if (!settlement) return { error: 'Market not resolved' };
+  if (settlement.claims[user]) return { error: 'Payout already claimed' };
+
+  const payout = settlement.payouts[user] || 0;
+  if (payout <= 0) return { error: 'Nothing to claim' };
+
+  registry.collateral[user] = (registry.collateral[user] || 0) + payout;
+  settlement.claims[user] = { amount: payout, claimedAt: now };
+
+  // Shares are redeemed: nothing is left to value or claim again
+  const balance = state.balances[user];
+  recordClaim(balance.ledger, payout);
+  balance.onDate = balance.onDate.map(() => 0);
+  balance.costBasis = 0;
+
+  return { payout, collateral: registry.collateral[user] };
+}
+
+function settlementReport(state) {
+  const settlement = state.settlement;
+  if (!settlement) return { error: 'Market not resolved' };
+
+  const users = Object.entries(settlement.payouts).map(([user, payout]) => ({
+    user,
+    payout: Math.round(payout * 10000) / 10000,
+    claimed: Boolean(settlement.claims[user]),
+  }));
+  const totalPayout = users.reduce((acc, u) => acc + u.payout, 0);
+  const totalClaimed = users.filter(u => u.claimed).reduce((acc, u) => acc + u.payout, 0);
+
+  return {
+    marketId: state.market.id,
+    resolution: state.market.resolution,
+    void: settlement.outcome === VOID_OUTCOME,
+    winningOutcome: settlement.outcome === VOID_OUTCOME
+      ? null
+      : state.market.outcomes[settlement.outcome],
+    resolvedAt: settlement.resolvedAt,
+    totalPayout: Math.round(totalPayout * 10000) / 10000,
+    totalClaimed: Math.round(totalClaimed * 10000) / 10000,
+    outstanding: Math.round((totalPayout - totalClaimed) * 10000) / 10000,
+    users,
+  };
+}
+
+module.exports = {
+  VOID_OUTCOME,
+  resolveMarket,
+  claimPayout,
+  settlementReport,
+};
@@ -0,0 +1,389 @@
+// Market Simulator and Backtest
+//
+// Runs order flow against the AMM + order book engine, through the same
+// request path as journal replay, and reports how a liquidity schedule did:
+//   priceError     mean |price - true probability| over outcomes and steps
+//   protocolLoss   AMM loss at resolution (mark-to-market if unresolved)
+//   expectedLoss   AMM loss in expectation over the true probabilities
+//   whaleSlippage  what whale trades paid above the pre-trade price
+//   lpPnl          AMM P&L plus the LPs' share of fees
+//
+// Flow is synthetic (noise traders, informed traders, a book maker and a
+// whale, all drawn from a seeded RNG so runs are reproducible) or recorded: a
+// market journal replayed onto a fresh market with each schedule.
+//
+// Usage:
+//   node simulate.js [--seed 1] [--steps 2000] [--whale 5000]
+//                    [--alpha 0.02,0.04,0.08] [--minB 100,150,300] [--b 200,500]
+//                    [--lsAlpha 0.0005,0.001]
+//   node simulate.js --journal data/market-state.journal.jsonl [--whale 1000] ...
+//   add --json for machine-readable output
+// Every alpha x minB pair runs as a dynamic-b schedule, every b as a fixed
+// one, and every lsAlpha x minB pair as an LS-LMSR market opening at b=minB.
+
+const fs = require('fs');
+const path = require('path');
+const { bundleIndices } = require('./lmsr');
+const { getMarketMaker } = require('./market-maker');
+const { DEFAULT_MARKET, createMarket, upgradeRegistry } = require('./state');
+const { computePnl } = require('./accounting');
+const { readJournal } = require('./storage');
+const { executeRequest } = require('./api');
+
+const DEFAULTS = {
+  seed: 1,
+  steps: 2000,
+  whale: 5000,
+  alpha: [0.02, 0.04, 0.08],
+  minB: [100, 150, 300],
+  b: [],
+  lsAlpha: [],
+  journal: null,
+  json: false,
+};
+
+const AGENTS = { noise: 0.6, informed: 0.3, maker: 0.1 };
+const NOISE_TRADERS = 20;
+const INFORMED_TRADERS = 5;
+const INFORMED_EDGE = 0.01;
+const MAKER_SPREAD = 0.02;
+const MAKER_ORDER_LIFETIME = 50;
+
+function parseArgs(argv) {
+  const args = { ...DEFAULTS };
+  const list = value => value.split(',').map(Number);
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i].replace(/^--/, '');
+    if (flag === 'json') {
+      args.json = true;
+    } else if (flag === 'journal') {
+      args.journal = path.resolve(argv[++i]);
+    } else if (['alpha', 'minB', 'b', 'lsAlpha'].includes(flag)) {
+      args[flag] = list(argv[++i]);
+    } else if (flag in DEFAULTS) {
+      args[flag] = Number(argv[++i]);
+    } else {
+      throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+function schedules({ alpha, minB, b, lsAlpha }) {
+  const dynamic = alpha.flatMap(a => minB.map(m => ({ alpha: a, minB: m })));
+  const liquiditySensitive = lsAlpha.flatMap(a => minB.map(m => ({ marketMaker: 'ls-lmsr', alpha: a, minB: m })));
+  return [...dynamic, ...b.map(fixed => ({ b: fixed })), ...liquiditySensitive];
+}
+
+function scheduleLabel({ marketMaker, alpha, minB, b }) {
+  if (marketMaker === 'ls-lmsr') return `ls alpha=${alpha} minB=${minB}`;
+  return b ? `b=${b}` : `alpha=${alpha} minB=${minB}`;
+}
+
+// ==================== RANDOMNESS ====================
+
+// mulberry32: small, fast and reproducible across platforms
+function createRng(seed) {
+  let a = seed >>> 0;
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: n => Math.floor(next() * n),
+    gaussian: () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()),
+    pick(weights) {
+      const entries = Object.entries(weights);
+      let r = next() * entries.reduce((acc, [, w]) => acc + w, 0);
+      for (const [key, w] of entries) {
+        r -= w;
+        if (r <= 0) return key;
+      }
+      return entries[entries.length - 1][0];
+    },
+  };
+}
+
+// True probabilities near the opening prices, and the outcome they resolve to
+function createWorld(seed, initialPrices) {
+  const rng = createRng(seed);
+  const raw = initialPrices.map(p => p * Math.exp(0.5 * rng.gaussian()));
+  const total = raw.reduce((acc, p) => acc + p, 0);
+  const truth = raw.map(p => p / total);
+
+  let r = rng.next();
+  let winner = truth.length - 1;
+  for (let i = 0; i < truth.length; i++) {
+    r -= truth[i];
+    if (r <= 0) {
+      winner = i;
+      break;
+    }
+  }
+  return { truth, winner };
+}
+
+// ==================== AGENTS ====================
+
+function holdings(state, user, dayIndex) {
+  const balance = state.balances[user];
+  return balance ? balance.onDate[dayIndex] : 0;
+}
+
+function noiseTrader(state, rng, prices) {
+  const user = `noise-${rng.int(NOISE_TRADERS)}`;
+  const dayIndex = rng.int(prices.length);
+  const held = holdings(state, user, dayIndex);
+
+  if (held > 1 && rng.next() < 0.3) {
+    return { route: '/sell', body: { user, marketType: 'on_date', dayIndex, shares: held / 2 } };
+  }
+  const amount = Math.round(20 * Math.exp(0.75 * rng.gaussian()) * 100) / 100;
+  const marketType = state.market.ordered && rng.next() < 0.2 ? 'by_date' : 'on_date';
+  return { route: '/buy', body: { user, marketType, dayIndex, amount } };
+}
+
+// Trades toward the truth: sells what is overpriced, buys the best edge
+function informedTrader(state, rng, prices, truth) {
+  const user = `informed-${rng.int(INFORMED_TRADERS)}`;
+
+  for (let i = 0; i < prices.length; i++) {
+    const held = holdings(state, user, i);
+    if (held > 1 && prices[i] - truth[i] > INFORMED_EDGE) {
+      return { route: '/sell', body: { user, marketType: 'on_date', dayIndex: i, shares: held } };
+    }
+  }
+
+  let best = 0;
+  prices.forEach((p, i) => {
+    if (truth[i] - p > truth[best] - prices[best]) best = i;
+  });
+  const edge = truth[best] - prices[best];
+  if (edge <= INFORMED_EDGE) return null;
+  const amount = Math.round(Math.min(200, edge * 2000) * 100) / 100;
+  return { route: '/buy', body: { user, marketType: 'on_date', dayIndex: best, amount } };
+}
+
+// Quotes around the curve: asks out of inventory, bids otherwise; stale
+// quotes are cancelled
+function bookMaker(state, rng, prices, maker) {
+  const user = 'maker';
+  const stale = maker.orders.find(o => maker.step - o.step > MAKER_ORDER_LIFETIME);
+  if (stale) {
+    maker.orders = maker.orders.filter(o => o !== stale);
+    return { route: '/order/cancel', body: { user, orderId: stale.id } };
+  }
+
+  const dayIndex = rng.int(prices.length);
+  const held = holdings(state, user, dayIndex);
+  const side = held > 1 ? 'sell' : 'buy';
+  const offset = side === 'sell' ? MAKER_SPREAD : -MAKER_SPREAD;
+  const price = Math.round(Math.min(0.99, Math.max(0.01, prices[dayIndex] + offset)) * 10000) / 10000;
+  const shares = side === 'sell' ? held : 20;
+  return { route: '/order/limit', body: { user, dayIndex, side, price, shares } };
+}
+
+// One large buy against the truth: the least likely outcome
+function whaleOrder(truth, amount) {
+  const dayIndex = truth.indexOf(Math.min(...truth));
+  return { route: '/buy', body: { user: 'whale', marketType: 'on_date', dayIndex, amount } };
+}
+
+// ==================== RUNS ====================
+
+function createSimRegistry(schedule) {
+  const state = createMarket({ ...DEFAULT_MARKET, ...schedule });
+  return upgradeRegistry({
+    defaultMarketId: state.market.id,
+    markets: { [state.market.id]: state },
+    sessions: {},
+  });
+}
+
+// Per-trade bookkeeping shared by synthetic and recorded flow
+function createRun(registry, marketId, truth) {
+  const state = registry.markets[marketId];
+  const metrics = { steps: 0, errorSum: 0, whaleSlippage: 0, whaleShares: 0, trades: 0, rejected: 0 };
+
+  function observe() {
+    if (!truth) return;
+    const prices = getMarketMaker(state).probabilities(state.amm.onDate.quantities);
+    metrics.errorSum += prices.reduce((acc, p, i) => acc + Math.abs(p - truth[i]), 0) / prices.length;
+    metrics.steps++;
+  }
+
+  // Recorded entries keep their journal `timestamp`, so risk windows see the
+  // original pace of the flow
+  function apply(route, body, isWhale, timestamp) {
+    const prices = getMarketMaker(state).prices(state.amm.onDate.quantities);
+    const result = executeRequest(registry, { marketId, route, body, timestamp });
+    if (result.error) {
+      metrics.rejected++;
+      return result;
+    }
+    if (route === '/buy' || route === '/sell') metrics.trades++;
+    if (route === '/buy' && isWhale) {
+      const indices = bundleIndices(body.marketType, body.dayIndex, body.endIndex);
+      const priceBefore = indices.reduce((acc, i) => acc + prices[i], 0);
+      metrics.whaleSlippage += result.cost - result.shares * priceBefore;
+      metrics.whaleShares += result.shares;
+    }
+    return result;
+  }
+
+  function report(world) {
+    const maker = getMarketMaker(state);
+    const prices = maker.probabilities(state.amm.onDate.quantities);
+    const outstanding = state.amm.onDate.quantities.map((q, i) => q - state.amm.initialQuantities[i]);
+    const expectedPayout = truth ? outstanding.reduce((acc, s, i) => acc + s * truth[i], 0) : null;
+    const cash = state.accounting.ammCash;
+
+    if (world && state.market.status === 'open') {
+      executeRequest(registry, { marketId, route: '/resolve', body: { winningDay: world.winner + 1 } });
+    }
+    const pnl = computePnl(state, getMarketMaker(state));
+
+    return {
+      priceError: metrics.steps > 0 ? metrics.errorSum / metrics.steps : null,
+      finalError: truth ? prices.reduce((acc, p, i) => acc + Math.abs(p - truth[i]), 0) / prices.length : null,
+      protocolLoss: -pnl.amm.pnl,
+      expectedLoss: expectedPayout === null ? null : expectedPayout - cash,
+      whaleSlippage: metrics.whaleSlippage,
+      whaleShares: metrics.whaleShares,
+      lpPnl: pnl.lp.pnl,
+      fees: pnl.fees.amm + pnl.fees.clob,
+      volume: state.market.totalVolume,
+      finalB: maker.liquidity,
+      trades: metrics.trades,
+      rejected: metrics.rejected,
+    };
+  }
+
+  return { state, observe, apply, report };
+}
+
+function runSynthetic(schedule, { seed, steps, whale }) {
+  const registry = createSimRegistry(schedule);
+  const marketId = registry.defaultMarketId;
+  const world = createWorld(seed, DEFAULT_MARKET.initialPrices);
+  const run = createRun(registry, marketId, world.truth);
+  const rng = createRng(seed + 1);
+  const maker = { orders: [], step: 0 };
+  const whaleStep = Math.floor(steps / 3);
+
+  for (let step = 0; step < steps; step++) {
+    run.observe();
+    maker.step = step;
+    const prices = getMarketMaker(run.state).probabilities(run.state.amm.onDate.quantities);
+
+    let request;
+    if (step === whaleStep && whale > 0) {
+      request = whaleOrder(world.truth, whale);
+    } else {
+      const agent = rng.pick(AGENTS);
+      if (agent === 'noise') request = noiseTrader(run.state, rng, prices);
+      if (agent === 'informed') request = informedTrader(run.state, rng, prices, world.truth);
+      if (agent === 'maker') request = bookMaker(run.state, rng, prices, maker);
+    }
+    if (!request) continue;
+
+    const result = run.apply(request.route, request.body, request.body.user === 'whale');
+    if (request.route === '/order/limit' && result.order && result.order.remaining > 0) {
+      maker.orders.push({ id: result.order.id, step });
+    }
+  }
+
+  return run.report(world);
+}
+
+// Recorded flow has no known truth: price error is left out, and trades of
+// at least `whale` collateral count as whale trades
+function runRecorded(schedule, { journal, whale }) {
+  const registry = createSimRegistry(schedule);
+  const marketId = registry.defaultMarketId;
+  const run = createRun(registry, marketId, null);
+
+  for (const entry of readJournal(journal).entries) {
+    const target = entry.marketId || marketId;
+    if (target !== marketId) continue;
+    const isWhale = entry.route === '/buy' && whale > 0 && entry.body.amount >= whale;
+    run.apply(entry.route, entry.body, isWhale, entry.timestamp);
+  }
+
+  return run.report(null);
+}
+
+// ==================== REPORT ====================
+
+function formatNumber(value, digits = 2) {
+  return value === null ? '-' : value.toFixed(digits);
+}
+
+function printTable(results) {
+  const columns = [
+    ['schedule', r => r.schedule],
+    ['priceErr', r => formatNumber(r.priceError, 4)],
+    ['finalErr', r => formatNumber(r.finalError, 4)],
+    ['protoLoss', r => formatNumber(r.protocolLoss)],
+    ['expLoss', r => formatNumber(r.expectedLoss)],
+    ['whaleSlip', r => formatNumber(r.whaleSlippage)],
+    ['lpPnl', r => formatNumber(r.lpPnl)],
+    ['fees', r => formatNumber(r.fees)],
+    ['volume', r => formatNumber(r.volume, 0)],
+    ['finalB', r => formatNumber(r.finalB, 1)],
+    ['trades', r => String(r.trades)],
+    ['rejected', r => String(r.rejected)],
+  ];
+  const rows = results.map(r => columns.map(([, format]) => format(r)));
+  const widths = columns.map(([name], i) => Math.max(name.length, ...rows.map(row => row[i].length)));
+  const line = cells => cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+
+  console.log(line(columns.map(([name]) => name)));
+  for (const row of rows) console.log(line(row));
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.journal && !fs.existsSync(args.journal)) {
+    throw new Error(`No journal at ${args.journal}`);
+  }
+
+  // Engine logs (halts, rejections) would drown the table
+  const warn = console.warn;
+  console.warn = () => {};
+  const results = schedules(args).map(schedule => ({
+    schedule: scheduleLabel(schedule),
+    ...schedule,
+    ...(args.journal ? runRecorded(schedule, args) : runSynthetic(schedule, args)),
+  }));
+  console.warn = warn;
+
+  if (args.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+  console.log(args.journal
+    ? `Recorded flow from ${args.journal}, whale trades >= ${args.whale}`
+    : `Synthetic flow: seed ${args.seed}, ${args.steps} steps, whale buy ${args.whale}`);
+  printTable(results);
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (err) {
+    console.error(err.message);
+    process.exitCode = 1;
+  }
+}
+
+module.exports = {
+  createRng,
+  createWorld,
+  runSynthetic,
+  runRecorded,
+};
@@ -2,13 +2,20 @@
 
 const fs = require('fs');
 const path = require('path');
-const { NUM_DAYS, dynamicB, quantitiesFromPrices } = require('./lmsr');
+const { createBook } = require('./orderbook');
+const { DEFAULT_FEES, createAccounting } = require('./accounting');
+const { seedPriceHistory } = require('./history');
+const { createRisk } = require('./risk');
+const { createLedger, upgradeLedger } = require('./ledger');
+const { getMarketMaker, createPool } = require('./market-maker');
 
 const DEFAULT_STATE_PATH = path.join(__dirname, 'data', 'market-state.json');
 
 // ==================== INITIAL MARKET DATA ====================
 // Derived from iran.json prices (28 days in February)
 
+const NUM_DAYS = 28; // February 2026
+
 const INITIAL_ON_DATE_PRICES = [
   0.024, 0.015, 0.086, 0.032, 0.007, 0.059, 0.011, 0.123,
   0.044, 0.016, 0.078, 0.021, 0.094, 0.036, 0.019, 0.062,
@@ -16,92 +23,259 @@ const INITIAL_ON_DATE_PRICES = [
   0.028, 0.182, 0.036, 0.220
 ];
 
+const FEBRUARY_DAYS = Array.from({ length: NUM_DAYS }, (_, i) => `Feb ${i + 1}`);
+
+const DEFAULT_MARKET = {
+  id: 'us-iran-2026',
+  title: 'US next strikes Iran',
+  kind: 'date',
+  outcomes: FEBRUARY_DAYS,
+  initialPrices: INITIAL_ON_DATE_PRICES,
+  events: [
+    { type: 'on_date', description: 'US next strikes Iran on [date]?' },
+    { type: 'by_date', description: 'US strikes Iran by [date]?' },
+  ],
+  alpha: 0.04,
+  minB: 150,
+  initialVolume: 1000,
+};
+
+// Date and price-bucket outcomes are ordered, so "by" and "between"
+// bundles make sense; candidate lists are not.
+const MARKET_KINDS = ['date', 'range', 'categorical'];
+
+const DEFAULT_MIN_B = 150;
+
 // ==================== STATE FUNCTIONS ====================
 
-function createMarket(opts = {}) {
-  const b = opts.minB || 150;
-  
-  const onDateQuantities = quantitiesFromPrices(INITIAL_ON_DATE_PRICES, b);
-  
-  const byDateQuantities = new Array(NUM_DAYS).fill(0);
+function createMarket(opts = {}, now = Date.now()) {
+  const outcomes = opts.outcomes.map((o, index) => ({
+    index,
+    label: typeof o === 'string' ? o : o.label,
+  }));
+  const kind = opts.kind || 'date';
+  const minB = opts.minB || DEFAULT_MIN_B;
+  const prices = opts.initialPrices || outcomes.map(() => 1 / outcomes.length);
+  const type = opts.marketMaker || 'lmsr';
+
+  const pool = createPool(type, prices, { b: opts.b, alpha: opts.alpha, minB });
+  if (pool.error) throw new Error(pool.error);
+  const onDateQuantities = pool.quantities;
   
-  return {
+  const state = {
     market: {
-      id: opts.id || 'us-iran-2026',
-      events: [
-        { type: 'on_date', description: 'US next strikes Iran on [date]?' },
-        { type: 'by_date', description: 'US strikes Iran by [date]?' },
-      ],
+      id: opts.id,
+      title: opts.title || opts.id,
+      kind,
+      ordered: kind !== 'categorical',
+      outcomes,
+      events: opts.events || [{ type: 'on_date', description: opts.title || opts.id }],
       status: 'open',
       resolution: null,
       totalVolume: opts.initialVolume || 1000,
+      createdAt: now,
+      // Where the opening prices were imported from (e.g. a Polymarket
+      // event), so its prices can keep being compared against ours
+      ...(opts.source ? { source: opts.source } : {}),
     },
     amm: {
+      type,
+      // By-date and between-date questions are bundles of these atomic
+      // outcomes, so this is the only quantity vector the market has.
       onDate: {
         quantities: onDateQuantities,
       },
-      byDate: {
-        quantities: byDateQuantities,
-      },
-      alpha: opts.alpha || 0.04,
-      minB: opts.minB || 150,
+      initialQuantities: onDateQuantities.slice(),
+      // fixed b; null means dynamic from alpha/minB (other market makers
+      // take b as their opening liquidity only)
+      b: type === 'lmsr' ? opts.b || null : null,
+      alpha: pool.alpha || opts.alpha || 0.04,
+      minB,
+      ...(pool.reserves ? { reserves: pool.reserves } : {}),
     },
+    fees: {
+      amm: opts.ammFee ?? DEFAULT_FEES.amm,
+      clob: opts.clobFee ?? DEFAULT_FEES.clob,
+      lpShare: opts.lpFeeShare ?? DEFAULT_FEES.lpShare,
+    },
+    accounting: createAccounting(),
+    book: createBook(outcomes.length),
     balances: {},
     trades: [],
-    sessions: {},
+    priceHistory: [],
+    risk: createRisk(opts.riskLimits),
   };
+  seedPriceHistory(state, getMarketMaker(state), now);
+  return state;
 }
 
+function numOutcomes(state) {
+  return state.market.outcomes.length;
+}
+
+// The market maker's current liquidity parameter (b for the LMSRs)
 function getB(state) {
-  return dynamicB(state.amm.alpha, state.market.totalVolume, state.amm.minB);
+  return getMarketMaker(state).liquidity;
+}
+
+// State files from before bundles kept a separate by_date pool and by_date
+// balances. A by_date share on day d is the bundle of on_date shares for
+// days 1..d, so holdings are folded into the atomic balances.
+function migrateByDate(state) {
+  if (state.amm.byDate) {
+    delete state.amm.byDate;
+  }
+  for (const balance of Object.values(state.balances)) {
+    if (!balance.byDate) continue;
+    balance.byDate.forEach((shares, dayIndex) => {
+      for (let i = 0; i <= dayIndex; i++) {
+        balance.onDate[i] += shares;
+      }
+    });
+    delete balance.byDate;
+  }
+  return state;
+}
+
+// Bring a market written by an older server up to the current shape
+function upgradeMarket(state) {
+  if (!state.market.outcomes) {
+    state.market.title = DEFAULT_MARKET.title;
+    state.market.kind = DEFAULT_MARKET.kind;
+    state.market.ordered = true;
+    state.market.outcomes = FEBRUARY_DAYS.map((label, index) => ({ index, label }));
+  }
+  if (state.amm.b === undefined) {
+    state.amm.b = null;
+  }
+  if (!state.amm.type) {
+    state.amm.type = 'lmsr';
+  }
+  if (!state.book) {
+    state.book = createBook(numOutcomes(state));
+  }
+  // Markets from before fee accounting start their books from today
+  if (!state.accounting) {
+    state.fees = { ...DEFAULT_FEES };
+    state.accounting = createAccounting();
+    state.amm.initialQuantities = state.amm.onDate.quantities.slice();
+  }
+  if (!state.priceHistory) {
+    state.priceHistory = [];
+    seedPriceHistory(state, getMarketMaker(state));
+  }
+  if (!state.risk) {
+    state.risk = createRisk();
+  }
+  for (const [user, balance] of Object.entries(state.balances)) {
+    if (!balance.ledger) upgradeLedger(balance, escrowedShares(state, user));
+    for (const position of balance.ledger.outcomes) {
+      if (position.no === undefined) position.no = 0;
+    }
+  }
+  migrateByDate(state);
+  return state;
+}
+
+// ==================== REGISTRY ====================
+
+function createRegistry() {
+  const market = createMarket(DEFAULT_MARKET);
+  return {
+    defaultMarketId: market.market.id,
+    markets: { [market.market.id]: market },
+    sessions: {},
+    collateral: {},
+    nonces: {},
+  };
+}
+
+// Older state files hold a single market at the top level
+function upgradeRegistry(data) {
+  let registry = data;
+  if (data.market) {
+    const { sessions, ...market } = data;
+    registry = {
+      defaultMarketId: market.market.id,
+      markets: { [market.market.id]: market },
+      sessions: sessions || {},
+    };
+  }
+  if (!registry.collateral) {
+    registry.collateral = {};
+  }
+  if (!registry.nonces) {
+    registry.nonces = {};
+  }
+  for (const market of Object.values(registry.markets)) {
+    upgradeMarket(market);
+  }
+  return registry;
+}
+
+function getMarket(registry, id) {
+  return registry.markets[id || registry.defaultMarketId] || null;
+}
+
+function addMarket(registry, state) {
+  registry.markets[state.market.id] = state;
+  return state;
 }
 
 function ensureUserBalance(state, user) {
   if (!state.balances[user]) {
     state.balances[user] = {
-      onDate: new Array(NUM_DAYS).fill(0),
-      byDate: new Array(NUM_DAYS).fill(0),
+      onDate: new Array(numOutcomes(state)).fill(0),
       usd: 0,
+      costBasis: 0,
+      ledger: createLedger(numOutcomes(state)),
     };
   }
   return state.balances[user];
 }
 
-function updateBalance(state, user, marketType, dayIndex, delta) {
+// Shares a user has escrowed in resting sell orders, per outcome
+function escrowedShares(state, user) {
+  return state.book.outcomes.map(outcome => outcome.asks
+    .filter(order => order.user === user)
+    .reduce((acc, order) => acc + order.remaining, 0));
+}
+
+// Net collateral a user has put into this market (buys minus sell proceeds)
+function addCostBasis(state, user, amount) {
+  const balance = ensureUserBalance(state, user);
+  balance.costBasis = (balance.costBasis || 0) + amount;
+}
+
+// Credit (or debit) `delta` shares of every atomic outcome in `indices`
+function updateBalance(state, user, indices, delta) {
   ensureUserBalance(state, user);
-  if (marketType === 'on_date') {
-    state.balances[user].onDate[dayIndex] += delta;
-  } else {
-    state.balances[user].byDate[dayIndex] += delta;
+  for (const i of indices) {
+    state.balances[user].onDate[i] += delta;
   }
 }
 
-function getUserShares(state, user, marketType, dayIndex) {
+// Complete bundles held: limited by the scarcest outcome in the bundle
+function getUserShares(state, user, indices) {
   ensureUserBalance(state, user);
-  if (marketType === 'on_date') {
-    return state.balances[user].onDate[dayIndex] || 0;
-  }
-  return state.balances[user].byDate[dayIndex] || 0;
+  return Math.min(...indices.map(i => state.balances[user].onDate[i] || 0));
 }
 
-function recordTrade(state, trade) {
+// The full trade history is kept; ids count up from 1
+function recordTrade(state, trade, now = Date.now()) {
+  const last = state.trades[state.trades.length - 1];
   state.trades.push({
-    id: state.trades.length + 1,
-    timestamp: Date.now(),
+    id: last ? last.id + 1 : 1,
+    timestamp: now,
     ...trade,
   });
-  
-  // Keep only last 100 trades
-  if (state.trades.length > 100) {
-    state.trades = state.trades.slice(-100);
-  }
 }
 
-function setSession(state, user, session) {
+function setSession(state, user, session, now = Date.now()) {
   state.sessions[user] = {
     ...state.sessions[user],
     ...session,
-    updatedAt: Date.now(),
+    updatedAt: now,
   };
 }
 
@@ -123,45 +297,53 @@ function loadState(filePath = DEFAULT_STATE_PATH) {
   return null;
 }
 
-function saveState(state, filePath = DEFAULT_STATE_PATH) {
+// Write to a temp file, fsync and rename over the target, so a crash leaves
+// either the old or the new file and never a torn one
+function writeFileAtomic(filePath, contents) {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmpPath, 'w');
   try {
-    const dir = path.dirname(filePath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    fs.writeFileSync(filePath, JSON.stringify(state, null, 2));
-  } catch (err) {
-    console.error('Failed to save state:', err.message);
+    fs.writeSync(fd, contents);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
   }
+  fs.renameSync(tmpPath, filePath);
 }
 
-function resolveMarket(state, winningDay) {
-  state.market.status = 'resolved';
-  state.market.resolution = winningDay;
-  
-  // Calculate payouts (simplified)
-  const payouts = {};
-  for (const [user, balance] of Object.entries(state.balances)) {
-    const shares = balance.onDate[winningDay - 1] || 0;
-    if (shares > 0) {
-      payouts[user] = shares;
-    }
+function saveState(state, filePath = DEFAULT_STATE_PATH) {
+  try {
+    writeFileAtomic(filePath, JSON.stringify(state, null, 2));
+  } catch (err) {
+    console.error('Failed to save state:', err.message);
   }
-  
-  return { winningDay, payouts };
 }
 
 module.exports = {
   DEFAULT_STATE_PATH,
+  DEFAULT_MARKET,
+  MARKET_KINDS,
+  DEFAULT_MIN_B,
   createMarket,
+  numOutcomes,
   getB,
+  upgradeMarket,
+  createRegistry,
+  upgradeRegistry,
+  getMarket,
+  addMarket,
   ensureUserBalance,
   updateBalance,
+  addCostBasis,
   getUserShares,
   recordTrade,
   setSession,
   getSession,
   loadState,
   saveState,
-  resolveMarket,
+  writeFileAtomic,
 };
@@ -0,0 +1,123 @@
+// Durable Market Storage: snapshot + append-only journal
+//
+// Every accepted mutation is appended to the journal and fsynced before its
+// response goes out. The full registry is snapshotted (atomically) every
+// SNAPSHOT_INTERVAL entries and records the last journal seq it contains; on
+// startup the snapshot is loaded and newer journal entries are replayed.
+//
+// The journal is never truncated: together with the base snapshot (the
+// registry as it was when the journal began) it is the audit trail that
+// replay.js rebuilds balances from.
+//
+// For statePath data/market-state.json the files are:
+//   data/market-state.json            latest snapshot
+//   data/market-state.journal.jsonl   journal, one JSON entry per line
+//   data/market-state.base.json       registry at journal seq 0
+
+const fs = require('fs');
+const { loadState, saveState, writeFileAtomic } = require('./state');
+
+const SNAPSHOT_INTERVAL = 100;
+
+function storagePaths(statePath) {
+  const stem = statePath.replace(/\.json$/, '');
+  return {
+    snapshot: statePath,
+    journal: `${stem}.journal.jsonl`,
+    base: `${stem}.base.json`,
+  };
+}
+
+// A crash mid-append can leave a torn last line; anything else unreadable
+// means the journal is corrupt and replaying past it would be wrong.
+function readJournal(journalPath) {
+  if (!fs.existsSync(journalPath)) return { entries: [], torn: false };
+
+  const lines = fs.readFileSync(journalPath, 'utf8').split('\n').filter(Boolean);
+  const entries = [];
+  for (let i = 0; i < lines.length; i++) {
+    try {
+      entries.push(JSON.parse(lines[i]));
+    } catch (err) {
+      if (i === lines.length - 1) return { entries, torn: true };
+      throw new Error(`Corrupt journal ${journalPath} at line ${i + 1}: ${err.message}`);
+    }
+  }
+  return { entries, torn: false };
+}
+
+function createStore(statePath, { snapshotInterval = SNAPSHOT_INTERVAL } = {}) {
+  const paths = storagePaths(statePath);
+  let seq = 0;
+  let sinceSnapshot = 0;
+  let fd = null;
+
+  // Returns the last snapshot (or null) and the journal entries it is missing
+  function load() {
+    const snapshot = loadState(paths.snapshot);
+    const { entries, torn } = readJournal(paths.journal);
+
+    if (torn) {
+      console.warn(`Dropping torn last entry of ${paths.journal}`);
+      writeFileAtomic(paths.journal, entries.map(e => JSON.stringify(e) + '\n').join(''));
+    }
+
+    const snapshotSeq = snapshot && snapshot.journalSeq ? snapshot.journalSeq : 0;
+    seq = entries.length > 0 ? Math.max(snapshotSeq, entries[entries.length - 1].seq) : snapshotSeq;
+
+    const pending = entries.filter(e => e.seq > snapshotSeq);
+    sinceSnapshot = pending.length;
+    return { snapshot, pending };
+  }
+
+  // Start journaling on top of `registry`; an empty journal starts from it
+  function open(registry) {
+    const hasJournal = fs.existsSync(paths.journal) && fs.statSync(paths.journal).size > 0;
+    if (!hasJournal) {
+      saveState({ ...registry, journalSeq: seq }, paths.base);
+    } else if (!fs.existsSync(paths.base)) {
+      console.warn(`No base snapshot for ${paths.journal}: replay audits are unavailable`);
+    }
+    fd = fs.openSync(paths.journal, 'a');
+  }
+
+  function append(entry) {
+    const record = { seq: seq + 1, timestamp: Date.now(), ...entry };
+    fs.writeSync(fd, JSON.stringify(record) + '\n');
+    fs.fsyncSync(fd);
+    seq = record.seq;
+    sinceSnapshot++;
+    return record;
+  }
+
+  function snapshot(registry) {
+    registry.journalSeq = seq;
+    saveState(registry, paths.snapshot);
+    sinceSnapshot = 0;
+  }
+
+  function close(registry) {
+    if (registry) snapshot(registry);
+    if (fd !== null) {
+      fs.closeSync(fd);
+      fd = null;
+    }
+  }
+
+  return {
+    paths,
+    load,
+    open,
+    append,
+    snapshot,
+    snapshotDue: () => sinceSnapshot >= snapshotInterval,
+    close,
+  };
+}
+
+module.exports = {
+  SNAPSHOT_INTERVAL,
+  storagePaths,
+  readJournal,
+  createStore,
+};
@@ -0,0 +1,102 @@
+// Fee ledger, AMM cash and LP capital accounting
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMarket } = require('../state');
+const { getMarketMaker } = require('../market-maker');
+const { resolveMarket, VOID_OUTCOME } = require('../settlement');
+const {
+  chargeFee,
+  recordAmmCash,
+  computePnl,
+  depositLiquidity,
+  withdrawLiquidity,
+  providerReturns,
+} = require('../accounting');
+
+function market() {
+  return createMarket({ id: 'test', outcomes: ['A', 'B'], b: 100, ammFee: 0.01, clobFee: 0.002, lpFeeShare: 0.5 });
+}
+
+// What the AMM sees when a trader buys `shares` of outcome `index` for `cost`
+function ammBuy(state, index, shares, cost) {
+  state.amm.onDate.quantities[index] += shares;
+  recordAmmCash(state, cost);
+  chargeFee(state, { user: 'alice', venue: 'amm', notional: cost });
+}
+
+test('fees are charged on notional and recorded in the ledger', () => {
+  const state = market();
+  assert.equal(chargeFee(state, { user: 'alice', venue: 'amm', notional: -50 }), 0.5);
+  assert.equal(chargeFee(state, { user: 'bob', venue: 'clob', notional: 100 }), 0.2);
+
+  assert.deepEqual(state.accounting.feesCollected, { amm: 0.5, clob: 0.2 });
+  assert.deepEqual(state.accounting.feeLedger.map(e => [e.user, e.venue, e.notional]), [
+    ['alice', 'amm', 50],
+    ['bob', 'clob', 100],
+  ]);
+});
+
+test('LPs take their share of AMM fees; the protocol keeps the rest and all book fees', () => {
+  const state = market();
+  chargeFee(state, { user: 'alice', venue: 'amm', notional: 100 });
+  chargeFee(state, { user: 'alice', venue: 'clob', notional: 100 });
+
+  const pnl = computePnl(state, getMarketMaker(state));
+  assert.equal(pnl.fees.lp, 0.5);
+  assert.ok(Math.abs(pnl.fees.protocol - 0.7) < 1e-12);
+  assert.equal(pnl.lp.pnl, 0.5, 'an untouched curve has no trading P&L');
+});
+
+test('the AMM marks its sold shares to market', () => {
+  const state = market();
+  ammBuy(state, 0, 10, 5.2);
+
+  const pnl = computePnl(state, getMarketMaker(state));
+  const price = Math.exp(0.1) / (Math.exp(0.1) + 1);
+  assert.ok(Math.abs(pnl.amm.markToMarketLiability - 10 * price) < 1e-9);
+  assert.equal(pnl.amm.worstCaseLiability, 10);
+  assert.ok(Math.abs(pnl.amm.pnl - (5.2 - 10 * price)) < 1e-9);
+});
+
+test('after resolution the liability is the winning shares, or the takings if void', () => {
+  const won = market();
+  ammBuy(won, 0, 10, 5.2);
+  resolveMarket(won, 0);
+  assert.ok(Math.abs(computePnl(won, getMarketMaker(won)).amm.pnl - (5.2 - 10)) < 1e-9);
+
+  const lost = market();
+  ammBuy(lost, 0, 10, 5.2);
+  resolveMarket(lost, 1);
+  assert.ok(Math.abs(computePnl(lost, getMarketMaker(lost)).amm.pnl - 5.2) < 1e-9);
+
+  const voided = market();
+  ammBuy(voided, 0, 10, 5.2);
+  resolveMarket(voided, VOID_OUTCOME);
+  assert.equal(computePnl(voided, getMarketMaker(voided)).amm.pnl, 0);
+});
+
+test('LP capital must cover the worst-case loss while the market is open', () => {
+  const state = market();
+  const maker = getMarketMaker(state);
+  const required = maker.worstCaseLoss();
+  assert.equal(required, 100 * Math.log(2));
+  depositLiquidity(state, 'lp1', required + 10);
+
+  assert.match(withdrawLiquidity(state, 'lp1', 20, maker).error, /under-funded/);
+  assert.equal(withdrawLiquidity(state, 'lp1', 10, maker).provider.capital, required);
+  assert.match(withdrawLiquidity(state, 'lp2', 1, maker).error, /exceeds provided capital/);
+
+  state.market.status = 'resolved';
+  assert.equal(withdrawLiquidity(state, 'lp1', required, maker).provider.capital, 0);
+});
+
+test('LP P&L is split by capital', () => {
+  const state = market();
+  depositLiquidity(state, 'lp1', 300);
+  depositLiquidity(state, 'lp2', 100);
+
+  const returns = providerReturns(state, 40);
+  assert.deepEqual(returns.map(r => [r.provider, r.share, r.pnl]), [['lp1', 0.75, 30], ['lp2', 0.25, 10]]);
+  assert.equal(computePnl(state, getMarketMaker(state)).lp.capital, 400);
+});
@@ -0,0 +1,168 @@
+// Market routes: signed requests through the router against a fresh registry
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { privateKeyToAccount, generatePrivateKey } = require('viem/accounts');
+const { createMarketRouter, closeMarketStore, getState } = require('../api');
+const { AUTH_DOMAIN, REQUEST_TYPES, requestMessage } = require('../auth');
+
+const trader = privateKeyToAccount(generatePrivateKey());
+const admin = privateKeyToAccount(generatePrivateKey());
+const CLOB = '0x2222222222222222222222222222222222222222';
+const ADMIN_ROUTES = ['/resolve'];
+let nextNonce = 1;
+
+async function signed(marketId, route, body, account = trader) {
+  const signer = ADMIN_ROUTES.includes(route) ? 'admin' : 'user';
+  const full = { ...body, [signer]: account.address, nonce: nextNonce++, expiry: Math.floor(Date.now() / 1000) + 600 };
+  full.signature = await account.signTypedData({
+    domain: { ...AUTH_DOMAIN, chainId: 11155111 },
+    types: REQUEST_TYPES,
+    primaryType: 'MarketRequest',
+    message: requestMessage(marketId, route, full),
+  });
+  return full;
+}
+
+// Send through the router and resolve to { status, body }
+function request(handler, method, url, body) {
+  return new Promise(resolve => {
+    const res = {
+      writeHead(status) { this.status = status; },
+      end(data) { resolve({ status: this.status, body: JSON.parse(data) }); },
+    };
+    handler({ method, url }, res, url, body && JSON.stringify(body));
+  });
+}
+
+// One registry per test: the router keeps it in module state
+function start() {
+  closeMarketStore();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clob-api-'));
+  let sessions = 0;
+  const handler = createMarketRouter({
+    statePath: path.join(dir, 'market-state.json'),
+    snapshotInterval: 2,
+    admins: [admin.address],
+    clobAddress: CLOB,
+    // ClearNode accepts every session
+    openChannel: async () => ({ sessionId: `s${++sessions}`, version: 0 }),
+  });
+  const marketId = getState().market.id;
+  test.after(() => {
+    closeMarketStore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const post = async (route, body, account) =>
+    request(handler, 'POST', `/api/market${route}`, await signed(marketId, route, body, account));
+  const get = route => request(handler, 'GET', `/api/market${route}`);
+  return { marketId, post, get };
+}
+
+// Open a Yellow session for `account` at the given allocations
+function openSession(post, account, userBalance, clobBalance) {
+  const allocation = (participant, amount) => ({ participant, asset: 'ytest.usd', amount: String(amount) });
+  return post('/session', {
+    createSession: {
+      req: [1, 'create_app_session', {
+        definition: { participants: [account.address, CLOB] },
+        allocations: [allocation(account.address, userBalance), allocation(CLOB, clobBalance)],
+      }, 0],
+      sig: ['0xsig'],
+    },
+  }, account);
+}
+
+async function session(get, account) {
+  const { body } = await get(`/positions/${account.address}`);
+  return body.session;
+}
+
+test('outcome indices must be whole and in range', async () => {
+  const { post, get } = start();
+
+  for (const dayIndex of [0.5, -1, 1e6, '0']) {
+    const buy = await post('/buy', { marketType: 'on_date', dayIndex, amount: 5 });
+    assert.deepEqual(buy, { status: 400, body: { error: 'Invalid dayIndex' } }, `dayIndex ${dayIndex}`);
+  }
+  const between = await post('/buy', { marketType: 'between', dayIndex: 0, endIndex: 1.5, amount: 5 });
+  assert.match(between.body.error, /Invalid endIndex/);
+  const limit = await post('/order/limit', { dayIndex: 0.5, side: 'buy', price: 0.5, shares: 1 });
+  assert.equal(limit.body.error, 'Invalid dayIndex');
+  assert.equal((await get('/book/0.5')).body.error, 'Invalid dayIndex');
+  assert.equal((await get('/book/0')).status, 200);
+});
+
+test('resolution needs a whole winningDay', async () => {
+  const { marketId, post } = start();
+
+  for (const winningDay of [1.5, 0, 29, '1', undefined]) {
+    const resolve = await post('/resolve', { winningDay }, admin);
+    assert.match(resolve.body.error, /Provide winningDay: 1-28/, `winningDay ${winningDay}`);
+  }
+  assert.equal(getState(marketId).market.status, 'open');
+
+  const resolved = await post('/resolve', { winningDay: 2 }, admin);
+  assert.equal(resolved.status, 200);
+  assert.equal(getState(marketId).market.resolution, 2);
+});
+
+test('order routes trade out of the channel allocation, less what resting orders hold', async () => {
+  const { post, get } = start();
+  assert.equal((await openSession(post, trader, 10, 10)).status, 200);
+
+  const unversioned = await post('/order/limit', { dayIndex: 0, side: 'buy', price: 0.5, shares: 10 });
+  assert.match(unversioned.body.error, /provide channelVersion \(current 0\)/);
+  const tooBig = await post('/order/limit', { dayIndex: 0, side: 'buy', price: 0.5, shares: 30, channelVersion: 0 });
+  assert.match(tooBig.body.error, /exceeds user channel allocation: 15\.0000 > 10\.0000/);
+
+  const resting = await post('/order/limit', { dayIndex: 0, side: 'buy', price: 0.5, shares: 10, channelVersion: 0 });
+  assert.equal(resting.status, 200);
+  assert.equal(resting.body.stateUpdate, null, 'nothing filled, nothing moves');
+
+  // The resting bid holds 5 of the 10
+  const buy = await post('/buy', { marketType: 'on_date', dayIndex: 1, amount: 6, channelVersion: 0 });
+  assert.match(buy.body.error, /exceeds user channel allocation: 6\.0000 > 5\.0000/);
+  const market = await post('/order/market', { dayIndex: 0, side: 'buy', shares: 1, channelVersion: 1 });
+  assert.match(market.body.error, /Stale channel state/);
+  assert.equal((await post('/buy', { marketType: 'on_date', dayIndex: 1, amount: 5, channelVersion: 0 })).status, 200);
+  const { userBalance, clobBalance, version } = await session(get, trader);
+  assert.deepEqual([userBalance, clobBalance, version], [5, 15, 1]);
+});
+
+test('a book fill settles both users\' sessions through the CLOB', async () => {
+  const { marketId, post, get } = start();
+  const maker = privateKeyToAccount(generatePrivateKey());
+  await openSession(post, maker, 20, 20);
+  await openSession(post, trader, 20, 20);
+  const fee = getState(marketId).fees.clob;
+
+  await post('/order/limit', { dayIndex: 0, side: 'buy', price: 0.5, shares: 10, channelVersion: 0 }, maker);
+  const bought = await post('/buy', { marketType: 'on_date', dayIndex: 0, amount: 10, channelVersion: 0 });
+  assert.equal(bought.body.stateUpdate.version, 1);
+
+  const sold = await post('/order/market', { dayIndex: 0, side: 'sell', shares: 4, channelVersion: 1 });
+  assert.equal(sold.status, 200);
+  assert.equal(sold.body.fills[0].maker, maker.address);
+
+  const paid = 2 * (1 - fee);
+  const taker = await session(get, trader);
+  assert.equal(sold.body.stateUpdate.version, 2);
+  assert.ok(Math.abs(taker.userBalance - (10 + paid)) < 1e-9);
+  assert.ok(Math.abs(taker.clobBalance - (30 - paid)) < 1e-9);
+  const { userBalance, clobBalance, version } = await session(get, maker);
+  assert.deepEqual([userBalance, clobBalance, version], [18, 22, 1]);
+});
+
+test('a session must cover the orders already resting', async () => {
+  const { post } = start();
+  await post('/order/limit', { dayIndex: 0, side: 'buy', price: 0.5, shares: 10 });
+
+  const short = await openSession(post, trader, 4, 10);
+  assert.match(short.body.error, /Resting orders need more than the session allocates/);
+  assert.equal((await openSession(post, trader, 5, 10)).status, 200);
+});
@@ -0,0 +1,92 @@
+// Signed requests: EIP-712 verification, admin routes and nonces
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { privateKeyToAccount, generatePrivateKey } = require('viem/accounts');
+const {
+  AUTH_DOMAIN,
+  REQUEST_TYPES,
+  requestMessage,
+  isNonceUsed,
+  consumeNonce,
+  createAuthenticator,
+} = require('../auth');
+
+const CHAIN_ID = 11155111;
+const trader = privateKeyToAccount(generatePrivateKey());
+const admin = privateKeyToAccount(generatePrivateKey());
+const { authenticate } = createAuthenticator({ admins: [admin.address], chainId: CHAIN_ID });
+
+async function sign(account, marketId, route, body, field = 'user') {
+  const signed = {
+    ...body,
+    [field]: account.address,
+    nonce: body.nonce ?? 1,
+    expiry: body.expiry ?? Math.floor(Date.now() / 1000) + 600,
+  };
+  signed.signature = await account.signTypedData({
+    domain: { ...AUTH_DOMAIN, chainId: CHAIN_ID },
+    types: REQUEST_TYPES,
+    primaryType: 'MarketRequest',
+    message: requestMessage(marketId, route, signed),
+  });
+  return signed;
+}
+
+test('a signed request authenticates as its signer', async () => {
+  const body = await sign(trader, 'm1', '/buy', { marketType: 'on_date', dayIndex: 2, amount: 10 });
+  body.user = body.user.toLowerCase();
+  assert.deepEqual(await authenticate('m1', '/buy', body, {}), { address: trader.address });
+});
+
+test('changing any signed field breaks the signature', async () => {
+  const body = await sign(trader, 'm1', '/buy', { marketType: 'on_date', dayIndex: 2, amount: 10 });
+
+  for (const [marketId, route, changed] of [
+    ['m1', '/buy', { ...body, amount: 1000 }],
+    ['m1', '/buy', { ...body, dayIndex: 3 }],
+    ['m2', '/buy', body],
+    ['m1', '/sell', body],
+  ]) {
+    const result = await authenticate(marketId, route, changed, {});
+    assert.deepEqual(result, { error: 'Invalid signature', status: 401 });
+  }
+});
+
+test('a request claiming another address is rejected', async () => {
+  const body = await sign(trader, 'm1', '/buy', { marketType: 'on_date', dayIndex: 0, amount: 10 });
+  const result = await authenticate('m1', '/buy', { ...body, user: admin.address }, {});
+  assert.equal(result.error, 'Invalid signature');
+});
+
+test('expired and over-long expiries are rejected', async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const expired = await sign(trader, 'm1', '/claim', { expiry: now - 1 });
+  const tooLong = await sign(trader, 'm1', '/claim', { expiry: now + 7200 });
+
+  assert.equal((await authenticate('m1', '/claim', expired, {})).error, 'Request expired');
+  assert.match((await authenticate('m1', '/claim', tooLong, {})).error, /expiry must be within/);
+});
+
+test('admin routes need an admin signer', async () => {
+  const byTrader = await sign(trader, 'm1', '/resolve', { winningDay: 1 }, 'admin');
+  const byAdmin = await sign(admin, 'm1', '/resolve', { winningDay: 1 }, 'admin');
+
+  assert.deepEqual(await authenticate('m1', '/resolve', byTrader, {}), { error: 'Admin role required', status: 403 });
+  assert.deepEqual(await authenticate('m1', '/resolve', byAdmin, {}), { address: admin.address });
+});
+
+test('a used nonce is rejected until it expires', async () => {
+  const nonces = {};
+  const body = await sign(trader, 'm1', '/claim', { nonce: 7 });
+  assert.deepEqual(await authenticate('m1', '/claim', body, nonces), { address: trader.address });
+
+  consumeNonce(nonces, trader.address, body.nonce, body.expiry);
+  assert.ok(isNonceUsed(nonces, trader.address, 7));
+  assert.equal((await authenticate('m1', '/claim', body, nonces)).error, 'Nonce already used');
+
+  // Consuming another nonce after this one expired prunes it
+  consumeNonce(nonces, trader.address, 8, body.expiry + 600, body.expiry);
+  assert.ok(!isNonceUsed(nonces, trader.address, 7));
+  assert.ok(isNonceUsed(nonces, trader.address, 8));
+});
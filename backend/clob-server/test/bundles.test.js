@@ -0,0 +1,50 @@
+// By-date and between-date questions as bundles of on_date outcomes
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { bundleIndices, bundlePrice, sharesForBudget, tradeCost, bundleVector } = require('../lmsr');
+const { createMarket, upgradeMarket, updateBalance, getUserShares } = require('../state');
+
+test('questions map to the atomic outcomes they cover', () => {
+  assert.deepEqual(bundleIndices('on_date', 3), [3]);
+  assert.deepEqual(bundleIndices('by_date', 3), [0, 1, 2, 3]);
+  assert.deepEqual(bundleIndices('between', 2, 4), [2, 3, 4]);
+});
+
+test('a by-date price is the sum of the on-date prices it covers', () => {
+  const quantities = [0, 0, 0, 0];
+  assert.ok(Math.abs(bundlePrice(quantities, [0, 1, 2], 100) - 0.75) < 1e-9);
+  assert.ok(Math.abs(bundlePrice(quantities, [0, 1, 2, 3], 100) - 1) < 1e-9);
+});
+
+test('sharesForBudget spends the budget on the whole bundle', () => {
+  const quantities = [0, 0, 0, 0];
+  const shares = sharesForBudget(quantities, [0, 1], 100, 10, true);
+  const cost = tradeCost(quantities, bundleVector(4, [0, 1], shares), 100);
+  assert.ok(Math.abs(cost - 10) < 1e-3);
+});
+
+function market() {
+  return createMarket({ id: 'test', outcomes: ['A', 'B', 'C', 'D'] });
+}
+
+test('holding a bundle is limited by its scarcest outcome', () => {
+  const state = market();
+  updateBalance(state, 'alice', [0, 1, 2], 5);
+  updateBalance(state, 'alice', [1], -2);
+  assert.equal(getUserShares(state, 'alice', [0, 1, 2]), 3);
+  assert.equal(getUserShares(state, 'alice', [0]), 5);
+});
+
+test('legacy by_date pools and balances fold into on_date holdings', () => {
+  const state = market();
+  state.amm.byDate = { quantities: new Array(4).fill(0) };
+  state.balances.alice = { onDate: new Array(4).fill(0), byDate: new Array(4).fill(0), usd: 0 };
+  state.balances.alice.byDate[2] = 4;
+
+  upgradeMarket(state);
+
+  assert.equal(state.amm.byDate, undefined);
+  assert.equal(state.balances.alice.byDate, undefined);
+  assert.deepEqual(state.balances.alice.onDate, [4, 4, 4, 0]);
+});
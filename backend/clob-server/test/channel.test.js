@@ -0,0 +1,105 @@
+// Channel sessions: versioned allocations that trades move between user and CLOB
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseCreateSession, openSession, checkVersion, checkAllocation, applyTrade, closeSession } = require('../channel');
+
+const USER = '0x1111111111111111111111111111111111111111';
+const CLOB = '0x2222222222222222222222222222222222222222';
+
+function createSession(allocations, participants = [USER, CLOB]) {
+  return {
+    req: [1, 'create_app_session', { definition: { participants }, allocations }, 0],
+    sig: ['0xsig'],
+  };
+}
+
+const allocation = (participant, amount, asset = 'ytest.usd') => ({ participant, asset, amount: String(amount) });
+
+function open(overrides = {}) {
+  return openSession(null, { sessionId: 's1', userBalance: 50, clobBalance: 100, version: 1, clobAddress: CLOB, ...overrides });
+}
+
+test('sessions open with non-negative allocations and an integer version', () => {
+  assert.equal(open().session.status, 'open');
+  assert.match(open({ sessionId: '' }).error, /Missing sessionId/);
+  assert.match(open({ userBalance: -1 }).error, /non-negative/);
+  assert.match(open({ version: 1.5 }).error, /non-negative integer/);
+});
+
+test('allocations are read from the signed create_app_session request', () => {
+  const signed = createSession([allocation(USER, 50), allocation(CLOB, 100)]);
+  assert.deepEqual(parseCreateSession(signed, { user: USER, clobAddress: CLOB }), { userBalance: 50, clobBalance: 100 });
+});
+
+test('sessions with anyone but the user and the CLOB are rejected', () => {
+  const other = '0x3333333333333333333333333333333333333333';
+  const check = session => parseCreateSession(session, { user: USER, clobAddress: CLOB }).error;
+
+  assert.match(check(createSession([allocation(USER, 1)], [USER, other])), /participants/);
+  assert.match(check(createSession([allocation(other, 1)])), /go to the user and the CLOB/);
+  assert.match(check(createSession([allocation(USER, 1, 'usdc')])), /ytest\.usd/);
+  assert.match(check(createSession([allocation(USER, -1)])), /non-negative/);
+  assert.match(check({ ...createSession([]), sig: [] }), /signature/);
+  assert.match(check({ req: [1, 'close_app_session', {}, 0], sig: ['0xsig'] }), /create_app_session/);
+});
+
+test('a closed session cannot be reopened, and an open one blocks another', () => {
+  const { session } = openSession(null, { sessionId: 's1', userBalance: 50, clobBalance: 100, version: 1, clobAddress: CLOB });
+  assert.equal(session.status, 'open');
+  assert.match(openSession(session, { sessionId: 's2', userBalance: 1, clobBalance: 1, clobAddress: CLOB }).error, /Close channel session s1/);
+
+  closeSession(session, USER, 0);
+  assert.match(openSession(session, { sessionId: 's1', userBalance: 1e9, clobBalance: 0, clobAddress: CLOB }).error, /already registered and closed/);
+  assert.equal(openSession(session, { sessionId: 's2', userBalance: 1, clobBalance: 1, clobAddress: CLOB }).session.sessionId, 's2');
+});
+
+test('trades must quote the current version and fit the paying allocation', () => {
+  const { session } = open();
+  assert.match(checkVersion(session, undefined), /provide channelVersion \(current 1\)/);
+  assert.match(checkVersion(session, 0), /Stale channel state/);
+  assert.equal(checkVersion(session, 1), null);
+
+  assert.equal(checkAllocation(session, 'buy', 50), null);
+  assert.match(checkAllocation(session, 'buy', 51), /user channel allocation/);
+  assert.match(checkAllocation(session, 'sell', 101), /CLOB channel allocation/);
+  assert.match(checkAllocation(session, 'buy', 30, 25), /30\.0000 > 25\.0000/, 'resting orders hold 25');
+});
+
+test('a trade moves its amount between allocations and bumps the version', () => {
+  const { session } = open();
+  const buy = applyTrade(session, { user: USER, side: 'buy', amount: 20, sessionData: { trade: 1 } });
+
+  assert.equal(buy.version, 2);
+  assert.equal(session.userBalance, 30);
+  assert.equal(session.clobBalance, 120);
+  const [, method, params] = buy.req;
+  assert.equal(method, 'submit_app_state');
+  assert.equal(params.version, 2);
+  assert.deepEqual(params.allocations.map(a => [a.participant, a.amount]), [[USER, '30'], [CLOB, '120']]);
+
+  applyTrade(session, { user: USER, side: 'sell', amount: 5, sessionData: {} });
+  assert.equal(session.userBalance, 35);
+  assert.equal(session.version, 3);
+});
+
+test('a trade the paying allocation cannot cover is rejected, not clamped', () => {
+  const { session } = open();
+  const before = { ...session };
+
+  assert.match(applyTrade(session, { user: USER, side: 'buy', amount: 60, sessionData: {} }).error, /user channel allocation/);
+  assert.match(applyTrade(session, { user: USER, side: 'sell', amount: 101, sessionData: {} }).error, /CLOB channel allocation/);
+  assert.deepEqual(session, before);
+
+  applyTrade(session, { user: USER, side: 'buy', amount: 50 + 1e-12, sessionData: {} });
+  assert.equal(session.userBalance, 0);
+});
+
+test('closing settles the final allocations', () => {
+  const { session } = open();
+  const close = closeSession(session, USER);
+
+  assert.equal(session.status, 'closed');
+  assert.equal(close.req[1], 'close_app_session');
+  assert.deepEqual(close.req[2].allocations.map(a => a.amount), ['50', '100']);
+});
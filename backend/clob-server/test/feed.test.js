@@ -0,0 +1,119 @@
+// WebSocket market feed: subscriptions, snapshots and channel filtering
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const http = require('http');
+const WebSocket = require('ws');
+const { createMarketFeed } = require('../feed');
+
+function getSnapshot(marketId) {
+  if (marketId && marketId !== 'test') return null;
+  return { marketId: 'test', onDate: [0.5, 0.5] };
+}
+
+async function startFeed() {
+  const server = http.createServer();
+  const feed = createMarketFeed({ server, getSnapshot });
+  await new Promise(resolve => server.listen(0, resolve));
+  return { server, feed, url: `ws://localhost:${server.address().port}/ws` };
+}
+
+// Collects every message so tests can wait for the next one in order
+async function connect(url) {
+  const ws = new WebSocket(url);
+  const queue = [];
+  const waiting = [];
+  ws.on('message', (raw) => {
+    const message = JSON.parse(raw.toString());
+    if (waiting.length > 0) waiting.shift()(message);
+    else queue.push(message);
+  });
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+  ws.next = () => queue.length > 0
+    ? Promise.resolve(queue.shift())
+    : new Promise(resolve => waiting.push(resolve));
+  ws.pending = () => queue.length;
+  return ws;
+}
+
+async function stop({ server, feed }, ws) {
+  ws.close();
+  feed.close();
+  await new Promise(resolve => server.close(resolve));
+}
+
+test('subscribing confirms and sends a price snapshot', async () => {
+  const running = await startFeed();
+  const ws = await connect(running.url);
+
+  ws.send(JSON.stringify({ type: 'subscribe' }));
+  const subscribed = await ws.next();
+  const snapshot = await ws.next();
+
+  assert.equal(subscribed.type, 'subscribed');
+  assert.equal(subscribed.marketId, 'test');
+  assert.deepEqual(subscribed.channels, ['prices', 'trades', 'book', 'resolution']);
+  assert.equal(snapshot.type, 'snapshot');
+  assert.deepEqual(snapshot.data.onDate, [0.5, 0.5]);
+
+  await stop(running, ws);
+});
+
+test('clients only receive the channels they subscribed to', async () => {
+  const running = await startFeed();
+  const ws = await connect(running.url);
+
+  ws.send(JSON.stringify({ type: 'subscribe', marketId: 'test', channels: ['trades'] }));
+  await ws.next();
+  await ws.next();
+
+  running.feed.publish('test', 'prices', { onDate: [0.6, 0.4] });
+  running.feed.publish('other', 'trades', { id: 1 });
+  running.feed.publish('test', 'trades', { id: 2 });
+  const message = await ws.next();
+
+  assert.equal(message.type, 'trades');
+  assert.deepEqual(message.data, { id: 2 });
+  assert.equal(ws.pending(), 0);
+
+  ws.send(JSON.stringify({ type: 'unsubscribe', marketId: 'test' }));
+  assert.equal((await ws.next()).type, 'unsubscribed');
+  running.feed.publish('test', 'trades', { id: 3 });
+  ws.send(JSON.stringify({ type: 'ping' }));
+  assert.equal((await ws.next()).type, 'pong', 'nothing arrives after unsubscribing');
+
+  await stop(running, ws);
+});
+
+test('bad requests get an error message', async () => {
+  const running = await startFeed();
+  const ws = await connect(running.url);
+
+  ws.send('not json');
+  assert.equal((await ws.next()).error, 'Invalid JSON');
+  ws.send(JSON.stringify({ type: 'subscribe', marketId: 'missing' }));
+  assert.equal((await ws.next()).error, 'Unknown market: missing');
+  ws.send(JSON.stringify({ type: 'subscribe', channels: ['orders'] }));
+  assert.match((await ws.next()).error, /Invalid channels/);
+  ws.send(JSON.stringify({ type: 'dance' }));
+  assert.equal((await ws.next()).error, 'Unknown message type: dance');
+
+  await stop(running, ws);
+});
+
+test('frames that are not JSON objects are rejected without closing the socket', async () => {
+  const running = await startFeed();
+  const ws = await connect(running.url);
+
+  for (const frame of ['null', '42', '"subscribe"', '[]']) {
+    ws.send(frame);
+    assert.equal((await ws.next()).error, 'Message must be a JSON object');
+  }
+  ws.send(JSON.stringify({ type: 'ping' }));
+  assert.equal((await ws.next()).type, 'pong');
+
+  await stop(running, ws);
+});
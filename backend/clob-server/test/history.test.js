@@ -0,0 +1,73 @@
+// Per-trade price snapshots and OHLC candles
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMarket } = require('../state');
+const { getMarketMaker } = require('../market-maker');
+const { recordPrices, getPriceHistory } = require('../history');
+
+const HOUR = 60 * 60 * 1000;
+
+function market() {
+  return createMarket({ id: 'test', outcomes: ['A', 'B'], b: 100 });
+}
+
+// Move the curve, snapshot it and pin the snapshot to `timestamp`
+function trade(state, shares, volume, timestamp) {
+  state.amm.onDate.quantities[0] += shares;
+  recordPrices(state, getMarketMaker(state), volume);
+  state.priceHistory[state.priceHistory.length - 1].timestamp = timestamp;
+}
+
+test('a new market is seeded with its opening prices', () => {
+  const state = market();
+  assert.equal(state.priceHistory.length, 1);
+  assert.deepEqual(state.priceHistory[0].prices, [0.5, 0.5]);
+});
+
+test('snapshots bucket into candles that open at the previous close', () => {
+  const state = market();
+  state.priceHistory[0].timestamp = 0;
+  trade(state, 20, 10, 10 * 60 * 1000);
+  trade(state, -40, 5, 20 * 60 * 1000);
+  trade(state, 60, 30, HOUR + 60 * 1000);
+
+  const { series } = getPriceHistory(state, getMarketMaker(state), { outcome: 0, interval: '1h' });
+  const [first, second] = series[0].candles;
+  const prices = state.priceHistory.map(s => s.prices[0]);
+
+  assert.equal(series.length, 1);
+  assert.deepEqual(first, {
+    timestamp: 0,
+    open: 0.5,
+    high: prices[1],
+    low: prices[2],
+    close: prices[2],
+    volume: 15,
+    trades: 2,
+  });
+  assert.equal(second.timestamp, HOUR);
+  assert.equal(second.open, first.close);
+  assert.equal(second.close, prices[3]);
+  assert.deepEqual(series[0].curve.map(p => p.price), [first.close, second.close]);
+});
+
+test('every outcome is returned by default and the limit keeps the latest candles', () => {
+  const state = market();
+  state.priceHistory[0].timestamp = 0;
+  trade(state, 10, 1, HOUR);
+  trade(state, 10, 1, 2 * HOUR);
+
+  const history = getPriceHistory(state, getMarketMaker(state), { interval: '1h', limit: 2 });
+  assert.deepEqual(history.series.map(s => s.label), ['A', 'B']);
+  assert.deepEqual(history.series[0].candles.map(c => c.timestamp), [HOUR, 2 * HOUR]);
+  assert.equal(history.from, 0);
+  assert.equal(history.to, 2 * HOUR);
+});
+
+test('unknown intervals and outcomes are rejected', () => {
+  const state = market();
+  assert.match(getPriceHistory(state, getMarketMaker(state), { interval: '2h' }).error, /Invalid interval/);
+  assert.match(getPriceHistory(state, getMarketMaker(state), { outcome: 2 }).error, /Invalid outcome/);
+  assert.match(getPriceHistory(state, getMarketMaker(state), { outcome: 0.5 }).error, /Invalid outcome/);
+});
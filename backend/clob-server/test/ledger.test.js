@@ -0,0 +1,110 @@
+// Position ledger: average cost basis, realised and unrealised P&L
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createLedger, upgradeLedger, recordBuy, recordSell, recordClaim, ledgerReport } = require('../ledger');
+
+test('buys accumulate shares at average cost, fees included', () => {
+  const ledger = createLedger(2);
+  recordBuy(ledger, { indices: [0], shares: 10, cost: 4, fee: 0.04 });
+  recordBuy(ledger, { indices: [0], shares: 10, cost: 6 });
+
+  const report = ledgerReport(ledger, [0.6, 0.4]);
+  assert.deepEqual(report.positions[0], {
+    outcome: 0,
+    position: 'yes',
+    shares: 20,
+    avgCost: 0.5,
+    costBasis: 10,
+    price: 0.6,
+    value: 12,
+    unrealizedPnl: 2,
+  });
+  assert.equal(report.deposited, 10);
+  assert.equal(report.fees, 0.04);
+});
+
+test('a bundle splits its cost across legs by their prices', () => {
+  const ledger = createLedger(3);
+  recordBuy(ledger, { indices: [0, 1], shares: 10, cost: 8, prices: [0.75, 0.25, 0] });
+
+  assert.equal(ledger.outcomes[0].cost, 6);
+  assert.equal(ledger.outcomes[1].cost, 2);
+  assert.equal(ledger.outcomes[2].shares, 0);
+});
+
+test('a sell releases average cost and realises the rest', () => {
+  const ledger = createLedger(2);
+  recordBuy(ledger, { indices: [0], shares: 20, cost: 10 });
+  recordSell(ledger, { indices: [0], shares: 5, proceeds: 4, fee: 0.04 });
+
+  const report = ledgerReport(ledger, [0.5, 0.5]);
+  assert.equal(report.realizedPnl, 1.5);
+  assert.equal(report.costBasis, 7.5);
+  assert.equal(report.withdrawn, 4);
+  assert.equal(report.totalPnl, 1.5);
+});
+
+test('selling everything clears the position', () => {
+  const ledger = createLedger(1);
+  recordBuy(ledger, { indices: [0], shares: 3, cost: 1 });
+  recordSell(ledger, { indices: [0], shares: 3, proceeds: 2 });
+
+  assert.deepEqual(ledger.outcomes[0], { shares: 0, cost: 0, no: 0 });
+  assert.deepEqual(ledgerReport(ledger, [1]).positions, []);
+});
+
+test('a claim redeems every holding against the payout', () => {
+  const ledger = createLedger(2);
+  recordBuy(ledger, { indices: [0], shares: 10, cost: 3 });
+  recordBuy(ledger, { indices: [1], shares: 10, cost: 5 });
+  recordClaim(ledger, 10);
+
+  const report = ledgerReport(ledger, null);
+  assert.equal(report.realizedPnl, 2);
+  assert.deepEqual(report.positions, []);
+});
+
+test('a NO is reported as one position priced by its legs', () => {
+  const ledger = createLedger(3);
+  recordBuy(ledger, { indices: [1, 2], shares: 10, cost: 6, prices: [0.4, 0.3, 0.3], noOutcome: 0 });
+
+  const report = ledgerReport(ledger, [0.5, 0.25, 0.25]);
+  assert.deepEqual(report.positions.map(p => [p.outcome, p.position, p.shares, p.costBasis, p.price]), [
+    [0, 'no', 10, 6, 0.5],
+  ]);
+  assert.equal(report.unrealizedPnl, -1);
+});
+
+test('selling one leg of a NO breaks the bundle back into YES legs', () => {
+  const ledger = createLedger(3);
+  recordBuy(ledger, { indices: [1, 2], shares: 10, cost: 6, noOutcome: 0 });
+  recordSell(ledger, { indices: [1], shares: 4, proceeds: 1 });
+
+  const report = ledgerReport(ledger, [0.5, 0.25, 0.25]);
+  assert.deepEqual(report.positions.map(p => [p.outcome, p.position, p.shares]), [
+    [2, 'yes', 4],
+    [0, 'no', 6],
+  ]);
+
+  recordSell(ledger, { indices: [1, 2], shares: 6, proceeds: 3, noOutcome: 0 });
+  assert.deepEqual(ledgerReport(ledger, [0.5, 0.25, 0.25]).positions.map(p => [p.outcome, p.position, p.shares]), [
+    [2, 'yes', 4],
+  ]);
+});
+
+test('void markets mark holdings at cost', () => {
+  const ledger = createLedger(1);
+  recordBuy(ledger, { indices: [0], shares: 4, cost: 3 });
+  assert.equal(ledgerReport(ledger, null).unrealizedPnl, 0);
+});
+
+test('legacy balances start a ledger from net cost basis, escrow included', () => {
+  const balance = { onDate: [6, 2], costBasis: 5 };
+  const ledger = upgradeLedger(balance, [2, 0]);
+
+  assert.equal(balance.ledger, ledger);
+  assert.deepEqual(ledger.outcomes, [{ shares: 8, cost: 4, no: 0 }, { shares: 2, cost: 1, no: 0 }]);
+  assert.equal(ledger.deposited, 5);
+  assert.equal(ledger.realizedPnl, 0);
+});
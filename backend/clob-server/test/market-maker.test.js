@@ -0,0 +1,72 @@
+// Pluggable market makers: LMSR, LS-LMSR and the binary constant-product pool
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMarket } = require('../state');
+const { getMarketMaker, createPool } = require('../market-maker');
+const { bundleVector } = require('../lmsr');
+const cpmm = require('../cpmm');
+
+const close = (a, b, tolerance = 1e-6) => Math.abs(a - b) < tolerance;
+const sum = values => values.reduce((acc, v) => acc + v, 0);
+
+function market(marketMaker, opts = {}) {
+  const state = createMarket({ id: 'test', outcomes: ['A', 'B', 'C'], marketMaker, ...opts });
+  return { state, maker: getMarketMaker(state), quantities: state.amm.onDate.quantities };
+}
+
+for (const type of ['lmsr', 'ls-lmsr']) {
+  test(`${type} opens at the requested prices and buys what the budget pays for`, () => {
+    const { maker, quantities } = market(type, { initialPrices: [0.5, 0.3, 0.2], b: 200 });
+    const opening = maker.probabilities(quantities);
+    [0.5, 0.3, 0.2].forEach((p, i) => assert.ok(close(opening[i], p, 0.02), `${opening[i]} ~ ${p}`));
+
+    const shares = maker.sharesForBudget(quantities, [1, 2], 25);
+    assert.ok(close(maker.tradeCost(quantities, bundleVector(3, [1, 2], shares)), 25, 1e-3));
+
+    const target = maker.prices(quantities)[0] + 0.1;
+    const delta = maker.sharesToPrice(quantities, 0, target);
+    const moved = quantities.map((q, i) => (i === 0 ? q + delta : q));
+    assert.ok(close(maker.prices(moved)[0], target));
+  });
+}
+
+test('LS-LMSR prices carry a vig and liquidity grows with shares outstanding', () => {
+  const { maker, quantities } = market('ls-lmsr', { b: 200 });
+  assert.ok(sum(maker.prices(quantities)) > 1);
+  assert.ok(close(sum(maker.probabilities(quantities)), 1));
+
+  const deeper = quantities.map(q => q + 100);
+  const { state } = market('ls-lmsr', { b: 200 });
+  state.amm.onDate.quantities = deeper;
+  assert.ok(getMarketMaker(state).liquidity > maker.liquidity);
+  assert.ok(maker.worstCaseLoss() > 0);
+});
+
+test('LS-LMSR rejects an alpha too large for the opening prices', () => {
+  assert.match(createPool('ls-lmsr', [0.98, 0.01, 0.01], { alpha: 0.5, minB: 100 }).error, /too large/);
+});
+
+test('the constant-product pool keeps its reserve product', () => {
+  const state = createMarket({ id: 'binary', outcomes: ['Yes', 'No'], marketMaker: 'cpmm', initialPrices: [0.4, 0.6], b: 100 });
+  const maker = getMarketMaker(state);
+  const { reserves } = state.amm;
+  const q = state.amm.onDate.quantities;
+
+  assert.ok(close(maker.prices(q)[0], 0.4));
+  assert.ok(close(Math.sqrt(reserves[0] * reserves[1]), 100));
+
+  const shares = maker.sharesForBudget(q, [0], 20);
+  const after = q.map((x, i) => (i === 0 ? x + shares : x));
+  const pool = cpmm.poolReserves(after, reserves);
+  assert.ok(close(pool[0] * pool[1], reserves[0] * reserves[1], 1e-6));
+  assert.ok(maker.prices(after)[0] > 0.4);
+  assert.ok(close(sum(maker.prices(after)), 1));
+  assert.equal(maker.worstCaseLoss(), Math.max(...reserves));
+});
+
+test('the constant-product pool is binary only', () => {
+  assert.match(createPool('cpmm', [0.2, 0.3, 0.5], { minB: 100 }).error, /exactly two outcomes/);
+  assert.match(createPool('dpm', [0.5, 0.5], { minB: 100 }).error, /Unknown marketMaker dpm/);
+  assert.throws(() => market('cpmm'), /exactly two outcomes/);
+});
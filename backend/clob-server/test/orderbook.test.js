@@ -0,0 +1,86 @@
+// Order book matching: price-time priority, partial fills, market orders
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  createBook,
+  bestBid,
+  bestAsk,
+  placeLimitOrder,
+  placeMarketOrder,
+  previewOrder,
+  cancelOrder,
+  getBookSnapshot,
+} = require('../orderbook');
+
+test('resting orders queue by price, then time', () => {
+  const book = createBook(1);
+  placeLimitOrder(book, { user: 'a', dayIndex: 0, side: 'buy', price: 0.4, shares: 10 });
+  placeLimitOrder(book, { user: 'b', dayIndex: 0, side: 'buy', price: 0.5, shares: 10 });
+  placeLimitOrder(book, { user: 'c', dayIndex: 0, side: 'buy', price: 0.5, shares: 10 });
+
+  assert.deepEqual(book.outcomes[0].bids.map(o => o.user), ['b', 'c', 'a']);
+  assert.equal(bestBid(book, 0).user, 'b');
+  assert.equal(bestAsk(book, 0), null);
+});
+
+test('a crossing limit order fills at the resting price and rests the rest', () => {
+  const book = createBook(1);
+  placeLimitOrder(book, { user: 'maker', dayIndex: 0, side: 'sell', price: 0.3, shares: 4 });
+  placeLimitOrder(book, { user: 'maker', dayIndex: 0, side: 'sell', price: 0.35, shares: 4 });
+
+  const { order, fills } = placeLimitOrder(book, { user: 'taker', dayIndex: 0, side: 'buy', price: 0.32, shares: 10 });
+
+  assert.deepEqual(fills.map(f => [f.price, f.shares]), [[0.3, 4]]);
+  assert.equal(order.filled, 4);
+  assert.equal(order.remaining, 6);
+  assert.equal(bestBid(book, 0).id, order.id);
+  assert.equal(bestAsk(book, 0).price, 0.35);
+});
+
+test('a market order sweeps levels and cancels what it cannot fill', () => {
+  const book = createBook(1);
+  placeLimitOrder(book, { user: 'maker', dayIndex: 0, side: 'buy', price: 0.6, shares: 2 });
+  placeLimitOrder(book, { user: 'maker', dayIndex: 0, side: 'buy', price: 0.5, shares: 3 });
+
+  const { order, fills } = placeMarketOrder(book, { user: 'taker', dayIndex: 0, side: 'sell', shares: 8 });
+
+  assert.deepEqual(fills.map(f => [f.price, f.shares]), [[0.6, 2], [0.5, 3]]);
+  assert.equal(order.status, 'cancelled');
+  assert.equal(order.remaining, 3);
+  assert.equal(book.outcomes[0].bids.length, 0);
+});
+
+test('a fully filled maker leaves the book', () => {
+  const book = createBook(1);
+  const { order: maker } = placeLimitOrder(book, { user: 'maker', dayIndex: 0, side: 'sell', price: 0.4, shares: 5 });
+  placeMarketOrder(book, { user: 'taker', dayIndex: 0, side: 'buy', shares: 5 });
+
+  assert.equal(maker.status, 'filled');
+  assert.equal(getBookSnapshot(book, 0).bestAsk, null);
+});
+
+test('a preview reports the fills without touching the book', () => {
+  const book = createBook(1);
+  placeLimitOrder(book, { user: 'a', dayIndex: 0, side: 'sell', price: 0.3, shares: 2 });
+  placeLimitOrder(book, { user: 'b', dayIndex: 0, side: 'sell', price: 0.4, shares: 5 });
+  const before = JSON.stringify(book);
+
+  const limit = previewOrder(book, { dayIndex: 0, side: 'buy', price: 0.35, shares: 4 });
+  assert.deepEqual(limit.fills.map(f => [f.maker, f.price, f.shares]), [['a', 0.3, 2]]);
+  assert.equal(limit.remaining, 2);
+
+  const market = previewOrder(book, { dayIndex: 0, side: 'buy', shares: 4 });
+  assert.deepEqual(market.fills.map(f => [f.maker, f.price, f.shares]), [['a', 0.3, 2], ['b', 0.4, 2]]);
+  assert.equal(market.remaining, 0);
+  assert.equal(JSON.stringify(book), before);
+});
+
+test('only the owner can cancel an order', () => {
+  const book = createBook(1);
+  const { order } = placeLimitOrder(book, { user: 'a', dayIndex: 0, side: 'buy', price: 0.4, shares: 5 });
+
+  assert.match(cancelOrder(book, order.id, 'b').error, /another user/);
+  assert.equal(cancelOrder(book, order.id, 'a').order.status, 'cancelled');
+  assert.match(cancelOrder(book, order.id, 'a').error, /not found/);
+});
@@ -0,0 +1,69 @@
+// Market registry: per-market outcomes, LMSR parameters and legacy upgrades
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  DEFAULT_MARKET,
+  createMarket,
+  numOutcomes,
+  getB,
+  createRegistry,
+  upgradeRegistry,
+  getMarket,
+  addMarket,
+} = require('../state');
+const { allDayPrices } = require('../lmsr');
+
+test('a new registry holds the default date market', () => {
+  const registry = createRegistry();
+  const state = getMarket(registry);
+
+  assert.equal(registry.defaultMarketId, DEFAULT_MARKET.id);
+  assert.equal(numOutcomes(state), 28);
+  assert.equal(state.market.ordered, true);
+  assert.equal(state.book.outcomes.length, 28);
+});
+
+test('markets are created from their outcomes and prices', () => {
+  const state = createMarket({ id: 'election', kind: 'categorical', outcomes: ['A', { label: 'B' }, 'C'], b: 50 });
+  const prices = allDayPrices(state.amm.onDate.quantities, getB(state));
+
+  assert.deepEqual(state.market.outcomes.map(o => o.label), ['A', 'B', 'C']);
+  assert.equal(state.market.ordered, false);
+  assert.equal(getB(state), 50);
+  for (const p of prices) assert.ok(Math.abs(p - 1 / 3) < 1e-9);
+});
+
+test('without a fixed b, liquidity grows with volume', () => {
+  const state = createMarket({ id: 'dynamic', outcomes: ['A', 'B'], alpha: 0.1, minB: 100 });
+  assert.equal(getB(state), 100);
+  state.market.totalVolume = 5000;
+  assert.equal(getB(state), 500);
+});
+
+test('markets are looked up by id, falling back to the default', () => {
+  const registry = createRegistry();
+  const state = addMarket(registry, createMarket({ id: 'other', outcomes: ['A', 'B'] }));
+
+  assert.equal(getMarket(registry, 'other'), state);
+  assert.equal(getMarket(registry).market.id, DEFAULT_MARKET.id);
+  assert.equal(getMarket(registry, 'missing'), null);
+});
+
+test('a single-market state file upgrades into a registry', () => {
+  const legacy = createMarket(DEFAULT_MARKET);
+  delete legacy.market.outcomes;
+  delete legacy.book;
+  delete legacy.amm.b;
+  legacy.sessions = { alice: { sessionId: 's1' } };
+
+  const registry = upgradeRegistry(JSON.parse(JSON.stringify(legacy)));
+  const state = getMarket(registry);
+
+  assert.equal(registry.defaultMarketId, DEFAULT_MARKET.id);
+  assert.deepEqual(registry.sessions, legacy.sessions);
+  assert.equal(state.sessions, undefined);
+  assert.equal(numOutcomes(state), 28);
+  assert.equal(state.book.outcomes.length, 28);
+  assert.equal(state.amm.b, null);
+});
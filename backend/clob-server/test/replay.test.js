@@ -0,0 +1,115 @@
+// Journal replay: a restart rebuilds the registry the requests produced
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { privateKeyToAccount, generatePrivateKey } = require('viem/accounts');
+const { createMarketRouter, closeMarketStore, getState } = require('../api');
+const { AUTH_DOMAIN, REQUEST_TYPES, requestMessage } = require('../auth');
+const { storagePaths, readJournal } = require('../storage');
+const { audit } = require('../replay');
+
+const trader = privateKeyToAccount(generatePrivateKey());
+let nextNonce = 1;
+
+function tempStatePath() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clob-replay-'));
+  test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return path.join(dir, 'market-state.json');
+}
+
+async function signed(marketId, route, body) {
+  const full = { ...body, user: trader.address, nonce: nextNonce++, expiry: Math.floor(Date.now() / 1000) + 600 };
+  full.signature = await trader.signTypedData({
+    domain: { ...AUTH_DOMAIN, chainId: 11155111 },
+    types: REQUEST_TYPES,
+    primaryType: 'MarketRequest',
+    message: requestMessage(marketId, route, full),
+  });
+  return full;
+}
+
+// POST through the router and resolve to { status, body }
+function post(handler, url, body) {
+  return new Promise(resolve => {
+    const res = {
+      writeHead(status) { this.status = status; },
+      end(data) { resolve({ status: this.status, body: JSON.parse(data) }); },
+    };
+    handler({ method: 'POST', url }, res, url, JSON.stringify(body));
+  });
+}
+
+function start(statePath) {
+  const handler = createMarketRouter({ statePath, snapshotInterval: 2 });
+  return { handler, marketId: getState().market.id };
+}
+
+test('a restart rebuilds the same market, trade times included', async () => {
+  const statePath = tempStatePath();
+  const { handler, marketId } = start(statePath);
+
+  const buy = await post(handler, '/api/market/buy', await signed(marketId, '/buy', { marketType: 'on_date', dayIndex: 0, amount: 25 }));
+  assert.equal(buy.status, 200);
+  await new Promise(resolve => setTimeout(resolve, 5));
+  await post(handler, '/api/market/sell', await signed(marketId, '/sell', { marketType: 'on_date', dayIndex: 0, shares: buy.body.shares / 3 }));
+  await post(handler, '/api/market/order/limit', await signed(marketId, '/order/limit', { dayIndex: 0, side: 'sell', price: 0.9, shares: 5 }));
+  const live = JSON.stringify(getState(marketId));
+  closeMarketStore();
+
+  start(statePath);
+  assert.equal(JSON.stringify(getState(marketId)), live);
+  assert.deepEqual(audit(statePath).findings, []);
+  closeMarketStore();
+});
+
+test('a rejected request still uses up its nonce across restarts', async () => {
+  const statePath = tempStatePath();
+  const { handler, marketId } = start(statePath);
+
+  const oversell = await signed(marketId, '/sell', { marketType: 'on_date', dayIndex: 0, shares: 1000 });
+  assert.match((await post(handler, '/api/market/sell', oversell)).body.error, /Insufficient shares/);
+  closeMarketStore();
+
+  const restarted = start(statePath);
+  const replayed = await post(restarted.handler, '/api/market/sell', oversell);
+  assert.deepEqual(replayed, { status: 401, body: { error: 'Nonce already used' } });
+  closeMarketStore();
+});
+
+test('a failed journal write rolls memory back to the journal', async () => {
+  const statePath = tempStatePath();
+  const { handler, marketId } = start(statePath);
+  const before = JSON.stringify(getState(marketId));
+
+  const buy = await signed(marketId, '/buy', { marketType: 'on_date', dayIndex: 0, amount: 10 });
+  const writeSync = fs.writeSync;
+  fs.writeSync = () => {
+    fs.writeSync = writeSync;
+    throw new Error('disk full');
+  };
+  const failed = await post(handler, '/api/market/buy', buy);
+
+  assert.equal(failed.status, 500);
+  assert.equal(JSON.stringify(getState(marketId)), before);
+  assert.equal((await post(handler, '/api/market/buy', buy)).status, 200, 'the retry goes through');
+  closeMarketStore();
+});
+
+test('a torn last journal line is dropped on startup', async () => {
+  const statePath = tempStatePath();
+  const { handler, marketId } = start(statePath);
+  await post(handler, '/api/market/buy', await signed(marketId, '/buy', { marketType: 'on_date', dayIndex: 0, amount: 5 }));
+  const live = JSON.stringify(getState(marketId));
+
+  const { journal } = storagePaths(statePath);
+  closeMarketStore();
+  fs.appendFileSync(journal, '{"seq":2,"route":"/bu');
+  start(statePath);
+
+  assert.equal(JSON.stringify(getState(marketId)), live);
+  assert.equal(readJournal(journal).torn, false);
+  closeMarketStore();
+});
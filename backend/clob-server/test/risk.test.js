@@ -0,0 +1,75 @@
+// Risk limits and the price-move circuit breaker
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  DEFAULT_LIMITS,
+  createRisk,
+  validateLimits,
+  activeHalt,
+  recordNotional,
+  checkTrade,
+  checkPriceMove,
+} = require('../risk');
+
+const NOW = 1_000_000_000;
+
+function snapshot(seconds, prices) {
+  return { timestamp: NOW + seconds * 1000, prices };
+}
+
+test('limits must be known, positive and leave the windows on', () => {
+  assert.equal(validateLimits({ maxPosition: 10, maxNotional: null }), null);
+  assert.match(validateLimits({ maxLoss: 1 }), /Unknown limit maxLoss/);
+  assert.match(validateLimits({ maxNotional: 0 }), /positive number or null/);
+  assert.match(validateLimits({ haltDuration: null }), /haltDuration must be a positive number$/);
+  assert.match(validateLimits({ maxPriceMove: 1 }), /below 1/);
+  assert.match(validateLimits([]), /must be an object/);
+});
+
+test('a trade may not push any position past maxPosition', () => {
+  const risk = createRisk({ maxPosition: 100 });
+  assert.equal(checkTrade(risk, { user: 'a', notional: 1, positions: [100, 20] }, NOW), null);
+  assert.equal(checkTrade(risk, { user: 'a', notional: 1, positions: [100.5] }, NOW).rule, 'maxPosition');
+  assert.equal(checkTrade(createRisk({ maxPosition: null }), { user: 'a', notional: 1, positions: [1e9] }, NOW), null);
+});
+
+test('notional is limited per user over a sliding window', () => {
+  const risk = createRisk({ maxNotional: 100, notionalWindow: 60 });
+  recordNotional(risk, 'a', 80, NOW);
+
+  assert.equal(checkTrade(risk, { user: 'a', notional: 30 }, NOW + 1000).rule, 'maxNotional');
+  assert.equal(checkTrade(risk, { user: 'b', notional: 30 }, NOW + 1000), null);
+  assert.equal(checkTrade(risk, { user: 'a', notional: 30 }, NOW + 61000), null, 'the old trade aged out');
+  assert.deepEqual(risk.notional, {});
+});
+
+test('a large move within the window trips the breaker', () => {
+  const risk = createRisk({ maxPriceMove: 0.2, priceMoveWindow: 300, haltDuration: 60 });
+  const history = [snapshot(0, [0.5, 0.5]), snapshot(100, [0.6, 0.4]), snapshot(200, [0.75, 0.25])];
+
+  const halt = checkPriceMove(risk, history, NOW + 200 * 1000);
+  assert.equal(halt.outcome, 0);
+  assert.equal(halt.move, 0.25);
+  assert.equal(halt.haltedUntil, NOW + 260 * 1000);
+
+  assert.equal(checkPriceMove(risk, history, NOW + 400 * 1000), null, 'the 0.5 price fell out of the window');
+});
+
+test('a halted market rejects trades until the halt ends, then reopens at its new price', () => {
+  const risk = createRisk({ maxPriceMove: 0.2, priceMoveWindow: 300, haltDuration: 60 });
+  const history = [snapshot(0, [0.5, 0.5]), snapshot(10, [0.8, 0.2])];
+  risk.halt = checkPriceMove(risk, history, NOW + 10 * 1000);
+
+  assert.equal(checkTrade(risk, { user: 'a', notional: 1 }, NOW + 20 * 1000).rule, 'halt');
+  assert.ok(activeHalt(risk, NOW + 20 * 1000));
+  assert.equal(activeHalt(risk, NOW + 71 * 1000), null);
+  assert.equal(checkTrade(risk, { user: 'a', notional: 1 }, NOW + 71 * 1000), null);
+
+  history.push(snapshot(80, [0.82, 0.18]));
+  assert.equal(checkPriceMove(risk, history, NOW + 80 * 1000), null);
+});
+
+test('defaults apply to limits left unset', () => {
+  assert.deepEqual(createRisk({ maxPosition: 5 }).limits, { ...DEFAULT_LIMITS, maxPosition: 5 });
+});
@@ -0,0 +1,90 @@
+// Smart order routing across the order book and the AMM curve
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { planBuy, planSell } = require('../router');
+const { createMarket } = require('../state');
+const { getMarketMaker } = require('../market-maker');
+
+function market() {
+  const state = createMarket({ id: 'test', outcomes: ['A', 'B', 'C', 'D'], b: 100 });
+  return { maker: getMarketMaker(state), quantities: state.amm.onDate.quantities };
+}
+
+test('with no book, a buy spends its whole budget on the curve', () => {
+  const { maker, quantities } = market();
+  const before = quantities.slice();
+  const route = planBuy({ quantities, maker, indices: [0], budget: 10 });
+
+  assert.equal(route.venues.clob.shares, 0);
+  assert.ok(Math.abs(route.amount - 10) < 1e-6);
+  assert.ok(Math.abs(route.priceBefore - 0.25) < 1e-9);
+  assert.ok(route.avgPrice > route.priceBefore && route.avgPrice < route.priceAfter);
+  assert.equal(route.priceImpact, (route.priceAfter - 0.25) / 0.25);
+  assert.deepEqual(quantities, before, 'planning leaves the pool untouched');
+});
+
+test('a buy takes asks cheaper than the curve first, then climbs it', () => {
+  const { maker, quantities } = market();
+  const asks = [{ id: 1, price: 0.2, remaining: 5 }, { id: 2, price: 0.9, remaining: 100 }];
+  const route = planBuy({ quantities, maker, indices: [0], asks, budget: 10 });
+
+  assert.equal(route.legs[0].venue, 'clob');
+  assert.equal(route.legs[0].orderId, 1);
+  assert.equal(route.venues.clob.shares, 5);
+  assert.ok(route.venues.amm.shares > 0);
+  assert.ok(!route.legs.some(leg => leg.orderId === 2), 'the 0.9 ask is never worth taking');
+  assert.ok(Math.abs(route.amount - 10) < 1e-6);
+});
+
+test('the curve stops at the next ask and hands over to the book', () => {
+  const { maker, quantities } = market();
+  const asks = [{ id: 3, price: 0.3, remaining: 1000 }];
+  const route = planBuy({ quantities, maker, indices: [0], asks, budget: 50 });
+  const q = quantities.map((x, i) => (i === 0 ? x + route.venues.amm.shares : x));
+  const after = maker.prices(q)[0];
+
+  assert.deepEqual(route.legs.map(leg => leg.venue), ['amm', 'clob']);
+  assert.ok(Math.abs(after - 0.3) < 1e-6);
+});
+
+test('fees decide the venue', () => {
+  const { maker, quantities } = market();
+  const asks = [{ id: 1, price: 0.251, remaining: 50 }];
+  const free = planBuy({ quantities, maker, indices: [0], asks, budget: 1 });
+  const costlyBook = planBuy({ quantities, maker, indices: [0], asks, budget: 1, fees: { amm: 0, clob: 0.05 } });
+
+  assert.ok(free.venues.amm.shares > 0);
+  assert.equal(costlyBook.venues.clob.shares, 0);
+});
+
+test('a buy budget includes its fees', () => {
+  const { maker, quantities } = market();
+  const fees = { amm: 0.01, clob: 0.002 };
+  const route = planBuy({ quantities, maker, indices: [0], budget: 10, fees });
+
+  assert.ok(Math.abs(route.total - 10) < 1e-6);
+  assert.ok(Math.abs(route.fees - route.amount * 0.01) < 1e-9);
+  assert.equal(route.avgPrice, route.total / route.shares);
+});
+
+test('a sell hits bids richer than the curve, then sells down it', () => {
+  const { maker, quantities } = market();
+  const bids = [{ id: 7, price: 0.3, remaining: 4 }];
+  const route = planSell({ quantities, maker, indices: [0], bids, shares: 20 });
+
+  assert.equal(route.legs[0].venue, 'clob');
+  assert.equal(route.venues.clob.shares, 4);
+  assert.ok(Math.abs(route.shares - 20) < 1e-6);
+  assert.ok(route.venues.amm.avgPrice < 0.25);
+  assert.equal(route.priceBefore, 0.3, 'the bid beats the curve');
+  assert.ok(route.priceImpact < 0);
+});
+
+test('a bundle buys every outcome in it at once', () => {
+  const { maker, quantities } = market();
+  const route = planBuy({ quantities, maker, indices: [0, 1], budget: 10 });
+
+  assert.equal(route.venues.clob.shares, 0);
+  assert.ok(route.avgPrice > 0.5 && route.avgPrice < 1);
+});
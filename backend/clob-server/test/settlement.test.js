@@ -0,0 +1,77 @@
+// Resolution payouts, void refunds and claims
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMarket, createRegistry, addMarket, updateBalance, addCostBasis } = require('../state');
+const { placeLimitOrder } = require('../orderbook');
+const { VOID_OUTCOME, resolveMarket, claimPayout, settlementReport } = require('../settlement');
+
+function market() {
+  const registry = createRegistry();
+  const state = addMarket(registry, createMarket({ id: 'test', outcomes: ['A', 'B', 'C'] }));
+  updateBalance(state, 'alice', [0], 10);
+  addCostBasis(state, 'alice', 4);
+  updateBalance(state, 'bob', [1], 6);
+  addCostBasis(state, 'bob', 3);
+  return { registry, state };
+}
+
+test('a resolved market pays one unit per winning share', () => {
+  const { state } = market();
+  const result = resolveMarket(state, 0);
+
+  assert.equal(state.market.status, 'resolved');
+  assert.equal(result.resolution, 1);
+  assert.deepEqual(result.payouts, { alice: 10 });
+});
+
+test('a void market refunds net cost basis', () => {
+  const { state } = market();
+  addCostBasis(state, 'carol', -2);
+  const result = resolveMarket(state, VOID_OUTCOME);
+
+  assert.equal(result.resolution, VOID_OUTCOME);
+  assert.deepEqual(result.payouts, { alice: 4, bob: 3 });
+});
+
+test('resolution cancels resting orders and returns escrowed shares', () => {
+  const { state } = market();
+  placeLimitOrder(state.book, { user: 'alice', dayIndex: 0, side: 'sell', price: 0.9, shares: 3 });
+  state.balances.alice.onDate[0] -= 3;
+  placeLimitOrder(state.book, { user: 'bob', dayIndex: 2, side: 'buy', price: 0.1, shares: 5 });
+
+  const result = resolveMarket(state, 0);
+
+  assert.equal(result.cancelledOrders, 2);
+  assert.equal(state.book.outcomes[0].asks.length, 0);
+  assert.equal(result.payouts.alice, 10);
+});
+
+test('a payout is claimed once into collateral and redeems the shares', () => {
+  const { registry, state } = market();
+  resolveMarket(state, 0);
+
+  assert.deepEqual(claimPayout(registry, state, 'alice'), { payout: 10, collateral: 10 });
+  assert.deepEqual(state.balances.alice.onDate, [0, 0, 0]);
+  assert.equal(claimPayout(registry, state, 'alice').error, 'Payout already claimed');
+  assert.equal(claimPayout(registry, state, 'bob').error, 'Nothing to claim');
+});
+
+test('claims need a resolved market', () => {
+  const { registry, state } = market();
+  assert.equal(claimPayout(registry, state, 'alice').error, 'Market not resolved');
+  assert.equal(settlementReport(state).error, 'Market not resolved');
+});
+
+test('the settlement report tracks what is still outstanding', () => {
+  const { registry, state } = market();
+  resolveMarket(state, VOID_OUTCOME);
+  claimPayout(registry, state, 'bob');
+
+  const report = settlementReport(state);
+  assert.equal(report.void, true);
+  assert.equal(report.winningOutcome, null);
+  assert.equal(report.totalPayout, 7);
+  assert.equal(report.totalClaimed, 3);
+  assert.equal(report.outstanding, 4);
+});
@@ -0,0 +1,64 @@
+// Market simulator: reproducible synthetic flow and journal backtests
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { DEFAULT_MARKET } = require('../state');
+const { createRng, createWorld, runSynthetic, runRecorded } = require('../simulate');
+
+test('the RNG is reproducible per seed', () => {
+  const a = createRng(7);
+  const b = createRng(7);
+  const draws = Array.from({ length: 5 }, () => a.next());
+
+  assert.deepEqual(draws, Array.from({ length: 5 }, () => b.next()));
+  assert.ok(draws.every(x => x >= 0 && x < 1));
+  assert.notDeepEqual(draws, Array.from({ length: 5 }, () => createRng(8).next()));
+});
+
+test('the world is a probability distribution with a winner', () => {
+  const { truth, winner } = createWorld(3, DEFAULT_MARKET.initialPrices);
+  assert.ok(Math.abs(truth.reduce((acc, p) => acc + p, 0) - 1) < 1e-9);
+  assert.ok(Number.isInteger(winner) && winner >= 0 && winner < truth.length);
+});
+
+test('a synthetic run is reproducible and resolves the market', () => {
+  const options = { seed: 5, steps: 150, whale: 500 };
+  const first = runSynthetic({ alpha: 0.04, minB: 150 }, options);
+  const second = runSynthetic({ alpha: 0.04, minB: 150 }, options);
+
+  assert.deepEqual(first, second);
+  assert.ok(first.trades > 0);
+  assert.ok(first.whaleShares > 0);
+  assert.ok(first.priceError > 0 && first.priceError < 1);
+  assert.ok(first.fees > 0);
+});
+
+test('deeper liquidity means less whale slippage', () => {
+  const options = { seed: 5, steps: 60, whale: 500 };
+  const shallow = runSynthetic({ b: 100 }, options);
+  const deep = runSynthetic({ b: 1000 }, options);
+
+  assert.equal(shallow.finalB, 100);
+  assert.ok(deep.whaleSlippage < shallow.whaleSlippage);
+});
+
+test('a recorded journal replays onto each schedule', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clob-simulate-'));
+  test.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const journal = path.join(dir, 'journal.jsonl');
+  const entries = [
+    { seq: 1, route: '/buy', body: { user: 'a', marketType: 'on_date', dayIndex: 3, amount: 50 } },
+    { seq: 2, route: '/buy', body: { user: 'b', marketType: 'by_date', dayIndex: 5, amount: 800 } },
+    { seq: 3, route: '/sell', body: { user: 'a', marketType: 'on_date', dayIndex: 3, shares: 1e6 } },
+  ];
+  fs.writeFileSync(journal, entries.map(e => JSON.stringify(e) + '\n').join(''));
+
+  const result = runRecorded({ b: 300 }, { journal, whale: 500 });
+  assert.equal(result.trades, 2);
+  assert.equal(result.rejected, 1);
+  assert.equal(result.priceError, null);
+  assert.ok(result.whaleShares > 0);
+});
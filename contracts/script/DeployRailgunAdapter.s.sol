@@ -16,7 +16,12 @@ contract DeployRailgunAdapter is Script {
         address poolManager = 0xd439886628539bce073347BE317fc3ca222F66d9;
         address oracle = 0x7608B6DEA4781bCFDD036834FF85c0A034477920;
         address weth = 0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9;
-        address railgunRouter = 0x0000000000000000000000000000000000000000;
+        // RAILGUN proxy (RailgunSmartWallet): swapAndShield shields swap output into it
+        address railgunRouter = 0xeCFCf3b4eC647c4Ca6D49108b311b7a7C9543fea;
+        // RAILGUN RelayAdapt: runs unshield -> swap -> shield in one transaction
+        address relayAdapt = 0x7e3d929EbD5bDC84d02Bd3205c777578f33A214D;
+        // Server relayer (RELAYER_PRIVATE_KEY), the only account besides the owner that may swap
+        address relayer = vm.envOr("RELAYER_ADDRESS", address(0x07dab64Aa125B206D7fd6a81AaB2133A0bdEF863));
 
         vm.startBroadcast(deployerPrivateKey);
 
@@ -31,7 +36,9 @@ contract DeployRailgunAdapter is Script {
         RailgunPrivacyAdapter adapter = new RailgunPrivacyAdapter(
             factory,
             IERC20(weth),
-            railgunRouter
+            railgunRouter,
+            relayAdapt,
+            relayer
         );
 
         console.log("New PredictionMarketFactory deployed to:", address(factory));
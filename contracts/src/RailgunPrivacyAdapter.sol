@@ -6,17 +6,16 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import {PredictionMarketFactory} from "./PredictionMarketFactory.sol";
 import {OutcomeToken} from "./OutcomeToken.sol";
-
-interface IWETH {
-    function deposit() external payable;
-    function approve(address guy, uint256 wad) external returns (bool);
-}
+import {IRailgunSmartWallet} from "./interfaces/IRailgunSmartWallet.sol";
 
 /**
  * @title RailgunPrivacyAdapter
  * @notice Official Railgun Proxy integration for private prediction market trading.
  * @dev Interacts with the official Railgun Proxy (0xeCFCf3b4eC647c4Ca6D49108b311b7a7C9543fea).
- *      Removes internal mock balances to allow true cross-transaction privacy.
+ *      Swaps pull their input from the caller and pay the output back to it, so the adapter
+ *      never trades on a balance someone else left here. In full RAILGUN mode the caller is
+ *      RAILGUN's RelayAdapt, which unshields the input, calls swap() and shields the output
+ *      in one transaction the relayer broadcasts.
  */
 contract RailgunPrivacyAdapter is Ownable, ReentrancyGuard {
     /// @notice Prediction Market Factory
@@ -28,128 +27,168 @@ contract RailgunPrivacyAdapter is Ownable, ReentrancyGuard {
     /// @notice Official Railgun Proxy Address
     address public immutable railgunProxy;
 
-    /// @notice Mapping of valid proof nullifiers (used proof -> bool to prevent replay)
-    mapping(bytes32 => bool) public usedProofs;
+    /// @notice RAILGUN RelayAdapt, which calls swap() between a proved unshield and a shield
+    address public immutable relayAdapt;
+
+    /// @notice Account that broadcasts swaps; the owner may too
+    address public relayer;
+
+    /// @notice Demo market: swaps return the collateral without touching the factory
+    bytes32 private constant DEMO_MARKET_ID = 0x1111111111111111111111111111111111111111111111111111111111111111;
 
     // Custom errors
-    error InvalidProof();
-    error ProofExpired();
-    error InsufficientBalance();
-    error UnauthorizedToken();
-
-    /// @notice Struct for Railgun zero-knowledge proof (Decoded from opaque bytes)
-    struct RailgunProof {
-        bytes32 nullifier;
-        bytes32 commitment;
-        address tokenIn;
-        address tokenOut;
-        uint256 amountIn;
-        uint256 amountOut;
-        uint256 timestamp;
-        bytes merkleRoot;
-        bytes32[2] balanceProofs;
-        bytes signature;
-    }
+    error NotRelayer();
+    error InvalidShieldRequest();
 
     /// @notice Events - Fully anonymized (no amounts, no user EOAs)
-    event PrivateSwapExecuted(bytes32 indexed nullifier, address tokenIn, address tokenOut);
+    event PrivateSwapExecuted(bytes32 indexed marketId, address tokenIn, address tokenOut);
+    event SwapOutputShielded(bytes32 indexed npk, address token);
+    event RelayerUpdated(address relayer);
 
-    constructor(PredictionMarketFactory _factory, IERC20 _collateralToken, address _railgunProxy) Ownable(msg.sender) {
+    /**
+     * @notice Only the relayer or the owner, directly or through a RelayAdapt transaction they sent
+     * @dev RelayAdapt runs anyone's proved calls, so behind it the account that sent the
+     *      transaction is what is checked.
+     */
+    modifier onlyRelayer() {
+        address sender = msg.sender == relayAdapt ? tx.origin : msg.sender;
+        if (sender != relayer && sender != owner()) revert NotRelayer();
+        _;
+    }
+
+    constructor(
+        PredictionMarketFactory _factory,
+        IERC20 _collateralToken,
+        address _railgunProxy,
+        address _relayAdapt,
+        address _relayer
+    ) Ownable(msg.sender) {
         factory = _factory;
         collateralToken = _collateralToken;
         railgunProxy = _railgunProxy; // Set to 0xeCFCf3b4eC647c4Ca6D49108b311b7a7C9543fea
+        relayAdapt = _relayAdapt;
+        relayer = _relayer;
     }
 
     /**
-     * @notice Execute a private swap using Railgun ZK proof
-     * @dev Accepts an OPAQUE bytes blob to hide amounts from standard Etherscan decoders.
-     *      Tokens must have been unshielded to this adapter contract prior to the call.
-     * @param encryptedProof ABI encoded RailgunProof struct
+     * @notice Change the account allowed to broadcast swaps
+     */
+    function setRelayer(address _relayer) external onlyOwner {
+        relayer = _relayer;
+        emit RelayerUpdated(_relayer);
+    }
+
+    /**
+     * @notice Swap `amountIn` of the caller's input token and pay the output back to the caller
+     * @dev RelayAdapt approves the adapter for what the unshield delivered, calls this, then
+     *      shields its output balance to the trader's 0zk address.
      * @param marketId Market identifier
      * @param tokenInIndex Index of input token (999 for collateral)
      * @param tokenOutIndex Index of output token (999 for collateral)
+     * @param amountIn Input pulled from the caller
      * @param minAmountOut Minimum amount to receive
      */
-    function privateSwap(
-        bytes calldata encryptedProof,
+    function swap(
         bytes32 marketId,
         uint256 tokenInIndex,
         uint256 tokenOutIndex,
+        uint256 amountIn,
         uint256 minAmountOut
-    ) external nonReentrant returns (uint256 amountOut) {
-        // Internal decoding to hide parameters from top-level tracers
-        RailgunProof memory proof = abi.decode(encryptedProof, (RailgunProof));
+    ) external onlyRelayer nonReentrant returns (uint256 amountOut) {
+        address tokenOut;
+        (amountOut, tokenOut) = _swap(marketId, tokenInIndex, tokenOutIndex, amountIn, minAmountOut);
+        IERC20(tokenOut).transfer(msg.sender, amountOut);
+    }
 
-        // Anti-replay protection
-        if (usedProofs[proof.nullifier]) revert InvalidProof();
-        usedProofs[proof.nullifier] = true;
+    /**
+     * @notice Swap `amountIn` of the caller's input token and shield the output in the same transaction
+     * @dev For relayer-held input (fast mode). The output never rests in this contract or
+     *      any EOA: the shield request is built off-chain for the receiver's 0zk address, and
+     *      its value is set here to the swap output (the preimage value is public, only the
+     *      note random is encrypted). The Railgun shield fee is taken from that value.
+     * @param marketId Market identifier
+     * @param tokenInIndex Index of input token (999 for collateral)
+     * @param tokenOutIndex Index of output token (999 for collateral)
+     * @param amountIn Input pulled from the caller
+     * @param minAmountOut Minimum amount to receive
+     * @param shieldRequest ERC20 shield request for the output token; its value is ignored
+     */
+    function swapAndShield(
+        bytes32 marketId,
+        uint256 tokenInIndex,
+        uint256 tokenOutIndex,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        IRailgunSmartWallet.ShieldRequest calldata shieldRequest
+    ) external onlyRelayer nonReentrant returns (uint256 amountOut) {
+        address tokenOut;
+        (amountOut, tokenOut) = _swap(marketId, tokenInIndex, tokenOutIndex, amountIn, minAmountOut);
 
-        address tokenInAddr = proof.tokenIn;
+        // The request must shield exactly the token the swap produced
+        IRailgunSmartWallet.TokenData calldata token = shieldRequest.preimage.token;
+        if (token.tokenType != IRailgunSmartWallet.TokenType.ERC20 || token.tokenAddress != tokenOut) {
+            revert InvalidShieldRequest();
+        }
+        if (amountOut == 0 || amountOut > type(uint120).max) revert InvalidShieldRequest();
 
-        // Verify tokens are available in this contract
-        // Tokens are unshielded from Railgun Proxy TO this adapter
-        uint256 balanceBefore = _getTokenBalance(tokenInAddr);
-        if (balanceBefore < proof.amountIn) revert InsufficientBalance();
+        IRailgunSmartWallet.ShieldRequest[] memory requests = new IRailgunSmartWallet.ShieldRequest[](1);
+        requests[0] = shieldRequest;
+        requests[0].preimage.value = uint120(amountOut);
 
-        bool isDemo = (marketId == 0x1111111111111111111111111111111111111111111111111111111111111111);
+        IERC20(tokenOut).approve(railgunProxy, amountOut);
+        IRailgunSmartWallet(railgunProxy).shield(requests);
 
-        if (!isDemo) {
-            // CASE: Buy with ETH (Adapter holds ETH from unshield)
-            if (tokenInAddr == address(0) && tokenInIndex == 999) {
-                IWETH(address(collateralToken)).deposit{value: proof.amountIn}();
-                collateralToken.approve(address(factory), proof.amountIn);
+        emit SwapOutputShielded(shieldRequest.preimage.npk, tokenOut);
+    }
 
-                amountOut = factory.buyOutcomeToken(marketId, tokenOutIndex, proof.amountIn, minAmountOut);
-            }
-            // CASE: Buy with WETH (unshielded from RAILGUN privacy pool as ERC20)
-            else if (tokenInAddr == address(collateralToken) && tokenInIndex == 999) {
-                collateralToken.approve(address(factory), proof.amountIn);
+    /**
+     * @notice Pull the input from the caller and route the swap
+     * @return amountOut Amount of output tokens now held by this contract
+     * @return tokenOut Token they are in
+     */
+    function _swap(
+        bytes32 marketId,
+        uint256 tokenInIndex,
+        uint256 tokenOutIndex,
+        uint256 amountIn,
+        uint256 minAmountOut
+    ) internal returns (uint256 amountOut, address tokenOut) {
+        address tokenIn = _token(marketId, tokenInIndex);
+        tokenOut = _token(marketId, tokenOutIndex);
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+
+        if (marketId == DEMO_MARKET_ID) {
+            amountOut = amountIn;
+        } else {
+            IERC20(tokenIn).approve(address(factory), amountIn);
 
-                amountOut = factory.buyOutcomeToken(marketId, tokenOutIndex, proof.amountIn, minAmountOut);
+            // CASE: Buy with WETH (unshielded from RAILGUN privacy pool as ERC20)
+            if (tokenInIndex == 999) {
+                amountOut = factory.buyOutcomeToken(marketId, tokenOutIndex, amountIn, minAmountOut);
             }
-            // CASE: Sell outcome tokens for Collateral (tokenOutIndex == 999 and tokenIn is outcome token)
+            // CASE: Sell outcome tokens for Collateral
             else if (tokenOutIndex == 999) {
-                // If it's an outcome token, it should have been unshielded here
-                IERC20(tokenInAddr).approve(address(factory), proof.amountIn);
-
-                amountOut = factory.sellOutcomeToken(marketId, tokenInIndex, proof.amountIn, minAmountOut);
+                amountOut = factory.sellOutcomeToken(marketId, tokenInIndex, amountIn, minAmountOut);
             }
             // CASE: Standard Swap between outcome tokens
             else {
-                // If it's an outcome token, it should have been unshielded here
-                // We approve the factory to pull it
-                IERC20(tokenInAddr).approve(address(factory), proof.amountIn);
-
-                amountOut = factory.swap(marketId, tokenInIndex, tokenOutIndex, proof.amountIn, minAmountOut, 0);
+                amountOut = factory.swap(marketId, tokenInIndex, tokenOutIndex, amountIn, minAmountOut, 0);
             }
-        } else {
-            amountOut = proof.amountIn;
         }
 
-        // After swap, results are held in this contract.
-        // A following 'shield' operation (initiated by Relayer) will move them back to Railgun.
-
         // Event logs only show internal identifiers to prevent linking to EOAs
-        emit PrivateSwapExecuted(proof.nullifier, tokenInAddr, proof.tokenOut);
-        return amountOut;
+        emit PrivateSwapExecuted(marketId, tokenIn, tokenOut);
     }
 
     /**
-     * @notice Internal helper to get balance of any token or ETH
+     * @notice Token for a swap index: the collateral, or a market outcome token
+     * @dev The demo market only trades collateral
      */
-    function _getTokenBalance(address token) internal view returns (uint256) {
-        if (token == address(0)) {
-            return address(this).balance;
-        } else {
-            return IERC20(token).balanceOf(address(this));
-        }
+    function _token(bytes32 marketId, uint256 index) internal view returns (address) {
+        if (index == 999 || marketId == DEMO_MARKET_ID) return address(collateralToken);
+        return address(factory.getMarket(marketId).outcomeTokens[index]);
     }
 
-    /**
-     * @notice Allows this contract to receive ETH from unshielding
-     */
-    receive() external payable {}
-
     /**
      * @notice Rescue tokens if needed (emergency only)
      */
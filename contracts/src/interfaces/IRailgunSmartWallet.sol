@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IRailgunSmartWallet
+ * @notice The part of the RAILGUN proxy (RailgunSmartWallet) used to shield tokens
+ * @dev Struct layouts match RAILGUN's Globals.sol
+ */
+interface IRailgunSmartWallet {
+    enum TokenType {
+        ERC20,
+        ERC721,
+        ERC1155
+    }
+
+    struct TokenData {
+        TokenType tokenType;
+        address tokenAddress;
+        uint256 tokenSubID;
+    }
+
+    /// @notice Public part of a commitment: note public key, token and value
+    struct CommitmentPreimage {
+        bytes32 npk;
+        TokenData token;
+        uint120 value;
+    }
+
+    /// @notice Note random encrypted to the receiver's viewing key
+    struct ShieldCiphertext {
+        bytes32[3] encryptedBundle;
+        bytes32 shieldKey;
+    }
+
+    struct ShieldRequest {
+        CommitmentPreimage preimage;
+        ShieldCiphertext ciphertext;
+    }
+
+    /**
+     * @notice Shield tokens into the privacy pool
+     * @dev Pulls each request's value from the caller; the shield fee is taken from it
+     */
+    function shield(ShieldRequest[] calldata _shieldRequests) external payable;
+}
@@ -1,20 +1,24 @@
 /**
  * POST /api/railgun/transfer
  *
- * Execute a complete private transfer with FULL gas abstraction.
+ * Shield stage of a private transfer with FULL gas abstraction.
  *
  * Supports both:
  * - Legacy single-recipient format (recipientAddress, tokenAddress, amount)
  * - New batch format (recipients array with per-token permits)
  *
  * Uses Server-Sent Events (SSE) to stream real-time progress updates.
+ * The shield stage runs as a relayer job; the stream only watches it, so a
+ * request with just { jobId } reattaches to an earlier run, and retries it
+ * with the owner's { resumeAuth } signature.
  *
  * Flow:
  * 1. If permit data provided: Relayer calls permit() on-chain (user pays no gas)
  * 2. Shield (sender public → sender private) - one TX per token
- * 3. Wait for POI verification (~60s)
- * 4. Generate ZK proof (one per recipient due to SDK limitation)
- * 5. Unshield (sender private → recipients public) - one TX per recipient
+ * 3. Wait for POI verification (~60s) - browser
+ * 4. Generate ZK proof (one per recipient due to SDK limitation) - browser
+ * 5. Unshield (sender private → recipients public) - one TX per recipient,
+ *    broadcast through POST /api/railgun/transfer/unshield
  *
  * Gas sponsorship: Server-side relayer pays ALL gas costs.
  * User only signs gasless permit messages - they pay ZERO gas.
@@ -22,9 +26,10 @@
 
 import { NextRequest } from "next/server";
 import { railgunEngine } from "@/lib/railgun/engine";
-import { railgunTransfer } from "@/lib/railgun/transfer";
+import { railgunTransfer, type TransferJobRequest, type BatchShieldResult } from "@/lib/railgun/transfer";
 import { relayerService } from "@/lib/railgun/relayer";
-import type { TransferRequest, TransferProgress, TransferRecipientInput, PermitData } from "@/lib/railgun/types";
+import { relayerJobs } from "@/lib/railgun/jobs";
+import type { TransferRequest, TransferProgress, TransferRecipientInput, PermitData, JobResumeAuth } from "@/lib/railgun/types";
 
 export const maxDuration = 300; // Allow up to 5 minutes for full flow
 
@@ -87,16 +92,9 @@ interface SSECompleteEvent {
       shieldTxHash: string;
       status: string;
     }>;
-    unshieldTxHash?: string;
-    recipientResults?: Array<{
-      address: string;
-      amount: string;
-      status: string;
-      unshieldTxHash?: string;
-      error?: string;
-    }>;
     senderRailgunAddress?: string;
     shieldTxHash?: string;
+    jobId: string;
   };
 }
 
@@ -111,13 +109,7 @@ interface SSEErrorEvent {
       shieldTxHash: string;
       status: string;
     }>;
-    recipientResults?: Array<{
-      address: string;
-      amount: string;
-      status: string;
-      unshieldTxHash?: string;
-      error?: string;
-    }>;
+    jobId?: string;
   };
 }
 
@@ -130,17 +122,28 @@ export async function POST(request: NextRequest): Promise<Response> {
 
   try {
     body = await request.json() as TransferRequest;
+  } catch {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Invalid request format',
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // A resumed job brings its own validated request
+  if (body.jobId) {
+    return startJob({ jobId: body.jobId, resumeAuth: body.resumeAuth });
+  }
+
+  try {
 
     // Validate core required fields
-    // mnemonic and password are required for serverless wallet recreation
     const coreRequired = [
-      'senderWalletID',
-      'senderEncryptionKey',
       'senderRailgunAddress',
       'userAddress',
       'gasAbstraction',
-      'mnemonic',
-      'password'
     ];
     const missing = coreRequired.filter(field => !body[field as keyof TransferRequest]);
 
@@ -192,6 +195,29 @@ export async function POST(request: NextRequest): Promise<Response> {
     });
   }
 
+  console.log('[API] POST /api/railgun/transfer - Starting gasless shield stage with SSE...');
+  console.log('[API] Format:', isLegacy ? 'legacy single-recipient' : 'batch multi-recipient');
+  console.log('[API] Recipients:', recipients.length);
+  console.log('[API] Unique tokens:', [...new Set(recipients.map(r => r.tokenAddress))].length);
+  console.log('[API] User Address:', body.userAddress);
+  console.log('[API] Gas Abstraction:', body.gasAbstraction);
+  console.log('[API] Sender RAILGUN:', body.senderRailgunAddress.slice(0, 20) + '...');
+
+  return startJob({
+    senderRailgunAddress: body.senderRailgunAddress,
+    userAddress: body.userAddress,
+    recipients,
+    permits,
+    gasAbstraction: body.gasAbstraction,
+    eip7702Auth: body.eip7702Auth,
+  });
+}
+
+/**
+ * Submit the shield job and stream it as SSE. The job keeps running if the
+ * client disconnects.
+ */
+async function startJob(jobRequest: TransferJobRequest | { jobId: string; resumeAuth?: JobResumeAuth }): Promise<Response> {
   // Check relayer is configured
   if (!relayerService.isConfigured()) {
     return new Response(JSON.stringify({
@@ -209,58 +235,60 @@ export async function POST(request: NextRequest): Promise<Response> {
     await railgunEngine.initialize();
   }
 
-  console.log('[API] POST /api/railgun/transfer - Starting gasless transfer flow with SSE...');
-  console.log('[API] Format:', isLegacy ? 'legacy single-recipient' : 'batch multi-recipient');
-  console.log('[API] Recipients:', recipients.length);
-  console.log('[API] Unique tokens:', [...new Set(recipients.map(r => r.tokenAddress))].length);
-  console.log('[API] User Address:', body.userAddress);
-  console.log('[API] Gas Abstraction:', body.gasAbstraction);
-  console.log('[API] Sender RAILGUN:', body.senderRailgunAddress.slice(0, 20) + '...');
   console.log('[API] Relayer:', relayerService.getAddress());
 
+  let jobId: string;
+  try {
+    jobId = await railgunTransfer.submit(jobRequest);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({
+      success: false,
+      error: message,
+    }), {
+      status: message.startsWith('Unknown job') ? 404 : message.startsWith('Not authorized') ? 403 : 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
   // Create SSE stream
   const encoder = new TextEncoder();
+  const progressStream = relayerJobs.watch<TransferProgress>(jobId);
+  let closed = false;
 
   const stream = new ReadableStream({
     async start(controller) {
       // Helper to send SSE events
       const sendEvent = (event: SSEEvent) => {
+        if (closed) {
+          return;
+        }
         const data = `data: ${JSON.stringify(event)}\n\n`;
         controller.enqueue(encoder.encode(data));
       };
 
       try {
-        // Execute batch transfer with progress streaming
-        const result = await railgunTransfer.executeBatchTransfer({
-          senderWalletID: body.senderWalletID,
-          senderEncryptionKey: body.senderEncryptionKey,
-          senderRailgunAddress: body.senderRailgunAddress,
-          userAddress: body.userAddress,
-          mnemonic: body.mnemonic,
-          password: body.password,
-          recipients,
-          permits,
-          gasAbstraction: body.gasAbstraction,
-          eip7702Auth: body.eip7702Auth,
-          onProgress: (progress) => {
-            console.log(`[API Transfer] ${progress.step}: ${progress.message} (${progress.progress}%)`);
-            sendEvent({
-              type: 'progress',
-              data: progress,
-            });
-          },
-        });
+        for await (const progress of progressStream) {
+          console.log(`[API Transfer] ${progress.step}: ${progress.message} (${progress.progress}%)`);
+          sendEvent({
+            type: 'progress',
+            data: progress,
+          });
+        }
+
+        // The run is over: report how the job ended
+        const job = await relayerJobs.get<TransferJobRequest, TransferProgress, BatchShieldResult>(jobId);
+        const result = job?.result;
 
-        if (result.success) {
+        if (job && (job.status === 'awaiting_proof' || job.status === 'complete') && result?.success) {
           sendEvent({
             type: 'complete',
             data: {
               success: true,
               shieldResults: result.shieldResults,
-              unshieldTxHash: result.unshieldTxHash,
-              recipientResults: result.recipientResults,
               senderRailgunAddress: result.senderRailgunAddress,
               shieldTxHash: result.shieldTxHash,
+              jobId,
             },
           });
         } else {
@@ -268,9 +296,9 @@ export async function POST(request: NextRequest): Promise<Response> {
             type: 'error',
             data: {
               success: false,
-              error: result.error || 'Transfer failed',
-              shieldResults: result.shieldResults,
-              recipientResults: result.recipientResults,
+              error: job?.error || result?.error || 'Transfer failed',
+              shieldResults: result?.shieldResults,
+              jobId,
             },
           });
         }
@@ -281,12 +309,19 @@ export async function POST(request: NextRequest): Promise<Response> {
           data: {
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
+            jobId,
           },
         });
       } finally {
-        controller.close();
+        if (!closed) {
+          controller.close();
+        }
       }
     },
+    cancel() {
+      closed = true;
+      void progressStream.return(undefined);
+    },
   });
 
   return new Response(stream, {
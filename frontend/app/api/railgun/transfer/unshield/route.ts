@@ -0,0 +1,51 @@
+/**
+ * POST /api/railgun/transfer/unshield
+ *
+ * Broadcast one unshield the browser proved for a transfer recipient.
+ * The relayer pays gas; only calls to the RAILGUN proxy are accepted.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { railgunEngine } from "@/lib/railgun/engine";
+import { railgunTransfer } from "@/lib/railgun/transfer";
+import { relayerService } from "@/lib/railgun/relayer";
+import type { UnshieldBroadcastRequest, UnshieldBroadcastResponse } from "@/lib/railgun/types";
+
+export async function POST(request: NextRequest): Promise<NextResponse<UnshieldBroadcastResponse>> {
+  try {
+    const body = await request.json() as UnshieldBroadcastRequest;
+
+    if (!body.transaction?.to || !body.transaction?.data) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required field: transaction',
+      }, { status: 400 });
+    }
+
+    if (!relayerService.isConfigured()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Server relayer not configured. Contact administrator.',
+      }, { status: 500 });
+    }
+
+    if (!railgunEngine.isReady()) {
+      await railgunEngine.initialize();
+    }
+
+    const unshieldTxHash = await railgunTransfer.broadcastUnshield(
+      body.transaction,
+      body.jobId,
+      body.recipientIndex
+    );
+
+    return NextResponse.json({ success: true, unshieldTxHash });
+  } catch (error) {
+    console.error('[API] Unshield broadcast failed:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * GET /api/relayer/jobs/:id
+ *
+ * Status of a relayer job: the step records, the latest run's progress and
+ * the result, but not the request. Clients that lost their stream poll this,
+ * and resume a failed or interrupted job by sending its jobId back to the
+ * route that started it, signed by the job's owner (see lib/railgun/jobResume).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { relayerJobs, jobView } from "@/lib/railgun/jobs";
+import type { RelayerJobResponse } from "@/lib/railgun/types";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<RelayerJobResponse>> {
+  const { id } = await params;
+  const job = await relayerJobs.get(id);
+
+  if (!job) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown job: ${id}`,
+    }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, job: jobView(job) });
+}
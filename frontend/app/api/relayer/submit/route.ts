@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { relayerService } from '@/lib/railgun/relayer';
+import { relayerJobs } from '@/lib/railgun/jobs';
 import { privateMarketSwapService, type PrivateMarketSwapRequest } from '@/lib/railgun/privateMarketSwapService';
 import type { PrivateSwapProgress } from '@/lib/railgun/types';
 
@@ -9,10 +10,18 @@ export async function POST(request: NextRequest) {
     try {
         const body = await request.json() as PrivateMarketSwapRequest;
 
-        // Validate required fields
-        if (!body.marketId || !body.amount || !body.userAddress || !body.mnemonic || !body.password) {
+        // Validate required fields; a resumed job brings its own
+        if (!body.jobId && (!body.marketId || !body.amount || !body.minAmountOut || !body.userAddress || !body.senderRailgunAddress)) {
             return new Response(
-                JSON.stringify({ error: 'Missing required fields: marketId, amount, userAddress, mnemonic, password' }),
+                JSON.stringify({ error: 'Missing required fields: marketId, amount, minAmountOut, userAddress, senderRailgunAddress' }),
+                { status: 400, headers: { 'Content-Type': 'application/json' } }
+            );
+        }
+
+        // The swap stage broadcasts a RelayAdapt swap the browser already proved
+        if (body.stage === 'swap' && !body.provedSwap) {
+            return new Response(
+                JSON.stringify({ error: 'Missing provedSwap for the swap stage' }),
                 { status: 400, headers: { 'Content-Type': 'application/json' } }
             );
         }
@@ -24,24 +33,59 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        console.log('[API] Starting private market swap');
-        console.log(`[API] Market: ${body.marketId}`);
-        console.log(`[API] Action: ${body.action}`);
-        console.log(`[API] Amount: ${body.amount} wei`);
-        console.log(`[API] User: ${body.userAddress}`);
+        if (body.jobId) {
+            console.log(`[API] Resuming private swap job ${body.jobId}`);
+        } else {
+            console.log('[API] Starting private market swap');
+            console.log(`[API] Market: ${body.marketId}`);
+            console.log(`[API] Action: ${body.action}`);
+            console.log(`[API] Amount: ${body.amount} wei`);
+            console.log(`[API] User: ${body.userAddress}`);
+        }
+        console.log(`[API] Stage: ${body.fastMode ? 'fast' : body.stage ?? 'shield'}`);
 
+        let jobId: string;
+        try {
+            jobId = await privateMarketSwapService.submit(body);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return new Response(
+                JSON.stringify({ error: message }),
+                {
+                    status: message.startsWith('Unknown job') ? 404 : message.startsWith('Not authorized') ? 403 : 400,
+                    headers: { 'Content-Type': 'application/json' },
+                }
+            );
+        }
+
+        // The job runs on its own; this stream only watches it, so a client
+        // that disconnects can pick it up again from /api/relayer/jobs/[id]
         const encoder = new TextEncoder();
+        const progressStream = relayerJobs.watch<PrivateSwapProgress>(jobId);
+        let closed = false;
 
         const stream = new ReadableStream({
             async start(controller) {
                 try {
-                    for await (const progress of privateMarketSwapService.executePrivateSwapStream(body)) {
+                    for await (const progress of progressStream) {
+                        if (closed) {
+                            break;
+                        }
                         const data = `data: ${JSON.stringify(progress)}\n\n`;
                         controller.enqueue(encoder.encode(data));
+                    }
 
-                        if (progress.step === 'complete' || progress.step === 'error') {
-                            break;
-                        }
+                    // A run that failed outside a step ends without an error event
+                    const job = await relayerJobs.get<unknown, PrivateSwapProgress>(jobId);
+                    const last = job?.progress[job.progress.length - 1];
+                    if (!closed && job?.status === 'error' && last?.step !== 'error') {
+                        const errorProgress: PrivateSwapProgress = {
+                            step: 'error',
+                            progress: 0,
+                            message: job.error ?? 'Unknown error',
+                            jobId,
+                        };
+                        controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorProgress)}\n\n`));
                     }
                 } catch (error) {
                     console.error('[API] Stream error:', error);
@@ -49,12 +93,21 @@ export async function POST(request: NextRequest) {
                         step: 'error',
                         progress: 0,
                         message: error instanceof Error ? error.message : 'Unknown error',
+                        jobId,
                     };
-                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorProgress)}\n\n`));
+                    if (!closed) {
+                        controller.enqueue(encoder.encode(`data: ${JSON.stringify(errorProgress)}\n\n`));
+                    }
                 } finally {
-                    controller.close();
+                    if (!closed) {
+                        controller.close();
+                    }
                 }
             },
+            cancel() {
+                closed = true;
+                void progressStream.return(undefined);
+            },
         });
 
         return new Response(stream, {
@@ -13,23 +13,45 @@ import { IranWarExecutionDock } from "@/components/events/IranWarExecutionDock";
 import { RangePriceSelector } from "@/components/events/RangePriceSelector";
 import { MockOrderBook } from "@/components/events/MockOrderBook";
 import { RangeExecutionDock } from "@/components/events/RangeExecutionDock";
+import { useMarketHistory, type PricePoint } from "@/hooks/useMarketHistory";
 // --- Sub-components (Consolidated for Detail View) ---
 
-const StepChart = () => {
-    const data = [
-        { time: 0, val: 72 },
-        { time: 10, val: 72 },
-        { time: 10, val: 75 },
-        { time: 25, val: 75 },
-        { time: 25, val: 74 },
-        { time: 40, val: 74 },
-        { time: 40, val: 80 },
-        { time: 60, val: 80 },
-        { time: 60, val: 78 },
-        { time: 85, val: 78 },
-        { time: 85, val: 81 },
-        { time: 100, val: 81 },
-    ];
+const FALLBACK_STEP_DATA = [
+    { time: 0, val: 72 },
+    { time: 10, val: 72 },
+    { time: 10, val: 75 },
+    { time: 25, val: 75 },
+    { time: 25, val: 74 },
+    { time: 40, val: 74 },
+    { time: 40, val: 80 },
+    { time: 60, val: 80 },
+    { time: 60, val: 78 },
+    { time: 85, val: 78 },
+    { time: 85, val: 81 },
+    { time: 100, val: 81 },
+];
+
+const formatChartDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "2-digit", year: "numeric" }).replace(",", "");
+
+// Probability curve of the market's first outcome, as a step series on a 0-100% time axis
+const toStepData = (curve: PricePoint[], to: number) => {
+    const from = curve[0].timestamp;
+    const span = Math.max(to - from, 1);
+    return curve.flatMap((point, i) => {
+        const time = ((point.timestamp - from) / span) * 100;
+        const val = point.price * 100;
+        const step = i === 0 ? [] : [{ time, val: curve[i - 1].price * 100 }];
+        const last = i === curve.length - 1 ? [{ time: 100, val }] : [];
+        return [...step, { time, val }, ...last];
+    });
+};
+
+const StepChart = ({ marketId }: { marketId?: string }) => {
+    const { history } = useMarketHistory(marketId, { outcome: 0 });
+    const curve = history?.series[0]?.curve ?? [];
+    const isLive = history !== null && curve.length > 0;
+    const data = isLive ? toStepData(curve, history.to) : FALLBACK_STEP_DATA;
 
     const generatePath = () => data.map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.time}% ${100 - point.val}%`).join(' ');
     const generateFillPath = () => `${generatePath()} L 100% 100% L 0% 100% Z`;
@@ -49,15 +71,17 @@ const StepChart = () => {
                 ))}
                 <motion.path d={generateFillPath()} fill="url(#chart-grad)" initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 2 }} />
                 <motion.path d={generatePath()} stroke="#00D97E" strokeWidth="2" fill="none" className="step-chart-path" initial={{ pathLength: 0 }} animate={{ pathLength: 1 }} transition={{ duration: 2, ease: "easeInOut" }} />
-                <g style={{ transform: 'translateX(40%) translateY(20%)' }}>
-                    <line x1="0" y1="0" x2="0" y2="40" stroke="#059669" strokeWidth="1" strokeDasharray="2 2" />
-                    <rect x="-4" y="-20" width="80" height="20" fill="white" stroke="#059669" strokeWidth="1" rx="2" />
-                    <text x="4" y="-7" fontSize="8" fontWeight="bold" fill="#059669" className="uppercase tracking-tighter">SEC Filing Update</text>
-                </g>
+                {!isLive && (
+                    <g style={{ transform: 'translateX(40%) translateY(20%)' }}>
+                        <line x1="0" y1="0" x2="0" y2="40" stroke="#059669" strokeWidth="1" strokeDasharray="2 2" />
+                        <rect x="-4" y="-20" width="80" height="20" fill="white" stroke="#059669" strokeWidth="1" rx="2" />
+                        <text x="4" y="-7" fontSize="8" fontWeight="bold" fill="#059669" className="uppercase tracking-tighter">SEC Filing Update</text>
+                    </g>
+                )}
             </svg>
             <div className="absolute bottom-4 left-8 right-8 flex justify-between">
-                <span className="text-[9px] font-black uppercase tracking-[0.2em] text-text-body">Dec 01 2025</span>
-                <span className="text-[9px] font-black uppercase tracking-[0.2em] text-text-body">Dec 31 2025</span>
+                <span className="text-[9px] font-black uppercase tracking-[0.2em] text-text-body">{isLive ? formatChartDate(history.from) : "Dec 01 2025"}</span>
+                <span className="text-[9px] font-black uppercase tracking-[0.2em] text-text-body">{isLive ? formatChartDate(history.to) : "Dec 31 2025"}</span>
             </div>
         </div>
     );
@@ -293,7 +317,7 @@ export default function MarketDetailPage() {
                                 onRangeChange={(min, max, prob) => setCustomRange({ min, max, prob })}
                             />
                         ) : (
-                            <StepChart />
+                            <StepChart marketId={id?.toString()} />
                         )}
                     </div>
                     {!isNY06 && (
@@ -242,7 +242,7 @@ export default function PrivacyTestPage() {
       addLog(`Generated mnemonic (save this!): ${mnemonic}`);
 
       try {
-        await createWallet(mnemonic, 'test-password');
+        await createWallet(mnemonic);
         addLog('✓ Railgun wallet created successfully!');
       } catch (error: any) {
         addLog(`✗ Wallet creation failed: ${error.message}`);
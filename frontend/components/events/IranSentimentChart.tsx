@@ -5,18 +5,23 @@ import { motion } from "framer-motion";
 import iranData from "@/data/iran.json";
 import { cn } from "@/lib/utils";
 import { RouletteSelection } from "@/app/markets/[id]/page";
+import { useMarketFeed, withLivePrices } from "@/hooks/useMarketFeed";
+import { IRAN_MARKET_ID } from "@/lib/constants";
 
 interface IranSentimentChartProps {
     selection: RouletteSelection;
     onSelectCell?: (day: number, cents: number) => void;
+    /** CLOB server market to chart; falls back to the iran.json snapshot while offline */
+    marketId?: string;
 }
 
 const DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
 const CENTS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
 
-export const IranSentimentChart = ({ selection, onSelectCell }: IranSentimentChartProps) => {
+export const IranSentimentChart = ({ selection, onSelectCell, marketId = IRAN_MARKET_ID }: IranSentimentChartProps) => {
     const { selectedEvents, selectedOutcome } = selection;
     const isNo = selectedOutcome === "no";
+    const { prices } = useMarketFeed(marketId);
 
     // Theme colors
     const themeColor = isNo ? "#EF4444" : "#10B981"; // Red-500 or Emerald-500
@@ -24,22 +29,20 @@ export const IranSentimentChart = ({ selection, onSelectCell }: IranSentimentCha
     const themeBorder = isNo ? "border-red-100/50" : "border-emerald-100/50";
     const themeText = isNo ? "text-red-600" : "text-emerald-600";
 
-    const onMarket = iranData.markets.find(m => m.type === "on_date");
-    const byMarket = iranData.markets.find(m => m.type === "by_date");
+    // The server prices "by" questions itself; iran.json fills in while offline
+    const markets = useMemo(() => withLivePrices(iranData.markets, prices), [prices]);
+    const onMarket = markets.find(m => m.type === "on_date");
+    const byMarket = markets.find(m => m.type === "by_date");
 
-    const onData = useMemo(() => {
-        return onMarket?.data.map(d => ({
-            day: parseInt(d.date.split("-")[2]),
-            val: isNo ? d.no_cents : d.yes_cents
-        })) || [];
-    }, [onMarket, isNo]);
+    const onData = useMemo(() => onMarket?.data.map(d => ({
+        day: parseInt(d.date.split("-")[2]),
+        val: isNo ? d.no_cents : d.yes_cents
+    })) || [], [onMarket, isNo]);
 
-    const byData = useMemo(() => {
-        return byMarket?.data.map(d => ({
-            day: parseInt(d.date.split("-")[2]),
-            val: isNo ? d.no_cents : d.yes_cents
-        })) || [];
-    }, [byMarket, isNo]);
+    const byData = useMemo(() => byMarket?.data.map(d => ({
+        day: parseInt(d.date.split("-")[2]),
+        val: isNo ? d.no_cents : d.yes_cents
+    })) || [], [byMarket, isNo]);
 
     const showOn = selectedEvents.includes("on") || selectedEvents.length === 0;
     const showBy = selectedEvents.includes("by") || selectedEvents.length === 0;
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useRef } from "react";
+import React, { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { ChevronDown, Eye, EyeOff, Shield, Loader2 } from "lucide-react";
@@ -10,10 +10,13 @@ import { Mnemonic, keccak256 as ethersKeccak256, toUtf8Bytes } from "ethers";
 
 import { RouletteSelection } from "@/app/markets/[id]/page";
 import iranData from "@/data/iran.json";
+import { useMarketFeed, withLivePrices } from "@/hooks/useMarketFeed";
+import { IRAN_MARKET_ID } from "@/lib/constants";
 import { usePrivateMarketTrading, type TradingStep } from "@/hooks/usePrivateMarketTrading";
 import { useRailgunEngine } from "@/hooks/useRailgunEngine";
 import { useRailgunWallet } from "@/hooks/useRailgunWallet";
 import { useShielding } from "@/hooks/useShielding";
+import { usePrivatePositions } from "@/hooks/usePrivatePositions";
 
 // Deterministic message for RAILGUN wallet derivation from connected wallet
 const DERIVATION_MESSAGE =
@@ -88,7 +91,10 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
         step: string;
     }>({ loading: false, error: null, step: '' });
     const [walletBalance, setWalletBalance] = useState<string>('0.0000');
-    const autoRestoreAttempted = useRef(false);
+
+    // Quote against live CLOB prices when the feed is up, iran.json otherwise
+    const { prices } = useMarketFeed(IRAN_MARKET_ID);
+    const iranMarkets = React.useMemo(() => withLivePrices(iranData.markets, prices), [prices]);
 
     // Trading hook
     const {
@@ -99,7 +105,6 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
         reset,
         isPrivateTradingAvailable,
         railgunWallet,
-        getPosition,
         shieldedBalance,
         refreshShieldedBalance,
     } = usePrivateMarketTrading();
@@ -115,9 +120,10 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
 
     const {
         createWallet,
+        unlockWallet,
+        hasStoredWallet,
         generateMnemonic,
         wallet: railgunWalletData,
-        status: walletStatus
     } = useRailgunWallet();
 
     const railgunEngineInitialized = railgunEngineStatus === 'ready';
@@ -128,6 +134,7 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
 
     // Get current position for the market (if in stealth mode)
     const marketId = "0x" + "1".repeat(64) as `0x${string}`;
+    const { getPosition, refresh: refreshPositions } = usePrivatePositions(stealthMode ? marketId : undefined);
     const currentYesPosition = stealthMode && selection ? getPosition(marketId, 'YES') : null;
     const currentNoPosition = stealthMode && selection ? getPosition(marketId, 'NO') : null;
     const selectedSide = selection?.selectedOutcome === 'yes' ? 'YES' : 'NO';
@@ -152,36 +159,7 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
         fetchBalance();
     }, [address]);
 
-    // Auto-restore wallet from localStorage when address is available
-    // This runs silently in the background so the wallet is ready when stealth mode is toggled
-    React.useEffect(() => {
-        if (!address || walletStatus === 'ready' || walletStatus === 'creating' || autoRestoreAttempted.current) return;
-        autoRestoreAttempted.current = true;
-
-        const storageKey = `railgun_wallet_${address}`;
-        const stored = localStorage.getItem(storageKey);
-        if (stored) {
-            try {
-                const { mnemonic, password } = JSON.parse(stored);
-                if (mnemonic && password) {
-                    console.log('[Stealth] Auto-restoring RAILGUN wallet from storage...');
-                    createWallet(mnemonic, password).catch(err => {
-                        console.error('[Stealth] Auto-restore failed:', err);
-                        localStorage.removeItem(storageKey);
-                    });
-                }
-            } catch {
-                localStorage.removeItem(storageKey);
-            }
-        }
-    }, [address, walletStatus, createWallet]);
-
-    // Reset auto-restore flag when address changes
-    React.useEffect(() => {
-        autoRestoreAttempted.current = false;
-    }, [address]);
-
-    // Auto-setup wallet when stealth mode is enabled (only triggers signing if no stored wallet)
+    // Auto-setup wallet when stealth mode is enabled (asks for a signature to create or unlock it)
     React.useEffect(() => {
         if (stealthMode && !isPrivateTradingAvailable && !walletSetupState.loading && address && walletClient) {
             handleSetupWallet();
@@ -197,7 +175,7 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
         const selectedOutcome = selection.selectedOutcome || "yes";
 
         const activeBets = selection.selectedEvents.map(evt => {
-            const market = iranData.markets.find(m => evt === "on" ? m.type === "on_date" : m.type === "by_date");
+            const market = iranMarkets.find(m => evt === "on" ? m.type === "on_date" : m.type === "by_date");
             if (!market) return null;
 
             const dataPoint = market.data.find(d => parseInt(d.date.split('-')[2], 10) === targetDate);
@@ -261,7 +239,7 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
 
         return { activeBets, rows };
 
-    }, [selection, investAmount]);
+    }, [selection, investAmount, iranMarkets]);
 
     const handleSubmit = async () => {
         if (!isConnected) {
@@ -281,13 +259,18 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
         const marketId = "0x" + "1".repeat(64) as `0x${string}`; // Valid hex bytes32
         const side = selection.selectedOutcome === 'yes' ? 'YES' : 'NO';
 
-        await executeTrade({
+        const tradeResult = await executeTrade({
             marketId,
             side: side as 'YES' | 'NO',
             amount: amount,
             privateMode: stealthMode,
             action: mode, // Pass buy/sell mode
         });
+
+        // Private trades shield their output, so the position is the new shielded balance
+        if (tradeResult.success && stealthMode) {
+            refreshPositions();
+        }
     };
 
     const handleSetupWallet = async () => {
@@ -305,19 +288,10 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
                 await initializeRailgun();
             }
 
-            const storageKey = `railgun_wallet_${address}`;
-            let mnemonic: string;
-            let password: string;
-
-            // Check localStorage for previously derived wallet
-            const stored = localStorage.getItem(storageKey);
-
-            if (stored) {
-                // Restore from localStorage (no signing needed)
-                const data = JSON.parse(stored);
-                mnemonic = data.mnemonic;
-                password = data.password;
-                setWalletSetupState({ loading: true, error: null, step: 'Restoring private wallet...' });
+            if (hasStoredWallet) {
+                // Open the wallet sealed on this device
+                setWalletSetupState({ loading: true, error: null, step: 'Sign to unlock private wallet...' });
+                await unlockWallet();
             } else {
                 // Derive wallet from connected wallet signature
                 // The user signs a deterministic message - the same wallet address always
@@ -332,16 +306,13 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
                 // Hash the signature to get 16 bytes of entropy -> 12-word BIP-39 mnemonic
                 const hash = ethersKeccak256(toUtf8Bytes(signature));
                 const entropy = hash.slice(0, 34); // 0x + 32 hex chars = 16 bytes
-                mnemonic = Mnemonic.fromEntropy(entropy).phrase;
-                password = `xiphias_${address}`;
+                const mnemonic = Mnemonic.fromEntropy(entropy).phrase;
 
-                // Persist for future sessions (same wallet = same RAILGUN wallet)
-                localStorage.setItem(storageKey, JSON.stringify({ mnemonic, password }));
+                // A second signature encrypts the wallet on this device for future sessions
+                setWalletSetupState({ loading: true, error: null, step: 'Sign to encrypt private wallet on this device...' });
+                await createWallet(mnemonic);
             }
 
-            setWalletSetupState({ loading: true, error: null, step: 'Creating private wallet...' });
-            await createWallet(mnemonic, password);
-
             setWalletSetupState({ loading: false, error: null, step: 'Complete!' });
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : 'Unknown error during setup';
@@ -529,9 +500,9 @@ export const IranWarExecutionDock = ({ className, selection }: IranWarExecutionD
                                         : '0.0000'
                                 }
                             </div>
-                            {mode === 'sell' && currentPosition && (
+                            {mode === 'sell' && currentPosition && currentPosition.spendable < currentPosition.shares && (
                                 <div className="text-[10px] text-blue-600">
-                                    Avg: ${currentPosition.averagePrice.toFixed(4)}
+                                    {(Number(currentPosition.spendable) / 1e18).toFixed(4)} spendable (POI pending)
                                 </div>
                             )}
                         </div>
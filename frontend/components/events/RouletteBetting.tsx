@@ -3,6 +3,8 @@
 import React, { useState } from "react";
 import { cn } from "@/lib/utils";
 import iranData from "@/data/iran.json";
+import { useMarketFeed, withLivePrices } from "@/hooks/useMarketFeed";
+import { IRAN_MARKET_ID } from "@/lib/constants";
 
 import electionData from "@/data/election.json";
 
@@ -63,13 +65,17 @@ export const RouletteBetting = ({ className, selection, onSelectionChange, custo
     // Add the partial numbers if any, or specific columns as shown in drawing
     const extraColumn: string[] = [];
 
+    // Live CLOB prices when the feed is up, iran.json otherwise
+    const { prices } = useMarketFeed(marketType === "iran" ? IRAN_MARKET_ID : undefined);
+    const iranMarkets = React.useMemo(() => withLivePrices(iranData.markets, prices), [prices]);
+
     // Get active markets based on selection
     const activeMarkets = React.useMemo(() => {
-        return iranData.markets.filter(m =>
+        return iranMarkets.filter(m =>
             (m.type === "on_date" && selectedEvents.includes("on")) ||
             (m.type === "by_date" && selectedEvents.includes("by"))
         );
-    }, [selectedEvents]);
+    }, [iranMarkets, selectedEvents]);
 
     // Create maps for On and By probabilities
     const probMaps = React.useMemo(() => {
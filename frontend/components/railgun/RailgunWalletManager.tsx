@@ -1,8 +1,9 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useRailgun } from '@/contexts/RailgunContext';
 import { formatTokenAmount } from '@/lib/railgun/railgun-shield';
+import { validateMnemonic } from '@/lib/railgun/railgun-wallet';
 
 /**
  * RailgunWalletManager component
@@ -26,10 +27,23 @@ export function RailgunWalletManager() {
   const [isCreating, setIsCreating] = useState(false);
   const [isShielding, setIsShielding] = useState(false);
 
+  // Verify the phrase as it is typed so a bad word or checksum never reaches the engine
+  const mnemonicError = useMemo(() => {
+    if (!mnemonicInput.trim()) return null;
+    try {
+      validateMnemonic(mnemonicInput);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }, [mnemonicInput]);
+
   const handleCreateWallet = async () => {
+    if (mnemonicError) return;
+
     setIsCreating(true);
     try {
-      await createWallet(mnemonicInput || undefined);
+      await createWallet(mnemonicInput);
       setShowCreateWallet(false);
       setMnemonicInput('');
     } catch (error) {
@@ -124,15 +138,20 @@ export function RailgunWalletManager() {
             <div className="space-y-3">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Mnemonic Phrase (optional)
+                  Mnemonic Phrase
                 </label>
                 <textarea
                   value={mnemonicInput}
                   onChange={(e) => setMnemonicInput(e.target.value)}
-                  placeholder="Enter 12 or 24 word mnemonic, or generate a new one"
-                  className="w-full p-2 border border-gray-300 rounded text-sm"
+                  placeholder="Import a 12 or 24 word BIP-39 mnemonic, or generate a new one"
+                  className={`w-full p-2 border rounded text-sm ${mnemonicError ? 'border-red-400' : 'border-gray-300'}`}
                   rows={3}
                 />
+                {mnemonicError ? (
+                  <p className="text-xs text-red-600 mt-1">{mnemonicError}</p>
+                ) : mnemonicInput.trim() ? (
+                  <p className="text-xs text-green-600 mt-1">✓ Valid BIP-39 phrase. Write it down before creating the wallet.</p>
+                ) : null}
               </div>
               <div className="flex gap-2">
                 <button
@@ -149,7 +168,7 @@ export function RailgunWalletManager() {
                 </button>
                 <button
                   onClick={handleCreateWallet}
-                  disabled={isCreating || !mnemonicInput}
+                  disabled={isCreating || !mnemonicInput.trim() || !!mnemonicError}
                   className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
                 >
                   {isCreating ? 'Creating...' : 'Create Wallet'}
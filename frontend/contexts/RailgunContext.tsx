@@ -2,11 +2,11 @@
 
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { useAccount } from 'wagmi';
-import { initializeRailgunEngine, shutdownRailgunEngine } from '@/lib/railgun/railgun-engine';
-import { loadEngineProvider } from '@/lib/railgun/railgun-network';
+import { ensureRailgunEngine, shutdownRailgunEngine } from '@/lib/railgun/railgun-engine';
 import {
   createRailgunWalletFromMnemonic,
   generateMnemonic,
+  validateMnemonic,
   type RailgunWalletData,
 } from '@/lib/railgun/railgun-wallet';
 import { shieldTokens, unshieldTokens } from '@/lib/railgun/railgun-shield';
@@ -63,11 +63,8 @@ export function RailgunProvider({ children }: { children: React.ReactNode }) {
     setError(null);
 
     try {
-      // Initialize Railgun engine
-      await initializeRailgunEngine(address);
-
-      // Load engine provider for Sepolia
-      await loadEngineProvider();
+      // Initialize Railgun engine and load the Sepolia provider (shared with the wallet provider)
+      await ensureRailgunEngine(address);
 
       setIsInitialized(true);
       console.log('Railgun engine initialized successfully');
@@ -81,12 +78,12 @@ export function RailgunProvider({ children }: { children: React.ReactNode }) {
   }, [address]);
 
   /**
-   * Creates a new Railgun wallet from a mnemonic
+   * Creates a new Railgun wallet from a mnemonic, generating one if none is given
+   * Invalid phrases are rejected before the engine sees them
    */
   const createWallet = useCallback(async (mnemonic?: string): Promise<RailgunWalletData> => {
-    const walletMnemonic = mnemonic || generateMnemonic();
-
     try {
+      const walletMnemonic = mnemonic ? validateMnemonic(mnemonic) : generateMnemonic();
       const walletData = await createRailgunWalletFromMnemonic(walletMnemonic);
       setRailgunWallet(walletData);
       return walletData;
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CLOB_FEED_URL } from '@/lib/constants';
+import { connectMarketFeed } from '@/lib/clob';
+import type { BookSnapshot, FeedTrade, MarketPrices, MarketResolution } from '@/lib/clob';
+
+export type { OutcomePrice, MarketPrices, BookLevel, BookSnapshot, FeedTrade, MarketResolution } from '@/lib/clob';
+
+/**
+ * Live market feed from the CLOB server WebSocket
+ * Prices, trades, order book changes and resolution for one market
+ */
+
+const MAX_TRADES = 50;
+
+/**
+ * Subscribe to a market's feed; reconnects with backoff while mounted.
+ * Pass no marketId to stay disconnected.
+ */
+export function useMarketFeed(marketId: string | undefined) {
+    const [prices, setPrices] = useState<MarketPrices | null>(null);
+    const [trades, setTrades] = useState<FeedTrade[]>([]);
+    const [books, setBooks] = useState<Record<number, BookSnapshot>>({});
+    const [resolution, setResolution] = useState<MarketResolution | null>(null);
+    const [isConnected, setIsConnected] = useState(false);
+
+    useEffect(() => {
+        if (!marketId) return;
+
+        const connection = connectMarketFeed({ url: CLOB_FEED_URL, marketId }, {
+            onConnectionChange: setIsConnected,
+            onMessage: (message) => {
+                switch (message.type) {
+                    case 'snapshot':
+                    case 'prices':
+                        setPrices(message.data);
+                        break;
+                    case 'trades':
+                        setTrades(prev => [message.data, ...prev].slice(0, MAX_TRADES));
+                        break;
+                    case 'book':
+                        setBooks(prev => ({ ...prev, [message.data.dayIndex]: message.data }));
+                        break;
+                    case 'resolution':
+                        setResolution(message.data);
+                        break;
+                    case 'error':
+                        console.error('[Market Feed]', message.error);
+                        break;
+                }
+            },
+            onError: (error) => console.error('[Market Feed] Failed to parse message:', error),
+        });
+
+        return () => connection.close();
+    }, [marketId]);
+
+    return { prices, trades, books, resolution, isConnected };
+}
+
+interface DatedMarket {
+    type: string;
+    data: { date: string; yes_cents: number; no_cents: number }[];
+}
+
+/**
+ * Overlay live feed prices on static on_date/by_date market data (e.g. iran.json),
+ * matching entries by day of month
+ */
+export function withLivePrices<T extends DatedMarket>(markets: T[], prices: MarketPrices | null): T[] {
+    if (!prices) return markets;
+
+    return markets.map(market => {
+        const live = market.type === 'on_date' ? prices.onDate : market.type === 'by_date' ? prices.byDate : null;
+        if (!live) return market;
+
+        return {
+            ...market,
+            data: market.data.map(d => {
+                const price = live[parseInt(d.date.split('-')[2], 10) - 1];
+                return price ? { ...d, yes_cents: price.yesCents, no_cents: price.noCents } : d;
+            }),
+        };
+    });
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { createClobClient, type HistoryRequest, type MarketHistory } from '@/lib/clob';
+
+export type { CandleInterval, PriceCandle, PricePoint, PriceSeries, MarketHistory } from '@/lib/clob';
+
+/**
+ * Price history for a CLOB server market
+ * OHLC candles and probability curves built from per-trade price snapshots
+ */
+
+interface MarketHistoryOptions extends Omit<HistoryRequest, 'marketId'> {
+    /** Poll period in ms; 0 disables polling */
+    refreshInterval?: number;
+}
+
+export function useMarketHistory(marketId: string | undefined, options: MarketHistoryOptions = {}) {
+    const { outcome, interval = '1h', limit, refreshInterval = 30000 } = options;
+    const [history, setHistory] = useState<MarketHistory | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const client = useMemo(() => (marketId ? createClobClient({ marketId }) : null), [marketId]);
+
+    const refresh = useCallback(async () => {
+        if (!client) return;
+
+        setIsLoading(true);
+        try {
+            setHistory(await client.getHistory({ outcome, interval, limit }));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load price history');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [client, outcome, interval, limit]);
+
+    useEffect(() => {
+        refresh();
+        if (!refreshInterval) return;
+
+        const timer = setInterval(refresh, refreshInterval);
+        return () => clearInterval(timer);
+    }, [refresh, refreshInterval]);
+
+    return { history, isLoading, error, refresh };
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createClobClient, type MarketSource } from '@/lib/clob';
+import { watchPolymarketDivergence, type DivergenceReport } from '@/lib/polymarket-import';
+
+/**
+ * How far a market imported from Polymarket has drifted from Polymarket's prices
+ * Pass the market's `source` (from the market list); other sources stay idle.
+ */
+export function usePolymarketDivergence(
+    marketId: string | undefined,
+    source: MarketSource | null | undefined,
+    interval?: number
+) {
+    const [report, setReport] = useState<DivergenceReport | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const slug = source?.platform === 'polymarket' ? source.slug : undefined;
+    // Read prices the way the market was imported; older imports fall back to the classifier
+    const structure = source?.structure === 'cumulative' || source?.structure === 'exclusive'
+        ? source.structure
+        : undefined;
+
+    useEffect(() => {
+        if (!marketId || !slug) return;
+
+        const watch = watchPolymarketDivergence(
+            createClobClient({ marketId }),
+            { slug, structure, interval },
+            {
+                onReport: (next) => {
+                    setReport(next);
+                    setError(null);
+                },
+                onError: (err) => setError(err.message),
+            }
+        );
+
+        return () => watch.stop();
+    }, [marketId, slug, structure, interval]);
+
+    return { report, error };
+}
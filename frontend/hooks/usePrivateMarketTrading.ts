@@ -2,13 +2,26 @@
 
 import { useState, useCallback } from 'react';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
-import { parseUnits, parseAbi } from 'viem';
+import { parseUnits, parseAbi, toHex } from 'viem';
 import { useRailgunWallet } from './useRailgunWallet';
 import { useRailgunEngine } from './useRailgunEngine';
-import { usePrivatePositions } from './usePrivatePositions';
 import { FACTORY_ADDRESS, RELAYER_ADDRESS, SEPOLIA_WETH } from '@/lib/constants';
+import { PREDICTION_MARKET_FACTORY_ABI } from '@/lib/abis/PredictionMarketFactory';
+import {
+    getShieldedTokenBalance,
+    waitForSpendableBalance,
+    proveCrossContractCalls,
+} from '@/lib/railgun/railgun-transactions';
+import { adapterSwapCalls, afterUnshieldFee, minSwapOutput } from '@/lib/railgun/adapterSwap';
+import { jobResumeMessage } from '@/lib/railgun/jobResume';
+import { swapAuthorizationMessage } from '@/lib/railgun/swapAuth';
 import type { PrivateMarketSwapRequest } from '@/lib/railgun/privateMarketSwapService';
-import type { PrivateSwapProgress } from '@/lib/railgun/types';
+import type { JobResumeAuth, PrivateSwapProgress, PrivateSwapStep } from '@/lib/railgun/types';
+
+// How long the signature that lets the swap stage continue our job stays valid
+const RESUME_AUTH_SECONDS = 600;
+// How long the signature that lets the relayer pull our input stays valid
+const SWAP_AUTH_SECONDS = 600;
 
 /**
  * Trading step states for progress UI.
@@ -43,7 +56,7 @@ export interface TradingProgress {
 export interface TradeParams {
     marketId: string;
     side: 'YES' | 'NO';
-    amount: string; // Human readable amount in ETH (e.g., "0.1")
+    amount: string; // Human readable amount (e.g., "0.1"): ETH for buys, outcome tokens for sells
     privateMode: boolean;
     action: 'buy' | 'sell';
     outcomeIndex?: number;
@@ -58,6 +71,7 @@ export interface TradeResult {
     inputShieldTxHash?: string; // Shield TX hash
     unshieldTxHash?: string;    // Unshield TX hash
     swapTxHash?: string;
+    outputShieldTxHash?: string; // Swap TX that shielded the output to the user's 0zk address
     error?: string;
 }
 
@@ -74,12 +88,102 @@ const STEP_MESSAGES: Record<TradingStep, string> = {
     error: 'Trade failed',
 };
 
+// Server PrivateSwapStep → client TradingStep
+const SERVER_STEPS: Record<PrivateSwapStep, TradingStep> = {
+    preparing: 'preparing',
+    approving: 'approving',
+    shielding: 'shielding',
+    awaiting_proof: 'waiting_poi',
+    waiting_poi: 'waiting_poi',
+    generating_proof: 'generating_proof',
+    unshielding: 'unshielding',
+    transferring: 'swapping',
+    reshielding: 'swapping',
+    complete: 'complete',
+    error: 'error',
+};
+
+// RAILGUN shield fee, taken from the shielded amount
+const SHIELD_FEE_BPS = 25n;
+
+type ProgressReporter = (step: TradingStep, progressPct: number, message?: string, txHash?: string, error?: string) => void;
+
+/**
+ * POST one stage of a private swap to the relayer and follow its SSE stream.
+ * Resolves with the stage's last event ('awaiting_proof' or 'complete').
+ */
+async function submitToRelayer(
+    request: PrivateMarketSwapRequest,
+    onProgress: ProgressReporter,
+): Promise<PrivateSwapProgress> {
+    const response = await fetch('/api/relayer/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+        const err = await response.json();
+        throw new Error(err.error || 'Trade failed at API level');
+    }
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let last: PrivateSwapProgress | null = null;
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            if (!line.startsWith('data: ')) continue;
+
+            let data: PrivateSwapProgress;
+            try {
+                data = JSON.parse(line.slice(6)) as PrivateSwapProgress;
+            } catch (e) {
+                console.warn('Failed to parse SSE:', e);
+                continue;
+            }
+
+            if (data.step === 'error') {
+                throw new Error(data.message || 'Trade flow failed');
+            }
+
+            last = data;
+            onProgress(
+                SERVER_STEPS[data.step] ?? 'swapping',
+                data.progress,
+                data.message,
+                data.txHash || data.swapTxHash,
+                data.error,
+            );
+        }
+    }
+
+    if (!last || (last.step !== 'complete' && last.step !== 'awaiting_proof')) {
+        throw new Error('Relayer stream ended early');
+    }
+    return last;
+}
+
 // WETH ABI for wrapping & approving
 const WETH_ABI = parseAbi([
     'function deposit() payable',
     'function approve(address spender, uint256 amount) returns (bool)',
 ]);
 
+const OUTCOME_TOKEN_ABI = parseAbi([
+    'function balanceOf(address account) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
 // Factory ABI for prediction market swaps (public trades)
 const FACTORY_SWAP_ABI = [
     {
@@ -102,16 +206,18 @@ const FACTORY_SWAP_ABI = [
  * Hook for executing trades on prediction markets with optional privacy.
  *
  * Public trades: user calls factory.swap() directly with ETH.
- * Private trades: user wraps ETH→WETH, approves relayer, relayer runs full
- *   RAILGUN pipeline (shield → POI → ZK proof → unshield → adapter.privateSwap).
- *   The user's EOA never touches the prediction market factory.
+ * Private trades: user wraps ETH→WETH, approves relayer, relayer shields the
+ *   WETH; this browser waits for POI and proves RelayAdapt cross-contract
+ *   calls (unshield → adapter.swap → shield), which the relayer broadcasts as
+ *   one transaction. The user's EOA never touches the prediction market
+ *   factory, and the RAILGUN wallet keys never leave the browser.
  */
 export function usePrivateMarketTrading() {
     const { address } = useAccount();
     const publicClient = usePublicClient();
     const { data: walletClient } = useWalletClient();
 
-    const { wallet: railgunWallet, status: walletStatus, mnemonic, password } = useRailgunWallet();
+    const { wallet: railgunWallet, status: walletStatus } = useRailgunWallet();
     const { status: engineStatus, initialize: initEngine } = useRailgunEngine();
 
     const [isTrading, setIsTrading] = useState(false);
@@ -190,7 +296,7 @@ export function usePrivateMarketTrading() {
             return { success: false, error: 'Wallet not connected' };
         }
 
-        if (walletStatus !== 'ready' || !railgunWallet || !mnemonic || !password) {
+        if (walletStatus !== 'ready' || !railgunWallet) {
             if (engineStatus !== 'ready') await initEngine();
             return { success: false, error: 'Private wallet not initialized. Please enable stealth mode first.' };
         }
@@ -203,150 +309,220 @@ export function usePrivateMarketTrading() {
             const tokenInIndex = params.action === 'buy' ? 999 : (params.side === 'YES' ? 1 : 2);
             const tokenOutIndex = params.action === 'buy' ? (params.side === 'YES' ? 1 : 2) : 999;
 
-            // ────────────────────────────────────────────────────────────
-            // STEP 1: Wrap ETH → WETH
-            // This is an on-chain action from the user's address, but only
-            // reveals an ETH→WETH wrap — not the prediction market trade.
-            // ────────────────────────────────────────────────────────────
-            updateProgress('approving', 5, 'Wrapping ETH to WETH...');
-            console.log(`[Private Trade] Wrapping ${params.amount} ETH to WETH...`);
-
-            const wrapHash = await walletClient.writeContract({
-                address: SEPOLIA_WETH as `0x${string}`,
-                abi: WETH_ABI,
-                functionName: 'deposit',
-                value: amountIn,
-            });
-
-            await publicClient.waitForTransactionReceipt({ hash: wrapHash });
-            console.log('[Private Trade] ETH wrapped to WETH:', wrapHash);
-
-            // ────────────────────────────────────────────────────────────
-            // STEP 2: Approve relayer to spend WETH
-            // Again, only reveals that the user approved a generic address.
-            // ────────────────────────────────────────────────────────────
-            updateProgress('approving', 10, 'Approving relayer for WETH...');
-            console.log(`[Private Trade] Approving relayer ${RELAYER_ADDRESS} for WETH...`);
-
-            const approveHash = await walletClient.writeContract({
-                address: SEPOLIA_WETH as `0x${string}`,
-                abi: WETH_ABI,
-                functionName: 'approve',
-                args: [RELAYER_ADDRESS as `0x${string}`, amountIn],
+            const market = await publicClient.readContract({
+                address: FACTORY_ADDRESS,
+                abi: PREDICTION_MARKET_FACTORY_ABI,
+                functionName: 'getMarket',
+                args: [params.marketId as `0x${string}`],
             });
+            const outcomeIndex = params.action === 'buy' ? tokenOutIndex : tokenInIndex;
+            const outcomeToken = market.outcomeTokens[outcomeIndex];
+            if (!outcomeToken) throw new Error(`Market has no outcome ${outcomeIndex}`);
+
+            // Token the relayer shields for us and we unshield back to it, and the one the swap pays out
+            const weth = SEPOLIA_WETH as `0x${string}`;
+            const inputToken = params.action === 'buy' ? weth : outcomeToken;
+            const outputToken = params.action === 'buy' ? outcomeToken : weth;
+            let needsShield = true;
+
+            if (params.action === 'buy') {
+                // ────────────────────────────────────────────────────────────
+                // STEP 1: Wrap ETH → WETH
+                // This is an on-chain action from the user's address, but only
+                // reveals an ETH→WETH wrap — not the prediction market trade.
+                // ────────────────────────────────────────────────────────────
+                updateProgress('approving', 5, 'Wrapping ETH to WETH...');
+                console.log(`[Private Trade] Wrapping ${params.amount} ETH to WETH...`);
+
+                const wrapHash = await walletClient.writeContract({
+                    address: SEPOLIA_WETH as `0x${string}`,
+                    abi: WETH_ABI,
+                    functionName: 'deposit',
+                    value: amountIn,
+                });
+
+                await publicClient.waitForTransactionReceipt({ hash: wrapHash });
+                console.log('[Private Trade] ETH wrapped to WETH:', wrapHash);
+
+                // ────────────────────────────────────────────────────────────
+                // STEP 2: Approve relayer to spend WETH
+                // Again, only reveals that the user approved a generic address.
+                // ────────────────────────────────────────────────────────────
+                updateProgress('approving', 10, 'Approving relayer for WETH...');
+                console.log(`[Private Trade] Approving relayer ${RELAYER_ADDRESS} for WETH...`);
+
+                const approveHash = await walletClient.writeContract({
+                    address: SEPOLIA_WETH as `0x${string}`,
+                    abi: WETH_ABI,
+                    functionName: 'approve',
+                    args: [RELAYER_ADDRESS as `0x${string}`, amountIn],
+                });
+
+                await publicClient.waitForTransactionReceipt({ hash: approveHash });
+                console.log('[Private Trade] Relayer approved for WETH:', approveHash);
+            } else {
+                // ────────────────────────────────────────────────────────────
+                // SELL: outcome tokens already shielded in the RAILGUN
+                // wallet need no approval. Tokens in the EOA are approved
+                // to the relayer, which shields them before selling.
+                // ────────────────────────────────────────────────────────────
+                updateProgress('approving', 5, 'Checking outcome token balance...');
+
+                // Tokens kept shielded after a private buy can be unshielded straight away
+                const { spendable } = await getShieldedTokenBalance(railgunWallet.walletID, outcomeToken);
+                needsShield = spendable < amountIn;
+
+                const [publicBalance, allowance] = await Promise.all([
+                    publicClient.readContract({
+                        address: outcomeToken,
+                        abi: OUTCOME_TOKEN_ABI,
+                        functionName: 'balanceOf',
+                        args: [address],
+                    }),
+                    publicClient.readContract({
+                        address: outcomeToken,
+                        abi: OUTCOME_TOKEN_ABI,
+                        functionName: 'allowance',
+                        args: [address, RELAYER_ADDRESS as `0x${string}`],
+                    }),
+                ]);
+
+                if (needsShield && publicBalance >= amountIn && allowance < amountIn) {
+                    updateProgress('approving', 10, 'Approving relayer for outcome tokens...');
+                    const approveHash = await walletClient.writeContract({
+                        address: outcomeToken,
+                        abi: OUTCOME_TOKEN_ABI,
+                        functionName: 'approve',
+                        args: [RELAYER_ADDRESS as `0x${string}`, amountIn],
+                    });
+                    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+                    console.log('[Private Trade] Relayer approved for outcome tokens:', approveHash);
+                }
+            }
 
-            await publicClient.waitForTransactionReceipt({ hash: approveHash });
-            console.log('[Private Trade] Relayer approved for WETH:', approveHash);
-
-            // ────────────────────────────────────────────────────────────
-            // STEP 3: POST to API — relayer executes the private swap.
-            // Fast mode (default): relayer transfers WETH directly to
-            //   adapter → adapter.privateSwap(). Fast and reliable.
-            // Full mode: shield → POI → ZK proof → unshield → swap.
-            //   Maximum privacy but very slow (2-10+ min for proof).
-            // ────────────────────────────────────────────────────────────
-            updateProgress('swapping', 15, 'Submitting to relayer...');
+            // What reaches the adapter after the shield and unshield fees, and the
+            // least we accept for it
+            const unshieldAmount = amountIn - (amountIn * SHIELD_FEE_BPS / 10000n);
+            const swapAmount = afterUnshieldFee(unshieldAmount);
+            const minAmountOut = minSwapOutput(swapAmount);
 
-            const requestBody: PrivateMarketSwapRequest = {
+            const baseRequest: PrivateMarketSwapRequest = {
                 userAddress: address,
                 marketId: params.marketId,
                 tokenInIndex,
                 tokenOutIndex,
                 amount: amountIn.toString(),
+                minAmountOut: minAmountOut.toString(),
                 action: params.action,
                 fastMode: false, // Use RAILGUN proxy (shield → POI → unshield → adapter)
-                senderWalletID: railgunWallet.walletID,
                 senderRailgunAddress: railgunWallet.railgunAddress,
-                mnemonic,
-                password,
             };
 
-            const response = await fetch('/api/relayer/submit', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(requestBody),
-            });
-
-            if (!response.ok) {
-                const err = await response.json();
-                throw new Error(err.error || 'Trade failed at API level');
+            let inputShieldTxHash: string | undefined;
+
+            // Relayer job the shield stage ran as; the swap stage continues it
+            let jobId: string | undefined;
+
+            if (needsShield) {
+                // ────────────────────────────────────────────────────────
+                // STEP 3: Relayer pulls the input and shields it to our
+                // 0zk address. No wallet secrets are sent.
+                // ────────────────────────────────────────────────────────
+                updateProgress('shielding', 15, 'Authorizing relayer...');
+
+                // The relayer only pulls our tokens with our signature over the trade
+                const nonce = toHex(crypto.getRandomValues(new Uint8Array(32)));
+                const expiry = Math.floor(Date.now() / 1000) + SWAP_AUTH_SECONDS;
+                const signature = await walletClient.signMessage({
+                    message: swapAuthorizationMessage(baseRequest, nonce, expiry),
+                });
+
+                updateProgress('shielding', 15, 'Submitting to relayer...');
+
+                const shielded = await submitToRelayer(
+                    { ...baseRequest, stage: 'shield', authorization: { nonce, expiry, signature } },
+                    updateProgress,
+                );
+                inputShieldTxHash = shielded.inputShieldTxHash;
+                jobId = shielded.jobId;
+
+                // ────────────────────────────────────────────────────────
+                // STEP 4: Wait for POI in the browser engine
+                // ────────────────────────────────────────────────────────
+                updateProgress('waiting_poi', 35, 'Waiting for POI (Privacy Verification)...');
+
+                await waitForSpendableBalance(
+                    railgunWallet.walletID,
+                    inputToken,
+                    amountIn * 99n / 100n,
+                    (elapsed) => updateProgress(
+                        'waiting_poi',
+                        35 + Math.min(15, Math.floor(elapsed / 5000) * 2),
+                        `Syncing balances... (${Math.floor(elapsed / 1000)}s)`,
+                    ),
+                );
             }
 
             // ────────────────────────────────────────────────────────────
-            // STEP 4: Handle SSE progress stream from the server
-            // Map server PrivateSwapStep to client TradingStep.
+            // STEP 5: Prove, in the browser, one RelayAdapt transaction that
+            // unshields the input to RelayAdapt, swaps what arrives through
+            // the adapter, and shields the output back to our 0zk address.
+            // Whatever is left of the input is shielded back too.
             // ────────────────────────────────────────────────────────────
-            const reader = response.body!.getReader();
-            const decoder = new TextDecoder();
-            let tradeResult: TradeResult = { success: false };
-            let buffer = '';
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n\n');
-                buffer = lines.pop() || '';
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        try {
-                            const data = JSON.parse(line.slice(6)) as PrivateSwapProgress;
-
-                            // Map server step directly to client TradingStep
-                            let uiStep: TradingStep = 'swapping';
-                            if (data.step === 'preparing') uiStep = 'preparing';
-                            else if (data.step === 'approving') uiStep = 'approving';
-                            else if (data.step === 'shielding') uiStep = 'shielding';
-                            else if (data.step === 'waiting_poi') uiStep = 'waiting_poi';
-                            else if (data.step === 'generating_proof') uiStep = 'generating_proof';
-                            else if (data.step === 'unshielding') uiStep = 'unshielding';
-                            else if (data.step === 'transferring') uiStep = 'swapping';
-                            else if (data.step === 'complete') uiStep = 'complete';
-                            else if (data.step === 'error') uiStep = 'error';
-
-                            if (data.step === 'error') {
-                                throw new Error(data.message || 'Trade flow failed');
-                            }
-
-                            if (data.step === 'complete') {
-                                tradeResult = {
-                                    success: true,
-                                    txHash: data.swapTxHash,
-                                    inputShieldTxHash: data.inputShieldTxHash,
-                                    unshieldTxHash: data.unshieldTxHash,
-                                    swapTxHash: data.swapTxHash,
-                                };
-                            }
-
-                            updateProgress(
-                                uiStep,
-                                data.progress,
-                                data.message,
-                                data.txHash || data.swapTxHash,
-                                data.error,
-                            );
-                        } catch (e) {
-                            if (e instanceof Error && e.message.includes('Trade flow failed')) throw e;
-                            console.warn('Failed to parse SSE:', e);
-                        }
-                    }
-                }
+            updateProgress('generating_proof', 55, 'Generating ZK proof...');
+
+            const provedSwap = await proveCrossContractCalls(
+                railgunWallet.walletID,
+                railgunWallet.encryptionKey,
+                [{ tokenAddress: inputToken, amount: unshieldAmount }],
+                adapterSwapCalls({
+                    marketId: params.marketId,
+                    tokenIn: inputToken,
+                    tokenInIndex,
+                    tokenOutIndex,
+                    amountIn: swapAmount,
+                    minAmountOut,
+                }),
+                [
+                    { tokenAddress: outputToken, recipientAddress: railgunWallet.railgunAddress },
+                    { tokenAddress: inputToken, recipientAddress: railgunWallet.railgunAddress },
+                ],
+                (p) => updateProgress('generating_proof', 55 + Math.floor(p * 0.25), `Generating proof... ${Math.floor(p)}%`),
+            );
+
+            // ────────────────────────────────────────────────────────────
+            // STEP 6: Relayer broadcasts the RelayAdapt transaction
+            // ────────────────────────────────────────────────────────────
+            updateProgress('unshielding', 80, 'Submitting proof to relayer...');
+
+            // Continuing the shield stage's job takes the wallet that owns it
+            let resumeAuth: JobResumeAuth | undefined;
+            if (jobId) {
+                const expiry = Math.floor(Date.now() / 1000) + RESUME_AUTH_SECONDS;
+                const signature = await walletClient.signMessage({ message: jobResumeMessage(jobId, expiry) });
+                resumeAuth = { expiry, signature };
             }
 
-            return tradeResult;
+            const swapped = await submitToRelayer(
+                { ...baseRequest, stage: 'swap', provedSwap, jobId, resumeAuth },
+                updateProgress,
+            );
+
+            return {
+                success: true,
+                txHash: swapped.swapTxHash,
+                inputShieldTxHash,
+                unshieldTxHash: swapped.unshieldTxHash,
+                swapTxHash: swapped.swapTxHash,
+                outputShieldTxHash: swapped.outputShieldTxHash,
+            };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Private trade failed';
             console.error('[Private Trade] Error:', error);
             updateProgress('error', 0, undefined, undefined, errorMessage);
             return { success: false, error: errorMessage };
         }
-    }, [address, walletClient, publicClient, walletStatus, railgunWallet, engineStatus, initEngine, updateProgress, mnemonic, password]);
-
-    // ─── Position tracking ───────────────────────────────────────────────
-
-    const { addPosition, reducePosition, getPosition } = usePrivatePositions();
+    }, [address, walletClient, publicClient, walletStatus, railgunWallet, engineStatus, initEngine, updateProgress]);
 
     // ─── Main entry point ────────────────────────────────────────────────
 
@@ -376,9 +552,6 @@ export function usePrivateMarketTrading() {
         reset,
         isPrivateTradingAvailable,
         railgunWallet,
-        getPosition,
-        addPosition,
-        reducePosition,
         shieldedBalance: 0n,
         refreshShieldedBalance: () => {},
     };
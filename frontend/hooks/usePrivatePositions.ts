@@ -1,213 +1,124 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
+import { usePublicClient } from 'wagmi';
 import { useRailgunWallet } from './useRailgunWallet';
-import { SEPOLIA_WETH } from '@/lib/constants';
+import { FACTORY_ADDRESS } from '@/lib/constants';
+import { PREDICTION_MARKET_FACTORY_ABI } from '@/lib/abis/PredictionMarketFactory';
+import { getShieldedTokenBalance } from '@/lib/railgun/railgun-transactions';
 
 /**
  * Position tracking for private trades
- * Tracks shielded balances of outcome tokens
+ * Private buys shield the outcome tokens straight to the RAILGUN wallet, so a
+ * position is the wallet's shielded balance of that outcome token.
  */
 
+export type PositionSide = 'YES' | 'NO';
+
 export interface Position {
     marketId: `0x${string}`;
-    side: 'YES' | 'NO';
-    shares: bigint;
+    side: PositionSide;
     tokenAddress: `0x${string}`;
-    averagePrice: number;
-    totalCost: bigint;
+    shares: bigint;      // All shielded outcome tokens, including ones still waiting on POI
+    spendable: bigint;   // Shares that passed POI and can be sold privately
 }
 
 export interface PositionSummary {
     totalPositions: number;
-    totalValue: bigint;
+    totalShares: bigint;
     positions: Position[];
 }
 
+// Outcome token index per side: the indices private trades route by
+const SIDE_INDEX: Record<PositionSide, number> = { YES: 1, NO: 2 };
+
 /**
- * Hook to track private positions
- * In demo mode, positions are stored in localStorage
- * In production, they would be queried from shielded balances
+ * Hook to track private positions in one market
+ * Reads the outcome tokens from the factory and their shielded balances from the
+ * RAILGUN wallet. Call `refresh` after a trade; new shields show up in `shares`
+ * straight away and in `spendable` once POI passes.
  */
-export function usePrivatePositions() {
+export function usePrivatePositions(marketId?: `0x${string}`) {
     const { wallet: railgunWallet } = useRailgunWallet();
+    const publicClient = usePublicClient();
     const [positions, setPositions] = useState<Position[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
-    // Load positions from localStorage (demo mode)
-    useEffect(() => {
-        if (!railgunWallet) return;
-
-        const loadPositions = () => {
-            try {
-                const stored = localStorage.getItem(`positions_${railgunWallet.railgunAddress}`);
-                if (stored) {
-                    const parsed = JSON.parse(stored);
-                    // Convert string bigints back to BigInt
-                    const positions = parsed.map((p: any) => ({
-                        ...p,
-                        shares: BigInt(p.shares),
-                        totalCost: BigInt(p.totalCost),
-                    }));
-                    setPositions(positions);
-                }
-            } catch (error) {
-                console.error('Failed to load positions:', error);
-            }
-        };
-
-        loadPositions();
-    }, [railgunWallet]);
-
-    // Save positions to localStorage
-    const savePositions = useCallback((newPositions: Position[]) => {
-        if (!railgunWallet) return;
-
-        try {
-            // Convert BigInt to string for JSON serialization
-            const serializable = newPositions.map(p => ({
-                ...p,
-                shares: p.shares.toString(),
-                totalCost: p.totalCost.toString(),
-            }));
-            localStorage.setItem(`positions_${railgunWallet.railgunAddress}`, JSON.stringify(serializable));
-            setPositions(newPositions);
-        } catch (error) {
-            console.error('Failed to save positions:', error);
+    const refresh = useCallback(async () => {
+        if (!railgunWallet || !marketId || !publicClient) {
+            setPositions([]);
+            return;
         }
-    }, [railgunWallet]);
 
-    /**
-     * Add a new position or update existing one
-     */
-    const addPosition = useCallback((
-        marketId: `0x${string}`,
-        side: 'YES' | 'NO',
-        shares: bigint,
-        tokenAddress: `0x${string}`,
-        cost: bigint
-    ) => {
-        setPositions(current => {
-            // Find existing position for this market and side
-            const existingIndex = current.findIndex(
-                p => p.marketId === marketId && p.side === side
-            );
-
-            if (existingIndex >= 0) {
-                // Update existing position
-                const existing = current[existingIndex];
-                const newShares = existing.shares + shares;
-                const newTotalCost = existing.totalCost + cost;
-                const newAveragePrice = Number(newTotalCost) / Number(newShares);
-
-                const updated = [...current];
-                updated[existingIndex] = {
-                    ...existing,
-                    shares: newShares,
-                    totalCost: newTotalCost,
-                    averagePrice: newAveragePrice,
-                };
+        setIsLoading(true);
+        setError(null);
 
-                savePositions(updated);
-                return updated;
-            } else {
-                // Add new position
-                const newPosition: Position = {
+        try {
+            const market = await publicClient.readContract({
+                address: FACTORY_ADDRESS,
+                abi: PREDICTION_MARKET_FACTORY_ABI,
+                functionName: 'getMarket',
+                args: [marketId],
+            });
+
+            const sides = (Object.keys(SIDE_INDEX) as PositionSide[])
+                .filter(side => market.outcomeTokens[SIDE_INDEX[side]]);
+
+            const loaded = await Promise.all(sides.map(async (side): Promise<Position> => {
+                const tokenAddress = market.outcomeTokens[SIDE_INDEX[side]];
+                const balance = await getShieldedTokenBalance(railgunWallet.walletID, tokenAddress);
+                return {
                     marketId,
                     side,
-                    shares,
                     tokenAddress,
-                    totalCost: cost,
-                    averagePrice: Number(cost) / Number(shares),
+                    shares: balance.total,
+                    spendable: balance.spendable,
                 };
+            }));
 
-                const updated = [...current, newPosition];
-                savePositions(updated);
-                return updated;
-            }
-        });
-    }, [savePositions]);
-
-    /**
-     * Reduce a position (when selling)
-     */
-    const reducePosition = useCallback((
-        marketId: `0x${string}`,
-        side: 'YES' | 'NO',
-        shares: bigint
-    ) => {
-        setPositions(current => {
-            const existingIndex = current.findIndex(
-                p => p.marketId === marketId && p.side === side
-            );
-
-            if (existingIndex < 0) {
-                console.warn('Position not found for reduction');
-                return current;
-            }
-
-            const existing = current[existingIndex];
-            const newShares = existing.shares - shares;
-
-            if (newShares <= 0n) {
-                // Remove position entirely
-                const updated = current.filter((_, i) => i !== existingIndex);
-                savePositions(updated);
-                return updated;
-            } else {
-                // Reduce shares, keep average price the same
-                const updated = [...current];
-                updated[existingIndex] = {
-                    ...existing,
-                    shares: newShares,
-                    totalCost: BigInt(Math.floor(Number(newShares) * existing.averagePrice)),
-                };
+            setPositions(loaded.filter(p => p.shares > 0n));
+        } catch (err) {
+            console.error('Failed to load positions:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load positions');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [railgunWallet, marketId, publicClient]);
 
-                savePositions(updated);
-                return updated;
-            }
-        });
-    }, [savePositions]);
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
 
     /**
      * Get position for a specific market and side
      */
     const getPosition = useCallback((
-        marketId: `0x${string}`,
-        side: 'YES' | 'NO'
+        positionMarketId: `0x${string}`,
+        side: PositionSide
     ): Position | null => {
-        return positions.find(p => p.marketId === marketId && p.side === side) || null;
+        return positions.find(p => p.marketId === positionMarketId && p.side === side) || null;
     }, [positions]);
 
     /**
      * Get total position summary
      */
     const getSummary = useCallback((): PositionSummary => {
-        const totalValue = positions.reduce((sum, p) => sum + p.totalCost, 0n);
+        const totalShares = positions.reduce((sum, p) => sum + p.shares, 0n);
 
         return {
             totalPositions: positions.length,
-            totalValue,
+            totalShares,
             positions,
         };
     }, [positions]);
 
-    /**
-     * Clear all positions (for testing)
-     */
-    const clearPositions = useCallback(() => {
-        if (!railgunWallet) return;
-        localStorage.removeItem(`positions_${railgunWallet.railgunAddress}`);
-        setPositions([]);
-    }, [railgunWallet]);
-
     return {
         positions,
         isLoading,
-        addPosition,
-        reducePosition,
+        error,
+        refresh,
         getPosition,
         getSummary,
-        clearPositions,
     };
 }
@@ -6,7 +6,8 @@ import { parseUnits, erc20Abi, type Address, type Hex } from 'viem';
 import { useRailgunWallet } from './useRailgunWallet';
 import { useRailgunEngine } from './useRailgunEngine';
 import { TOKENS, EXPLORER_URL, RELAYER_ADDRESS } from '@/lib/wagmi';
-import type { GasAbstractionMethod, PermitData, TransferRecipientInput, TokenShieldResult } from '@/lib/railgun/types';
+import { waitForSpendableBalance, proveUnshield } from '@/lib/railgun/railgun-transactions';
+import type { GasAbstractionMethod, PermitData, TransferRecipientInput, TokenShieldResult, UnshieldBroadcastResponse } from '@/lib/railgun/types';
 
 // Token metadata for supported stablecoins
 // This should match the stablecoins API response
@@ -45,6 +46,27 @@ function getTokenDecimals(tokenAddress: string): number {
   return 18; // Default to 18 decimals
 }
 
+// RAILGUN shield fee (0.25%) - what reaches the private balance is this much less
+const SHIELD_FEE_BPS = BigInt(25);
+
+/**
+ * Map engine and relayer errors to messages a user can act on
+ */
+function friendlyError(error: unknown): string {
+  const message = error instanceof Error ? error.message : 'Transfer failed';
+
+  if (message.includes('spendable private balance too low')) {
+    return 'Balance sync failed. The RAILGUN network may be congested. Please try again in a few minutes.';
+  }
+  if (message.includes('Note already spent')) {
+    return 'Transaction conflict detected. Please wait a moment and try again.';
+  }
+  if (message.includes('POI verification timed out')) {
+    return 'Privacy verification timed out. The network may be slow. Please try again.';
+  }
+  return message;
+}
+
 /**
  * Private Transfer Hook with Full Gas Abstraction
  * 
@@ -55,8 +77,11 @@ function getTokenDecimals(tokenAddress: string): number {
  * 2. Relayer executes permits on-chain (paying gas)
  * 3. Shield each token separately (one TX per token) - relayer pays gas
  * 4. Wait for POI verification (~60s)
- * 5. Generate single ZK proof for all recipients
- * 6. Single unshield TX to all recipients - relayer pays gas
+ * 5. Generate one ZK proof per recipient, in this browser
+ * 6. Relayer broadcasts each proved unshield - relayer pays gas
+ *
+ * The mnemonic and encryption key never leave the browser; the server only
+ * receives the 0zk address and already-proved transactions.
  * 
  * From the user's perspective: Sign N permits (one per token), transfer happens privately.
  * User pays ZERO gas - relayer sponsors everything.
@@ -182,7 +207,7 @@ export function usePrivateTransfer() {
   const { address: senderAddress } = useAccount();
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
-  const { wallet, mnemonic, password } = useRailgunWallet();
+  const { wallet } = useRailgunWallet();
   const { status: engineStatus, initialize: initEngine } = useRailgunEngine();
 
   const [state, setState] = useState<PrivateTransferState>({
@@ -479,28 +504,15 @@ export function usePrivateTransfer() {
       updateProgress('shielding', 30, `Shielding ${tokenAddresses.length} token(s)...`, recipientInfo, tokenInfo);
 
       // ════════════════════════════════════════════════════════════════
-      // STEP 4: Call API with SSE streaming for real-time progress
+      // STEP 4: Relayer shields each token into our 0zk address (SSE)
+      // No keys are sent - the server only needs the RAILGUN address
       // ════════════════════════════════════════════════════════════════
-      
-      // Validate mnemonic is available (required for serverless wallet recreation)
-      if (!mnemonic) {
-        throw new Error('Mnemonic not available. Please recreate your wallet.');
-      }
-      
-      if (!password) {
-        throw new Error('Password not available. Please recreate your wallet.');
-      }
-      
       const response = await fetch('/api/railgun/transfer', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          senderWalletID: wallet.walletID,
-          senderEncryptionKey: wallet.encryptionKey,
           senderRailgunAddress: wallet.railgunAddress,
           userAddress: senderAddress,
-          mnemonic,
-          password,
           recipients: apiRecipients,
           permits,
           gasAbstraction,
@@ -513,9 +525,18 @@ export function usePrivateTransfer() {
         throw new Error(errorData.error || 'Transfer failed');
       }
 
+      let shieldData: {
+        success: boolean;
+        shieldResults?: TokenShieldResult[];
+        senderRailgunAddress?: string;
+        shieldTxHash?: string;
+        jobId?: string; // Relayer job the unshields are recorded against
+        error?: string;
+      } | null = null;
+
       // Check if we got a streaming response
       const contentType = response.headers.get('content-type');
-      
+
       if (contentType?.includes('text/event-stream') && response.body) {
         // ═══════════════════════════════════════════════════════════
         // SSE Streaming: Parse real-time progress updates
@@ -523,21 +544,6 @@ export function usePrivateTransfer() {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
-        let finalData: {
-          success: boolean;
-          shieldResults?: TokenShieldResult[];
-          unshieldTxHash?: string;
-          recipientResults?: Array<{
-            address: string;
-            amount: string;
-            status: string;
-            unshieldTxHash?: string;
-            error?: string;
-          }>;
-          senderRailgunAddress?: string;
-          shieldTxHash?: string;
-          error?: string;
-        } | null = null;
 
         while (true) {
           const { done, value } = await reader.read();
@@ -576,137 +582,162 @@ export function usePrivateTransfer() {
                   },
                 }));
               } else if (eventData.type === 'complete') {
-                finalData = eventData.data;
+                shieldData = eventData.data;
               } else if (eventData.type === 'error') {
-                finalData = eventData.data;
+                shieldData = eventData.data;
               }
             } catch (parseError) {
               console.warn('[PrivateTransfer] Failed to parse SSE event:', line);
             }
           }
         }
+      } else {
+        // Fallback: Non-streaming JSON response (legacy)
+        shieldData = await response.json();
+      }
 
-        if (!finalData) {
-          throw new Error('Transfer failed: no final response received');
-        }
+      if (!shieldData) {
+        throw new Error('Transfer failed: no final response received');
+      }
 
-        if (!finalData.success) {
-          throw new Error(finalData.error || 'Transfer failed');
-        }
+      if (!shieldData.success) {
+        throw new Error(shieldData.error || 'Transfer failed');
+      }
 
-        // Build completed recipients list with per-recipient results
-        const completedRecipients: TransferRecipient[] = recipients.map((r, idx) => {
-          const recipientResult = finalData!.recipientResults?.[idx];
-          const tokenAddr = normalizedRecipients[idx]?.tokenAddress || defaultTokenAddress;
-          const shieldResult = finalData!.shieldResults?.find((s: TokenShieldResult) => s.tokenAddress === tokenAddr);
-          
-          return {
-            ...r,
-            shieldTxHash: shieldResult?.shieldTxHash || finalData!.shieldTxHash,
-            unshieldTxHash: recipientResult?.unshieldTxHash || finalData!.unshieldTxHash,
-            status: (recipientResult?.status as 'pending' | 'processing' | 'complete' | 'error') || 'complete',
-            error: recipientResult?.error,
-          };
-        });
+      const shieldResults = shieldData.shieldResults;
+      const jobId = shieldData.jobId;
 
-        updateProgress('complete', 100, `Transfer complete! ${recipients.length} recipient${recipients.length > 1 ? 's' : ''}`, recipientInfo, tokenInfo, finalData.shieldResults);
-
-        const result: TransferResult = {
-          success: true,
-          shieldTxHash: finalData.shieldTxHash,
-          unshieldTxHash: finalData.unshieldTxHash,
-          recipients: completedRecipients,
-          shieldResults: finalData.shieldResults,
-          senderInfo: {
-            publicAddress: senderAddress,
-            railgunAddress: finalData.senderRailgunAddress || wallet.railgunAddress,
-          },
-          recipientInfo: {
-            publicAddress: recipients[0].address,
-          },
-          privacyProof: {
-            shieldTxLink: `${EXPLORER_URL}/tx/${finalData.shieldTxHash}`,
-            unshieldTxLink: `${EXPLORER_URL}/tx/${finalData.unshieldTxHash}`,
-            explanation: tokenAddresses.length > 1
-              ? `Multi-token batch transfer to ${recipients.length} recipients completed privately.`
-              : recipients.length > 1
-              ? `Batch transfer to ${recipients.length} recipients completed privately.`
-              : `Private transfer completed.`,
-          },
-        };
+      // ════════════════════════════════════════════════════════════════
+      // STEP 5 & 6: Prove each unshield here and have the relayer broadcast it
+      // A RAILGUN transaction carries one unshield, so each recipient gets its
+      // own proof. Waiting for the remaining balance before every proof covers
+      // both POI on the shielded notes and the change notes of the last unshield.
+      // ════════════════════════════════════════════════════════════════
+      let lastUnshieldTxHash: string | undefined;
+
+      for (let i = 0; i < normalizedRecipients.length; i++) {
+        const recipient = normalizedRecipients[i];
+        const amount = BigInt(apiRecipients[i].amount);
+        const unshieldAmount = amount - (amount * SHIELD_FEE_BPS) / BigInt(10000);
+        const base = 40 + Math.floor((i / recipients.length) * 55);
+        const step = Math.floor(55 / recipients.length);
+
+        recipientInfo.currentIndex = i;
+        trackedRecipients[i].status = 'processing';
+
+        // Everything still owed in this token, less the shield fee
+        const remaining = apiRecipients
+          .slice(i)
+          .filter(r => r.tokenAddress.toLowerCase() === recipient.tokenAddress.toLowerCase())
+          .reduce((sum, r) => sum + BigInt(r.amount), BigInt(0));
+
+        await waitForSpendableBalance(
+          wallet.walletID,
+          recipient.tokenAddress,
+          (remaining * BigInt(99)) / BigInt(100),
+          (elapsed) => updateProgress(
+            'waiting_poi',
+            base,
+            `Syncing private balance... (${Math.floor(elapsed / 1000)}s)`,
+            recipientInfo,
+            undefined,
+            shieldResults
+          )
+        );
+
+        const transaction = await proveUnshield(
+          wallet.walletID,
+          wallet.encryptionKey,
+          [{ tokenAddress: recipient.tokenAddress, amount: unshieldAmount, recipientAddress: recipient.address }],
+          (p) => updateProgress(
+            'generating_proof',
+            base + Math.floor(step * 0.7 * (p / 100)),
+            `ZK proof ${i + 1}/${recipients.length}... ${Math.floor(p)}%`,
+            recipientInfo,
+            undefined,
+            shieldResults
+          )
+        );
+
+        updateProgress(
+          'unshielding',
+          base + Math.floor(step * 0.8),
+          `Unshielding to recipient ${i + 1}/${recipients.length}...`,
+          recipientInfo,
+          undefined,
+          shieldResults
+        );
+
+        const unshieldResponse = await fetch('/api/railgun/transfer/unshield', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ transaction, jobId, recipientIndex: i }),
+        });
+        const unshieldData: UnshieldBroadcastResponse = await unshieldResponse.json();
 
-        setState(prev => ({ ...prev, isTransferring: false, result }));
-        return result;
+        if (!unshieldData.success || !unshieldData.unshieldTxHash) {
+          throw new Error(unshieldData.error || `Unshield to recipient ${i + 1} failed`);
+        }
 
-      } else {
-        // ═══════════════════════════════════════════════════════════
-        // Fallback: Non-streaming JSON response (legacy)
-        // ═══════════════════════════════════════════════════════════
-        updateProgress('shielding', 35, 'Shielding tokens...', recipientInfo, tokenInfo);
-        await new Promise(r => setTimeout(r, 3000));
-        updateProgress('waiting_poi', 45, 'Waiting for POI verification (~60 seconds)...', recipientInfo, tokenInfo);
+        console.log(`[PrivateTransfer] Unshield TX for recipient ${i + 1}:`, unshieldData.unshieldTxHash);
 
-        const data = await response.json();
+        lastUnshieldTxHash = unshieldData.unshieldTxHash;
+        trackedRecipients[i].status = 'complete';
+        trackedRecipients[i].unshieldTxHash = unshieldData.unshieldTxHash;
+      }
 
-        if (!data.success) {
-          throw new Error(data.error || 'Transfer failed');
-        }
+      // Build completed recipients list with per-recipient results
+      const completedRecipients: TransferRecipient[] = recipients.map((r, idx) => {
+        const tokenAddr = normalizedRecipients[idx]?.tokenAddress || defaultTokenAddress;
+        const shieldResult = shieldResults?.find((s: TokenShieldResult) => s.tokenAddress === tokenAddr);
 
-        updateProgress('complete', 100, `Transfer complete! ${recipients.length} recipient${recipients.length > 1 ? 's' : ''}`, recipientInfo, tokenInfo, data.shieldResults);
+        return {
+          ...r,
+          shieldTxHash: shieldResult?.shieldTxHash || shieldData!.shieldTxHash,
+          unshieldTxHash: trackedRecipients[idx].unshieldTxHash,
+          status: 'complete',
+        };
+      });
 
-        // Build completed recipients list with per-recipient results
-        const completedRecipients: TransferRecipient[] = recipients.map((r, idx) => {
-          const recipientResult = data.recipientResults?.[idx];
-          const tokenAddr = normalizedRecipients[idx]?.tokenAddress || defaultTokenAddress;
-          const shieldResult = data.shieldResults?.find((s: TokenShieldResult) => s.tokenAddress === tokenAddr);
-          
-          return {
-            ...r,
-            shieldTxHash: shieldResult?.shieldTxHash || data.shieldTxHash,
-            unshieldTxHash: recipientResult?.unshieldTxHash || data.unshieldTxHash,
-            status: recipientResult?.status || 'complete',
-            error: recipientResult?.error,
-          };
-        });
+      updateProgress('complete', 100, `Transfer complete! ${recipients.length} recipient${recipients.length > 1 ? 's' : ''}`, recipientInfo, tokenInfo, shieldResults);
 
-        const result: TransferResult = {
-          success: true,
-          shieldTxHash: data.shieldTxHash,
-          unshieldTxHash: data.unshieldTxHash,
-          recipients: completedRecipients,
-          shieldResults: data.shieldResults,
-          senderInfo: {
-            publicAddress: senderAddress,
-            railgunAddress: data.senderRailgunAddress || wallet.railgunAddress,
-          },
-          recipientInfo: {
-            publicAddress: recipients[0].address,
-          },
-          privacyProof: {
-            shieldTxLink: `${EXPLORER_URL}/tx/${data.shieldTxHash}`,
-            unshieldTxLink: `${EXPLORER_URL}/tx/${data.unshieldTxHash}`,
-            explanation: tokenAddresses.length > 1
-              ? `Multi-token batch transfer to ${recipients.length} recipients completed privately.`
-              : recipients.length > 1
-              ? `Batch transfer to ${recipients.length} recipients completed privately.`
-              : `Private transfer completed.`,
-          },
-        };
+      const result: TransferResult = {
+        success: true,
+        shieldTxHash: shieldData.shieldTxHash,
+        unshieldTxHash: lastUnshieldTxHash,
+        recipients: completedRecipients,
+        shieldResults,
+        senderInfo: {
+          publicAddress: senderAddress,
+          railgunAddress: shieldData.senderRailgunAddress || wallet.railgunAddress,
+        },
+        recipientInfo: {
+          publicAddress: recipients[0].address,
+        },
+        privacyProof: {
+          shieldTxLink: `${EXPLORER_URL}/tx/${shieldData.shieldTxHash}`,
+          unshieldTxLink: `${EXPLORER_URL}/tx/${lastUnshieldTxHash}`,
+          explanation: tokenAddresses.length > 1
+            ? `Multi-token batch transfer to ${recipients.length} recipients completed privately.`
+            : recipients.length > 1
+            ? `Batch transfer to ${recipients.length} recipients completed privately.`
+            : `Private transfer completed.`,
+        },
+      };
 
-        setState(prev => ({ ...prev, isTransferring: false, result }));
-        return result;
-      }
+      setState(prev => ({ ...prev, isTransferring: false, result }));
+      return result;
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Transfer failed';
+      const errorMessage = friendlyError(error);
       updateProgress('error', 0, errorMessage);
       
-      // Build failed recipients list
-      const failedRecipients: TransferRecipient[] = recipients.map(r => ({
-        ...r,
-        status: 'error' as const,
-        error: errorMessage,
-      }));
+      // Build failed recipients list, keeping the ones already paid
+      const failedRecipients: TransferRecipient[] = recipients.map((r, idx) => (
+        trackedRecipients[idx]?.status === 'complete'
+          ? { ...r, status: 'complete' as const, unshieldTxHash: trackedRecipients[idx].unshieldTxHash }
+          : { ...r, status: 'error' as const, error: errorMessage }
+      ));
 
       const result: TransferResult = {
         success: false,
@@ -1,14 +1,31 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { Mnemonic, randomBytes } from 'ethers';
-import { useRailgunEngine } from './useRailgunEngine';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { ensureRailgunEngine } from '@/lib/railgun/railgun-engine';
+import {
+  createRailgunWalletFromMnemonic,
+  generateMnemonic as generateBip39Mnemonic,
+  validateMnemonic,
+} from '@/lib/railgun/railgun-wallet';
+import {
+  vaultMessage,
+  deriveVaultKeys,
+  hasVault,
+  sealWallet,
+  openWallet,
+  readLegacyWallet,
+  clearLegacyWallet,
+  type VaultKeys,
+} from '@/lib/railgun/wallet-vault';
 
 /**
  * RAILGUN Wallet Context
- * 
+ *
  * Manages RAILGUN wallet creation and state.
- * Creates wallets server-side via API routes.
+ * Wallets live in the browser engine, which also generates every proof, so the
+ * mnemonic never leaves this device. It is stored encrypted under a key derived
+ * from the connected account's signature (see lib/railgun/wallet-vault).
  */
 
 export interface RailgunWalletInfo {
@@ -22,113 +39,137 @@ export type WalletStatus = 'none' | 'creating' | 'ready' | 'error';
 interface RailgunWalletState {
   status: WalletStatus;
   wallet: RailgunWalletInfo | null;
-  mnemonic: string | null;
-  password: string | null;
   error: string | null;
 }
 
 interface RailgunWalletContextType extends RailgunWalletState {
+  hasStoredWallet: boolean;
   generateMnemonic: () => string;
-  createWallet: (mnemonic: string, password: string) => Promise<RailgunWalletInfo>;
+  createWallet: (mnemonic: string) => Promise<RailgunWalletInfo>;
+  unlockWallet: () => Promise<RailgunWalletInfo>;
   clearWallet: () => void;
-  setMnemonic: (mnemonic: string) => void;
 }
 
 const RailgunWalletContext = createContext<RailgunWalletContextType | null>(null);
 
 export function RailgunWalletProvider({ children }: { children: ReactNode }): React.JSX.Element {
-  const { status: engineStatus, initialize: initEngine } = useRailgunEngine();
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
 
   const [state, setState] = useState<RailgunWalletState>({
     status: 'none',
     wallet: null,
-    mnemonic: null,
-    password: null,
     error: null,
   });
+  const [hasStoredWallet, setHasStoredWallet] = useState(false);
 
-  const generateMnemonic = useCallback((): string => {
-    // Generate 12-word mnemonic from 16 bytes of entropy
-    const entropy = randomBytes(16);
-    const mnemonic = Mnemonic.fromEntropy(entropy);
-    return mnemonic.phrase;
+  // The unlocked wallet belongs to one account: lock it when the account changes
+  useEffect(() => {
+    setState({ status: 'none', wallet: null, error: null });
+    setHasStoredWallet(!!address && (hasVault(address) || readLegacyWallet(address) !== null));
+  }, [address]);
+
+  const generateMnemonic = useCallback((): string => generateBip39Mnemonic(), []);
+
+  const requestVaultKeys = useCallback(async (owner: string): Promise<VaultKeys> => {
+    const signature = await signMessageAsync({ message: vaultMessage(owner) });
+    return deriveVaultKeys(signature);
+  }, [signMessageAsync]);
+
+  const loadWallet = useCallback(async (
+    owner: string,
+    mnemonic: string,
+    keys: VaultKeys
+  ): Promise<RailgunWalletInfo> => {
+    await ensureRailgunEngine(owner);
+
+    const walletData = await createRailgunWalletFromMnemonic(mnemonic, 0, keys.encryptionKey);
+    const wallet: RailgunWalletInfo = {
+      walletID: walletData.railgunWalletID,
+      railgunAddress: walletData.railgunAddress,
+      encryptionKey: walletData.encryptionKey,
+    };
+
+    setState({ status: 'ready', wallet, error: null });
+
+    console.log('[RAILGUN Wallet] Loaded successfully');
+    console.log('[RAILGUN Wallet] Address:', wallet.railgunAddress.slice(0, 30) + '...');
+
+    return wallet;
   }, []);
 
-  const setMnemonic = useCallback((mnemonic: string) => {
-    setState(prev => ({ ...prev, mnemonic }));
+  const fail = useCallback((error: unknown, fallback: string) => {
+    const errorMessage = error instanceof Error ? error.message : fallback;
+    setState(prev => ({
+      ...prev,
+      status: 'error',
+      error: errorMessage,
+    }));
   }, []);
 
-  const createWallet = useCallback(async (mnemonic: string, password: string): Promise<RailgunWalletInfo> => {
+  const createWallet = useCallback(async (mnemonic: string): Promise<RailgunWalletInfo> => {
     setState(prev => ({ ...prev, status: 'creating', error: null }));
 
     try {
-      // Validate mnemonic
-      const wordCount = mnemonic.trim().split(/\s+/).length;
-      if (wordCount !== 12 && wordCount !== 24) {
-        throw new Error(`Invalid mnemonic: expected 12 or 24 words, got ${wordCount}`);
+      if (!address) {
+        throw new Error('Connect a wallet first');
       }
 
-      // Ensure engine is initialized
-      if (engineStatus !== 'ready') {
-        console.log('[RAILGUN Wallet] Initializing engine first...');
-        await initEngine();
-      }
+      // Reject bad phrases before asking for a signature
+      const walletMnemonic = validateMnemonic(mnemonic);
 
-      // Create wallet via API
-      console.log('[RAILGUN Wallet] Creating wallet via API...');
+      console.log('[RAILGUN Wallet] Creating wallet in the browser engine...');
 
-      const response = await fetch('/api/railgun/wallet', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ mnemonic, password }),
-      });
+      const keys = await requestVaultKeys(address);
+      const wallet = await loadWallet(address, walletMnemonic, keys);
 
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.error || 'Failed to create wallet');
-      }
+      await sealWallet(address, walletMnemonic, keys);
+      clearLegacyWallet(address);
+      setHasStoredWallet(true);
 
-      // Use the server-derived encryption key
-      if (!data.encryptionKey) {
-        throw new Error('Server did not return encryption key');
-      }
+      return wallet;
+    } catch (error) {
+      fail(error, 'Failed to create wallet');
+      throw error;
+    }
+  }, [address, requestVaultKeys, loadWallet, fail]);
 
-      const wallet: RailgunWalletInfo = {
-        walletID: data.walletID,
-        railgunAddress: data.railgunAddress,
-        encryptionKey: data.encryptionKey,
-      };
+  const unlockWallet = useCallback(async (): Promise<RailgunWalletInfo> => {
+    setState(prev => ({ ...prev, status: 'creating', error: null }));
 
-      setState({
-        status: 'ready',
-        wallet,
-        mnemonic,
-        password,
-        error: null,
-      });
+    try {
+      if (!address) {
+        throw new Error('Connect a wallet first');
+      }
 
-      console.log('[RAILGUN Wallet] Created successfully');
-      console.log('[RAILGUN Wallet] Address:', wallet.railgunAddress.slice(0, 30) + '...');
+      const keys = await requestVaultKeys(address);
+
+      let mnemonic: string;
+      if (hasVault(address)) {
+        mnemonic = await openWallet(address, keys);
+      } else {
+        // Seal a plaintext wallet left by older versions, then drop the plaintext
+        const legacyMnemonic = readLegacyWallet(address);
+        if (!legacyMnemonic) {
+          throw new Error('No stored wallet for this account');
+        }
+        await sealWallet(address, legacyMnemonic, keys);
+        clearLegacyWallet(address);
+        mnemonic = legacyMnemonic;
+      }
 
-      return wallet;
+      console.log('[RAILGUN Wallet] Unlocking stored wallet...');
+      return await loadWallet(address, mnemonic, keys);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to create wallet';
-      setState(prev => ({
-        ...prev,
-        status: 'error',
-        error: errorMessage,
-      }));
+      fail(error, 'Failed to unlock wallet');
       throw error;
     }
-  }, [engineStatus, initEngine]);
+  }, [address, requestVaultKeys, loadWallet, fail]);
 
   const clearWallet = useCallback(() => {
     setState({
       status: 'none',
       wallet: null,
-      mnemonic: null,
-      password: null,
       error: null,
     });
   }, []);
@@ -137,10 +178,11 @@ export function RailgunWalletProvider({ children }: { children: ReactNode }): Re
     <RailgunWalletContext.Provider
       value={{
         ...state,
+        hasStoredWallet,
         generateMnemonic,
         createWallet,
+        unlockWallet,
         clearWallet,
-        setMnemonic,
       }}
     >
       {children}
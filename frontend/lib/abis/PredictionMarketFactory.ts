@@ -0,0 +1,42 @@
+// PredictionMarketFactory ABI (contracts/src/PredictionMarketFactory.sol)
+// Only the reads the private trading flows need
+
+export const PREDICTION_MARKET_FACTORY_ABI = [
+    {
+        inputs: [{ internalType: 'bytes32', name: 'marketId', type: 'bytes32' }],
+        name: 'getMarket',
+        outputs: [
+            {
+                components: [
+                    { internalType: 'bytes32', name: 'marketId', type: 'bytes32' },
+                    { internalType: 'string', name: 'question', type: 'string' },
+                    { internalType: 'string[]', name: 'outcomes', type: 'string[]' },
+                    { internalType: 'contract OutcomeToken[]', name: 'outcomeTokens', type: 'address[]' },
+                    {
+                        components: [
+                            { internalType: 'Currency', name: 'currency0', type: 'address' },
+                            { internalType: 'Currency', name: 'currency1', type: 'address' },
+                            { internalType: 'uint24', name: 'fee', type: 'uint24' },
+                            { internalType: 'int24', name: 'tickSpacing', type: 'int24' },
+                            { internalType: 'contract IHooks', name: 'hooks', type: 'address' },
+                        ],
+                        internalType: 'struct PoolKey[]',
+                        name: 'poolKeys',
+                        type: 'tuple[]',
+                    },
+                    { internalType: 'bytes32[]', name: 'poolIds', type: 'bytes32[]' },
+                    { internalType: 'contract IERC20', name: 'collateralToken', type: 'address' },
+                    { internalType: 'uint256', name: 'endTime', type: 'uint256' },
+                    { internalType: 'bool', name: 'isResolved', type: 'bool' },
+                    { internalType: 'uint256', name: 'winningOutcome', type: 'uint256' },
+                    { internalType: 'bytes32', name: 'umaQuestionId', type: 'bytes32' },
+                ],
+                internalType: 'struct PredictionMarketFactory.Market',
+                name: '',
+                type: 'tuple',
+            },
+        ],
+        stateMutability: 'view',
+        type: 'function',
+    },
+] as const;
@@ -0,0 +1,187 @@
+import { sepolia } from 'viem/chains';
+import { CLOB_FEED_URL, CLOB_SERVER_URL } from '@/lib/constants';
+import { connectMarketFeed, type MarketFeedConnection, type MarketFeedHandlers } from './feed';
+import { signRequest, type ClobSigner, type SignedRoute } from './signing';
+import { parse, schemas, type Validator } from './validate';
+import type {
+    BuyRequest,
+    BuyResult,
+    CloseSessionRequest,
+    CloseSessionResponse,
+    CreateMarketRequest,
+    CreateMarketResult,
+    FeedChannel,
+    HistoryRequest,
+    MarketHistory,
+    MarketList,
+    MarketPrices,
+    PositionsResponse,
+    Quote,
+    QuoteRequest,
+    ResolveRequest,
+    ResolveResult,
+    SellRequest,
+    SellResult,
+    SessionRequest,
+    SessionResponse,
+    TradeParams,
+} from './types';
+
+/**
+ * Typed client for the CLOB server HTTP API and market feed
+ * Responses are validated at runtime; mutating requests are EIP-712 signed by `signer`
+ */
+
+export interface ClobClientOptions {
+    /** Market used when a request doesn't name one */
+    marketId: string;
+    baseUrl?: string;
+    feedUrl?: string;
+    /** Needed for buys, sells, sessions and resolution */
+    signer?: ClobSigner;
+    chainId?: number;
+    /** Seconds a signed request stays valid */
+    requestTtl?: number;
+    fetch?: typeof fetch;
+}
+
+export interface ClobClient {
+    readonly marketId: string;
+    listMarkets(): Promise<MarketList>;
+    /** Admin only: opens a new market seeded at `initialPrices` */
+    createMarket(request: CreateMarketRequest): Promise<CreateMarketResult>;
+    getPrices(marketId?: string): Promise<MarketPrices>;
+    /** OHLC candles and closing-price curves, per outcome */
+    getHistory(request?: HistoryRequest): Promise<MarketHistory>;
+    quote(request: QuoteRequest): Promise<Quote>;
+    /** Buys YES, or NO (the complementary bundle) with `position: 'no'` */
+    buy(request: BuyRequest): Promise<BuyResult>;
+    sell(request: SellRequest): Promise<SellResult>;
+    getPositions(address: string, marketId?: string): Promise<PositionsResponse>;
+    registerSession(request: SessionRequest): Promise<SessionResponse>;
+    closeSession(request: CloseSessionRequest): Promise<CloseSessionResponse>;
+    /** Admin only: the signer must be a configured admin address */
+    resolve(request: ResolveRequest): Promise<ResolveResult>;
+    connectFeed(
+        handlers: MarketFeedHandlers,
+        options?: { marketId?: string; channels?: FeedChannel[] }
+    ): MarketFeedConnection;
+}
+
+/** The server answered with an error (or a non-2xx status) */
+export class ClobError extends Error {
+    constructor(message: string, readonly status: number, readonly body: unknown) {
+        super(message);
+        this.name = 'ClobError';
+    }
+}
+
+/** Trade body fields: the market goes in the URL and a NO in the route */
+function tradeBody(params: TradeParams): Record<string, unknown> {
+    const body: Record<string, unknown> = { ...params };
+    delete body.marketId;
+    delete body.position;
+    return body;
+}
+
+export function createClobClient({
+    marketId: defaultMarketId,
+    baseUrl = CLOB_SERVER_URL,
+    feedUrl = CLOB_FEED_URL,
+    signer,
+    chainId = sepolia.id,
+    requestTtl,
+    fetch: fetchImpl = (...args) => fetch(...args),
+}: ClobClientOptions): ClobClient {
+    const marketUrl = (marketId: string | undefined, route: string) =>
+        `${baseUrl}/api/market/${encodeURIComponent(marketId || defaultMarketId)}${route}`;
+    const marketsUrl = `${baseUrl}/api/markets`;
+
+    async function request<T>(url: string, validator: Validator<T>, init?: RequestInit): Promise<T> {
+        const response = await fetchImpl(url, init);
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data || data.error) {
+            throw new ClobError(data?.error || `CLOB request failed (${response.status})`, response.status, data);
+        }
+        return parse(validator, data);
+    }
+
+    function post<T>(url: string, body: Record<string, unknown>, validator: Validator<T>): Promise<T> {
+        return request(url, validator, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+    }
+
+    /** `marketId` null signs for the registry (market creation) */
+    async function signedPost<T>(
+        marketId: string | null | undefined,
+        route: SignedRoute,
+        body: Record<string, unknown>,
+        validator: Validator<T>
+    ): Promise<T> {
+        if (!signer) throw new Error(`A signer is required for ${route}`);
+        const signed = await signRequest(signer, {
+            chainId,
+            marketId: marketId === null ? null : marketId || defaultMarketId,
+            route,
+            body,
+            ttl: requestTtl,
+        });
+        const url = marketId === null ? marketsUrl : marketUrl(marketId, route);
+        return post(url, signed, validator);
+    }
+
+    return {
+        marketId: defaultMarketId,
+
+        listMarkets: () => request(marketsUrl, schemas.marketList),
+
+        createMarket: (params) => signedPost(null, '/markets', { ...params }, schemas.createMarketResult),
+
+        getPrices: (marketId) => request(marketUrl(marketId, '/prices'), schemas.marketPrices),
+
+        getHistory: ({ marketId, outcome, interval, limit } = {}) => {
+            const params = new URLSearchParams();
+            if (outcome !== undefined) params.set('outcome', String(outcome));
+            if (interval) params.set('interval', interval);
+            if (limit !== undefined) params.set('limit', String(limit));
+            return request(marketUrl(marketId, `/history?${params}`), schemas.marketHistory);
+        },
+
+        quote: (params) => post(
+            marketUrl(params.marketId, '/quote'),
+            { ...tradeBody(params), position: params.position },
+            schemas.quote
+        ),
+
+        buy: (params) => signedPost(
+            params.marketId,
+            params.position === 'no' ? '/buy/no' : '/buy',
+            tradeBody(params),
+            schemas.buyResult
+        ),
+
+        sell: (params) => signedPost(
+            params.marketId,
+            params.position === 'no' ? '/sell/no' : '/sell',
+            tradeBody(params),
+            schemas.sellResult
+        ),
+
+        getPositions: (address, marketId) =>
+            request(marketUrl(marketId, `/positions/${encodeURIComponent(address)}`), schemas.positions),
+
+        registerSession: (params) => signedPost(undefined, '/session', { ...params }, schemas.session),
+
+        closeSession: (params) => signedPost(undefined, '/session/close', { ...params }, schemas.closeSession),
+
+        resolve: ({ marketId, ...params }) => signedPost(marketId, '/resolve', params, schemas.resolve),
+
+        connectFeed: (handlers, options = {}) => connectMarketFeed(
+            { url: feedUrl, marketId: options.marketId || defaultMarketId, channels: options.channels },
+            handlers
+        ),
+    };
+}
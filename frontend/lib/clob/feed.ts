@@ -0,0 +1,79 @@
+import { parse, schemas } from './validate';
+import type { FeedChannel, FeedMessage } from './types';
+
+/**
+ * WebSocket market feed client (backend/clob-server/feed.js)
+ * Subscribes to one market, validates every message and reconnects with backoff
+ * until closed
+ */
+
+export interface MarketFeedHandlers {
+    onMessage: (message: FeedMessage) => void;
+    onConnectionChange?: (connected: boolean) => void;
+    /** Unparseable or invalid messages */
+    onError?: (error: Error) => void;
+}
+
+export interface MarketFeedOptions {
+    url: string;
+    marketId: string;
+    /** Defaults to every channel */
+    channels?: FeedChannel[];
+    reconnect?: boolean;
+}
+
+export interface MarketFeedConnection {
+    close: () => void;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+export function connectMarketFeed(
+    { url, marketId, channels, reconnect = true }: MarketFeedOptions,
+    { onMessage, onConnectionChange, onError }: MarketFeedHandlers
+): MarketFeedConnection {
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let retries = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+        socket = new WebSocket(url);
+
+        socket.onopen = () => {
+            retries = 0;
+            onConnectionChange?.(true);
+            socket?.send(JSON.stringify({ type: 'subscribe', marketId, channels }));
+        };
+
+        socket.onmessage = (event) => {
+            let message: FeedMessage;
+            try {
+                message = parse(schemas.feedMessage, JSON.parse(event.data), 'message');
+            } catch (error) {
+                onError?.(error instanceof Error ? error : new Error(String(error)));
+                return;
+            }
+            onMessage(message);
+        };
+
+        socket.onclose = () => {
+            onConnectionChange?.(false);
+            if (closed || !reconnect) return;
+            const delay = Math.min(1000 * 2 ** retries, MAX_RECONNECT_DELAY);
+            retries++;
+            reconnectTimer = setTimeout(connect, delay);
+        };
+    };
+
+    connect();
+
+    return {
+        close: () => {
+            closed = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            socket?.close();
+            socket = null;
+        },
+    };
+}
@@ -0,0 +1,18 @@
+export { createClobClient, ClobError } from './client';
+export type { ClobClient, ClobClientOptions } from './client';
+export { connectMarketFeed } from './feed';
+export type { MarketFeedConnection, MarketFeedHandlers, MarketFeedOptions } from './feed';
+export { createMockClobClient } from './mock';
+export type { MockClobClient, MockClobOptions } from './mock';
+export {
+    CLOB_AUTH_DOMAIN,
+    MARKET_REQUEST_TYPES,
+    SIGNER_FIELDS,
+    canonicalJson,
+    requestMessage,
+    signRequest,
+} from './signing';
+export type { ClobSigner, MarketRequestMessage, SignedRoute } from './signing';
+export { ClobValidationError, parse, schemas } from './validate';
+export type { Validator } from './validate';
+export type * from './types';
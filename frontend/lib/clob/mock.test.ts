@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createMockClobClient } from './mock';
+import { parse, schemas } from './validate';
+import type { CreateSessionMessage, FeedMessage } from './types';
+
+const USER = '0x0000000000000000000000000000000000000001';
+const CLOB = '0x0000000000000000000000000000000000000002';
+
+const createSession: CreateSessionMessage = {
+    req: [7, 'create_app_session', {
+        definition: { participants: [USER, CLOB] },
+        allocations: [
+            { participant: USER, asset: 'ytest.usd', amount: '50' },
+            { participant: CLOB, asset: 'ytest.usd', amount: '100' },
+        ],
+    }, 0],
+    sig: ['0x01'],
+};
+
+// The mock stands in for the real client, so what it returns must pass the
+// schemas the real client checks server responses against
+describe('mock client', () => {
+    it('answers every call in the shape the server does', async () => {
+        const clob = createMockClobClient({ outcomes: ['A', 'B', 'C'], address: USER });
+
+        parse(schemas.marketList, await clob.listMarkets());
+        parse(schemas.marketPrices, await clob.getPrices());
+        parse(schemas.marketHistory, await clob.getHistory({ outcome: 1 }));
+        parse(schemas.quote, await clob.quote({ side: 'buy', marketType: 'by_date', dayIndex: 1, amount: 10 }));
+        parse(schemas.buyResult, await clob.buy({ marketType: 'on_date', dayIndex: 0, amount: 10 }));
+        parse(schemas.sellResult, await clob.sell({ marketType: 'on_date', dayIndex: 0, shares: 5 }));
+        parse(schemas.positions, await clob.getPositions(USER));
+        parse(schemas.session, await clob.registerSession({ createSession }));
+        parse(schemas.closeSession, await clob.closeSession({ channelVersion: 1 }));
+        parse(schemas.createMarketResult, await clob.createMarket({ id: 'new-market', outcomes: ['X', 'Y'] }));
+        parse(schemas.resolve, await clob.resolve({ winningDay: 1 }));
+    });
+
+    it('opens sessions at the allocations the user signed', async () => {
+        const clob = createMockClobClient({ address: USER });
+        const { session } = await clob.registerSession({ createSession });
+
+        expect(session).toMatchObject({ userBalance: 50, clobBalance: 100, clobAddress: CLOB, status: 'open' });
+    });
+
+    it('books trades to positions and echoes them to feeds', async () => {
+        const clob = createMockClobClient({ outcomes: ['A', 'B'], prices: [0.25, 0.75], address: USER });
+        const messages: FeedMessage[] = [];
+        clob.connectFeed({ onMessage: message => messages.push(message) });
+
+        const bought = await clob.buy({ marketType: 'on_date', dayIndex: 0, amount: 10 });
+        const { positions } = await clob.getPositions(USER);
+
+        expect(bought.shares).toBe(40);
+        expect(positions).toMatchObject([{ outcome: 0, position: 'yes', shares: 40 }]);
+        expect(messages.map(m => m.type)).toContain('trades');
+        expect(clob.calls.map(c => c.method)).toEqual(['buy', 'getPositions']);
+    });
+
+    it('fails the next call on request', async () => {
+        const clob = createMockClobClient();
+        clob.failNext('getPrices', new Error('offline'));
+
+        await expect(clob.getPrices()).rejects.toThrow('offline');
+        await expect(clob.getPrices()).resolves.toMatchObject({ marketId: 'mock-market' });
+    });
+});
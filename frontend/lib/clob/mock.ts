@@ -0,0 +1,395 @@
+import type { ClobClient } from './client';
+import type { MarketFeedHandlers } from './feed';
+import type {
+    ChannelSession,
+    CreateMarketResult,
+    FeedMessage,
+    FeedTrade,
+    MarketHistory,
+    MarketPrices,
+    MarketSummary,
+    MarketType,
+    OutcomePrice,
+    Position,
+    PositionSide,
+    PositionsResponse,
+    Quote,
+    TradeParams,
+    TradeRoute,
+} from './types';
+
+/**
+ * In-memory ClobClient for component tests and storybook-style previews
+ * Trades fill at the current prices with no impact or fees, and are echoed to
+ * connected feeds. Every call is recorded in `calls`.
+ */
+
+export interface MockClobOptions {
+    marketId?: string;
+    outcomes?: string[];
+    /** YES price per outcome; defaults to uniform */
+    prices?: number[];
+    /** Address trades are booked to */
+    address?: string;
+}
+
+export interface MockClobClient extends ClobClient {
+    calls: { method: string; args: unknown[] }[];
+    /** Move prices and push them to connected feeds */
+    setPrices(prices: number[]): void;
+    /** Push any feed message to connected feeds */
+    emit(message: FeedMessage): void;
+    /** Make the next call to `method` reject with `error` */
+    failNext(method: keyof ClobClient, error: Error): void;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+function formatPrices(prices: number[], labels: string[], cumulative: boolean): OutcomePrice[] {
+    let total = 0;
+    return prices.map((p, i) => {
+        total += p;
+        const yesPrice = cumulative ? total : p;
+        return {
+            day: i + 1,
+            label: labels[i],
+            yesPrice: round(yesPrice),
+            noPrice: round(1 - yesPrice),
+            yesCents: Math.round(yesPrice * 1000) / 10,
+            noCents: Math.round((1 - yesPrice) * 1000) / 10,
+        };
+    });
+}
+
+function bundleIndices(marketType: MarketType, dayIndex: number, endIndex?: number): number[] {
+    if (marketType === 'on_date') return [dayIndex];
+    const from = marketType === 'by_date' ? 0 : dayIndex;
+    const to = marketType === 'by_date' ? dayIndex : endIndex ?? dayIndex;
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+export function createMockClobClient({
+    marketId = 'mock-market',
+    outcomes = ['Yes', 'No'],
+    prices: initialPrices,
+    address = '0x0000000000000000000000000000000000000001',
+}: MockClobOptions = {}): MockClobClient {
+    let prices = initialPrices ?? outcomes.map(() => 1 / outcomes.length);
+    let status: MarketPrices['status'] = 'open';
+    let session: ChannelSession | null = null;
+    let tradeId = 0;
+    const holdings = new Map<string, { shares: number; cost: number }>();
+    const feeds = new Set<MarketFeedHandlers>();
+    const failures = new Map<string, Error>();
+    const calls: MockClobClient['calls'] = [];
+    const created: MarketSummary[] = [];
+
+    const marketPrices = (): MarketPrices => ({
+        marketId,
+        onDate: formatPrices(prices, outcomes, false),
+        byDate: formatPrices(prices, outcomes, true),
+        b: 100,
+        marketMaker: 'lmsr',
+        totalVolume: 0,
+        status,
+    });
+
+    const emit = (message: FeedMessage) => feeds.forEach(feed => feed.onMessage(message));
+
+    async function call<T>(method: string, args: unknown[], run: () => T): Promise<T> {
+        calls.push({ method, args });
+        const failure = failures.get(method);
+        if (failure) {
+            failures.delete(method);
+            throw failure;
+        }
+        return run();
+    }
+
+    // A NO is booked against its outcome; YES bundles as their legs
+    function legs({ marketType, dayIndex, endIndex, position = 'yes' }: TradeParams) {
+        const indices = bundleIndices(marketType, dayIndex, endIndex);
+        const covered = position === 'no'
+            ? prices.map((_, i) => i).filter(i => !indices.includes(i))
+            : indices;
+        const price = covered.reduce((acc, i) => acc + prices[i], 0);
+        const keys = position === 'no' && marketType === 'on_date'
+            ? [`no:${dayIndex}`]
+            : covered.map(i => `yes:${i}`);
+        return { price, keys };
+    }
+
+    function route(shares: number, amount: number): TradeRoute {
+        const venue = { shares: round(shares), amount: round(amount), avgPrice: shares > 0 ? round(amount / shares) : null, fees: 0 };
+        const empty = { shares: 0, amount: 0, avgPrice: null, fees: 0 };
+        return { amm: venue, clob: empty, fees: 0, avgPrice: venue.avgPrice };
+    }
+
+    function trade(params: TradeParams, side: 'buy' | 'sell', shares: number, amount: number) {
+        const { keys } = legs(params);
+        for (const key of keys) {
+            const holding = holdings.get(key) ?? { shares: 0, cost: 0 };
+            const delta = side === 'buy' ? shares : -Math.min(shares, holding.shares);
+            const cost = side === 'buy' ? amount / keys.length : holding.shares > 0 ? holding.cost * delta / holding.shares : 0;
+            holdings.set(key, { shares: holding.shares + delta, cost: holding.cost + cost });
+        }
+
+        const feedTrade: FeedTrade = {
+            id: ++tradeId,
+            timestamp: Date.now(),
+            user: address,
+            venue: 'amm',
+            type: side,
+            marketType: params.marketType,
+            position: params.position ?? 'yes',
+            dayIndex: params.dayIndex,
+            amount: side === 'buy' ? round(amount) : -round(amount),
+            shares: round(shares),
+        };
+        emit({ type: 'trades', marketId, data: feedTrade, timestamp: feedTrade.timestamp });
+        return {
+            success: true as const,
+            fees: 0,
+            shares: round(shares),
+            avgPrice: shares > 0 ? round(amount / shares) : null,
+            priceImpact: 0,
+            route: route(shares, amount),
+            fills: [],
+            prices: marketPrices(),
+            stateUpdate: null,
+        };
+    }
+
+    function positions(): Position[] {
+        return [...holdings.entries()]
+            .filter(([, holding]) => holding.shares > 0)
+            .map(([key, holding]) => {
+                const [side, index] = key.split(':');
+                const outcome = Number(index);
+                const price = side === 'no' ? 1 - prices[outcome] : prices[outcome];
+                const value = holding.shares * price;
+                return {
+                    marketType: 'on_date' as const,
+                    day: outcome + 1,
+                    label: outcomes[outcome],
+                    outcome,
+                    position: side as PositionSide,
+                    shares: round(holding.shares),
+                    available: round(holding.shares),
+                    avgCost: round(holding.cost / holding.shares),
+                    costBasis: round(holding.cost),
+                    price: round(price),
+                    value: round(value),
+                    unrealizedPnl: round(value - holding.cost),
+                };
+            });
+    }
+
+    return {
+        marketId,
+        calls,
+
+        setPrices(next) {
+            prices = next;
+            emit({ type: 'prices', marketId, data: marketPrices(), timestamp: Date.now() });
+        },
+
+        emit,
+
+        failNext(method, error) {
+            failures.set(method, error);
+        },
+
+        listMarkets: (...args) => call('listMarkets', args, () => ({
+            defaultMarketId: marketId,
+            markets: [
+                {
+                    id: marketId,
+                    title: marketId,
+                    kind: 'categorical' as const,
+                    outcomes: outcomes.length,
+                    status,
+                    marketMaker: 'lmsr' as const,
+                    b: 100,
+                    totalVolume: 0,
+                    source: null,
+                },
+                ...created,
+            ],
+        })),
+
+        createMarket: (...args) => call('createMarket', args, (): CreateMarketResult => {
+            const [params] = args;
+            if (params.id === marketId || created.some(m => m.id === params.id)) {
+                throw new Error(`Market ${params.id} already exists`);
+            }
+            const kind = params.kind ?? 'date';
+            const opening = params.initialPrices ?? params.outcomes.map(() => 1 / params.outcomes.length);
+            const summary: MarketSummary = {
+                id: params.id,
+                title: params.title ?? params.id,
+                kind,
+                outcomes: params.outcomes.length,
+                status: 'open',
+                marketMaker: params.marketMaker ?? 'lmsr',
+                b: params.b ?? 100,
+                totalVolume: params.initialVolume ?? 1000,
+                source: params.source ?? null,
+            };
+            created.push(summary);
+            return {
+                success: true,
+                market: {
+                    id: summary.id,
+                    title: summary.title,
+                    kind,
+                    ordered: kind !== 'categorical',
+                    outcomes: params.outcomes.map((label, index) => ({ index, label })),
+                    events: params.events ?? [{ type: 'on_date', description: summary.title }],
+                    status: 'open',
+                    resolution: null,
+                    totalVolume: summary.totalVolume,
+                    createdAt: Date.now(),
+                    ...(params.source ? { source: params.source } : {}),
+                },
+                prices: {
+                    marketId: summary.id,
+                    onDate: formatPrices(opening, params.outcomes, false),
+                    byDate: kind !== 'categorical' ? formatPrices(opening, params.outcomes, true) : null,
+                    b: summary.b,
+                    marketMaker: summary.marketMaker,
+                    totalVolume: summary.totalVolume,
+                    status: 'open',
+                },
+            };
+        }),
+
+        getPrices: (...args) => call('getPrices', args, marketPrices),
+
+        // One flat candle per outcome at the current prices
+        getHistory: (...args) => call('getHistory', args, (): MarketHistory => {
+            const [{ outcome, interval = '1h' } = {}] = args;
+            const now = Date.now();
+            const indices = outcome === undefined ? outcomes.map((_, i) => i) : [outcome];
+            return {
+                marketId,
+                interval,
+                from: now,
+                to: now,
+                series: indices.map(index => {
+                    const price = round(prices[index]);
+                    return {
+                        outcome: index,
+                        label: outcomes[index],
+                        candles: [{ timestamp: now, open: price, high: price, low: price, close: price, volume: 0, trades: 0 }],
+                        curve: [{ timestamp: now, price }],
+                    };
+                }),
+            };
+        }),
+
+        quote: (...args) => call('quote', args, (): Quote => {
+            const [params] = args;
+            const { price } = legs(params);
+            const shares = params.side === 'buy' ? (params.amount ?? 0) / price : params.shares ?? 0;
+            const amount = shares * price;
+            return {
+                marketId,
+                position: params.position ?? 'yes',
+                side: params.side,
+                shares: round(shares),
+                ...(params.side === 'buy' ? { cost: round(amount) } : { revenue: round(amount) }),
+                fees: 0,
+                avgPrice: round(price),
+                priceBefore: round(price),
+                priceAfter: round(price),
+                priceImpact: 0,
+                route: route(shares, amount),
+            };
+        }),
+
+        buy: (...args) => call('buy', args, () => {
+            const [params] = args;
+            const { price } = legs(params);
+            return { ...trade(params, 'buy', params.amount / price, params.amount), cost: round(params.amount) };
+        }),
+
+        sell: (...args) => call('sell', args, () => {
+            const [params] = args;
+            const { price } = legs(params);
+            const revenue = params.shares * price;
+            return { ...trade(params, 'sell', params.shares, revenue), revenue: round(revenue) };
+        }),
+
+        getPositions: (...args) => call('getPositions', args, (): PositionsResponse => {
+            const list = positions();
+            const value = list.reduce((acc, p) => acc + p.value, 0);
+            const costBasis = list.reduce((acc, p) => acc + p.costBasis, 0);
+            return {
+                marketId,
+                address: args[0],
+                positions: list,
+                totalShareValue: round(value),
+                costBasis: round(costBasis),
+                pnl: { realized: 0, unrealized: round(value - costBasis), total: round(value - costBasis) },
+                deposited: round(costBasis),
+                withdrawn: 0,
+                fees: 0,
+                claimable: 0,
+                openOrders: [],
+                collateral: 0,
+                session,
+            };
+        }),
+
+        registerSession: (...args) => call('registerSession', args, () => {
+            const [params] = args;
+            const [requestId, , { definition, allocations }] = params.createSession.req;
+            const [user, clob] = definition.participants;
+            const allocated = (participant: string) => Number(
+                allocations.find(a => a.participant === participant)?.amount ?? 0,
+            );
+            session = {
+                sessionId: `0x${requestId.toString(16).padStart(64, '0')}`,
+                asset: 'ytest.usd',
+                userBalance: allocated(user),
+                clobBalance: allocated(clob),
+                version: 1,
+                clobAddress: clob,
+                status: 'open',
+                closedAt: null,
+            };
+            return { success: true as const, session };
+        }),
+
+        closeSession: (...args) => call('closeSession', args, () => {
+            if (!session) throw new Error('No open channel session');
+            session = { ...session, status: 'closed', closedAt: Date.now() };
+            return {
+                success: true as const,
+                session,
+                stateUpdate: { version: session.version, req: [], sig: [] },
+            };
+        }),
+
+        resolve: (...args) => call('resolve', args, () => {
+            const [params] = args;
+            const resolution = 'winningDay' in params ? params.winningDay : 'void' as const;
+            status = 'resolved';
+            emit({ type: 'resolution', marketId, data: { resolution, cancelledOrders: 0 }, timestamp: Date.now() });
+            return { success: true as const, resolution, cancelledOrders: 0, payouts: {} };
+        }),
+
+        connectFeed(handlers) {
+            feeds.add(handlers);
+            handlers.onConnectionChange?.(true);
+            handlers.onMessage({ type: 'snapshot', marketId, data: marketPrices(), timestamp: Date.now() });
+            return {
+                close: () => {
+                    feeds.delete(handlers);
+                    handlers.onConnectionChange?.(false);
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,49 @@
+import { createRequire } from 'module';
+import { describe, expect, it } from 'vitest';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { requestMessage, signRequest, type SignedRoute } from './signing';
+
+// The server's verifier: requests signed here must authenticate there
+const require = createRequire(import.meta.url);
+const auth = require('../../../backend/clob-server/auth.js');
+
+const CHAIN_ID = 11155111;
+const account = privateKeyToAccount(generatePrivateKey());
+const { authenticate } = auth.createAuthenticator({ admins: [account.address], chainId: CHAIN_ID });
+
+const cases: [string | null, SignedRoute, Record<string, unknown>][] = [
+    ['iran-war', '/buy', { marketType: 'between', dayIndex: 1, endIndex: 3, amount: 12.5, minShares: 10 }],
+    ['iran-war', '/sell/no', { marketType: 'on_date', dayIndex: 0, shares: 4 }],
+    ['iran-war', '/order/limit', { dayIndex: 2, side: 'sell', price: 0.41, shares: 3 }],
+    ['iran-war', '/session', { createSession: { req: [1, 'create_app_session', { allocations: [] }, 0], sig: ['0x01'] } }],
+    [null, '/markets', { id: 'new-market', outcomes: ['A', 'B'], initialPrices: [0.3, 0.7] }],
+];
+
+describe('signed requests', () => {
+    it.each(cases)('%s %s builds the same MarketRequest as the server', async (marketId, route, body) => {
+        const signed = await signRequest(account, { chainId: CHAIN_ID, marketId, route, body });
+        expect(requestMessage(marketId, route, signed)).toEqual(auth.requestMessage(marketId, route, signed));
+    });
+
+    it.each(cases)('%s %s authenticates on the server', async (marketId, route, body) => {
+        const signed = await signRequest(account, { chainId: CHAIN_ID, marketId, route, body });
+        // Bodies travel as JSON
+        const received = JSON.parse(JSON.stringify(signed));
+
+        await expect(authenticate(marketId, route, received, {})).resolves.toEqual({ address: account.address });
+    });
+
+    it('is rejected if the body changes after signing', async () => {
+        const signed = await signRequest(account, { chainId: CHAIN_ID, marketId: 'iran-war', route: '/buy', body: cases[0][2] });
+
+        await expect(authenticate('iran-war', '/buy', { ...signed, amount: 1000 }, {}))
+            .resolves.toEqual({ error: 'Invalid signature', status: 401 });
+    });
+
+    it('is rejected on another chain', async () => {
+        const signed = await signRequest(account, { chainId: 1, marketId: 'iran-war', route: '/claim', body: {} });
+
+        await expect(authenticate('iran-war', '/claim', signed, {}))
+            .resolves.toEqual({ error: 'Invalid signature', status: 401 });
+    });
+});
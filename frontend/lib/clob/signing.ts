@@ -0,0 +1,151 @@
+import type { Hex } from 'viem';
+import type { Address } from './types';
+
+/**
+ * EIP-712 signed CLOB requests, matching backend/clob-server/auth.js
+ * Every mutating request carries the acting address, a single-use nonce, an expiry
+ * (unix seconds) and a signature over a MarketRequest; `params` is the canonical
+ * JSON of every other body field, so the body must be sent exactly as signed.
+ */
+
+export const CLOB_AUTH_DOMAIN = { name: 'Xiphias Markets', version: '1' } as const;
+
+export const MARKET_REQUEST_TYPES = {
+    MarketRequest: [
+        { name: 'user', type: 'address' },
+        { name: 'marketId', type: 'string' },
+        { name: 'action', type: 'string' },
+        { name: 'side', type: 'string' },
+        { name: 'amount', type: 'string' },
+        { name: 'params', type: 'string' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'expiry', type: 'uint256' },
+    ],
+} as const;
+
+/** Routes that need a signature, and the body field naming who signs */
+export const SIGNER_FIELDS = {
+    '/buy': 'user',
+    '/sell': 'user',
+    '/buy/no': 'user',
+    '/sell/no': 'user',
+    '/order/limit': 'user',
+    '/order/market': 'user',
+    '/order/cancel': 'user',
+    '/session': 'user',
+    '/session/close': 'user',
+    '/claim': 'user',
+    '/lp/deposit': 'provider',
+    '/lp/withdraw': 'provider',
+    '/resolve': 'admin',
+    '/markets': 'admin',
+    '/risk': 'admin',
+} as const;
+
+export type SignedRoute = keyof typeof SIGNER_FIELDS;
+
+/** Server-side cap on how far ahead a request may expire */
+export const MAX_REQUEST_TTL = 3600;
+
+const AUTH_FIELDS = ['user', 'provider', 'admin', 'nonce', 'expiry', 'signature'];
+
+export interface MarketRequestMessage {
+    user: Address;
+    marketId: string;
+    action: string;
+    side: string;
+    amount: string;
+    params: string;
+    nonce: bigint;
+    expiry: bigint;
+}
+
+/** Anything that signs EIP-712 typed data as `address`: a viem account, or a wrapped wagmi signer */
+export interface ClobSigner {
+    address: Address;
+    signTypedData: (typedData: {
+        domain: typeof CLOB_AUTH_DOMAIN & { chainId: number };
+        types: typeof MARKET_REQUEST_TYPES;
+        primaryType: 'MarketRequest';
+        message: MarketRequestMessage;
+    }) => Promise<Hex>;
+}
+
+/** JSON with object keys sorted, so client and server agree byte for byte */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = value as Record<string, unknown>;
+        const keys = Object.keys(entries).filter(k => entries[k] !== undefined).sort();
+        return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(entries[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function requestSide(route: SignedRoute, body: Record<string, unknown>): string {
+    if (/^\/(buy|sell)(\/no)?$/.test(route)) return route.slice(1).replace('/', ' ');
+    return typeof body.side === 'string' ? body.side : '';
+}
+
+function requestAmount(body: Record<string, unknown>): string {
+    const amount = body.amount !== undefined ? body.amount : body.shares;
+    return amount === undefined ? '' : String(amount);
+}
+
+/** The MarketRequest a body is signed as. `marketId` is null for market creation. */
+export function requestMessage(
+    marketId: string | null,
+    route: SignedRoute,
+    body: Record<string, unknown>
+): MarketRequestMessage {
+    const params: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(body)) {
+        if (!AUTH_FIELDS.includes(key)) params[key] = value;
+    }
+
+    return {
+        user: body[SIGNER_FIELDS[route]] as Address,
+        marketId: marketId || '',
+        action: route,
+        side: requestSide(route, body),
+        amount: requestAmount(body),
+        params: canonicalJson(params),
+        nonce: BigInt(body.nonce as string),
+        expiry: BigInt(body.expiry as string),
+    };
+}
+
+/** Nonces only need to be unique per address: time-ordered with random low digits */
+export function createNonce(): string {
+    return (BigInt(Date.now()) * BigInt(1_000_000) + BigInt(Math.floor(Math.random() * 1_000_000))).toString();
+}
+
+interface SignRequestOptions {
+    chainId: number;
+    marketId: string | null;
+    route: SignedRoute;
+    body: Record<string, unknown>;
+    /** Seconds until the request expires */
+    ttl?: number;
+}
+
+/** The body to send: `body` plus the signer address, nonce, expiry and signature */
+export async function signRequest(
+    signer: ClobSigner,
+    { chainId, marketId, route, body, ttl = 300 }: SignRequestOptions
+): Promise<Record<string, unknown>> {
+    const signed: Record<string, unknown> = {
+        ...body,
+        [SIGNER_FIELDS[route]]: signer.address,
+        nonce: createNonce(),
+        expiry: Math.floor(Date.now() / 1000) + Math.min(ttl, MAX_REQUEST_TTL),
+    };
+
+    signed.signature = await signer.signTypedData({
+        domain: { ...CLOB_AUTH_DOMAIN, chainId },
+        types: MARKET_REQUEST_TYPES,
+        primaryType: 'MarketRequest',
+        message: requestMessage(marketId, route, signed),
+    });
+    return signed;
+}
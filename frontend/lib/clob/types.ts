@@ -0,0 +1,425 @@
+// Request and response types for the CLOB server API (backend/clob-server)
+
+export type Address = `0x${string}`;
+
+/** Question shape over a market's atomic outcomes */
+export type MarketType = 'on_date' | 'by_date' | 'between';
+export type TradeSide = 'buy' | 'sell';
+/** NO on a question is the complementary bundle of outcomes */
+export type PositionSide = 'yes' | 'no';
+export type MarketMakerType = 'lmsr' | 'ls-lmsr' | 'cpmm';
+export type MarketStatus = 'open' | 'resolved';
+
+// ==================== PRICES ====================
+
+export interface OutcomePrice {
+    day: number;
+    label: string;
+    yesPrice: number;
+    noPrice: number;
+    yesCents: number;
+    noCents: number;
+}
+
+export interface MarketPrices {
+    marketId: string;
+    onDate: OutcomePrice[];
+    byDate: OutcomePrice[] | null;
+    /** Market maker liquidity (b for the LMSRs) */
+    b: number;
+    marketMaker: MarketMakerType;
+    totalVolume: number;
+    status: MarketStatus;
+}
+
+// ==================== MARKETS ====================
+
+/** Date and range outcomes are ordered, so they support by/between bundles */
+export type MarketKind = 'date' | 'range' | 'categorical';
+
+/** Where a market's opening prices were imported from */
+export interface MarketSource {
+    platform: string;
+    slug: string;
+    eventId?: string;
+    /** How the source's sub-markets map onto our outcomes */
+    structure?: string;
+}
+
+export interface MarketSummary {
+    id: string;
+    title: string;
+    kind: MarketKind;
+    outcomes: number;
+    status: MarketStatus;
+    marketMaker: MarketMakerType;
+    b: number;
+    totalVolume: number;
+    source: MarketSource | null;
+}
+
+export interface MarketList {
+    defaultMarketId: string;
+    markets: MarketSummary[];
+}
+
+export interface MarketEvent {
+    type: MarketType;
+    description: string;
+}
+
+export interface MarketInfo {
+    id: string;
+    title: string;
+    kind: MarketKind;
+    ordered: boolean;
+    outcomes: { index: number; label: string }[];
+    events: MarketEvent[];
+    status: MarketStatus;
+    resolution: number | 'void' | null;
+    totalVolume: number;
+    createdAt: number;
+    source?: MarketSource;
+}
+
+export interface CreateMarketRequest {
+    /** Lowercase letters, digits and dashes */
+    id: string;
+    title?: string;
+    kind?: MarketKind;
+    outcomes: string[];
+    /** Opening probability per outcome; defaults to uniform */
+    initialPrices?: number[];
+    events?: MarketEvent[];
+    marketMaker?: MarketMakerType;
+    /** Fixed LMSR b, or opening liquidity for the other market makers */
+    b?: number;
+    alpha?: number;
+    minB?: number;
+    initialVolume?: number;
+    ammFee?: number;
+    clobFee?: number;
+    lpFeeShare?: number;
+    source?: MarketSource;
+}
+
+export interface CreateMarketResult {
+    success: true;
+    market: MarketInfo;
+    prices: MarketPrices;
+}
+
+// ==================== TRADING ====================
+
+export interface TradeParams {
+    /** Defaults to the client's market */
+    marketId?: string;
+    marketType: MarketType;
+    /** 0-based outcome index; the first day of a between question */
+    dayIndex: number;
+    /** Last day of a between question */
+    endIndex?: number;
+    position?: PositionSide;
+}
+
+export interface QuoteRequest extends TradeParams {
+    side: TradeSide;
+    /** Budget for buys, fees included */
+    amount?: number;
+    /** Shares for sells */
+    shares?: number;
+}
+
+export interface BuyRequest extends TradeParams {
+    amount: number;
+    /** Slippage guard: reject if fewer shares would be bought */
+    minShares?: number;
+    /** Current Yellow session version, when trading through a channel */
+    channelVersion?: number;
+}
+
+export interface SellRequest extends TradeParams {
+    shares: number;
+    /** Slippage guard: reject if the proceeds would be lower */
+    minRevenue?: number;
+    channelVersion?: number;
+}
+
+export interface VenueRoute {
+    shares: number;
+    amount: number;
+    avgPrice: number | null;
+    fees: number;
+}
+
+/** How a trade splits between the AMM curve and the order book */
+export interface TradeRoute {
+    amm: VenueRoute;
+    clob: VenueRoute;
+    fees: number;
+    avgPrice: number | null;
+}
+
+export interface Quote {
+    marketId: string;
+    position: PositionSide;
+    side: TradeSide;
+    shares: number;
+    /** Buys: total paid, fees included */
+    cost?: number;
+    /** Sells: total received after fees */
+    revenue?: number;
+    fees: number;
+    avgPrice: number | null;
+    priceBefore: number;
+    priceAfter: number;
+    priceImpact: number;
+    route: TradeRoute;
+}
+
+export interface Fill {
+    makerOrderId: number;
+    maker: string;
+    takerOrderId: number;
+    taker: string;
+    side: TradeSide;
+    dayIndex: number;
+    price: number;
+    shares: number;
+    amount: number;
+    fee: number;
+}
+
+/** Yellow `submit_app_state` / `close_app_session` request, co-signed by the CLOB */
+export interface ChannelStateUpdate {
+    version: number;
+    req: unknown[];
+    sig: string[];
+    signatureError?: string;
+}
+
+interface TradeResult {
+    success: true;
+    fees: number;
+    shares: number;
+    avgPrice: number | null;
+    priceImpact: number;
+    route: TradeRoute;
+    fills: Fill[];
+    prices: MarketPrices;
+    stateUpdate: ChannelStateUpdate | null;
+}
+
+export interface BuyResult extends TradeResult {
+    cost: number;
+}
+
+export interface SellResult extends TradeResult {
+    revenue: number;
+}
+
+// ==================== POSITIONS ====================
+
+export interface Order {
+    id: number;
+    user: string;
+    dayIndex: number;
+    side: TradeSide;
+    type: 'limit' | 'market';
+    price: number;
+    shares: number;
+    filled: number;
+    remaining: number;
+    status: string;
+    timestamp: number;
+}
+
+export interface Position {
+    marketType: 'on_date';
+    day: number;
+    label: string;
+    outcome: number;
+    position: PositionSide;
+    shares: number;
+    /** Shares not escrowed in sell orders */
+    available: number;
+    avgCost: number;
+    costBasis: number;
+    price: number;
+    value: number;
+    unrealizedPnl: number;
+}
+
+export interface ChannelSession {
+    sessionId: string;
+    asset: string;
+    userBalance: number;
+    clobBalance: number;
+    version: number;
+    clobAddress: string | null;
+    status: 'open' | 'closed';
+    closedAt: number | null;
+}
+
+export interface PositionsResponse {
+    marketId: string;
+    address: string;
+    positions: Position[];
+    totalShareValue: number;
+    costBasis: number;
+    pnl: {
+        realized: number;
+        unrealized: number;
+        total: number;
+    };
+    deposited: number;
+    withdrawn: number;
+    fees: number;
+    claimable: number;
+    openOrders: Order[];
+    collateral: number;
+    session: ChannelSession | null;
+}
+
+// ==================== HISTORY ====================
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface HistoryRequest {
+    /** Defaults to the client's market */
+    marketId?: string;
+    /** Outcome index; omit for every outcome */
+    outcome?: number;
+    interval?: CandleInterval;
+    /** Most recent candles per outcome */
+    limit?: number;
+}
+
+/** A bucket opens at the previous bucket's close, so there are no gaps between trades */
+export interface PriceCandle {
+    timestamp: number;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    volume: number;
+    trades: number;
+}
+
+export interface PricePoint {
+    timestamp: number;
+    price: number;
+}
+
+export interface PriceSeries {
+    outcome: number;
+    label: string;
+    candles: PriceCandle[];
+    /** Each candle's close */
+    curve: PricePoint[];
+}
+
+export interface MarketHistory {
+    marketId: string;
+    interval: CandleInterval;
+    from: number;
+    to: number;
+    series: PriceSeries[];
+}
+
+// ==================== SESSIONS ====================
+
+/** A Nitrolite `create_app_session` request between the user and the CLOB */
+export interface CreateSessionMessage {
+    req: [number, 'create_app_session', {
+        definition: { participants: string[] } & Record<string, unknown>;
+        allocations: { participant: string; asset: string; amount: string }[];
+    }, number];
+    /** The user's signature; the CLOB co-signs and submits it to ClearNode */
+    sig: string[];
+}
+
+export interface SessionRequest {
+    createSession: CreateSessionMessage;
+}
+
+export interface SessionResponse {
+    success: true;
+    session: ChannelSession;
+}
+
+export interface CloseSessionRequest {
+    channelVersion: number;
+}
+
+export interface CloseSessionResponse {
+    success: true;
+    session: ChannelSession;
+    stateUpdate: ChannelStateUpdate;
+}
+
+// ==================== RESOLUTION ====================
+
+/** A winning day (1-based), or `outcome: 'void'` to refund at cost basis */
+export type ResolveRequest =
+    | { marketId?: string; winningDay: number }
+    | { marketId?: string; outcome: 'void' };
+
+export interface ResolveResult {
+    success: true;
+    resolution: number | 'void';
+    cancelledOrders: number;
+    payouts: Record<string, number>;
+}
+
+// ==================== FEED ====================
+
+export type FeedChannel = 'prices' | 'trades' | 'book' | 'resolution';
+
+export interface BookLevel {
+    price: number;
+    shares: number;
+    orders: number;
+}
+
+export interface BookSnapshot {
+    dayIndex: number;
+    bids: BookLevel[];
+    asks: BookLevel[];
+    bestBid: number | null;
+    bestAsk: number | null;
+    spread: number | null;
+}
+
+export interface FeedTrade {
+    id: number;
+    timestamp: number;
+    user: string;
+    venue: 'amm' | 'clob';
+    type: TradeSide;
+    marketType: string;
+    position?: PositionSide;
+    dayIndex: number;
+    indices?: number[];
+    counterparty?: string;
+    /** Collateral in; negative for AMM sells */
+    amount: number;
+    shares: number;
+    price?: number;
+    fee?: number;
+}
+
+export interface MarketResolution {
+    resolution: number | 'void';
+    cancelledOrders: number;
+}
+
+export type FeedMessage =
+    | { type: 'subscribed'; marketId: string; channels: FeedChannel[] }
+    | { type: 'unsubscribed'; marketId: string }
+    | { type: 'snapshot' | 'prices'; marketId: string; data: MarketPrices; timestamp: number }
+    | { type: 'trades'; marketId: string; data: FeedTrade; timestamp: number }
+    | { type: 'book'; marketId: string; data: BookSnapshot; timestamp: number }
+    | { type: 'resolution'; marketId: string; data: MarketResolution; timestamp: number }
+    | { type: 'pong'; timestamp: number }
+    | { type: 'error'; error: string };
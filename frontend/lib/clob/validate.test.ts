@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ClobValidationError,
+    array,
+    literal,
+    nullable,
+    number,
+    object,
+    optional,
+    parse,
+    schemas,
+    string,
+} from './validate';
+
+describe('validators', () => {
+    const point = object<{ x: number; label: string | null; tags?: string[] }>({
+        x: number,
+        label: nullable(string),
+        tags: optional(array(string)),
+    });
+
+    it('passes well-formed values through', () => {
+        expect(parse(point, { x: 1, label: null })).toEqual({ x: 1, label: null });
+        expect(parse(point, { x: 1, label: 'a', tags: ['b'] })).toEqual({ x: 1, label: 'a', tags: ['b'] });
+    });
+
+    it('names the path of the first bad field', () => {
+        expect(() => parse(point, { x: 1, label: 'a', tags: ['b', 2] }, 'point'))
+            .toThrow('Invalid CLOB response at point.tags[1]: expected string, got number');
+        expect(() => parse(point, { x: Number.NaN, label: null })).toThrow(ClobValidationError);
+        expect(() => parse(point, [], 'point')).toThrow(/at point: expected object, got array/);
+    });
+
+    it('only accepts the listed literals', () => {
+        const side = literal('buy', 'sell');
+        expect(side('buy', 'side')).toBe('buy');
+        expect(() => side('hold', 'side')).toThrow(ClobValidationError);
+    });
+});
+
+describe('schemas', () => {
+    it('reject feed messages of unknown type', () => {
+        expect(() => parse(schemas.feedMessage, { type: 'gossip' }, 'message'))
+            .toThrow(/message\.type: expected feed message type/);
+    });
+
+    it('check error frames', () => {
+        expect(parse(schemas.feedMessage, { type: 'error', error: 'Invalid JSON' }))
+            .toEqual({ type: 'error', error: 'Invalid JSON' });
+        expect(() => parse(schemas.feedMessage, { type: 'error' })).toThrow(ClobValidationError);
+    });
+});
@@ -0,0 +1,448 @@
+import type {
+    BookLevel,
+    BookSnapshot,
+    BuyResult,
+    ChannelSession,
+    ChannelStateUpdate,
+    CloseSessionResponse,
+    CreateMarketResult,
+    FeedChannel,
+    FeedMessage,
+    FeedTrade,
+    Fill,
+    MarketHistory,
+    MarketInfo,
+    MarketList,
+    MarketPrices,
+    MarketResolution,
+    MarketSource,
+    MarketSummary,
+    Order,
+    OutcomePrice,
+    Position,
+    PositionsResponse,
+    PriceCandle,
+    PriceSeries,
+    Quote,
+    ResolveResult,
+    SellResult,
+    SessionResponse,
+    TradeRoute,
+    VenueRoute,
+} from './types';
+
+/**
+ * Runtime validation of CLOB server responses
+ * Small composable validators: each checks an unknown value and returns it typed,
+ * or throws a ClobValidationError naming the offending path
+ */
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export class ClobValidationError extends Error {
+    constructor(readonly path: string, readonly expected: string, readonly received: unknown) {
+        super(`Invalid CLOB response at ${path}: expected ${expected}, got ${describe(received)}`);
+        this.name = 'ClobValidationError';
+    }
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+// ==================== COMBINATORS ====================
+
+export const number: Validator<number> = (value, path) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) throw new ClobValidationError(path, 'number', value);
+    return value;
+};
+
+export const string: Validator<string> = (value, path) => {
+    if (typeof value !== 'string') throw new ClobValidationError(path, 'string', value);
+    return value;
+};
+
+export const boolean: Validator<boolean> = (value, path) => {
+    if (typeof value !== 'boolean') throw new ClobValidationError(path, 'boolean', value);
+    return value;
+};
+
+export const unknownValue: Validator<unknown> = (value) => value;
+
+export function literal<T extends string | number | boolean>(...values: T[]): Validator<T> {
+    return (value, path) => {
+        if (!values.includes(value as T)) throw new ClobValidationError(path, values.join(' | '), value);
+        return value as T;
+    };
+}
+
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+    return (value, path) => (value === null ? null : validator(value, path));
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+    return (value, path) => (value === undefined ? undefined : validator(value, path));
+}
+
+export function oneOf<A, B>(a: Validator<A>, b: Validator<B>): Validator<A | B> {
+    return (value, path) => {
+        try {
+            return a(value, path);
+        } catch {
+            return b(value, path);
+        }
+    };
+}
+
+export function array<T>(validator: Validator<T>): Validator<T[]> {
+    return (value, path) => {
+        if (!Array.isArray(value)) throw new ClobValidationError(path, 'array', value);
+        return value.map((item, i) => validator(item, `${path}[${i}]`));
+    };
+}
+
+export function record<T>(validator: Validator<T>): Validator<Record<string, T>> {
+    return (value, path) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new ClobValidationError(path, 'object', value);
+        }
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, validator(item, `${path}.${key}`)])
+        );
+    };
+}
+
+/** Checks the listed fields; fields the server adds later are dropped */
+export function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+    return (value, path) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new ClobValidationError(path, 'object', value);
+        }
+        const input = value as Record<string, unknown>;
+        const result = {} as T;
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const field = shape[key](input[key], `${path}.${key}`);
+            if (field !== undefined) result[key] = field;
+        }
+        return result;
+    };
+}
+
+/** Validate `value`, naming it `name` in errors */
+export function parse<T>(validator: Validator<T>, value: unknown, name = 'response'): T {
+    return validator(value, name);
+}
+
+// ==================== SCHEMAS ====================
+
+const positionSide = literal('yes', 'no');
+const tradeSide = literal('buy', 'sell');
+const marketKind = literal('date', 'range', 'categorical');
+const marketMaker = literal('lmsr', 'ls-lmsr', 'cpmm');
+const marketStatus = literal('open', 'resolved');
+
+const outcomePrice = object<OutcomePrice>({
+    day: number,
+    label: string,
+    yesPrice: number,
+    noPrice: number,
+    yesCents: number,
+    noCents: number,
+});
+
+const marketPrices = object<MarketPrices>({
+    marketId: string,
+    onDate: array(outcomePrice),
+    byDate: nullable(array(outcomePrice)),
+    b: number,
+    marketMaker,
+    totalVolume: number,
+    status: marketStatus,
+});
+
+const venueRoute = object<VenueRoute>({
+    shares: number,
+    amount: number,
+    avgPrice: nullable(number),
+    fees: number,
+});
+
+const tradeRoute = object<TradeRoute>({
+    amm: venueRoute,
+    clob: venueRoute,
+    fees: number,
+    avgPrice: nullable(number),
+});
+
+const quote = object<Quote>({
+    marketId: string,
+    position: positionSide,
+    side: tradeSide,
+    shares: number,
+    cost: optional(number),
+    revenue: optional(number),
+    fees: number,
+    avgPrice: nullable(number),
+    priceBefore: number,
+    priceAfter: number,
+    priceImpact: number,
+    route: tradeRoute,
+});
+
+const fill = object<Fill>({
+    makerOrderId: number,
+    maker: string,
+    takerOrderId: number,
+    taker: string,
+    side: tradeSide,
+    dayIndex: number,
+    price: number,
+    shares: number,
+    amount: number,
+    fee: number,
+});
+
+const stateUpdate = object<ChannelStateUpdate>({
+    version: number,
+    req: array(unknownValue),
+    sig: array(string),
+    signatureError: optional(string),
+});
+
+const tradeResult = {
+    success: literal(true as const),
+    fees: number,
+    shares: number,
+    avgPrice: nullable(number),
+    priceImpact: number,
+    route: tradeRoute,
+    fills: array(fill),
+    prices: marketPrices,
+    stateUpdate: nullable(stateUpdate),
+};
+
+const buyResult = object<BuyResult>({ ...tradeResult, cost: number });
+const sellResult = object<SellResult>({ ...tradeResult, revenue: number });
+
+const order = object<Order>({
+    id: number,
+    user: string,
+    dayIndex: number,
+    side: tradeSide,
+    type: literal('limit', 'market'),
+    price: number,
+    shares: number,
+    filled: number,
+    remaining: number,
+    status: string,
+    timestamp: number,
+});
+
+const position = object<Position>({
+    marketType: literal('on_date'),
+    day: number,
+    label: string,
+    outcome: number,
+    position: positionSide,
+    shares: number,
+    available: number,
+    avgCost: number,
+    costBasis: number,
+    price: number,
+    value: number,
+    unrealizedPnl: number,
+});
+
+const channelSession = object<ChannelSession>({
+    sessionId: string,
+    asset: string,
+    userBalance: number,
+    clobBalance: number,
+    version: number,
+    clobAddress: nullable(string),
+    status: literal('open', 'closed'),
+    closedAt: nullable(number),
+});
+
+const positions = object<PositionsResponse>({
+    marketId: string,
+    address: string,
+    positions: array(position),
+    totalShareValue: number,
+    costBasis: number,
+    pnl: object({ realized: number, unrealized: number, total: number }),
+    deposited: number,
+    withdrawn: number,
+    fees: number,
+    claimable: number,
+    openOrders: array(order),
+    collateral: number,
+    session: nullable(channelSession),
+});
+
+const session = object<SessionResponse>({
+    success: literal(true as const),
+    session: channelSession,
+});
+
+const closeSession = object<CloseSessionResponse>({
+    success: literal(true as const),
+    session: channelSession,
+    stateUpdate,
+});
+
+const resolution = oneOf(number, literal('void'));
+
+const resolve = object<ResolveResult>({
+    success: literal(true as const),
+    resolution,
+    cancelledOrders: number,
+    payouts: record(number),
+});
+
+const marketSource = object<MarketSource>({
+    platform: string,
+    slug: string,
+    eventId: optional(string),
+    structure: optional(string),
+});
+
+const marketSummary = object<MarketSummary>({
+    id: string,
+    title: string,
+    kind: marketKind,
+    outcomes: number,
+    status: marketStatus,
+    marketMaker,
+    b: number,
+    totalVolume: number,
+    source: nullable(marketSource),
+});
+
+const marketList = object<MarketList>({
+    defaultMarketId: string,
+    markets: array(marketSummary),
+});
+
+const marketInfo = object<MarketInfo>({
+    id: string,
+    title: string,
+    kind: marketKind,
+    ordered: boolean,
+    outcomes: array(object({ index: number, label: string })),
+    events: array(object({ type: literal('on_date', 'by_date', 'between'), description: string })),
+    status: marketStatus,
+    resolution: nullable(resolution),
+    totalVolume: number,
+    createdAt: number,
+    source: optional(marketSource),
+});
+
+const createMarketResult = object<CreateMarketResult>({
+    success: literal(true as const),
+    market: marketInfo,
+    prices: marketPrices,
+});
+
+const priceCandle = object<PriceCandle>({
+    timestamp: number,
+    open: number,
+    high: number,
+    low: number,
+    close: number,
+    volume: number,
+    trades: number,
+});
+
+const priceSeries = object<PriceSeries>({
+    outcome: number,
+    label: string,
+    candles: array(priceCandle),
+    curve: array(object({ timestamp: number, price: number })),
+});
+
+const marketHistory = object<MarketHistory>({
+    marketId: string,
+    interval: literal('1m', '5m', '15m', '1h', '4h', '1d'),
+    from: number,
+    to: number,
+    series: array(priceSeries),
+});
+
+const bookLevel = object<BookLevel>({ price: number, shares: number, orders: number });
+
+const bookSnapshot = object<BookSnapshot>({
+    dayIndex: number,
+    bids: array(bookLevel),
+    asks: array(bookLevel),
+    bestBid: nullable(number),
+    bestAsk: nullable(number),
+    spread: nullable(number),
+});
+
+const feedTrade = object<FeedTrade>({
+    id: number,
+    timestamp: number,
+    user: string,
+    venue: literal('amm', 'clob'),
+    type: tradeSide,
+    marketType: string,
+    position: optional(positionSide),
+    dayIndex: number,
+    indices: optional(array(number)),
+    counterparty: optional(string),
+    amount: number,
+    shares: number,
+    price: optional(number),
+    fee: optional(number),
+});
+
+const marketResolution = object<MarketResolution>({ resolution, cancelledOrders: number });
+
+const feedChannel = literal<FeedChannel>('prices', 'trades', 'book', 'resolution');
+
+function channelMessage<T>(data: Validator<T>) {
+    return object({ marketId: string, data, timestamp: number });
+}
+
+const feedMessage: Validator<FeedMessage> = (value, path) => {
+    const { type } = object({ type: string })(value, path);
+    switch (type) {
+        case 'subscribed':
+            return { type, ...object({ marketId: string, channels: array(feedChannel) })(value, path) };
+        case 'unsubscribed':
+            return { type, ...object({ marketId: string })(value, path) };
+        case 'snapshot':
+        case 'prices':
+            return { type, ...channelMessage(marketPrices)(value, path) };
+        case 'trades':
+            return { type, ...channelMessage(feedTrade)(value, path) };
+        case 'book':
+            return { type, ...channelMessage(bookSnapshot)(value, path) };
+        case 'resolution':
+            return { type, ...channelMessage(marketResolution)(value, path) };
+        case 'pong':
+            return { type, ...object({ timestamp: number })(value, path) };
+        case 'error':
+            return { type, ...object({ error: string })(value, path) };
+        default:
+            throw new ClobValidationError(`${path}.type`, 'feed message type', type);
+    }
+};
+
+export const schemas = {
+    marketPrices,
+    marketHistory,
+    marketList,
+    createMarketResult,
+    quote,
+    buyResult,
+    sellResult,
+    positions,
+    session,
+    closeSession,
+    resolve,
+    feedMessage,
+};
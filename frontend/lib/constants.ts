@@ -27,3 +27,11 @@ export const RELAYER_ADDRESS = '0x07dab64Aa125B206D7fd6a81AaB2133A0bdEF863' as c
 export const SEPOLIA_USDC = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as const;
 // WETH on Sepolia (Wrapped Ether)
 export const SEPOLIA_WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9' as const;
+
+/**
+ * Market CLOB server (LMSR AMM + order book), see backend/clob-server
+ */
+export const CLOB_SERVER_URL = process.env.NEXT_PUBLIC_CLOB_SERVER_URL || 'http://localhost:3001';
+export const CLOB_FEED_URL = process.env.NEXT_PUBLIC_CLOB_FEED_URL || `${CLOB_SERVER_URL.replace(/^http/, 'ws')}/ws`;
+// "US strikes Iran on/by [date]" market on the CLOB server
+export const IRAN_MARKET_ID = 'us-iran-2026';
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { PolymarketEvent, PolymarketMarket } from '@/lib/polymarket';
+import { classifyEvent, eventSeries, parseAmount, parseQuestion, yesPrice } from './polymarket-classify';
+
+function market(id: string, question: string, yes: number | null, overrides: Partial<PolymarketMarket> = {}): PolymarketMarket {
+  return {
+    id,
+    question,
+    conditionId: `0x${id}`,
+    slug: id,
+    outcomes: ['Yes', 'No'],
+    outcomePrices: yes === null ? [] : [String(yes), String(1 - yes)],
+    volume: '0',
+    active: true,
+    closed: false,
+    liquidity: '0',
+    endDate: '2026-12-31T00:00:00Z',
+    groupItemTitle: '',
+    ...overrides,
+  };
+}
+
+function event(title: string, markets: PolymarketMarket[]): PolymarketEvent {
+  return {
+    id: 'e1',
+    title,
+    description: '',
+    slug: 'e1',
+    image: '',
+    createdAt: '2026-01-01T00:00:00Z',
+    volume: '0',
+    markets,
+  };
+}
+
+describe('parseQuestion', () => {
+  it('reads dates, deadlines and amounts', () => {
+    expect(parseQuestion('Ceasefire by March 31, 2026?')).toEqual({
+      form: 'by', date: Date.UTC(2026, 2, 31), low: null, high: null,
+    });
+    expect(parseQuestion('Strike on June 5?', 2026)).toMatchObject({ form: 'on', date: Date.UTC(2026, 5, 5) });
+    // A bare month resolves on its last day
+    expect(parseQuestion('Deal before February?', 2028)).toMatchObject({ form: 'by', date: Date.UTC(2028, 1, 29) });
+    expect(parseQuestion('Bitcoin between $90k and $100k?')).toMatchObject({ form: 'between', low: 90_000, high: 100_000 });
+    expect(parseQuestion('Will oil reach $120 on December 31?')).toMatchObject({ form: 'above', low: 120 });
+    expect(parseQuestion('Unemployment below 4%?')).toMatchObject({ form: 'below', high: 4 });
+    expect(parseQuestion('Who wins the election?').form).toBe('other');
+  });
+
+  it('scales amount units', () => {
+    expect(parseAmount('$1.5m')).toBe(1_500_000);
+    expect(parseAmount('2 billion')).toBe(2e9);
+    expect(parseAmount('12,500')).toBe(12_500);
+    expect(parseAmount('none')).toBeNull();
+  });
+
+  it('reads the YES price from JSON-encoded lists', () => {
+    // What the gamma API actually sends, despite the declared type
+    const encoded = { outcomes: '["No", "Yes"]', outcomePrices: '["0.7", "0.3"]' } as unknown as Partial<PolymarketMarket>;
+    expect(yesPrice(market('a', 'x', 0.3, encoded))).toBe(0.3);
+    expect(yesPrice(market('a', 'x', null))).toBeNull();
+  });
+});
+
+describe('classifyEvent', () => {
+  it('orders a deadline ladder and flags prices that fall', () => {
+    const classification = classifyEvent(event('Ceasefire by ...?', [
+      market('m', 'Ceasefire by March 31?', 0.5, { groupItemTitle: 'March 31' }),
+      market('j', 'Ceasefire by January 31?', 0.2, { groupItemTitle: 'January 31' }),
+      market('f', 'Ceasefire by February 28?', 0.1, { groupItemTitle: 'February 28' }),
+      market('x', 'Ceasefire by January 15?', 0.9, { closed: true }),
+    ]));
+
+    expect(classification).toMatchObject({ structure: 'cumulative', kind: 'date', form: 'by', remainder: 'After March 31' });
+    expect(classification.outcomes.map(o => o.marketId)).toEqual(['j', 'f', 'm']);
+    expect(classification.issues).toEqual([
+      expect.objectContaining({ type: 'not_monotone', marketIds: ['j', 'f'] }),
+    ]);
+    expect(classification.fragmented).toBe(false);
+  });
+
+  it('keeps the largest family and excludes the rest', () => {
+    const classification = classifyEvent(event('Strike on ...?', [
+      market('1', 'Strike on June 3?', 0.1),
+      market('2', 'Strike on June 1?', 0.3),
+      market('3', 'Strike on June 2?', 0.2),
+      market('4', 'Strike on June 4?', 0.4),
+      market('b', 'Strike by June 30?', 0.9),
+    ]));
+
+    expect(classification).toMatchObject({ structure: 'exclusive', kind: 'date', form: 'on', excluded: ['b'], fragmented: true });
+    expect(classification.outcomes.map(o => o.marketId)).toEqual(['2', '3', '1', '4']);
+    expect(classification.issues).toEqual([]);
+  });
+
+  it('sorts buckets and reports gaps, overlaps and overround', () => {
+    const classification = classifyEvent(event('Bitcoin price?', [
+      market('mid', 'Bitcoin between $90k and $100k?', 0.5),
+      market('low', 'Bitcoin below $90k?', 0.3),
+      market('high', 'Bitcoin between $105k and $120k?', 0.4),
+      market('top', 'Bitcoin between $110k and $130k?', 0.1),
+    ]));
+
+    expect(classification).toMatchObject({ structure: 'exclusive', kind: 'range', form: 'between' });
+    expect(classification.outcomes.map(o => o.marketId)).toEqual(['low', 'mid', 'high', 'top']);
+    expect(classification.issues.map(i => i.type)).toEqual(['gap', 'overlap', 'overround']);
+  });
+
+  it('reads an above ladder from the top down', () => {
+    const classification = classifyEvent(event('Oil price?', [
+      market('80', 'Oil above $80?', 0.9, { groupItemTitle: '$80' }),
+      market('100', 'Oil above $100?', 0.4, { groupItemTitle: '$100' }),
+      market('90', 'Oil above $90?', 0.6, { groupItemTitle: '$90' }),
+    ]));
+
+    expect(classification).toMatchObject({ structure: 'cumulative', kind: 'range', form: 'above', remainder: 'Below $80' });
+    expect(classification.outcomes.map(o => o.marketId)).toEqual(['100', '90', '80']);
+    expect(classification.issues).toEqual([]);
+  });
+
+  it('reports sub-markets without a price', () => {
+    const classification = classifyEvent(event('Who wins?', [
+      market('a', 'Alice wins?', 0.6),
+      market('b', 'Bob wins?', null),
+    ]));
+
+    expect(classification.kind).toBe('categorical');
+    expect(classification.issues.map(i => i.type)).toEqual(['overround', 'unpriced']);
+  });
+});
+
+describe('eventSeries', () => {
+  it('ignores the dates and numbers that distinguish events', () => {
+    expect(eventSeries(event('Fed cut on September 16, 2026?', []))).toBe('fed cut on');
+    expect(eventSeries(event('Fed cut on September 23?', []))).toBe('fed cut on');
+    expect(eventSeries(event('Bitcoin above $100k?', []))).toBe('bitcoin above');
+  });
+});
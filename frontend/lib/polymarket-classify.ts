@@ -0,0 +1,337 @@
+import type { PolymarketEvent, PolymarketMarket } from '@/lib/polymarket';
+
+/**
+ * Rules for reading fragmented Polymarket events
+ * Each sub-market question is parsed into a form ("on <date>", "by <date>", "between
+ * $a and $b", "above $x", ...). The largest family of related forms becomes the
+ * event's canonical outcome space, ordered so it maps onto one atomic market, and
+ * its prices are checked for the inconsistencies that mapping relies on.
+ */
+
+export type QuestionForm = 'on' | 'by' | 'between' | 'above' | 'below' | 'other';
+
+export interface ParsedQuestion {
+  form: QuestionForm;
+  /** Deadline or day (UTC ms) for on/by questions */
+  date: number | null;
+  /** Bounds for amount questions; open-ended sides are null */
+  low: number | null;
+  high: number | null;
+}
+
+/**
+ * exclusive: each sub-market is one disjoint outcome (a date, a candidate, a bucket)
+ * cumulative: each sub-market is a superset of the one before ("by <deadline>",
+ * "above $x" from the top down), so YES prices rise along the order
+ */
+export type FragmentStructure = 'exclusive' | 'cumulative';
+
+/** Matches the CLOB market kinds: date and range outcomes are ordered */
+export type EventKind = 'date' | 'range' | 'categorical';
+
+export interface ClassifiedOutcome {
+  label: string;
+  marketId: string;
+  /** YES price; null if the sub-market has none */
+  price: number | null;
+  question: ParsedQuestion;
+}
+
+export type PricingIssueType = 'not_monotone' | 'overround' | 'gap' | 'overlap' | 'unpriced';
+
+export interface PricingIssue {
+  type: PricingIssueType;
+  marketIds: string[];
+  message: string;
+}
+
+export interface EventClassification {
+  structure: FragmentStructure;
+  kind: EventKind;
+  /** Form shared by the canonical outcomes ('between' for bucket sets with open tails) */
+  form: QuestionForm;
+  /** Canonical outcomes in market order */
+  outcomes: ClassifiedOutcome[];
+  /** Label of the outcome a cumulative ladder leaves implied (after the last deadline, ...) */
+  remainder: string | null;
+  /** Sub-markets outside the canonical outcome space */
+  excluded: string[];
+  issues: PricingIssue[];
+  /** Enough related sub-markets to be worth merging into one market */
+  fragmented: boolean;
+}
+
+export const MIN_FRAGMENTS = 4;
+
+/** Exclusive YES prices may sum this far from 1 before the set is flagged */
+export const OVERROUND_TOLERANCE = 0.1;
+
+/** By-date prices may dip this much (spread noise) before being flagged */
+const MONOTONE_TOLERANCE = 0.01;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE = `(?:\\b${MONTH}\\b\\.?\\s*(\\d{1,2})?(?:st|nd|rd|th)?,?\\s*(\\d{4})?|\\b(\\d{4})\\b)`;
+const AMOUNT = '([$]?\\s?\\d[\\d,]*(?:\\.\\d+)?\\s?(?:k|m|bn|b|million|billion|thousand|%)?)(?![a-z\\d])';
+
+const BETWEEN_RULES = [
+  new RegExp(`\\bbetween\\s+${AMOUNT}\\s+and\\s+${AMOUNT}`),
+  new RegExp(`${AMOUNT}\\s*(?:-|–|to)\\s*${AMOUNT}`),
+];
+const ABOVE_RULES = [
+  new RegExp(`(?:\\b(?:above|over|more than|greater than|higher than|at least|exceeds?|reach(?:es)?|hits?)|[>≥↑])\\s*${AMOUNT}`),
+  new RegExp(`${AMOUNT}\\s*(?:\\+|or (?:more|higher|above))`),
+];
+const BELOW_RULES = [
+  new RegExp(`(?:\\b(?:below|under|less than|fewer than|lower than|dips? to|drops? to|falls? to)|[<≤↓])\\s*${AMOUNT}`),
+  new RegExp(`${AMOUNT}\\s*or (?:less|fewer|lower|below)`),
+];
+const BY_RULE = new RegExp(`\\b(?:by|before)\\s+(?:the\\s+)?(?:end of\\s+)?${DATE}`);
+const ON_RULE = new RegExp(`\\b(?:on|in)\\s+${DATE}`);
+
+// The gamma API sends outcomes and outcomePrices as JSON-encoded strings
+function parseList(value: string[] | string): string[] {
+  if (Array.isArray(value)) return value;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Price of a binary sub-market's "Yes" outcome, or null if it has none */
+export function yesPrice(market: PolymarketMarket): number | null {
+  const outcomes = parseList(market.outcomes);
+  const prices = parseList(market.outcomePrices).map(Number);
+  const index = outcomes.findIndex(o => o.toLowerCase() === 'yes');
+  const price = prices[index === -1 ? 0 : index];
+  return Number.isFinite(price) ? price : null;
+}
+
+export function parseAmount(text: string): number | null {
+  const match = /(\d[\d,]*(?:\.\d+)?)\s?(k|m|bn|b|million|billion|thousand)?/.exec(text.toLowerCase());
+  if (!match) return null;
+  const value = Number(match[1].replace(/,/g, ''));
+  const unit = match[2];
+  if (unit === 'k' || unit === 'thousand') return value * 1e3;
+  if (unit === 'm' || unit === 'million') return value * 1e6;
+  if (unit === 'b' || unit === 'bn' || unit === 'billion') return value * 1e9;
+  return value;
+}
+
+/**
+ * The day a date phrase names, as UTC ms. A bare month or year means its last day,
+ * since that is when "by March" or "in 2026" questions resolve.
+ */
+function parseDate(match: RegExpExecArray, offset: number, fallbackYear: number): number | null {
+  const [month, day, year, bareYear] = match.slice(offset, offset + 4);
+  if (bareYear) return Date.UTC(Number(bareYear), 11, 31);
+  if (!month) return null;
+  const monthIndex = MONTHS.indexOf(month.slice(0, 3));
+  const y = year ? Number(year) : fallbackYear;
+  return day ? Date.UTC(y, monthIndex, Number(day)) : Date.UTC(y, monthIndex + 1, 0);
+}
+
+function firstMatch(rules: RegExp[], text: string): RegExpExecArray | null {
+  for (const rule of rules) {
+    const match = rule.exec(text);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Parse one sub-market question (or its short group title) */
+export function parseQuestion(text: string, fallbackYear = new Date().getUTCFullYear()): ParsedQuestion {
+  const q = text.toLowerCase();
+  const parsed = (form: QuestionForm, fields: Partial<ParsedQuestion> = {}): ParsedQuestion =>
+    ({ form, date: null, low: null, high: null, ...fields });
+
+  // Amounts first: "above $100k on December 31?" is a price ladder, not a date
+  const between = firstMatch(BETWEEN_RULES, q);
+  if (between) return parsed('between', { low: parseAmount(between[1]), high: parseAmount(between[2]) });
+  const above = firstMatch(ABOVE_RULES, q);
+  if (above) return parsed('above', { low: parseAmount(above[1]) });
+  const below = firstMatch(BELOW_RULES, q);
+  if (below) return parsed('below', { high: parseAmount(below[1]) });
+
+  const by = BY_RULE.exec(q);
+  if (by) return parsed('by', { date: parseDate(by, 1, fallbackYear) });
+  const on = ON_RULE.exec(q);
+  if (on) return parsed('on', { date: parseDate(on, 1, fallbackYear) });
+
+  return parsed('other');
+}
+
+function parseMarket(market: PolymarketMarket): ParsedQuestion {
+  const endYear = market.endDate ? new Date(market.endDate).getUTCFullYear() : NaN;
+  const year = Number.isFinite(endYear) ? endYear : new Date().getUTCFullYear();
+  const question = parseQuestion(market.question || '', year);
+  // Group titles carry the distinguishing part ("February 14", "<$60k") when questions don't
+  if (question.form !== 'other' || !market.groupItemTitle) return question;
+  return parseQuestion(market.groupItemTitle, year);
+}
+
+// ==================== CLASSIFICATION ====================
+
+const FAMILIES: Record<QuestionForm, string> = {
+  by: 'by',
+  on: 'on',
+  between: 'amount',
+  above: 'amount',
+  below: 'amount',
+  other: 'other',
+};
+
+function issue(type: PricingIssueType, outcomes: ClassifiedOutcome[], message: string): PricingIssue {
+  return { type, marketIds: outcomes.map(o => o.marketId), message };
+}
+
+function checkOverround(outcomes: ClassifiedOutcome[]): PricingIssue[] {
+  const total = outcomes.reduce((acc, o) => acc + (o.price ?? 0), 0);
+  if (Math.abs(total - 1) <= OVERROUND_TOLERANCE) return [];
+  return [issue('overround', outcomes, `Exclusive YES prices sum to ${total.toFixed(3)}, not 1`)];
+}
+
+function checkMonotone(outcomes: ClassifiedOutcome[]): PricingIssue[] {
+  const issues: PricingIssue[] = [];
+  let highest: ClassifiedOutcome | null = null;
+  for (const outcome of outcomes) {
+    if (outcome.price === null) continue;
+    if (highest && highest.price !== null && outcome.price < highest.price - MONOTONE_TOLERANCE) {
+      issues.push(issue(
+        'not_monotone',
+        [highest, outcome],
+        `"${outcome.label}" trades at ${outcome.price} below "${highest.label}" at ${highest.price}`
+      ));
+    }
+    if (!highest || outcome.price > (highest.price ?? 0)) highest = outcome;
+  }
+  return issues;
+}
+
+// Buckets are sorted by lower bound; neighbours should meet end to end
+function checkBuckets(outcomes: ClassifiedOutcome[]): PricingIssue[] {
+  const issues: PricingIssue[] = [];
+  for (let i = 1; i < outcomes.length; i++) {
+    const previous = outcomes[i - 1].question.high;
+    const next = outcomes[i].question.low;
+    if (previous === null || next === null) continue;
+    if (next < previous) {
+      issues.push(issue('overlap', outcomes.slice(i - 1, i + 1), `"${outcomes[i - 1].label}" overlaps "${outcomes[i].label}"`));
+    } else if (next - previous > 0.01 * Math.max(Math.abs(previous), 1)) {
+      issues.push(issue('gap', outcomes.slice(i - 1, i + 1), `Nothing covers ${previous} to ${next}`));
+    }
+  }
+  return issues;
+}
+
+const byDate = (a: ClassifiedOutcome, b: ClassifiedOutcome) =>
+  (a.question.date ?? Infinity) - (b.question.date ?? Infinity);
+
+const bucketLow = (o: ClassifiedOutcome) => o.question.form === 'below' ? -Infinity : o.question.low ?? -Infinity;
+
+/**
+ * Group an event's sub-markets into one canonical outcome space
+ * Only open sub-markets count while any are open, so expired deadlines drop out.
+ */
+export function classifyEvent(event: PolymarketEvent): EventClassification {
+  const markets = event.markets || [];
+  const open = markets.filter(m => m.active && !m.closed);
+  const considered = open.length ? open : markets;
+
+  const all: ClassifiedOutcome[] = considered.map(market => ({
+    label: market.groupItemTitle || market.question,
+    marketId: market.id,
+    price: yesPrice(market),
+    question: parseMarket(market),
+  }));
+
+  // Largest family wins; ties go to the family listed first on the event
+  const families = new Map<string, ClassifiedOutcome[]>();
+  for (const outcome of all) {
+    const family = FAMILIES[outcome.question.form];
+    families.set(family, [...(families.get(family) || []), outcome]);
+  }
+  let family = 'other';
+  let group: ClassifiedOutcome[] = [];
+  for (const [name, members] of families) {
+    if (members.length > group.length) {
+      family = name;
+      group = members;
+    }
+  }
+
+  let structure: FragmentStructure = 'exclusive';
+  let kind: EventKind = 'categorical';
+  let form: QuestionForm = family === 'amount' ? 'between' : group[0]?.question.form ?? 'other';
+  let outcomes = group;
+  let remainder: string | null = null;
+  let issues: PricingIssue[] = [];
+
+  if (family === 'by') {
+    structure = 'cumulative';
+    kind = 'date';
+    outcomes = [...group].sort(byDate);
+    remainder = outcomes.length ? `After ${outcomes[outcomes.length - 1].label}` : null;
+    issues = checkMonotone(outcomes);
+  } else if (family === 'on') {
+    kind = 'date';
+    outcomes = [...group].sort(byDate);
+    issues = checkOverround(outcomes);
+  } else if (family === 'amount') {
+    kind = 'range';
+    if (group.some(o => o.question.form === 'between')) {
+      outcomes = [...group].sort((a, b) => bucketLow(a) - bucketLow(b));
+      issues = [...checkBuckets(outcomes), ...checkOverround(outcomes)];
+    } else {
+      // A ladder of thresholds: "above" read from the top down, "below" from the bottom up
+      const aboves = group.filter(o => o.question.form === 'above');
+      const belows = group.filter(o => o.question.form === 'below');
+      structure = 'cumulative';
+      if (aboves.length >= belows.length) {
+        form = 'above';
+        outcomes = aboves.sort((a, b) => (b.question.low ?? 0) - (a.question.low ?? 0));
+        remainder = outcomes.length ? `Below ${outcomes[outcomes.length - 1].label}` : null;
+      } else {
+        form = 'below';
+        outcomes = belows.sort((a, b) => (a.question.high ?? 0) - (b.question.high ?? 0));
+        remainder = outcomes.length ? `Above ${outcomes[outcomes.length - 1].label}` : null;
+      }
+      issues = checkMonotone(outcomes);
+    }
+  } else {
+    issues = checkOverround(outcomes);
+  }
+
+  const unpriced = outcomes.filter(o => o.price === null);
+  if (unpriced.length) {
+    issues.push(issue('unpriced', unpriced, `${unpriced.length} sub-market(s) have no YES price`));
+  }
+
+  const included = new Set(outcomes.map(o => o.marketId));
+  return {
+    structure,
+    kind,
+    form,
+    outcomes,
+    remainder,
+    excluded: all.filter(o => !included.has(o.marketId)).map(o => o.marketId),
+    issues,
+    fragmented: outcomes.length >= MIN_FRAGMENTS,
+  };
+}
+
+/**
+ * Events that differ only in their dates or numbers ("... on September 16?",
+ * "... on September 23?") share a series key
+ */
+export function eventSeries(event: PolymarketEvent): string {
+  return (event.title || '')
+    .toLowerCase()
+    .replace(new RegExp(DATE, 'g'), ' ')
+    .replace(/[$]?\d[\d,.]*\s?[kmb%]?/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
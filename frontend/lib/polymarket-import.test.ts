@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockClobClient } from '@/lib/clob';
+import type { MarketPrices } from '@/lib/clob';
+import type { PolymarketEvent, PolymarketMarket } from '@/lib/polymarket';
+import { MIN_PRICE, importPolymarketEvent, measureDivergence, toAtomicDistribution } from './polymarket-import';
+
+function market(id: string, label: string, yes: number, overrides: Partial<PolymarketMarket> = {}): PolymarketMarket {
+  return {
+    id,
+    question: `${label}?`,
+    conditionId: `0x${id}`,
+    slug: id,
+    outcomes: ['Yes', 'No'],
+    outcomePrices: [String(yes), String(1 - yes)],
+    volume: '0',
+    active: true,
+    closed: false,
+    liquidity: '0',
+    endDate: '2026-03-01T00:00:00Z',
+    groupItemTitle: label,
+    ...overrides,
+  };
+}
+
+function event(markets: PolymarketMarket[]): PolymarketEvent {
+  return {
+    id: 'e1',
+    title: 'Who wins?',
+    description: '',
+    slug: 'who-wins',
+    image: '',
+    createdAt: '2026-01-01T00:00:00Z',
+    volume: '0',
+    markets,
+  };
+}
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toAtomicDistribution', () => {
+  it('normalises exclusive outcomes and reports the overround', () => {
+    const distribution = toAtomicDistribution(event([
+      market('a', 'Alice', 0.6),
+      market('b', 'Bob', 0.5),
+      market('c', 'Carol', 0.2, { closed: true }),
+      market('d', 'Dan', 0),
+    ]));
+
+    expect(distribution.outcomes.map(o => o.label)).toEqual(['Alice', 'Bob', 'Dan']);
+    expect(distribution.overround).toBeCloseTo(0.1);
+    expect(sum(distribution.prices)).toBeCloseTo(1);
+    expect(distribution.prices[0] / distribution.prices[1]).toBeCloseTo(1.2);
+    expect(distribution.prices[2]).toBeGreaterThanOrEqual(MIN_PRICE / 1.2);
+  });
+
+  it('turns cumulative deadlines into windows plus an after-the-last remainder', () => {
+    const distribution = toAtomicDistribution(event([
+      market('m', 'March', 0.5, { question: 'Ceasefire by March 31, 2026?' }),
+      market('f', 'February', 0.3, { question: 'Ceasefire by February 28, 2026?' }),
+      market('a', 'April', 0.45, { question: 'Ceasefire by April 30, 2026?' }),
+    ]));
+
+    expect(distribution.structure).toBe('cumulative');
+    expect(distribution.kind).toBe('date');
+    expect(distribution.issues.map(i => i.type)).toEqual(['not_monotone']);
+
+    expect(distribution.outcomes).toEqual([
+      { label: 'February', marketId: 'f' },
+      { label: 'March', marketId: 'm' },
+      { label: 'April', marketId: 'a' },
+      { label: 'After April', marketId: null },
+    ]);
+    expect(distribution.repaired).toBe(1);
+    expect(distribution.prices[0]).toBeCloseTo(0.3, 2);
+    expect(distribution.prices[1]).toBeCloseTo(0.2, 2);
+    expect(distribution.prices[3]).toBeCloseTo(0.5, 2);
+    expect(sum(distribution.prices)).toBeCloseTo(1);
+  });
+
+  it('needs enough open priced markets', () => {
+    expect(() => toAtomicDistribution(event([market('a', 'Alice', 0.6)]))).toThrow(/too few/);
+    expect(toAtomicDistribution(event([market('a', 'March', 0.4)]), 'cumulative').outcomes).toHaveLength(2);
+  });
+});
+
+describe('importPolymarketEvent', () => {
+  it('creates a market seeded at the event prices', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json([
+      { ...event([market('a', 'Alice', 0.25), market('b', 'Bob', 0.75)]), slug: 'Who_Wins-2026' },
+    ])));
+    const clob = createMockClobClient();
+
+    const { distribution, result } = await importPolymarketEvent(clob, 'Who_Wins-2026', { b: 300 });
+
+    expect(result.market).toMatchObject({ id: 'who-wins-2026', kind: 'categorical', title: 'Who wins?' });
+    expect(clob.calls[0].args[0]).toMatchObject({
+      b: 300,
+      outcomes: ['Alice', 'Bob'],
+      initialPrices: distribution.prices,
+      source: { platform: 'polymarket', slug: 'Who_Wins-2026', eventId: 'e1', structure: 'exclusive' },
+    });
+  });
+
+  it('fails when Polymarket has no such event', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json([])));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(importPolymarketEvent(createMockClobClient(), 'missing')).rejects.toThrow(/not found/);
+  });
+});
+
+describe('measureDivergence', () => {
+  it('compares matching outcomes after renormalising the reference', () => {
+    const ours = {
+      marketId: 'm1',
+      onDate: [
+        { label: 'Alice', yesPrice: 0.5 },
+        { label: 'Bob', yesPrice: 0.3 },
+        { label: 'Carol', yesPrice: 0.2 },
+      ],
+    } as MarketPrices;
+    const reference = toAtomicDistribution(event([
+      market('a', 'Alice', 0.3),
+      market('b', 'Bob', 0.3),
+      market('d', 'Dan', 0.4),
+    ]));
+
+    const report = measureDivergence(ours, reference);
+
+    expect(report.outcomes.map(o => [o.label, o.polymarket, o.difference])).toEqual([
+      ['Alice', 0.5, 0],
+      ['Bob', 0.5, -0.2],
+      ['Carol', null, null],
+    ]);
+    expect(report.maxAbsDifference).toBe(0.2);
+    expect(report.meanAbsDifference).toBe(0.1);
+    expect(report.totalVariation).toBe(0.1);
+    expect(report.klDivergence).toBeGreaterThan(0);
+  });
+});
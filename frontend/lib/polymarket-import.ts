@@ -0,0 +1,279 @@
+import type { ClobClient, CreateMarketRequest, CreateMarketResult, MarketPrices } from '@/lib/clob';
+import { fetchEventBySlug, type PolymarketEvent } from '@/lib/polymarket';
+import {
+  classifyEvent,
+  type EventKind,
+  type FragmentStructure,
+  type PricingIssue,
+} from '@/lib/polymarket-classify';
+
+export type { FragmentStructure } from '@/lib/polymarket-classify';
+
+/**
+ * Polymarket price import
+ * Polymarket splits one question into binary sub-markets ("... on Feb 3?", "... by
+ * March?"). Their YES prices are mapped onto a single atomic distribution, which
+ * seeds a CLOB market and stays the benchmark our prices are compared against.
+ */
+
+export interface AtomicOutcome {
+  label: string;
+  /** Polymarket sub-market behind this outcome; null for a ladder's implied remainder */
+  marketId: string | null;
+}
+
+export interface AtomicDistribution {
+  eventId: string;
+  slug: string;
+  title: string;
+  structure: FragmentStructure;
+  kind: EventKind;
+  outcomes: AtomicOutcome[];
+  /** Probability per outcome, floored at MIN_PRICE and summing to 1 */
+  prices: number[];
+  /** How far exclusive YES prices sum past 1 (negative if short); 0 for cumulative */
+  overround: number;
+  /** Ladder steps priced below an earlier step that had to be lifted */
+  repaired: number;
+  /** Pricing inconsistencies the classifier found on Polymarket */
+  issues: PricingIssue[];
+}
+
+/** Every outcome keeps some probability: market makers can't be seeded at 0 */
+export const MIN_PRICE = 0.001;
+
+const DIVERGENCE_INTERVAL = 60000;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+function normalise(prices: number[]): number[] {
+  const floored = prices.map(p => Math.max(p, MIN_PRICE));
+  const total = floored.reduce((acc, p) => acc + p, 0);
+  return floored.map(p => p / total);
+}
+
+/**
+ * Map an event's sub-market prices onto one distribution over atomic outcomes
+ * The classifier picks the outcomes and their order; `structure` overrides how
+ * their prices are read, e.g. to keep benchmarking a market the way it was imported.
+ */
+export function toAtomicDistribution(event: PolymarketEvent, structure?: FragmentStructure): AtomicDistribution {
+  const classification = classifyEvent(event);
+  const read = structure ?? classification.structure;
+  const entries = classification.outcomes.flatMap(o => o.price === null ? [] : [{ ...o, price: o.price }]);
+  // One ladder step still splits into two outcomes: the step, and the remainder
+  if (entries.length < (read === 'cumulative' ? 1 : 2)) {
+    throw new Error(`Polymarket event ${event.slug} has too few open priced markets`);
+  }
+
+  const base = {
+    eventId: event.id,
+    slug: event.slug,
+    title: event.title,
+    structure: read,
+    kind: classification.kind,
+    issues: classification.issues,
+  };
+
+  if (read === 'exclusive') {
+    const total = entries.reduce((acc, e) => acc + e.price, 0);
+    return {
+      ...base,
+      outcomes: entries.map(({ label, marketId }) => ({ label, marketId })),
+      prices: normalise(entries.map(e => e.price)),
+      overround: round(total - 1),
+      repaired: 0,
+    };
+  }
+
+  // Step i covers what step i adds over step i-1 (e.g. the days between two
+  // deadlines); the remainder is whatever the last step leaves out
+  let repaired = 0;
+  let previous = 0;
+  const windows = entries.map(({ price }) => {
+    const cumulative = Math.min(Math.max(price, previous), 1);
+    if (price < previous) repaired++;
+    const window = cumulative - previous;
+    previous = cumulative;
+    return window;
+  });
+  const last = entries[entries.length - 1];
+
+  return {
+    ...base,
+    outcomes: [
+      ...entries.map(({ label, marketId }) => ({ label, marketId })),
+      { label: classification.remainder ?? `After ${last.label}`, marketId: null },
+    ],
+    prices: normalise([...windows, 1 - previous]),
+    overround: 0,
+    repaired,
+  };
+}
+
+export async function fetchPolymarketDistribution(
+  slug: string,
+  structure?: FragmentStructure
+): Promise<AtomicDistribution> {
+  const event = await fetchEventBySlug(slug);
+  if (!event) throw new Error(`Polymarket event ${slug} not found`);
+  return toAtomicDistribution(event, structure);
+}
+
+// ==================== IMPORT ====================
+
+export interface ImportOptions extends Omit<Partial<CreateMarketRequest>, 'outcomes' | 'initialPrices' | 'source'> {
+  /** Defaults to the classifier's reading of the event */
+  structure?: FragmentStructure;
+}
+
+export interface PolymarketImport {
+  distribution: AtomicDistribution;
+  result: CreateMarketResult;
+}
+
+/** Market ids are lowercase letters, digits and dashes */
+function marketIdFromSlug(slug: string): string {
+  return slug.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Create a CLOB market seeded at a Polymarket event's prices
+ * The client's signer must be a CLOB admin. Ladders keep their order, so the
+ * original "by" (or "above") questions are bundles of the imported steps.
+ */
+export async function importPolymarketEvent(
+  client: ClobClient,
+  slug: string,
+  { structure: override, ...options }: ImportOptions = {}
+): Promise<PolymarketImport> {
+  const distribution = await fetchPolymarketDistribution(slug, override);
+  const { structure } = distribution;
+  const cumulative = structure === 'cumulative';
+
+  const result = await client.createMarket({
+    id: marketIdFromSlug(slug),
+    title: distribution.title,
+    kind: distribution.kind,
+    events: [{ type: cumulative ? 'by_date' : 'on_date', description: distribution.title }],
+    ...options,
+    outcomes: distribution.outcomes.map(o => o.label),
+    initialPrices: distribution.prices,
+    source: { platform: 'polymarket', slug, eventId: distribution.eventId, structure },
+  });
+
+  return { distribution, result };
+}
+
+// ==================== DIVERGENCE ====================
+
+export interface OutcomeDivergence {
+  label: string;
+  ours: number;
+  /** null when Polymarket no longer lists the outcome */
+  polymarket: number | null;
+  /** ours - polymarket */
+  difference: number | null;
+}
+
+export interface DivergenceReport {
+  marketId: string;
+  slug: string;
+  outcomes: OutcomeDivergence[];
+  maxAbsDifference: number;
+  meanAbsDifference: number;
+  /** Half the summed absolute differences: the most any bet can gain from the gap */
+  totalVariation: number;
+  /** KL(polymarket || ours) in nats */
+  klDivergence: number;
+  timestamp: number;
+}
+
+/**
+ * Compare our prices with a Polymarket distribution, matching outcomes by label
+ * Outcomes either side no longer lists are left out of the totals, and Polymarket's
+ * remaining prices are renormalised over the ones that match.
+ */
+export function measureDivergence(ours: MarketPrices, reference: AtomicDistribution): DivergenceReport {
+  const referencePrices = new Map(reference.outcomes.map((o, i) => [o.label, reference.prices[i]]));
+  const matched = ours.onDate.filter(o => referencePrices.has(o.label));
+  const matchedTotal = matched.reduce((acc, o) => acc + (referencePrices.get(o.label) ?? 0), 0);
+
+  const rows = ours.onDate.map(o => {
+    const price = referencePrices.get(o.label);
+    return { label: o.label, ours: o.yesPrice, polymarket: price === undefined ? null : price / matchedTotal };
+  });
+
+  let maxAbs = 0;
+  let sumAbs = 0;
+  let kl = 0;
+  for (const row of rows) {
+    if (row.polymarket === null) continue;
+    const gap = Math.abs(row.ours - row.polymarket);
+    maxAbs = Math.max(maxAbs, gap);
+    sumAbs += gap;
+    kl += row.polymarket * Math.log(row.polymarket / Math.max(row.ours, MIN_PRICE));
+  }
+
+  return {
+    marketId: ours.marketId,
+    slug: reference.slug,
+    outcomes: rows.map(row => ({
+      label: row.label,
+      ours: row.ours,
+      polymarket: row.polymarket === null ? null : round(row.polymarket),
+      difference: row.polymarket === null ? null : round(row.ours - row.polymarket),
+    })),
+    maxAbsDifference: round(maxAbs),
+    meanAbsDifference: matched.length ? round(sumAbs / matched.length) : 0,
+    totalVariation: round(sumAbs / 2),
+    klDivergence: round(kl),
+    timestamp: Date.now(),
+  };
+}
+
+export interface DivergenceWatchOptions {
+  /** Defaults to the client's market */
+  marketId?: string;
+  slug: string;
+  /** Defaults to the classifier's reading of the event */
+  structure?: FragmentStructure;
+  /** Poll period in ms */
+  interval?: number;
+}
+
+export interface DivergenceWatchHandlers {
+  onReport: (report: DivergenceReport) => void;
+  onError?: (error: Error) => void;
+}
+
+/** Poll both venues and report divergence until stopped */
+export function watchPolymarketDivergence(
+  client: ClobClient,
+  { marketId, slug, structure, interval = DIVERGENCE_INTERVAL }: DivergenceWatchOptions,
+  { onReport, onError }: DivergenceWatchHandlers
+): { stop: () => void } {
+  let stopped = false;
+
+  const poll = async () => {
+    try {
+      const [ours, reference] = await Promise.all([
+        client.getPrices(marketId),
+        fetchPolymarketDistribution(slug, structure),
+      ]);
+      if (!stopped) onReport(measureDivergence(ours, reference));
+    } catch (error) {
+      if (!stopped) onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  poll();
+  const timer = setInterval(poll, interval);
+
+  return {
+    stop: () => {
+      stopped = true;
+      clearInterval(timer);
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import { classifyEvent, eventSeries } from '@/lib/polymarket-classify';
+
 export interface PolymarketMarket {
   id: string;
   question: string;
@@ -10,6 +12,8 @@ export interface PolymarketMarket {
   closed: boolean;
   liquidity: string;
   endDate: string;
+  /** Short label of this market within its event, e.g. "February 14" or "$90k" */
+  groupItemTitle?: string;
 }
 
 export interface PolymarketEvent {
@@ -64,27 +68,37 @@ export interface CategorizedEvents {
 }
 
 export function detectMarketType(event: PolymarketEvent): 'Range-based' | 'Event-based' {
-  // If the title or question contains range indicators like "FDV", "price", "between", or has many numerical outcomes
-  const title = (event.title || "").toLowerCase();
-  const description = (event.description || "").toLowerCase();
-
-  const rangeKeywords = ['fdv', 'price of', 'market cap', 'range', 'between', 'above', 'below', '$'];
-  const isRangeTitle = rangeKeywords.some(kw => title.includes(kw) || description.includes(kw));
-
-  // Check if any market in the event has outcomes that look like ranges (e.g., "$10k - $20k")
-  const hasRangeOutcomes = event.markets?.some(m => {
-    const outcomes = typeof m.outcomes === 'string' ? JSON.parse(m.outcomes) : m.outcomes;
-    return Array.isArray(outcomes) && outcomes.some(o => (o as string).includes('-') || (o as string).includes('$'));
-  });
+  return classifyEvent(event).kind === 'range' ? 'Range-based' : 'Event-based';
+}
 
-  return (isRangeTitle || hasRangeOutcomes) ? 'Range-based' : 'Event-based';
+const TRENDING_PER_SECTOR = 4;
+
+/**
+ * Open events worth showing as one merged market: enough related sub-markets,
+ * consistent pricing, not yet ended, and one event per recurring series
+ */
+export function selectFragmentedEvents(events: PolymarketEvent[], now = new Date()): PolymarketEvent[] {
+  const series = new Set<string>();
+  return events
+    .map(event => ({ event, classification: classifyEvent(event) }))
+    .filter(({ event, classification }) => {
+      if (!classification.fragmented || classification.issues.length > 0) return false;
+
+      const endDate = event.markets?.[0]?.endDate;
+      if (!endDate || new Date(endDate) <= now) return false;
+
+      const key = eventSeries(event);
+      if (series.has(key)) return false;
+      series.add(key);
+      return true;
+    })
+    .sort((a, b) => b.classification.outcomes.length - a.classification.outcomes.length)
+    .map(({ event }) => event);
 }
 
 export async function fetchTrendingEvents(): Promise<CategorizedEvents> {
   try {
-    console.log("fetchTrendingEvents: Starting fetch with date filtering...");
-
-    // Use order=volume to get the most relevant events
+    // Use order=volume so the first event of each series is its most traded
     const fetchBatch = (tagId: string, closed: boolean) =>
       fetch(`${PROXY_URL}?endpoint=events&tag_id=${tagId}&limit=200&closed=${closed}&order=volume&direction=desc`)
         .then(r => r.ok ? r.json() : []);
@@ -97,139 +111,13 @@ export async function fetchTrendingEvents(): Promise<CategorizedEvents> {
       fetchBatch('21', false),
     ]);
 
-    const now = new Date();
-
-    const blacklist = [
-      'oregon-republican',
-      'west-virginia-democratic-senate-primary-winner',
-      'oklahoma-democratic-senate-primary-winner',
-      'mark-kelly-charge',
-      'mike-lindell',
-      'stacey-plaskett',
-      'katie-porter',
-      'new-york-governor-democratic-primary-winner',
-      'steve-bannon',
-      'trump-say-education',
-      'kansas-democratic',
-      'delaware-democratic',
-      'karoline-leavitt',
-      'cbs-evening-news',
-      'republika-srpska',
-      'bush-say',
-      'trump-say',
-      'cheney-memorial',
-      'education-event',
-      'august-23'
-    ];
-
-    // Filter for fragmented events (high market count)
-    const processActive = (events: PolymarketEvent[], isPolitics: boolean) => {
-      let hasElon = false;
-      let hasPassenger = false;
-      return events
-        .filter(e => {
-          const slug = (e.slug || "").toLowerCase();
-          const title = (e.title || "").toLowerCase();
-
-          // Whitelist checks - ALWAYS KEEP THESE
-          const isElon16 = title.includes('elon musk') && title.includes('september 16');
-          if (isElon16) {
-            hasElon = true;
-            return true;
-          }
-          if (slug === 'ny-06-democratic-primary-winner' || slug.includes('xrp')) return true;
-          if (title.includes('dreamcash') || title.includes('penguin') || title.includes('hylo') || title.includes('xrp')) return true;
-          if (title.includes('who will trump pick')) return true;
-
-          // Limit Elon Musk to only one (if not already found via whitelist)
-          if (title.includes('elon musk')) {
-            if (hasElon) return false;
-            hasElon = true;
-            return true;
-          }
-
-          // Limit TSA Passengers to only one
-          if (title.includes('passenger') || title.includes('tsa')) {
-            if (hasPassenger) return false;
-            hasPassenger = true;
-            return true;
-          }
-
-          // Blacklist checks
-          if (blacklist.some(b => slug.includes(b) || title.includes(b))) return false;
-
-          // Repetitive binary house elections
-          if (isPolitics && title.includes("house election winner") && !title.includes("ny-06")) return false;
-
-          const markets = e.markets || [];
-          // Require > 3 markets for non-whitelisted to avoid "2 options" issues
-          if (markets.length <= 3) return false;
-
-          const mainMarket = markets[0];
-          if (!mainMarket?.endDate) return false;
-          return new Date(mainMarket.endDate) > now;
-        })
-        .sort((a, b) => {
-          // Priority for whitelisted
-          const aWhite = (a.title || "").toLowerCase().match(/ny-06|xrp|dreamcash|penguin|hylo|who will trump pick|elon musk|passenger|tsa/) ? 1 : 0;
-          const bWhite = (b.title || "").toLowerCase().match(/ny-06|xrp|dreamcash|penguin|hylo|who will trump pick|elon musk|passenger|tsa/) ? 1 : 0;
-          if (aWhite !== bWhite) return bWhite - aWhite;
-          return (b.markets?.length || 0) - (a.markets?.length || 0);
-        })
-        .slice(0, 4);
-    };
-
-    const processResolved = (events: PolymarketEvent[]) => {
-      let hasElon = false;
-      let hasPassenger = false;
-      return events
-        .filter(e => {
-          const slug = (e.slug || "").toLowerCase();
-          const title = (e.title || "").toLowerCase();
-
-          // Specific date whitelist
-          if (title.includes('elon musk') && title.includes('september 16')) {
-            hasElon = true;
-            return true;
-          }
-
-          // Blacklist requested binaries/bad logic
-          if (blacklist.some(b => slug.includes(b) || title.includes(b))) return false;
-
-          // Limit Elon Musk to only one
-          if (title.includes('elon musk')) {
-            if (hasElon) return false;
-            hasElon = true;
-            return true;
-          }
-
-          // Limit TSA Passengers
-          if (title.includes('passenger') || title.includes('tsa')) {
-            if (hasPassenger) return false;
-            hasPassenger = true;
-            return true;
-          }
-
-          // Ensure we only show fragmented outcomes (min 4 sub-markets)
-          return e.markets && e.markets.length > 3;
-        })
-        .sort((a, b) => {
-          // Priority for whitelisted patterns in resolved
-          const aWhite = (a.title || "").toLowerCase().match(/who will trump pick|elon musk|passenger|tsa/) ? 1 : 0;
-          const bWhite = (b.title || "").toLowerCase().match(/who will trump pick|elon musk|passenger|tsa/) ? 1 : 0;
-          if (aWhite !== bWhite) return bWhite - aWhite;
-          return (b.markets?.length || 0) - (a.markets?.length || 0);
-        })
-        .slice(0, 4);
-    };
-
     return {
       politics: {
-        active: processActive(politicsActiveRaw, true),
+        active: selectFragmentedEvents(politicsActiveRaw).slice(0, TRENDING_PER_SECTOR),
         resolved: []
       },
       crypto: {
-        active: processActive(cryptoActiveRaw, false),
+        active: selectFragmentedEvents(cryptoActiveRaw).slice(0, TRENDING_PER_SECTOR),
         resolved: []
       }
     };
@@ -0,0 +1,39 @@
+import { Interface } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { RAILGUN_ADAPTER_ADDRESS } from '../constants';
+import { RAILGUN_ADAPTER_ABI, adapterSwapCalls, afterUnshieldFee, minSwapOutput, quoteSwapOutput } from './adapterSwap';
+
+const WETH = '0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9';
+const MARKET = '0x' + 'ab'.repeat(32);
+
+describe('afterUnshieldFee', () => {
+  it('keeps the amount less 0.25%, rounding the fee down', () => {
+    expect(afterUnshieldFee(10_000n)).toBe(9_975n);
+    expect(afterUnshieldFee(399n)).toBe(399n);
+    expect(afterUnshieldFee(401n)).toBe(400n);
+  });
+});
+
+describe('minSwapOutput', () => {
+  it('takes the slippage off the factory quote', () => {
+    expect(quoteSwapOutput(10_000n)).toBe(9_970n);
+    expect(minSwapOutput(10_000n)).toBe(9_871n);
+    expect(minSwapOutput(10_000n, 0n)).toBe(9_970n);
+  });
+});
+
+describe('adapterSwapCalls', () => {
+  it('approves the adapter for exactly the input, then swaps it', () => {
+    const [approve, swap] = adapterSwapCalls({
+      marketId: MARKET, tokenIn: WETH, tokenInIndex: 999, tokenOutIndex: 1, amountIn: 5n, minAmountOut: 4n,
+    });
+
+    const erc20 = new Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+    expect(approve.to).toBe(WETH);
+    expect([...erc20.decodeFunctionData('approve', approve.data)]).toEqual([RAILGUN_ADAPTER_ADDRESS, 5n]);
+
+    expect(swap.to).toBe(RAILGUN_ADAPTER_ADDRESS);
+    const args = new Interface(RAILGUN_ADAPTER_ABI).decodeFunctionData('swap', swap.data);
+    expect([...args]).toEqual([MARKET, 999n, 1n, 5n, 4n]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * RailgunPrivacyAdapter Swaps
+ *
+ * The adapter pulls a swap's input from its caller and pays the output back
+ * (swap), or shields it straight to a 0zk address (swapAndShield). In full
+ * RAILGUN mode the caller is RAILGUN's RelayAdapt: one relayed transaction
+ * unshields the input to RelayAdapt, runs adapterSwapCalls, and shields
+ * RelayAdapt's output balance to the trader, so nothing rests in a public
+ * account between steps.
+ */
+
+import { Interface, type ContractTransaction } from 'ethers';
+import { RAILGUN_ADAPTER_ADDRESS } from '../constants';
+
+export const RAILGUN_ADAPTER_ABI = [
+  'function swap(bytes32 marketId, uint256 tokenInIndex, uint256 tokenOutIndex, uint256 amountIn, uint256 minAmountOut) returns (uint256)',
+  'function swapAndShield(bytes32 marketId, uint256 tokenInIndex, uint256 tokenOutIndex, uint256 amountIn, uint256 minAmountOut, tuple(tuple(bytes32 npk, tuple(uint8 tokenType, address tokenAddress, uint256 tokenSubID) token, uint120 value) preimage, tuple(bytes32[3] encryptedBundle, bytes32 shieldKey) ciphertext) shieldRequest) returns (uint256)',
+];
+
+const ADAPTER = new Interface(RAILGUN_ADAPTER_ABI);
+const ERC20 = new Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+
+// RAILGUN's unshield fee, taken from the unshielded amount
+export const UNSHIELD_FEE_BPS = 25n;
+
+// Default room below the quote before a swap reverts
+export const DEFAULT_SLIPPAGE_BPS = 100n;
+
+/** What an unshield of `amount` delivers, rounded the way the RAILGUN proxy does */
+export function afterUnshieldFee(amount: bigint): bigint {
+  return amount - (amount * UNSHIELD_FEE_BPS) / 10000n;
+}
+
+/** Expected swap output; mirrors PredictionMarketFactory._calculateSwapOutput (0.3% fee) */
+export function quoteSwapOutput(amountIn: bigint): bigint {
+  return (amountIn * 997n) / 1000n;
+}
+
+/** Least a swap of `amountIn` may pay out: the quote less `slippageBps` */
+export function minSwapOutput(amountIn: bigint, slippageBps: bigint = DEFAULT_SLIPPAGE_BPS): bigint {
+  const quote = quoteSwapOutput(amountIn);
+  return quote - (quote * slippageBps) / 10000n;
+}
+
+export interface AdapterSwap {
+  marketId: string;
+  /** Token RelayAdapt holds after the unshield */
+  tokenIn: string;
+  tokenInIndex: number;
+  tokenOutIndex: number;
+  amountIn: bigint;
+  minAmountOut: bigint;
+}
+
+/**
+ * RelayAdapt calls for one adapter swap: approve the adapter for the
+ * unshielded input, then swap it
+ */
+export function adapterSwapCalls(swap: AdapterSwap): ContractTransaction[] {
+  return [
+    {
+      to: swap.tokenIn,
+      data: ERC20.encodeFunctionData('approve', [RAILGUN_ADAPTER_ADDRESS, swap.amountIn]),
+    },
+    {
+      to: RAILGUN_ADAPTER_ADDRESS,
+      data: ADAPTER.encodeFunctionData('swap', [
+        swap.marketId,
+        BigInt(swap.tokenInIndex),
+        BigInt(swap.tokenOutIndex),
+        swap.amountIn,
+        swap.minAmountOut,
+      ]),
+    },
+  ];
+}
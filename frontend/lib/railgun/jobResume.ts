@@ -0,0 +1,14 @@
+/**
+ * Relayer Job Resume Authorization
+ *
+ * Resuming a relayer job spends relayer gas on someone's funds, so only the
+ * job's owner may do it: the request carries a signature from the job's
+ * userAddress over this message, valid until `expiry` (unix seconds).
+ */
+
+// Longest a resume signature may be valid for
+export const MAX_RESUME_WINDOW_SECONDS = 3600;
+
+export function jobResumeMessage(jobId: string, expiry: number): string {
+  return `Resume relayer job ${jobId}\nValid until: ${expiry}`;
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Wallet } from 'ethers';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { jobResumeMessage } from './jobResume';
+
+// Serverless mode keeps job files under /tmp rather than the working tree
+const relayer = vi.hoisted(() => {
+  process.env.VERCEL = '1';
+  const receipt = (hash: string) => ({ hash, status: 1 });
+  return {
+    receipt,
+    sent: [] as string[],
+    // Hashes the chain knows about, and whether they succeeded
+    chain: new Map<string, number>(),
+  };
+});
+
+vi.mock('./relayer', () => ({
+  relayerService: {
+    sendAndWait: async (send: () => Promise<{ hash: string }>) => {
+      const { hash } = await send();
+      relayer.sent.push(hash);
+      return relayer.receipt(hash);
+    },
+    getProvider: () => ({
+      getTransaction: async (hash: string) => (relayer.chain.has(hash) ? { hash } : null),
+      waitForTransaction: async (hash: string) => ({ hash, status: relayer.chain.get(hash) }),
+    }),
+  },
+}));
+
+const { jobView, relayerJobs, runStepDirectly } = await import('./jobs');
+
+const created: string[] = [];
+
+const owner = Wallet.createRandom();
+
+async function createJob() {
+  const job = await relayerJobs.create('transfer', { userAddress: owner.address });
+  created.push(job.id);
+  return job;
+}
+
+async function stored(id: string) {
+  return JSON.parse(await fs.promises.readFile(path.join('/tmp/relayer-jobs', `${id}.json`), 'utf8'));
+}
+
+beforeEach(() => {
+  relayer.sent.length = 0;
+  relayer.chain.clear();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  await Promise.all(created.map(id => fs.promises.rm(path.join('/tmp/relayer-jobs', `${id}.json`), { force: true })));
+  await fs.promises.rm('/tmp/relayer-jobs/nonces', { recursive: true, force: true });
+});
+
+describe('relayerJobs', () => {
+  it('persists new jobs and loads them back', async () => {
+    const job = await createJob();
+
+    expect(job).toMatchObject({ kind: 'transfer', status: 'running', steps: {}, progress: [] });
+    await expect(relayerJobs.get(job.id)).resolves.toMatchObject({ id: job.id, request: { userAddress: owner.address } });
+    await expect(relayerJobs.get('../etc/passwd')).resolves.toBeNull();
+    await expect(relayerJobs.get('00000000-0000-0000-0000-000000000000')).resolves.toBeNull();
+  });
+
+  it('records each step and its transaction hash', async () => {
+    const job = await createJob();
+    const step = relayerJobs.stepRunner(job);
+
+    const output = await step('shield', async send => {
+      await send(async () => ({ hash: '0xaa' }));
+      return { amount: '5' };
+    });
+
+    expect(output).toEqual({ amount: '5' });
+    expect(relayer.sent).toEqual(['0xaa']);
+    expect(job.steps.shield).toMatchObject({ status: 'done', txHash: '0xaa', output: { amount: '5' } });
+    expect((await stored(job.id)).steps.shield.txHash).toBe('0xaa');
+  });
+
+  it('skips finished steps and waits on a sent transaction when resumed', async () => {
+    const job = await createJob();
+    job.steps.pull = { status: 'done', output: { amount: '7' }, updatedAt: '' };
+    job.steps.shield = { status: 'error', txHash: '0xbb', updatedAt: '' };
+    relayer.chain.set('0xbb', 1);
+    const step = relayerJobs.stepRunner(job);
+    const run = vi.fn(async () => ({ amount: '0' }));
+
+    await expect(step('pull', run)).resolves.toEqual({ amount: '7' });
+    expect(run).not.toHaveBeenCalled();
+
+    await step('shield', async send => {
+      await send(async () => ({ hash: '0xnew' }));
+      return {};
+    });
+    expect(relayer.sent).toEqual([]);
+    expect(job.steps.shield).toMatchObject({ status: 'done', txHash: '0xbb' });
+  });
+
+  it('sends again when the earlier transaction reverted', async () => {
+    const job = await createJob();
+    job.steps.shield = { status: 'error', txHash: '0xcc', updatedAt: '' };
+    relayer.chain.set('0xcc', 0);
+
+    await relayerJobs.stepRunner(job)('shield', async send => {
+      await send(async () => ({ hash: '0xdd' }));
+      return {};
+    });
+
+    expect(relayer.sent).toEqual(['0xdd']);
+    expect(job.steps.shield.txHash).toBe('0xdd');
+  });
+
+  it('records a failing step and rethrows', async () => {
+    const job = await createJob();
+
+    await expect(relayerJobs.stepRunner(job)('swap', async () => {
+      throw new Error('reverted');
+    })).rejects.toThrow('reverted');
+    expect(job.steps.swap).toMatchObject({ status: 'error', error: 'reverted' });
+  });
+
+  it('streams a run to watchers until it finishes', async () => {
+    const job = await createJob();
+    let release = () => {};
+    const gate = new Promise<void>(resolve => { release = resolve; });
+
+    relayerJobs.run(job, async () => {
+      relayerJobs.report(job, 'first');
+      await gate;
+      relayerJobs.report(job, 'second');
+      return { status: 'complete', result: { ok: true } };
+    });
+    expect(relayerJobs.isRunning(job.id)).toBe(true);
+
+    const seen: unknown[] = [];
+    const watching = (async () => {
+      for await (const progress of relayerJobs.watch(job.id)) seen.push(progress);
+    })();
+    release();
+    await watching;
+
+    expect(seen).toEqual(['first', 'second']);
+    expect(relayerJobs.isRunning(job.id)).toBe(false);
+    expect(await stored(job.id)).toMatchObject({ status: 'complete', result: { ok: true }, progress: ['first', 'second'] });
+  });
+});
+
+describe('runStepDirectly', () => {
+  it('sends through the relayer without recording anything', async () => {
+    await runStepDirectly('pull', async send => {
+      await send(async () => ({ hash: '0xee' }));
+      return {};
+    });
+
+    expect(relayer.sent).toEqual(['0xee']);
+  });
+});
+
+describe('authorizeResume', () => {
+  const inAMinute = () => Math.floor(Date.now() / 1000) + 60;
+
+  it('accepts the owner\'s signature over the job and expiry', async () => {
+    const job = await createJob();
+    const expiry = inAMinute();
+    const signature = await owner.signMessage(jobResumeMessage(job.id, expiry));
+
+    expect(() => relayerJobs.authorizeResume(job, { expiry, signature })).not.toThrow();
+  });
+
+  it('rejects missing, expired, long-lived, foreign and mismatched signatures', async () => {
+    const job = await createJob();
+    const expiry = inAMinute();
+    const stranger = Wallet.createRandom();
+    const sign = (wallet: typeof owner, id: string, at: number) => wallet.signMessage(jobResumeMessage(id, at));
+    const past = expiry - 120;
+    const far = expiry + 7200;
+
+    expect(() => relayerJobs.authorizeResume(job)).toThrow(/missing resumeAuth/);
+    expect(() => relayerJobs.authorizeResume(job, { expiry: past, signature: '0x' })).toThrow(/expired/);
+    expect(() => relayerJobs.authorizeResume(job, { expiry: far, signature: '0x' })).toThrow(/too long-lived/);
+    expect(() => relayerJobs.authorizeResume(job, { expiry, signature: '0x1234' })).toThrow(/invalid signature/);
+    const foreign = await sign(stranger, job.id, expiry);
+    expect(() => relayerJobs.authorizeResume(job, { expiry, signature: foreign })).toThrow(/not signed by the job owner/);
+    // Signed for another job, or for a different expiry
+    const otherJob = await sign(owner, (await createJob()).id, expiry);
+    expect(() => relayerJobs.authorizeResume(job, { expiry, signature: otherJob })).toThrow(/not signed by the job owner/);
+    const otherExpiry = await sign(owner, job.id, expiry);
+    expect(() => relayerJobs.authorizeResume(job, { expiry: expiry + 1, signature: otherExpiry })).toThrow(/not signed by the job owner/);
+  });
+});
+
+describe('claimNonce', () => {
+  it('spends a nonce once per account', async () => {
+    const nonce = randomUUID();
+    const stranger = Wallet.createRandom();
+
+    await relayerJobs.claimNonce(owner.address, nonce);
+    await expect(relayerJobs.claimNonce(owner.address.toLowerCase(), nonce)).rejects.toThrow(/already used/);
+    await expect(relayerJobs.claimNonce(stranger.address, nonce)).resolves.toBeUndefined();
+  });
+});
+
+describe('jobView', () => {
+  it('leaves out the request', async () => {
+    const job = await createJob();
+
+    expect(jobView(job)).not.toHaveProperty('request');
+    expect(jobView(job)).toMatchObject({ id: job.id, kind: 'transfer', status: 'running' });
+  });
+});
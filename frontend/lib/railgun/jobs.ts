@@ -0,0 +1,368 @@
+/**
+ * Relayer Job Store
+ *
+ * Private swaps and transfers move user funds through several relayer
+ * transactions (pull → shield → unshield → swap). Each run is a job persisted
+ * as one JSON file, with a record per step, so a request that dies halfway
+ * leaves a trail and can be resumed:
+ * - steps that finished are skipped, reusing their stored output
+ * - a step records its transaction hash as soon as it is sent, so a resumed
+ *   step waits for that transaction instead of sending it again
+ *
+ * Jobs are kept in ./relayer-jobs locally and /tmp/relayer-jobs on serverless,
+ * where they only last as long as the instance. They hold no keys: requests
+ * carry public addresses, permits and already-proved transactions.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { verifyMessage } from "ethers";
+import { relayerService, type TxSender } from "./relayer";
+import { jobResumeMessage, MAX_RESUME_WINDOW_SECONDS } from "./jobResume";
+import type {
+  RelayerJob,
+  RelayerJobKind,
+  RelayerJobStatus,
+  RelayerJobView,
+  JobResumeAuth,
+  JobStepOutput,
+} from "./types";
+
+const isServerless = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME !== undefined;
+const JOBS_DIR = isServerless ? '/tmp/relayer-jobs' : path.join(process.cwd(), "relayer-jobs");
+
+// Job IDs become file names, so only accept what randomUUID produces
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Runs one named step of a pipeline. The step sends at most one transaction,
+ * through `send`, and returns what later steps need from it.
+ */
+export type StepRunner = <T extends JobStepOutput>(
+  name: string,
+  run: (send: TxSender) => Promise<T>
+) => Promise<T>;
+
+/**
+ * Runs steps straight through, for callers outside a job
+ */
+export const runStepDirectly: StepRunner = (_name, run) => run(relayerService.sendAndWait);
+
+const now = () => new Date().toISOString();
+
+/**
+ * What GET /api/relayer/jobs/:id shows: everything but the request, which
+ * carries the owner's permits and authorizations
+ */
+export function jobView(job: RelayerJob): RelayerJobView {
+  const { id, kind, status, steps, progress, result, error, createdAt, updatedAt } = job;
+  return { id, kind, status, steps, progress, result, error, createdAt, updatedAt };
+}
+
+class RelayerJobStore {
+  private static instance: RelayerJobStore | null = null;
+  private events = new EventEmitter();
+  // Jobs running in this process; watchers read their progress from here
+  private live = new Map<string, RelayerJob>();
+  // One write at a time per job file
+  private writes = new Map<string, Promise<void>>();
+
+  private constructor() {
+    this.events.setMaxListeners(0);
+  }
+
+  static getInstance(): RelayerJobStore {
+    if (!RelayerJobStore.instance) {
+      RelayerJobStore.instance = new RelayerJobStore();
+    }
+    return RelayerJobStore.instance;
+  }
+
+  private jobPath(id: string): string {
+    return path.join(JOBS_DIR, `${id}.json`);
+  }
+
+  private save(job: RelayerJob): Promise<void> {
+    job.updatedAt = now();
+    const snapshot = JSON.stringify(job, null, 2);
+    const file = this.jobPath(job.id);
+
+    // Write then rename, so a crash never leaves a half-written job
+    const write = (this.writes.get(job.id) ?? Promise.resolve()).then(async () => {
+      await fs.promises.mkdir(JOBS_DIR, { recursive: true });
+      await fs.promises.writeFile(`${file}.tmp`, snapshot);
+      await fs.promises.rename(`${file}.tmp`, file);
+    });
+    this.writes.set(job.id, write.catch((error) => {
+      console.error(`[Jobs] Failed to persist job ${job.id}:`, error);
+    }));
+    return write;
+  }
+
+  /**
+   * Create and persist a new job.
+   */
+  async create<TRequest, TProgress = unknown, TResult = unknown>(
+    kind: RelayerJobKind,
+    request: TRequest
+  ): Promise<RelayerJob<TRequest, TProgress, TResult>> {
+    const job: RelayerJob<TRequest, TProgress, TResult> = {
+      id: randomUUID(),
+      kind,
+      status: 'running',
+      request,
+      steps: {},
+      progress: [],
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    await this.save(job as RelayerJob);
+    console.log(`[Jobs] Created ${kind} job ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Load a job, preferring the live copy if it is running in this process.
+   */
+  async get<TRequest = unknown, TProgress = unknown, TResult = unknown>(
+    id: string
+  ): Promise<RelayerJob<TRequest, TProgress, TResult> | null> {
+    if (!JOB_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    const live = this.live.get(id);
+    if (live) {
+      return live as RelayerJob<TRequest, TProgress, TResult>;
+    }
+
+    try {
+      const stored = await fs.promises.readFile(this.jobPath(id), "utf8");
+      return JSON.parse(stored) as RelayerJob<TRequest, TProgress, TResult>;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check that `auth` is the job owner's signature to resume it; throws if not.
+   */
+  authorizeResume(job: RelayerJob<{ userAddress: string }>, auth?: JobResumeAuth): void {
+    const denied = (reason: string) => new Error(`Not authorized to resume job ${job.id}: ${reason}`);
+    if (!auth?.signature || !Number.isInteger(auth.expiry)) {
+      throw denied('missing resumeAuth');
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (auth.expiry < nowSeconds || auth.expiry > nowSeconds + MAX_RESUME_WINDOW_SECONDS) {
+      throw denied('resumeAuth expired or too long-lived');
+    }
+
+    let signer: string;
+    try {
+      signer = verifyMessage(jobResumeMessage(job.id, auth.expiry), auth.signature);
+    } catch {
+      throw denied('invalid signature');
+    }
+    if (signer.toLowerCase() !== job.request.userAddress.toLowerCase()) {
+      throw denied('not signed by the job owner');
+    }
+  }
+
+  /**
+   * Spend a one-time authorization nonce of `account`; throws if it was
+   * spent before. Nonces are files under the job store, created exclusively.
+   */
+  async claimNonce(account: string, nonce: string): Promise<void> {
+    const key = createHash("sha256").update(`${account.toLowerCase()}:${nonce}`).digest("hex");
+    const dir = path.join(JOBS_DIR, "nonces");
+    await fs.promises.mkdir(dir, { recursive: true });
+    try {
+      await fs.promises.writeFile(path.join(dir, key), now(), { flag: "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new Error(`Not authorized: nonce ${nonce} was already used`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a job is running in this process.
+   */
+  isRunning(id: string): boolean {
+    return this.live.has(id);
+  }
+
+  /**
+   * Run a job in the background, detached from the request that started it.
+   * The progress log is reset so watchers only see this run; the step
+   * records carry over, which is what makes the run a resume.
+   */
+  run<TRequest, TProgress, TResult>(
+    job: RelayerJob<TRequest, TProgress, TResult>,
+    task: () => Promise<{ status: RelayerJobStatus; result?: TResult; error?: string }>
+  ): void {
+    if (this.live.has(job.id)) {
+      return;
+    }
+
+    job.status = 'running';
+    job.progress = [];
+    job.error = undefined;
+    this.live.set(job.id, job as RelayerJob);
+    void this.save(job as RelayerJob);
+
+    task()
+      .then(({ status, result, error }) => this.finish(job, status, result, error))
+      .catch((error) => this.finish(job, 'error', undefined, error instanceof Error ? error.message : String(error)));
+  }
+
+  /**
+   * Record the outcome of a run and wake its watchers.
+   */
+  async finish<TRequest, TProgress, TResult>(
+    job: RelayerJob<TRequest, TProgress, TResult>,
+    status: RelayerJobStatus,
+    result?: TResult,
+    error?: string
+  ): Promise<void> {
+    job.status = status;
+    job.result = result;
+    job.error = error;
+    console.log(`[Jobs] ${job.kind} job ${job.id}: ${status}${error ? ` (${error})` : ''}`);
+
+    try {
+      await this.save(job as RelayerJob);
+    } finally {
+      this.live.delete(job.id);
+      this.events.emit(`finish:${job.id}`);
+    }
+  }
+
+  /**
+   * Append a progress event to a job's log and pass it to watchers.
+   */
+  report<TProgress>(job: RelayerJob<unknown, TProgress>, progress: TProgress): void {
+    job.progress.push(progress);
+    this.events.emit(`progress:${job.id}`, progress);
+    void this.save(job as RelayerJob);
+  }
+
+  /**
+   * Step runner bound to a job: finished steps return their stored output,
+   * and the others persist their transaction hash before waiting on it.
+   */
+  stepRunner(job: RelayerJob): StepRunner {
+    return async <T extends JobStepOutput>(name: string, run: (send: TxSender) => Promise<T>): Promise<T> => {
+      const previous = job.steps[name];
+      if (previous?.status === 'done') {
+        console.log(`[Jobs] ${job.id} ${name}: already done, skipping`);
+        return (previous.output ?? {}) as T;
+      }
+
+      job.steps[name] = { status: 'running', txHash: previous?.txHash, updatedAt: now() };
+      await this.save(job);
+
+      const send: TxSender = async (sendTx) => {
+        const sentBefore = job.steps[name].txHash;
+        if (sentBefore) {
+          const receipt = await this.awaitPrevious(sentBefore);
+          if (receipt) {
+            console.log(`[Jobs] ${job.id} ${name}: resumed with ${sentBefore}`);
+            return receipt;
+          }
+        }
+
+        return relayerService.sendAndWait(async () => {
+          const response = await sendTx();
+          job.steps[name].txHash = response.hash;
+          await this.save(job);
+          return response;
+        });
+      };
+
+      try {
+        const output = await run(send);
+        job.steps[name] = { ...job.steps[name], status: 'done', output, error: undefined, updatedAt: now() };
+        await this.save(job);
+        return output;
+      } catch (error) {
+        job.steps[name] = {
+          ...job.steps[name],
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          updatedAt: now(),
+        };
+        await this.save(job);
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Wait for a transaction an earlier run sent. Returns null if it was dropped
+   * or reverted, in which case the step sends a new one.
+   */
+  private async awaitPrevious(txHash: string) {
+    const provider = relayerService.getProvider();
+    const pending = await provider.getTransaction(txHash);
+    if (!pending) {
+      return null;
+    }
+
+    const receipt = await provider.waitForTransaction(txHash);
+    return receipt?.status === 1 ? receipt : null;
+  }
+
+  /**
+   * Stream a job's progress: the current run's events so far, then live ones
+   * until the run finishes. Jobs not running here replay their log and end.
+   */
+  async *watch<TProgress>(id: string): AsyncGenerator<TProgress> {
+    const live = this.live.get(id);
+    if (!live) {
+      const stored = await this.get<unknown, TProgress>(id);
+      for (const progress of stored?.progress ?? []) {
+        yield progress;
+      }
+      return;
+    }
+
+    // Snapshot and subscribe in the same tick, so no event is missed or doubled
+    const queue = [...live.progress] as TProgress[];
+    let finished = false;
+    let wake: (() => void) | null = null;
+
+    const onProgress = (progress: TProgress) => {
+      queue.push(progress);
+      wake?.();
+    };
+    const onFinish = () => {
+      finished = true;
+      wake?.();
+    };
+    this.events.on(`progress:${id}`, onProgress);
+    this.events.once(`finish:${id}`, onFinish);
+
+    try {
+      while (!finished || queue.length > 0) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+        } else {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+          wake = null;
+        }
+      }
+    } finally {
+      this.events.off(`progress:${id}`, onProgress);
+      this.events.off(`finish:${id}`, onFinish);
+    }
+  }
+}
+
+export const relayerJobs = RelayerJobStore.getInstance();
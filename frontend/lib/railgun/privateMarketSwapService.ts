@@ -3,54 +3,84 @@
  *
  * FULL RAILGUN MODE (default, fastMode=false) — uses RAILGUN proxy per docs:
  *   https://docs.railgun.org/developer-guide/wallet/getting-started
+ *   stage 'shield':
  *   1. Pull WETH from user (relayer pays gas)
  *   2. Relayer shields WETH into RAILGUN proxy (tokens go to proxy, not adapter)
+ *   in the browser, which holds the wallet keys:
  *   3. Wait for POI (Proof of Innocence)
- *   4. Generate ZK unshield proof
- *   5. Relayer executes unshield from proxy to RailgunPrivacyAdapter
- *   6. Relayer calls adapter.privateSwap() → factory.buyOutcomeToken()
- *   Privacy: tokens flow through the proxy; unshield/swap not linked to user EOA.
+ *   4. Prove RelayAdapt cross-contract calls: unshield to RelayAdapt →
+ *      adapter.swap() → shield the output to the buyer's 0zk address
+ *   stage 'swap':
+ *   5. Relayer broadcasts that transaction. RelayAdapt runs all three steps
+ *      atomically, so the input never sits in a public account where it could
+ *      be taken or front-run, and the position is never held by one.
+ *   Privacy: tokens flow through the proxy; unshield/swap not linked to user
+ *   EOA. The server never sees the mnemonic or the wallet's keys.
  *
  * FAST MODE (fastMode=true) — skips proxy (demo only):
- *   Relayer transfers WETH directly to adapter. User EOA is still visible in
- *   the initial transferFrom. Use full RAILGUN mode for real privacy.
+ *   Relayer pulls WETH from the user and calls adapter.swapAndShield(), which
+ *   takes it from the relayer, swaps, and shields the output to the buyer's
+ *   0zk address. User EOA is still visible in the initial transferFrom. Use
+ *   full RAILGUN mode for real privacy.
  *
- * Flow (Sell — Outcome Token → WETH): future implementation
+ * SELL (Outcome Token → WETH), same two modes:
+ *   1. Full mode: shield the outcome tokens to the seller's 0zk address (the
+ *      browser skips this stage when they are already shielded), then the
+ *      browser proves the RelayAdapt calls and the 'swap' stage broadcasts them
+ *   2. The adapter calls factory.sellOutcomeToken() and the WETH proceeds are
+ *      shielded to the seller's 0zk address in the same transaction, so the
+ *      exit never lands in a public wallet
+ *   Fast mode pulls the tokens straight from the user's EOA instead of step 1.
+ *
+ * Only the relayer (or the adapter's owner) may swap through the adapter, and
+ * a swap only trades what its caller hands over. Pulling from userAddress
+ * needs userAddress's signature over the trade (see ./swapAuth), and that
+ * signature covers the quoted minimum the adapter must pay out.
+ *
+ * Every swap runs as a relayer job (see ./jobs): each on-chain step is recorded
+ * as it happens, the 'swap' stage continues the job its 'shield' stage started,
+ * and a dropped request is resumed by resubmitting with the job's ID.
  */
 
 import { ethers, Contract } from 'ethers';
 import {
-    NetworkName,
-    TXIDVersion,
     EVMGasType,
     NETWORK_CONFIG as RAILGUN_NETWORK_CONFIG,
-    calculateGasPrice,
     type RailgunERC20AmountRecipient,
 } from '@railgun-community/shared-models';
 import {
-    refreshBalances,
-    balanceForERC20Token,
-    walletForID,
     getShieldPrivateKeySignatureMessage,
     gasEstimateForShield,
+    getRelayAdaptTransactionError,
     populateShield,
-    gasEstimateForUnprovenUnshield,
-    generateUnshieldProof,
-    populateProvedUnshield,
 } from '@railgun-community/wallet';
+import {
+    RailgunEngine,
+    ShieldNoteERC20,
+    ByteUtils,
+    type ShieldRequestStruct,
+} from '@railgun-community/engine';
 import { keccak256, toUtf8Bytes } from 'ethers';
 
 import { railgunEngine } from './engine';
-import { relayerService } from './relayer';
-import { railgunWallet } from './wallet';
+import { relayerService, type TxSender } from './relayer';
+import { relayerJobs, runStepDirectly, type StepRunner } from './jobs';
+import { RAILGUN_ADAPTER_ABI } from './adapterSwap';
+import { verifySwapAuthorization } from './swapAuth';
 import {
+    FACTORY_ADDRESS,
     RAILGUN_ADAPTER_ADDRESS,
     SEPOLIA_WETH,
 } from '../constants';
+import { PREDICTION_MARKET_FACTORY_ABI } from '../abis/PredictionMarketFactory';
 import type {
     PrivateSwapStep,
     PrivateSwapProgress,
     PrivateSwapResult,
+    ProvedTransaction,
+    RelayerJob,
+    JobResumeAuth,
+    SwapAuthorization,
 } from './types';
 
 // ─── Request Type ────────────────────────────────────────────────────────────
@@ -60,18 +90,30 @@ export interface PrivateMarketSwapRequest {
     marketId: string;
     tokenInIndex: number;   // 999 = collateral (WETH), 1 = YES, 2 = NO
     tokenOutIndex: number;  // 999 = collateral (WETH), 1 = YES, 2 = NO
-    amount: string;         // WETH amount in wei (string for serialization)
+    amount: string;         // Input amount in wei: WETH for buys, outcome tokens for sells
+    minAmountOut: string;   // Least the swap may pay out, from the user's quote (see ./adapterSwap)
     action: 'buy' | 'sell';
 
     // Fast mode: skip RAILGUN proxy, relayer sends WETH directly to adapter (demo only).
-    // Default false = use full RAILGUN flow (shield → proxy → unshield → adapter).
+    // Default false = use full RAILGUN flow (shield → proxy → RelayAdapt unshield → adapter).
     fastMode?: boolean;     // default false = use proxy
 
-    // RAILGUN wallet identity (recreated each request for serverless safety)
-    senderWalletID: string;
+    // Full mode runs as two requests around the browser's proof:
+    // 'shield' pulls the input from userAddress and shields it to senderRailgunAddress,
+    // 'swap' broadcasts provedSwap (RelayAdapt: unshield → adapter.swap → shield)
+    stage?: 'shield' | 'swap';
+    provedSwap?: ProvedTransaction;
+
+    // 0zk address that receives the shielded input and the swap output
     senderRailgunAddress: string;
-    mnemonic: string;
-    password: string;
+
+    // userAddress's signature over the trade; needed to pull from userAddress
+    authorization?: SwapAuthorization;
+
+    // Resume a relayer job instead of starting one; its stored request is used.
+    // Anything but watching it needs the owner's signature.
+    jobId?: string;
+    resumeAuth?: JobResumeAuth;
 }
 
 // ─── Contract ABIs ───────────────────────────────────────────────────────────
@@ -84,9 +126,13 @@ const ERC20_ABI = [
     'function transferFrom(address from, address to, uint256 amount) returns (bool)',
 ];
 
-const RAILGUN_ADAPTER_ABI = [
-    'function privateSwap(bytes encryptedProof, bytes32 marketId, uint256 tokenInIndex, uint256 tokenOutIndex, uint256 minAmountOut) returns (uint256)',
-];
+const TRANSFER_EVENT = new ethers.Interface([
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
+const COLLATERAL_INDEX = 999;
+// The adapter's demo market returns the input token without trading
+const DEMO_MARKET_ID = '0x' + '1'.repeat(64);
 
 // ─── Retry helper ────────────────────────────────────────────────────────────
 
@@ -116,6 +162,178 @@ async function withRetry<T>(
     throw lastError || new Error(`${operationName} failed`);
 }
 
+// ─── Privacy pool helpers ────────────────────────────────────────────────────
+
+type StepReporter = (
+    step: PrivateSwapStep,
+    pct: number,
+    message: string,
+    extra?: Partial<PrivateSwapProgress>,
+) => void;
+
+/** Outcome token for a market outcome, using the index the factory trades by */
+async function getOutcomeToken(marketId: string, outcomeIndex: number): Promise<string> {
+    const factory = new Contract(FACTORY_ADDRESS, PREDICTION_MARKET_FACTORY_ABI, relayerService.getProvider());
+    const market = await factory.getMarket(marketId);
+    const token = market.outcomeTokens[outcomeIndex];
+    if (!token) {
+        throw new Error(`Market has no outcome ${outcomeIndex}`);
+    }
+    return token;
+}
+
+/** Shield tokens the relayer holds into a 0zk address; returns the shield tx hash */
+async function shieldFromRelayer(
+    tokenAddress: string,
+    amount: bigint,
+    recipientAddress: string,
+    sendTx: TxSender,
+): Promise<string> {
+    const relayerWallet = relayerService.getWallet();
+    const networkName = railgunEngine.getNetwork();
+    const txidVersion = railgunEngine.getTxidVersion();
+
+    const token = new Contract(tokenAddress, ERC20_ABI, relayerWallet);
+    const railgunProxyAddress = RAILGUN_NETWORK_CONFIG[networkName]?.proxyContract;
+    if (railgunProxyAddress) {
+        const currentAllowance = await token.allowance(relayerWallet.address, railgunProxyAddress);
+        if (currentAllowance < amount) {
+            const approveTx = await token.approve(railgunProxyAddress, ethers.MaxUint256);
+            await approveTx.wait();
+        }
+    }
+
+    const shieldRecipients: RailgunERC20AmountRecipient[] = [{ tokenAddress, amount, recipientAddress }];
+    const shieldPrivateKey = keccak256(toUtf8Bytes(getShieldPrivateKeySignatureMessage()));
+
+    const { gasEstimate } = await gasEstimateForShield(
+        txidVersion, networkName, shieldPrivateKey, shieldRecipients, [], relayerWallet.address,
+    );
+    const feeData = await relayerService.getProvider().getFeeData();
+    const gasDetails = {
+        evmGasType: EVMGasType.Type2 as const,
+        gasEstimate,
+        maxFeePerGas: feeData.maxFeePerGas!,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas!,
+    };
+
+    const { transaction } = await populateShield(
+        txidVersion, networkName, shieldPrivateKey, shieldRecipients, [], gasDetails,
+    );
+    const receipt = await sendTx(() => relayerWallet.sendTransaction(transaction));
+    return receipt.hash;
+}
+
+/** Token for a swap index; mirrors RailgunPrivacyAdapter._token */
+async function swapToken(marketId: string, index: number): Promise<string> {
+    if (index === COLLATERAL_INDEX || marketId.toLowerCase() === DEMO_MARKET_ID) return SEPOLIA_WETH;
+    return getOutcomeToken(marketId, index);
+}
+
+/**
+ * Shield request for a swap's output, addressed to a 0zk address. The value is
+ * left at 0: swapAndShield fills in the swap output on-chain, which only
+ * changes the public part of the note.
+ */
+async function outputShieldRequest(tokenAddress: string, recipientAddress: string): Promise<ShieldRequestStruct> {
+    const { masterPublicKey, viewingPublicKey } = RailgunEngine.decodeAddress(recipientAddress);
+    const note = new ShieldNoteERC20(masterPublicKey, ByteUtils.randomHex(16), 0n, tokenAddress);
+    const shieldPrivateKey = keccak256(toUtf8Bytes(getShieldPrivateKeySignatureMessage()));
+    return note.serialize(ByteUtils.hexToBytes(shieldPrivateKey), viewingPublicKey);
+}
+
+/** Sum of `tokenAddress` Transfer logs in a receipt sent from or to `account` */
+function transferred(
+    receipt: ethers.TransactionReceipt,
+    tokenAddress: string,
+    direction: 'from' | 'to',
+    account: string,
+): bigint {
+    let total = 0n;
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) continue;
+        const event = TRANSFER_EVENT.parseLog(log);
+        if (event?.name === 'Transfer' && event.args[direction].toLowerCase() === account.toLowerCase()) {
+            total += event.args.value as bigint;
+        }
+    }
+    return total;
+}
+
+/**
+ * Swap relayer-held input through the adapter and shield the output to
+ * `recipientAddress` in one transaction; returns the tx hash and the amount
+ * shielded
+ */
+async function swapAndShield(
+    marketId: string,
+    tokenIn: string,
+    tokenInIndex: number,
+    tokenOutIndex: number,
+    amountIn: bigint,
+    minAmountOut: bigint,
+    recipientAddress: string,
+    sendTx: TxSender,
+): Promise<{ hash: string; amountOut: bigint }> {
+    const relayerWallet = relayerService.getWallet();
+    const adapter = new Contract(RAILGUN_ADAPTER_ADDRESS, RAILGUN_ADAPTER_ABI, relayerWallet);
+
+    // The adapter pulls the input from the relayer
+    const token = new Contract(tokenIn, ERC20_ABI, relayerWallet);
+    const currentAllowance = await token.allowance(relayerWallet.address, RAILGUN_ADAPTER_ADDRESS);
+    if (currentAllowance < amountIn) {
+        const approveTx = await token.approve(RAILGUN_ADAPTER_ADDRESS, ethers.MaxUint256);
+        await approveTx.wait();
+    }
+
+    const tokenOut = await swapToken(marketId, tokenOutIndex);
+    const shieldRequest = await outputShieldRequest(tokenOut, recipientAddress);
+
+    const receipt = await sendTx(() => withRetry(
+        () => adapter.swapAndShield(
+            marketId,
+            BigInt(tokenInIndex),
+            BigInt(tokenOutIndex),
+            amountIn,
+            minAmountOut,
+            shieldRequest,
+            { gasLimit: 900000 },
+        ),
+        'Adapter swapAndShield',
+        2,
+        3000,
+    ));
+    console.log('[PrivateSwap] Swap + shield confirmed:', receipt.hash);
+    console.log('[PrivateSwap] Gas used:', receipt.gasUsed.toString());
+
+    // Amount the adapter paid into the shield (fee included)
+    return { hash: receipt.hash, amountOut: transferred(receipt, tokenOut, 'from', RAILGUN_ADAPTER_ADDRESS) };
+}
+
+/**
+ * Broadcast a browser-proved RelayAdapt swap (unshield → adapter.swap →
+ * shield); returns the tx hash and the amount the adapter paid out
+ */
+async function relaySwap(
+    provedSwap: ProvedTransaction,
+    marketId: string,
+    tokenOutIndex: number,
+    sendTx: TxSender,
+): Promise<{ hash: string; amountOut: bigint }> {
+    const receipt = await relayerService.broadcastProvedTransaction(provedSwap, railgunEngine.getNetwork(), sendTx);
+
+    // RelayAdapt records a failed call instead of reverting, then shields the input it still holds back
+    const logs = receipt.logs.map(log => ({ topics: [...log.topics], data: log.data }));
+    const callError = getRelayAdaptTransactionError(railgunEngine.getTxidVersion(), logs);
+    if (callError) {
+        throw new Error(`Private swap failed: ${callError}`);
+    }
+    console.log('[PrivateSwap] Relayed swap confirmed:', receipt.hash);
+
+    const tokenOut = await swapToken(marketId, tokenOutIndex);
+    return { hash: receipt.hash, amountOut: transferred(receipt, tokenOut, 'from', RAILGUN_ADAPTER_ADDRESS) };
+}
+
 // ─── Progress callback type ──────────────────────────────────────────────────
 
 export type ProgressCallback = (progress: PrivateSwapProgress) => void;
@@ -137,26 +355,30 @@ class PrivateMarketSwapService {
     /**
      * Execute a private swap. Dispatches to full RAILGUN (proxy) or fast mode.
      * Default: full RAILGUN so tokens flow through the proxy (shield → unshield).
+     * Each on-chain step runs through `step`; a job's runner skips the ones
+     * an earlier run finished.
      */
     async executePrivateSwap(
         params: PrivateMarketSwapRequest,
         onProgress?: ProgressCallback,
+        step: StepRunner = runStepDirectly,
     ): Promise<PrivateSwapResult> {
         const fastMode = params.fastMode === true; // default false = use proxy
         if (fastMode) {
-            return this.executePrivateSwapFast(params, onProgress);
+            return this.executePrivateSwapFast(params, onProgress, step);
         }
-        return this.executePrivateSwapFull(params, onProgress);
+        return this.executePrivateSwapFull(params, onProgress, step);
     }
 
     // ═══════════════════════════════════════════════════════════════════
-    // FAST MODE: Relayer → transfer WETH to adapter → adapter.privateSwap()
+    // FAST MODE: Relayer pulls WETH → adapter.swapAndShield()
     // Privacy: user's EOA never touches factory. Factory only sees adapter.
     // ═══════════════════════════════════════════════════════════════════
 
     private async executePrivateSwapFast(
         params: PrivateMarketSwapRequest,
-        onProgress?: ProgressCallback,
+        onProgress: ProgressCallback | undefined,
+        step: StepRunner,
     ): Promise<PrivateSwapResult> {
         const {
             userAddress,
@@ -194,89 +416,41 @@ class PrivateMarketSwapService {
 
                 const wethContract = new Contract(SEPOLIA_WETH, ERC20_ABI, relayerWallet);
 
-                const pullTx = await withRetry(
-                    () => wethContract.transferFrom(userAddress, relayerWallet.address, amount),
-                    'Pull WETH',
-                    4,
-                    5000,
-                );
-                await pullTx.wait();
-                console.log('[PrivateSwap-Fast] WETH pulled:', pullTx.hash);
-
-                // Step 2: Transfer WETH from relayer to adapter
-                progress('transferring', 40, 'Transferring WETH to privacy adapter...');
-
-                const transferTx = await withRetry(
-                    () => wethContract.transferFrom(relayerWallet.address, RAILGUN_ADAPTER_ADDRESS, amount),
-                    'Transfer to adapter',
-                    4,
-                    5000,
-                ).catch(async () => {
-                    // transferFrom from self may not work if no self-allowance; use direct transfer
-                    const iface = new ethers.Interface(['function transfer(address to, uint256 amount) returns (bool)']);
-                    const tx = await relayerWallet.sendTransaction({
-                        to: SEPOLIA_WETH,
-                        data: iface.encodeFunctionData('transfer', [RAILGUN_ADAPTER_ADDRESS, amount]),
-                    });
-                    return tx;
+                const pull = await step('pull', async (send) => {
+                    const receipt = await send(() => withRetry(
+                        () => wethContract.transferFrom(userAddress, relayerWallet.address, amount),
+                        'Pull WETH',
+                        4,
+                        5000,
+                    ));
+                    return { txHash: receipt.hash };
                 });
-                await transferTx.wait();
-                console.log('[PrivateSwap-Fast] WETH transferred to adapter:', transferTx.hash);
-
-                // Step 3: Call adapter.privateSwap()
-                progress('transferring', 70, 'Executing private swap on market...');
-
-                const adapter = new Contract(RAILGUN_ADAPTER_ADDRESS, RAILGUN_ADAPTER_ABI, relayerWallet);
-
-                // Build the proof struct (adapter verifies balance, not ZK proof content)
-                const mockTimestamp = Math.floor(Date.now() / 1000);
-                const nullifier = keccak256(toUtf8Bytes('nullifier_fast_' + pullTx.hash + '_' + mockTimestamp));
-                const encodedProof = ethers.AbiCoder.defaultAbiCoder().encode(
-                    [
-                        'tuple(bytes32 nullifier, bytes32 commitment, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut, uint256 timestamp, bytes merkleRoot, bytes32[2] balanceProofs, bytes signature)',
-                    ],
-                    [[
-                        nullifier,
-                        keccak256(toUtf8Bytes('commitment')),
-                        SEPOLIA_WETH,              // tokenIn = WETH
-                        ethers.ZeroAddress,         // tokenOut (adapter handles routing)
-                        amount,
-                        0n,
-                        mockTimestamp,
-                        '0x',
-                        [keccak256('0x01'), keccak256('0x02')],
-                        '0x',
-                    ]],
-                );
-
-                const swapTx = await withRetry(
-                    () => adapter.privateSwap(
-                        encodedProof,
-                        marketId,
-                        BigInt(tokenInIndex),
-                        BigInt(tokenOutIndex),
-                        0n,
-                        { gasLimit: 600000 },
-                    ),
-                    'Adapter privateSwap',
-                    2,
-                    3000,
-                );
-
-                const swapReceipt = await swapTx.wait();
-                console.log('[PrivateSwap-Fast] Swap confirmed:', swapTx.hash);
-                console.log('[PrivateSwap-Fast] Gas used:', swapReceipt.gasUsed.toString());
-
-                result.swapTxHash = swapTx.hash;
+                console.log('[PrivateSwap-Fast] WETH pulled:', pull.txHash);
+
+                // Step 2: adapter.swapAndShield() — outcome tokens go to the buyer's 0zk address
+                progress('reshielding', 70, 'Executing private swap and shielding position...');
+
+                const swap = await step('swap', async (send) => {
+                    const { hash, amountOut } = await swapAndShield(
+                        marketId, SEPOLIA_WETH, tokenInIndex, tokenOutIndex, amount, BigInt(params.minAmountOut),
+                        params.senderRailgunAddress, send,
+                    );
+                    return { txHash: hash, amountOut: amountOut.toString() };
+                });
+
+                result.swapTxHash = swap.txHash;
+                result.outputShieldTxHash = swap.txHash;
+                result.amountOut = swap.amountOut;
 
                 progress('complete', 100, 'Private buy complete!', {
-                    swapTxHash: swapTx.hash,
+                    swapTxHash: swap.txHash,
+                    outputShieldTxHash: swap.txHash,
                 });
 
                 result.success = true;
                 return result;
             } else {
-                throw new Error('Private sell not yet implemented');
+                return await this.executePrivateSellFast(params, progress, result, step);
             }
         } catch (error) {
             console.error('[PrivateSwap-Fast] Failed:', error);
@@ -288,14 +462,16 @@ class PrivateMarketSwapService {
     }
 
     // ═══════════════════════════════════════════════════════════════════
-    // FULL RAILGUN MODE: Shield → POI → ZK Proof → Unshield → Swap
-    // Maximum privacy via RAILGUN privacy pool.
-    // WARNING: Proof generation takes 2-10+ minutes in Node.js.
+    // FULL RAILGUN MODE: Shield → POI → ZK Proof → Unshield + Swap + Shield
+    // Maximum privacy via RAILGUN privacy pool. POI and the proof run in
+    // the browser, which holds the wallet, so this runs as two stages:
+    // 'shield' before the proof and 'swap' with the proved RelayAdapt calls.
     // ═══════════════════════════════════════════════════════════════════
 
     private async executePrivateSwapFull(
         params: PrivateMarketSwapRequest,
-        onProgress?: ProgressCallback,
+        onProgress: ProgressCallback | undefined,
+        step: StepRunner,
     ): Promise<PrivateSwapResult> {
         const {
             userAddress,
@@ -304,13 +480,14 @@ class PrivateMarketSwapService {
             tokenOutIndex,
             amount: amountStr,
             action,
+            stage,
+            provedSwap,
             senderRailgunAddress,
-            mnemonic,
-            password,
         } = params;
 
         const amount = BigInt(amountStr);
         const result: PrivateSwapResult = { success: false };
+        const buying = action === 'buy';
 
         const progress = (step: PrivateSwapStep, pct: number, message: string, extra?: Partial<PrivateSwapProgress>) => {
             console.log(`[PrivateSwap-Full] ${step}: ${message} (${pct}%)`);
@@ -321,253 +498,89 @@ class PrivateMarketSwapService {
             if (!relayerService.isConfigured()) {
                 throw new Error('Relayer not configured');
             }
+            if (!buying && tokenOutIndex !== COLLATERAL_INDEX) {
+                throw new Error('Private sells pay out collateral: tokenOutIndex must be 999');
+            }
 
             const relayerWallet = relayerService.getWallet();
-            const provider = relayerService.getProvider();
 
-            console.log('[PrivateSwap-Full] === FULL RAILGUN PRIVACY SWAP STARTED ===');
+            console.log(`[PrivateSwap-Full] === FULL RAILGUN PRIVACY SWAP: ${stage ?? 'shield'} STAGE ===`);
             console.log(`[PrivateSwap-Full] Action: ${action}`);
-            console.log(`[PrivateSwap-Full] Amount: ${ethers.formatEther(amount)} WETH`);
+            console.log(`[PrivateSwap-Full] Amount: ${ethers.formatEther(amount)}`);
             console.log(`[PrivateSwap-Full] Market: ${marketId}`);
             console.log(`[PrivateSwap-Full] User: ${userAddress}`);
 
-            if (action === 'buy') {
-                // STEP 1: Recreate RAILGUN wallet
-                progress('preparing', 5, 'Recreating RAILGUN wallet...');
-
-                if (!railgunEngine.isReady()) {
-                    await railgunEngine.initialize();
-                }
-
-                const recreated = await railgunWallet.createWalletFromMnemonic(mnemonic, password);
-                const activeWalletID = recreated.walletID;
-                const encryptionKey = recreated.encryptionKey;
-
-                const networkName = railgunEngine.getNetwork();
-                const txidVersion = railgunEngine.getTxidVersion();
-                const { chain } = RAILGUN_NETWORK_CONFIG[networkName];
-
-                // STEP 2: Pull WETH & approve proxy
-                progress('approving', 10, 'Pulling WETH from user...');
-
-                const wethContract = new Contract(SEPOLIA_WETH, ERC20_ABI, relayerWallet);
-
-                const pullTx = await withRetry(
-                    () => wethContract.transferFrom(userAddress, relayerWallet.address, amount),
-                    'Pull WETH',
-                    2,
-                    3000,
-                );
-                await pullTx.wait();
-
-                progress('approving', 15, 'Approving RAILGUN proxy...');
-
-                const railgunProxyAddress = RAILGUN_NETWORK_CONFIG[networkName]?.proxyContract;
-                if (railgunProxyAddress) {
-                    const currentAllowance = await wethContract.allowance(relayerWallet.address, railgunProxyAddress);
-                    if (currentAllowance < amount) {
-                        const approveTx = await wethContract.approve(railgunProxyAddress, ethers.MaxUint256);
-                        await approveTx.wait();
-                    }
-                }
-
-                // STEP 3: Shield WETH
-                progress('shielding', 20, 'Shielding WETH into privacy pool...');
-
-                const shieldRecipients: RailgunERC20AmountRecipient[] = [{
-                    tokenAddress: SEPOLIA_WETH,
-                    amount,
-                    recipientAddress: senderRailgunAddress,
-                }];
-
-                const shieldSignatureMessage = getShieldPrivateKeySignatureMessage();
-                const shieldPrivateKey = keccak256(toUtf8Bytes(shieldSignatureMessage));
-
-                const { gasEstimate: shieldGas } = await gasEstimateForShield(
-                    txidVersion, networkName, shieldPrivateKey, shieldRecipients, [], relayerWallet.address,
-                );
-
-                const feeData = await provider.getFeeData();
-                const gasDetails = {
-                    evmGasType: EVMGasType.Type2 as const,
-                    gasEstimate: shieldGas,
-                    maxFeePerGas: feeData.maxFeePerGas!,
-                    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas!,
-                };
-
-                const { transaction: shieldTx } = await populateShield(
-                    txidVersion, networkName, shieldPrivateKey, shieldRecipients, [], gasDetails as any,
-                );
-
-                const shieldRes = await relayerWallet.sendTransaction(shieldTx);
-                await shieldRes.wait();
-                result.inputShieldTxHash = shieldRes.hash;
-                progress('shielding', 30, 'Shield complete', { inputShieldTxHash: shieldRes.hash });
-
-                // STEP 4: Wait for POI
-                progress('waiting_poi', 35, 'Waiting for POI (Privacy Verification)...');
-
-                let spendable = BigInt(0);
-                const poiStart = Date.now();
-                const POI_TIMEOUT_MS = 120_000;
-
-                while (spendable < (amount * 99n / 100n) && Date.now() - poiStart < POI_TIMEOUT_MS) {
-                    await new Promise(r => setTimeout(r, 5000));
-                    await refreshBalances(chain, [activeWalletID]);
-                    spendable = await balanceForERC20Token(
-                        txidVersion, walletForID(activeWalletID)!, networkName, SEPOLIA_WETH, true,
-                    );
-                    const elapsed = Date.now() - poiStart;
-                    progress('waiting_poi', 35 + Math.min(15, Math.floor(elapsed / 5000) * 2),
-                        `Syncing balances... (${Math.floor(elapsed / 1000)}s)`);
-                }
+            progress('preparing', 5, 'Preparing private trade...');
 
-                if (spendable < (amount * 99n / 100n)) {
-                    throw new Error('POI verification timed out');
-                }
+            if (!railgunEngine.isReady()) {
+                await railgunEngine.initialize();
+            }
 
-                // STEP 5: Generate ZK proof
-                progress('generating_proof', 55, 'Generating ZK proof...');
-
-                const feeBps = 25n;
-                const unshieldAmount = amount - (amount * feeBps / 10000n);
-
-                // Unshield to relayer EOA first (not directly to adapter contract).
-                // RAILGUN proxy reverts when unshielding to a contract address.
-                // OrbitUX pattern: unshield → relayer → transfer → adapter.
-                const relayerAddress = relayerWallet.address;
-                const unshieldRecipients: RailgunERC20AmountRecipient[] = [{
-                    tokenAddress: SEPOLIA_WETH,
-                    amount: unshieldAmount,
-                    recipientAddress: relayerAddress,
-                }];
-
-                // Use fresh gas details for unshield estimation (gasEstimate: 0 lets SDK calculate)
-                const originalGasDetails = {
-                    evmGasType: EVMGasType.Type2 as const,
-                    gasEstimate: BigInt(0),
-                    maxFeePerGas: feeData.maxFeePerGas ?? BigInt(50 * 10 ** 9),
-                    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? BigInt(2 * 10 ** 9),
-                };
-
-                const { gasEstimate: unshieldGas } = await withRetry(
-                    () => gasEstimateForUnprovenUnshield(
-                        txidVersion, networkName, activeWalletID, encryptionKey,
-                        unshieldRecipients, [], originalGasDetails, undefined, true,
-                    ),
-                    'Unshield gas estimation',
-                    3,
-                    3000,
-                );
-
-                const unshieldGasDetails = {
-                    evmGasType: EVMGasType.Type2 as const,
-                    gasEstimate: unshieldGas,
-                    maxFeePerGas: feeData.maxFeePerGas ?? BigInt(50 * 10 ** 9),
-                    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? BigInt(2 * 10 ** 9),
-                };
-                const minGasPrice = calculateGasPrice(unshieldGasDetails);
-
-                await withRetry(
-                    () => generateUnshieldProof(
-                        txidVersion, networkName, activeWalletID, encryptionKey,
-                        unshieldRecipients, [], undefined, true, minGasPrice,
-                        (p: number) => progress('generating_proof', 55 + Math.floor(p * 0.25), `Generating proof... ${p}%`),
-                    ),
-                    'ZK proof generation',
-                    3,
-                    5000,
-                );
-
-                // STEP 6: Unshield to relayer EOA
-                progress('unshielding', 82, 'Unshielding WETH to relayer...');
-
-                const { transaction: unshieldTx } = await withRetry(
-                    () => populateProvedUnshield(
-                        txidVersion, networkName, activeWalletID,
-                        unshieldRecipients, [], undefined, true, minGasPrice, unshieldGasDetails,
-                    ),
-                    'Populate unshield',
-                    3,
-                    2000,
-                );
-
-                // Log transaction details for debugging
-                console.log('[PrivateSwap-Full] Unshield TX to:', unshieldTx.to);
-                console.log('[PrivateSwap-Full] Unshield TX data length:', unshieldTx.data ? (unshieldTx.data.length || 0) : 0);
-                console.log('[PrivateSwap-Full] Unshield TX gasLimit:', unshieldTx.gasLimit?.toString());
-                console.log('[PrivateSwap-Full] Unshield recipient (relayer):', relayerAddress);
-
-                // Send the SDK transaction directly (OrbitUX pattern)
-                const unshieldRes = await relayerWallet.sendTransaction(unshieldTx);
-                console.log('[PrivateSwap-Full] Unshield TX sent:', unshieldRes.hash);
-                await unshieldRes.wait();
-                console.log('[PrivateSwap-Full] Unshield confirmed');
-                result.unshieldTxHash = unshieldRes.hash;
-                progress('unshielding', 87, 'Unshield complete', { unshieldTxHash: unshieldRes.hash });
-
-                // STEP 7: Transfer WETH from relayer to adapter
-                progress('transferring', 90, 'Transferring WETH to privacy adapter...');
-
-                const wethForTransfer = new Contract(SEPOLIA_WETH, ERC20_ABI, relayerWallet);
-
-                // Check actual balance after unshield (RAILGUN may deduct its own fee)
-                const relayerWethBalance = await wethForTransfer.balanceOf(relayerAddress);
-                console.log('[PrivateSwap-Full] Relayer WETH balance after unshield:', ethers.formatEther(relayerWethBalance));
-                console.log('[PrivateSwap-Full] Expected unshieldAmount:', ethers.formatEther(unshieldAmount));
-
-                // Use actual balance if it's less than expected (handles rounding/fee differences)
-                const transferAmount = relayerWethBalance < unshieldAmount ? relayerWethBalance : unshieldAmount;
-                if (transferAmount === 0n) {
-                    throw new Error(`Relayer has 0 WETH after unshield. Expected ~${ethers.formatEther(unshieldAmount)} WETH.`);
-                }
+            // Buys spend WETH, sells spend the outcome token
+            const inputToken = buying ? SEPOLIA_WETH : await getOutcomeToken(marketId, tokenInIndex);
+            const tokenContract = new Contract(inputToken, ERC20_ABI, relayerWallet);
+
+            if (stage !== 'swap') {
+                // STEP 1: Pull the input tokens from the user
+                progress('approving', 10, buying ? 'Pulling WETH from user...' : 'Pulling outcome tokens from user...');
+
+                await step('pull', async (send) => {
+                    const receipt = await send(() => withRetry(
+                        () => tokenContract.transferFrom(userAddress, relayerWallet.address, amount),
+                        'Pull input tokens',
+                        2,
+                        3000,
+                    ));
+                    return { txHash: receipt.hash };
+                });
 
-                const transferTx = await withRetry(
-                    () => wethForTransfer.transfer(RAILGUN_ADAPTER_ADDRESS, transferAmount, { gasLimit: 100000 }),
-                    'Transfer WETH to adapter',
-                    3,
-                    3000,
-                );
-                await transferTx.wait();
-                console.log('[PrivateSwap-Full] WETH transferred to adapter:', transferTx.hash);
-
-                // STEP 8: Adapter swap
-                progress('transferring', 95, 'Executing private swap on market...');
-
-                const adapter = new Contract(RAILGUN_ADAPTER_ADDRESS, RAILGUN_ADAPTER_ABI, relayerWallet);
-
-                const mockTimestamp = Math.floor(Date.now() / 1000);
-                const encodedProof = ethers.AbiCoder.defaultAbiCoder().encode(
-                    ['tuple(bytes32 nullifier, bytes32 commitment, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut, uint256 timestamp, bytes merkleRoot, bytes32[2] balanceProofs, bytes signature)'],
-                    [[
-                        keccak256(toUtf8Bytes('nullifier' + shieldRes.hash)),
-                        keccak256(toUtf8Bytes('commitment')),
-                        SEPOLIA_WETH, ethers.ZeroAddress, unshieldAmount, 0n, mockTimestamp,
-                        '0x', [keccak256('0x01'), keccak256('0x02')], '0x',
-                    ]],
-                );
-
-                const swapTx = await withRetry(
-                    () => adapter.privateSwap(encodedProof, marketId, BigInt(tokenInIndex), BigInt(tokenOutIndex), 0n, { gasLimit: 600000 }),
-                    'Adapter privateSwap', 2, 3000,
-                );
-
-                const swapReceipt = await swapTx.wait();
-                result.swapTxHash = swapTx.hash;
-                console.log('[PrivateSwap-Full] Swap confirmed:', swapTx.hash);
-                console.log('[PrivateSwap-Full] Gas used:', swapReceipt.gasUsed.toString());
+                // STEP 2: Shield them to the user's 0zk address
+                progress('shielding', 20, buying
+                    ? 'Shielding WETH into privacy pool...'
+                    : 'Shielding outcome tokens into privacy pool...');
 
-                progress('complete', 100, 'Private buy complete!', {
-                    inputShieldTxHash: shieldRes.hash,
-                    unshieldTxHash: unshieldRes.hash,
-                    swapTxHash: swapTx.hash,
-                });
+                const shield = await step('shield', async (send) => ({
+                    txHash: await shieldFromRelayer(inputToken, amount, senderRailgunAddress, send),
+                }));
+                result.inputShieldTxHash = shield.txHash;
 
+                // The browser waits for POI and proves the RelayAdapt swap for the 'swap' stage
                 result.success = true;
+                progress('awaiting_proof', 30, 'Shield complete', { inputShieldTxHash: result.inputShieldTxHash });
                 return result;
-            } else {
-                throw new Error('Private sell not yet implemented');
             }
+
+            if (!provedSwap) {
+                throw new Error('The swap stage needs the proved RelayAdapt swap');
+            }
+
+            // STEP 3: Broadcast the browser's RelayAdapt transaction: it unshields
+            // the input, swaps it through the adapter and shields the output back
+            // to the user in one transaction
+            progress('reshielding', 85, buying
+                ? 'Executing private swap and shielding position...'
+                : 'Executing private sell and shielding proceeds...');
+
+            const swap = await step('swap', async (send) => {
+                const { hash, amountOut } = await relaySwap(provedSwap, marketId, tokenOutIndex, send);
+                if (!buying && amountOut <= 0n) {
+                    throw new Error('Private sell returned no WETH');
+                }
+                return { txHash: hash, amountOut: amountOut.toString() };
+            });
+            result.unshieldTxHash = swap.txHash;
+            result.swapTxHash = swap.txHash;
+            result.outputShieldTxHash = swap.txHash;
+            result.amountOut = swap.amountOut;
+
+            progress('complete', 100, buying ? 'Private buy complete!' : 'Private sell complete!', {
+                unshieldTxHash: swap.txHash,
+                swapTxHash: swap.txHash,
+                outputShieldTxHash: swap.txHash,
+            });
+
+            result.success = true;
+            return result;
         } catch (error) {
             console.error('[PrivateSwap-Full] Failed:', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -577,47 +590,137 @@ class PrivateMarketSwapService {
         }
     }
 
+    // ═══════════════════════════════════════════════════════════════════
+    // FAST SELL: relayer pulls outcome tokens → adapter.swapAndShield()
+    // WETH proceeds are shielded back to the seller's 0zk address.
+    // ═══════════════════════════════════════════════════════════════════
+
+    private async executePrivateSellFast(
+        params: PrivateMarketSwapRequest,
+        progress: StepReporter,
+        result: PrivateSwapResult,
+        step: StepRunner,
+    ): Promise<PrivateSwapResult> {
+        const {
+            userAddress,
+            marketId,
+            tokenInIndex,
+            tokenOutIndex,
+            amount: amountStr,
+            senderRailgunAddress,
+        } = params;
+
+        if (tokenOutIndex !== COLLATERAL_INDEX) {
+            throw new Error('Private sells pay out collateral: tokenOutIndex must be 999');
+        }
+
+        const amount = BigInt(amountStr);
+        const relayerWallet = relayerService.getWallet();
+
+        progress('preparing', 5, 'Preparing private sell...');
+
+        // Shielding the proceeds needs the engine even in fast mode
+        if (!railgunEngine.isReady()) {
+            await railgunEngine.initialize();
+        }
+
+        const outcomeToken = await getOutcomeToken(marketId, tokenInIndex);
+        const tokenContract = new Contract(outcomeToken, ERC20_ABI, relayerWallet);
+
+        progress('approving', 10, 'Pulling outcome tokens from user...');
+        await step('pull', async (send) => {
+            const receipt = await send(() => withRetry(
+                () => tokenContract.transferFrom(userAddress, relayerWallet.address, amount),
+                'Pull outcome tokens',
+                2,
+                3000,
+            ));
+            return { txHash: receipt.hash };
+        });
+
+        // Adapter takes them from the relayer, sells, and shields the WETH proceeds to the seller
+        progress('reshielding', 90, 'Executing private sell and shielding proceeds...');
+
+        const swap = await step('swap', async (send) => {
+            const { hash, amountOut } = await swapAndShield(
+                marketId, outcomeToken, tokenInIndex, COLLATERAL_INDEX, amount, BigInt(params.minAmountOut),
+                senderRailgunAddress, send,
+            );
+            if (amountOut <= 0n) {
+                throw new Error('Private sell returned no WETH');
+            }
+            return { txHash: hash, amountOut: amountOut.toString() };
+        });
+        result.swapTxHash = swap.txHash;
+        result.outputShieldTxHash = swap.txHash;
+        result.amountOut = swap.amountOut;
+
+        progress('complete', 100, 'Private sell complete!', {
+            swapTxHash: result.swapTxHash,
+            outputShieldTxHash: result.outputShieldTxHash,
+        });
+
+        result.success = true;
+        return result;
+    }
+
     /**
-     * Execute private swap as an async generator for SSE streaming
+     * Start a private swap as a relayer job, or resume the one named by
+     * `jobId`, and run it in the background. Returns the job ID to watch.
+     * A resumed job keeps its stored request, taking only the swap stage and
+     * proved swap from the new one, and skips the steps it finished. Only
+     * its owner may resume it (`resumeAuth`, see ./jobResume).
+     * A new job that pulls from userAddress (fast mode, or full mode's
+     * 'shield' stage) needs their `authorization`.
      */
-    async *executePrivateSwapStream(
-        request: PrivateMarketSwapRequest,
-    ): AsyncGenerator<PrivateSwapProgress> {
-        const progressQueue: PrivateSwapProgress[] = [];
-        let resolveWait: (() => void) | null = null;
-        let isComplete = false;
-
-        const onProgress = (progress: PrivateSwapProgress) => {
-            progressQueue.push(progress);
-            if (resolveWait) {
-                resolveWait();
-                resolveWait = null;
+    async submit(request: PrivateMarketSwapRequest): Promise<string> {
+        type SwapJob = RelayerJob<PrivateMarketSwapRequest, PrivateSwapProgress, PrivateSwapResult>;
+        let job: SwapJob;
+
+        if (request.jobId) {
+            const existing = await relayerJobs.get<PrivateMarketSwapRequest, PrivateSwapProgress, PrivateSwapResult>(
+                request.jobId,
+            );
+            if (!existing || existing.kind !== 'private_swap') {
+                throw new Error(`Unknown job: ${request.jobId}`);
             }
-            if (progress.step === 'complete' || progress.step === 'error') {
-                isComplete = true;
+            // Already running here or done: the caller just watches it
+            if (relayerJobs.isRunning(existing.id) || existing.status === 'complete') {
+                return existing.id;
             }
-        };
-
-        // Start the swap in background
-        const swapPromise = this.executePrivateSwap(request, onProgress);
-
-        // Yield progress updates as they come
-        while (!isComplete) {
-            if (progressQueue.length > 0) {
-                yield progressQueue.shift()!;
-            } else {
-                await new Promise<void>(resolve => {
-                    resolveWait = resolve;
-                    setTimeout(resolve, 1000);
-                });
+            if (request.stage !== 'swap' && existing.status === 'awaiting_proof') {
+                return existing.id;
+            }
+            relayerJobs.authorizeResume(existing, request.resumeAuth);
+            if (request.stage === 'swap') {
+                existing.request = { ...existing.request, stage: 'swap', provedSwap: request.provedSwap };
+            }
+            job = existing;
+        } else {
+            if (request.fastMode || request.stage !== 'swap') {
+                const { nonce } = verifySwapAuthorization(request, request.authorization);
+                await relayerJobs.claimNonce(request.userAddress, nonce);
             }
+            job = await relayerJobs.create<PrivateMarketSwapRequest, PrivateSwapProgress, PrivateSwapResult>(
+                'private_swap', request,
+            );
         }
 
-        while (progressQueue.length > 0) {
-            yield progressQueue.shift()!;
-        }
+        const shieldStage = !job.request.fastMode && job.request.stage !== 'swap';
+
+        relayerJobs.run(job, async () => {
+            const result = await this.executePrivateSwap(
+                job.request,
+                (progress) => relayerJobs.report(job, { ...progress, jobId: job.id }),
+                relayerJobs.stepRunner(job),
+            );
+            if (!result.success) {
+                return { status: 'error', result, error: result.error };
+            }
+            return { status: shieldStage ? 'awaiting_proof' : 'complete', result };
+        });
 
-        await swapPromise;
+        return job.id;
     }
 }
 
@@ -4,10 +4,14 @@ import {
 } from '@railgun-community/wallet';
 import { createRailgunDatabase } from './railgun-database';
 import { createBrowserArtifactStore } from './railgun-artifacts';
+import { loadEngineProvider } from './railgun-network';
 
 // Global flag to track if prover is set
 let proverSet = false;
 
+// Shared start so every provider and hook uses the same engine instance
+let engineStart: Promise<void> | null = null;
+
 /**
  * Initializes the Railgun privacy engine
  * Sets up the database, artifact store, and Groth16 prover for ZK proof generation
@@ -60,11 +64,30 @@ export const initializeRailgunEngine = async (walletAddress: string) => {
   }
 };
 
+/**
+ * Starts the engine and loads the Sepolia provider once per page
+ * Later calls wait on the first start; a failed start is retried on the next call
+ * @param walletAddress - The wallet address to use for Railgun initialization
+ * @returns Promise that resolves when the engine can scan balances and prove
+ */
+export const ensureRailgunEngine = (walletAddress: string): Promise<void> => {
+  if (!engineStart) {
+    engineStart = initializeRailgunEngine(walletAddress)
+      .then(() => loadEngineProvider())
+      .catch((error) => {
+        engineStart = null;
+        throw error;
+      });
+  }
+  return engineStart;
+};
+
 /**
  * Shuts down the Railgun engine and performs cleanup
  * @returns Promise that resolves when shutdown is complete
  */
 export const shutdownRailgunEngine = async () => {
+  engineStart = null;
   try {
     await stopRailgunEngine();
   } catch (error) {
@@ -1,17 +1,36 @@
 import {
   populateProvedTransfer,
   generateProofTransactions,
+  refreshBalances,
+  balanceForERC20Token,
+  walletForID,
+  getFallbackProviderForNetwork,
+  gasEstimateForUnprovenUnshield,
+  generateUnshieldProof,
+  populateProvedUnshield,
+  gasEstimateForUnprovenCrossContractCalls,
+  generateCrossContractCallsProof,
+  populateProvedCrossContractCalls,
 } from '@railgun-community/wallet';
 import {
   NetworkName,
+  NETWORK_CONFIG,
   TransactionGasDetails,
+  RailgunERC20Amount,
   RailgunERC20AmountRecipient,
+  RailgunERC20Recipient,
   RailgunPopulateTransactionResponse,
   TXIDVersion,
   ProofType,
   EVMGasType,
+  calculateGasPrice,
 } from '@railgun-community/shared-models';
+import type { ContractTransaction } from 'ethers';
 import { getRailgunNetworkName } from './railgun-provider';
+import type { ProvedTransaction } from './types';
+
+const POI_TIMEOUT_MS = 120_000;
+const POI_POLL_MS = 5_000;
 
 /**
  * Generates a zero-knowledge proof for a private swap between shielded tokens
@@ -284,3 +303,226 @@ export const getShieldedBalances = async (
     return {};
   }
 };
+
+/**
+ * Reads a wallet's shielded balance of one token after a fresh scan
+ *
+ * @param railgunWalletID - The Railgun wallet ID
+ * @param tokenAddress - The token address to check
+ * @returns Spendable (POI verified) and total shielded balance
+ */
+export const getShieldedTokenBalance = async (
+  railgunWalletID: string,
+  tokenAddress: string
+): Promise<{ spendable: bigint; total: bigint }> => {
+  const networkName = getRailgunNetworkName();
+  const txidVersion: TXIDVersion = TXIDVersion.V2_PoseidonMerkle;
+
+  await refreshBalances(NETWORK_CONFIG[networkName].chain, [railgunWalletID]);
+  const wallet = walletForID(railgunWalletID);
+
+  const [spendable, total] = await Promise.all([
+    balanceForERC20Token(txidVersion, wallet, networkName, tokenAddress, true),
+    balanceForERC20Token(txidVersion, wallet, networkName, tokenAddress, false),
+  ]);
+  return { spendable, total };
+};
+
+/**
+ * Polls until a shield passes POI and the spendable balance covers an amount
+ *
+ * @param railgunWalletID - The Railgun wallet ID
+ * @param tokenAddress - The shielded token
+ * @param amount - Spendable balance to wait for
+ * @param onTick - Called after each poll with the elapsed time in ms
+ * @returns The spendable balance
+ */
+export const waitForSpendableBalance = async (
+  railgunWalletID: string,
+  tokenAddress: string,
+  amount: bigint,
+  onTick?: (elapsedMs: number) => void
+): Promise<bigint> => {
+  let spendable = 0n;
+  const start = Date.now();
+
+  while (spendable < amount && Date.now() - start < POI_TIMEOUT_MS) {
+    await new Promise(r => setTimeout(r, POI_POLL_MS));
+    ({ spendable } = await getShieldedTokenBalance(railgunWalletID, tokenAddress));
+    onTick?.(Date.now() - start);
+  }
+
+  if (spendable < amount) {
+    throw new Error('POI verification timed out');
+  }
+  return spendable;
+};
+
+/**
+ * Proves an unshield in the browser and returns the transaction for the relayer
+ * The proof is made with sendWithPublicWallet, so it carries no broadcaster fee
+ * and any account can submit it; the wallet keys never leave the browser.
+ *
+ * @param railgunWalletID - The Railgun wallet ID
+ * @param encryptionKey - The wallet encryption key
+ * @param erc20AmountRecipients - Tokens and public recipients (one unshield per proof)
+ * @param progressCallback - Proof progress, 0-100
+ * @returns The proved transaction to broadcast
+ */
+export const proveUnshield = async (
+  railgunWalletID: string,
+  encryptionKey: string,
+  erc20AmountRecipients: RailgunERC20AmountRecipient[],
+  progressCallback?: (progress: number) => void
+): Promise<ProvedTransaction> => {
+  try {
+    const networkName = getRailgunNetworkName();
+    const txidVersion: TXIDVersion = TXIDVersion.V2_PoseidonMerkle;
+
+    const feeData = await getFallbackProviderForNetwork(networkName).getFeeData();
+    const originalGasDetails: TransactionGasDetails = {
+      evmGasType: EVMGasType.Type2,
+      gasEstimate: 0n,
+      maxFeePerGas: feeData.maxFeePerGas ?? 50n * 10n ** 9n,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 2n * 10n ** 9n,
+    };
+
+    const { gasEstimate } = await gasEstimateForUnprovenUnshield(
+      txidVersion,
+      networkName,
+      railgunWalletID,
+      encryptionKey,
+      erc20AmountRecipients,
+      [], // nftAmountRecipients
+      originalGasDetails,
+      undefined, // feeTokenDetails
+      true // sendWithPublicWallet
+    );
+    const gasDetails: TransactionGasDetails = { ...originalGasDetails, gasEstimate };
+    const overallBatchMinGasPrice = calculateGasPrice(gasDetails);
+
+    // Generate the actual ZK proof (this can take 20-40 seconds)
+    await generateUnshieldProof(
+      txidVersion,
+      networkName,
+      railgunWalletID,
+      encryptionKey,
+      erc20AmountRecipients,
+      [], // nftAmountRecipients
+      undefined, // broadcasterFeeERC20AmountRecipient
+      true, // sendWithPublicWallet
+      overallBatchMinGasPrice,
+      (progress: number) => progressCallback?.(progress)
+    );
+
+    const { transaction } = await populateProvedUnshield(
+      txidVersion,
+      networkName,
+      railgunWalletID,
+      erc20AmountRecipients,
+      [], // nftAmountRecipients
+      undefined, // broadcasterFeeERC20AmountRecipient
+      true, // sendWithPublicWallet
+      overallBatchMinGasPrice,
+      gasDetails
+    );
+
+    console.log('[Unshield] Proof generated successfully');
+    return { to: transaction.to, data: transaction.data };
+  } catch (error) {
+    console.error('[Unshield] Error generating proof:', error);
+    throw error;
+  }
+};
+
+/**
+ * Proves RelayAdapt cross-contract calls in the browser and returns the
+ * transaction for the relayer. One transaction unshields to RelayAdapt, runs
+ * the calls, and shields RelayAdapt's whole balance of each shield token to
+ * its recipient; the proof binds all three, so the relayer can't change them.
+ *
+ * @param railgunWalletID - The Railgun wallet ID
+ * @param encryptionKey - The wallet encryption key
+ * @param unshieldERC20Amounts - Tokens to unshield to RelayAdapt
+ * @param crossContractCalls - Calls RelayAdapt makes with them
+ * @param shieldERC20Recipients - Tokens RelayAdapt shields afterwards, and to whom
+ * @param progressCallback - Proof progress, 0-100
+ * @returns The proved transaction to broadcast
+ */
+export const proveCrossContractCalls = async (
+  railgunWalletID: string,
+  encryptionKey: string,
+  unshieldERC20Amounts: RailgunERC20Amount[],
+  crossContractCalls: ContractTransaction[],
+  shieldERC20Recipients: RailgunERC20Recipient[],
+  progressCallback?: (progress: number) => void
+): Promise<ProvedTransaction> => {
+  try {
+    const networkName = getRailgunNetworkName();
+    const txidVersion: TXIDVersion = TXIDVersion.V2_PoseidonMerkle;
+
+    const feeData = await getFallbackProviderForNetwork(networkName).getFeeData();
+    const originalGasDetails: TransactionGasDetails = {
+      evmGasType: EVMGasType.Type2,
+      gasEstimate: 0n,
+      maxFeePerGas: feeData.maxFeePerGas ?? 50n * 10n ** 9n,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? 2n * 10n ** 9n,
+    };
+
+    const { gasEstimate } = await gasEstimateForUnprovenCrossContractCalls(
+      txidVersion,
+      networkName,
+      railgunWalletID,
+      encryptionKey,
+      unshieldERC20Amounts,
+      [], // relayAdaptUnshieldNFTAmounts
+      shieldERC20Recipients,
+      [], // relayAdaptShieldNFTRecipients
+      crossContractCalls,
+      originalGasDetails,
+      undefined, // feeTokenDetails
+      true, // sendWithPublicWallet
+      undefined // minGasLimit
+    );
+    const gasDetails: TransactionGasDetails = { ...originalGasDetails, gasEstimate };
+    const overallBatchMinGasPrice = calculateGasPrice(gasDetails);
+
+    await generateCrossContractCallsProof(
+      txidVersion,
+      networkName,
+      railgunWalletID,
+      encryptionKey,
+      unshieldERC20Amounts,
+      [], // relayAdaptUnshieldNFTAmounts
+      shieldERC20Recipients,
+      [], // relayAdaptShieldNFTRecipients
+      crossContractCalls,
+      undefined, // broadcasterFeeERC20AmountRecipient
+      true, // sendWithPublicWallet
+      overallBatchMinGasPrice,
+      undefined, // minGasLimit
+      (progress: number) => progressCallback?.(progress)
+    );
+
+    const { transaction } = await populateProvedCrossContractCalls(
+      txidVersion,
+      networkName,
+      railgunWalletID,
+      unshieldERC20Amounts,
+      [], // relayAdaptUnshieldNFTAmounts
+      shieldERC20Recipients,
+      [], // relayAdaptShieldNFTRecipients
+      crossContractCalls,
+      undefined, // broadcasterFeeERC20AmountRecipient
+      true, // sendWithPublicWallet
+      overallBatchMinGasPrice,
+      gasDetails
+    );
+
+    console.log('[CrossContract] Proof generated successfully');
+    return { to: transaction.to, data: transaction.data };
+  } catch (error) {
+    console.error('[CrossContract] Error generating proof:', error);
+    throw error;
+  }
+};
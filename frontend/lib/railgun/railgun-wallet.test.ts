@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Mnemonic } from 'ethers';
+import { generateMnemonic, normalizeMnemonic, validateMnemonic } from './railgun-wallet';
+
+const PHRASE = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('generateMnemonic', () => {
+  it('makes checksummed 12 and 24 word phrases', () => {
+    const twelve = generateMnemonic();
+    const twentyFour = generateMnemonic(24);
+
+    expect(twelve.split(' ')).toHaveLength(12);
+    expect(twentyFour.split(' ')).toHaveLength(24);
+    expect(Mnemonic.isValidMnemonic(twelve)).toBe(true);
+    expect(Mnemonic.isValidMnemonic(twentyFour)).toBe(true);
+    expect(generateMnemonic()).not.toBe(twelve);
+  });
+});
+
+describe('validateMnemonic', () => {
+  it('normalizes pasted phrases', () => {
+    expect(normalizeMnemonic(`  ${PHRASE.toUpperCase().replace(/ /g, '\n ')}  `)).toBe(PHRASE);
+    expect(validateMnemonic(` ${PHRASE} `)).toBe(PHRASE);
+  });
+
+  it('rejects bad word counts, unknown words and checksums', () => {
+    expect(() => validateMnemonic('')).toThrow(/got 0/);
+    expect(() => validateMnemonic('abandon '.repeat(11))).toThrow(/got 11/);
+    expect(() => validateMnemonic(PHRASE.replace('about', 'aboot'))).toThrow(/not BIP-39 words: aboot/);
+    expect(() => validateMnemonic(PHRASE.replace('about', 'abandon'))).toThrow(/checksum/);
+  });
+});
@@ -6,9 +6,12 @@
  * 
  * Security: This wallet can only pay gas, not steal user tokens.
  * Tokens flow from user's approved wallet through RAILGUN contracts.
+ * Unshields are proved in the browser; the relayer only broadcasts them.
  */
 
-import { Wallet as EthersWallet, JsonRpcProvider } from "ethers";
+import { Wallet as EthersWallet, JsonRpcProvider, type TransactionReceipt } from "ethers";
+import { NetworkName, NETWORK_CONFIG as RAILGUN_NETWORK_CONFIG } from "@railgun-community/shared-models";
+import type { ProvedTransaction } from "./types";
 
 // Use a SEPARATE RPC URL for the relayer to avoid sharing rate limits
 // with the RAILGUN engine's heavy eth_getLogs scanning.
@@ -17,6 +20,12 @@ const RPC_URL = process.env.RELAYER_RPC_URL
   || process.env.RAILGUN_RPC_URL
   || "https://sepolia.infura.io/v3/2ede8e829bdc4f709b22c9dcf1184009";
 
+/**
+ * Sends one transaction and resolves once it succeeds.
+ * Relayer jobs pass their own, which records the hash before waiting.
+ */
+export type TxSender = (send: () => Promise<{ hash: string }>) => Promise<TransactionReceipt>;
+
 class RelayerService {
   private static instance: RelayerService | null = null;
   private wallet: EthersWallet | null = null;
@@ -69,6 +78,47 @@ class RelayerService {
     return this.provider!;
   }
 
+  /**
+   * Send a transaction and wait for it, throwing if it reverts.
+   */
+  sendAndWait: TxSender = async (send) => {
+    const response = await send();
+    const receipt = await this.getProvider().waitForTransaction(response.hash);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Transaction reverted: ${response.hash}`);
+    }
+    return receipt;
+  };
+
+  /**
+   * Broadcast a browser-proved RAILGUN transaction, paying its gas.
+   * Only calls to the RAILGUN proxy or its RelayAdapt are accepted, so the
+   * relayer can't be used to send arbitrary transactions.
+   */
+  async broadcastProvedTransaction(
+    transaction: ProvedTransaction,
+    networkName: NetworkName,
+    sendTx: TxSender = this.sendAndWait
+  ): Promise<TransactionReceipt> {
+    const { proxyContract, relayAdaptContract } = RAILGUN_NETWORK_CONFIG[networkName];
+    const to = transaction?.to?.toLowerCase();
+    if (!to || (to !== proxyContract.toLowerCase() && to !== relayAdaptContract.toLowerCase())) {
+      throw new Error("Proved transaction must call the RAILGUN proxy or RelayAdapt");
+    }
+    if (!transaction.data || transaction.data === "0x") {
+      throw new Error("Proved transaction has no calldata");
+    }
+
+    return sendTx(async () => {
+      const response = await this.getWallet().sendTransaction({
+        to: transaction.to,
+        data: transaction.data,
+      });
+      console.log('[Relayer] Broadcast proved transaction:', response.hash);
+      return response;
+    });
+  }
+
   /**
    * Check if relayer is configured.
    */
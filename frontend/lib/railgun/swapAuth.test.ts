@@ -0,0 +1,58 @@
+import { Wallet } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { swapAuthorizationMessage, verifySwapAuthorization, type SwapAuthorizationFields } from './swapAuth';
+
+const user = Wallet.createRandom();
+
+const request: SwapAuthorizationFields = {
+  userAddress: user.address,
+  marketId: '0x' + 'ab'.repeat(32),
+  action: 'buy',
+  tokenInIndex: 999,
+  tokenOutIndex: 1,
+  amount: '1000000000000000000',
+  minAmountOut: '987030000000000000',
+  senderRailgunAddress: '0zk1qexample',
+};
+
+const NOW = 1_800_000_000;
+
+async function sign(fields = request, nonce = 'n-1', expiry = NOW + 60, wallet = user) {
+  return { nonce, expiry, signature: await wallet.signMessage(swapAuthorizationMessage(fields, nonce, expiry)) };
+}
+
+describe('verifySwapAuthorization', () => {
+  it('accepts userAddress\'s signature over the request', async () => {
+    const auth = await sign();
+
+    expect(verifySwapAuthorization(request, auth, NOW)).toEqual(auth);
+  });
+
+  it('rejects missing, expired and long-lived authorizations', async () => {
+    const expired = await sign(request, 'n-1', NOW - 1);
+    const longLived = await sign(request, 'n-1', NOW + 7200);
+
+    expect(() => verifySwapAuthorization(request, undefined, NOW)).toThrow(/missing authorization/);
+    expect(() => verifySwapAuthorization(request, expired, NOW)).toThrow(/expired/);
+    expect(() => verifySwapAuthorization(request, longLived, NOW)).toThrow(/too long-lived/);
+    expect(() => verifySwapAuthorization(request, { nonce: 'n-1', expiry: NOW + 60, signature: '0x1234' }, NOW))
+      .toThrow(/invalid signature/);
+  });
+
+  it('rejects a signature from anyone else, or over different terms', async () => {
+    const stranger = await sign(request, 'n-1', NOW + 60, Wallet.createRandom());
+    const otherRecipient = await sign({ ...request, senderRailgunAddress: '0zk1qattacker' });
+    const otherAmount = await sign({ ...request, amount: '1' });
+    const otherMarket = await sign({ ...request, marketId: '0x' + 'cd'.repeat(32) });
+    const noMinimum = await sign({ ...request, minAmountOut: '0' });
+
+    expect(() => verifySwapAuthorization(request, stranger, NOW)).toThrow(/not signed by userAddress/);
+    expect(() => verifySwapAuthorization(request, otherRecipient, NOW)).toThrow(/not signed by userAddress/);
+    expect(() => verifySwapAuthorization(request, otherAmount, NOW)).toThrow(/not signed by userAddress/);
+    expect(() => verifySwapAuthorization(request, otherMarket, NOW)).toThrow(/not signed by userAddress/);
+    expect(() => verifySwapAuthorization(request, noMinimum, NOW)).toThrow(/not signed by userAddress/);
+    // The nonce and expiry are signed too
+    const signed = await sign();
+    expect(() => verifySwapAuthorization(request, { ...signed, nonce: 'n-2' }, NOW)).toThrow(/not signed by userAddress/);
+  });
+});
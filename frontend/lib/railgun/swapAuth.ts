@@ -0,0 +1,71 @@
+/**
+ * Private Swap Authorization
+ *
+ * The relayer pulls a swap's input from userAddress with transferFrom, which
+ * the user's approval alone would let anyone trigger. So a request that pulls
+ * carries userAddress's signature over what is spent and the 0zk address the
+ * output is shielded to, valid until `expiry` (unix seconds). The nonce makes
+ * each signature good for one job.
+ */
+
+import { verifyMessage } from "ethers";
+import type { SwapAuthorization } from "./types";
+
+// Longest a swap signature may be valid for
+export const MAX_SWAP_AUTH_WINDOW_SECONDS = 3600;
+
+/** The request fields a swap signature covers */
+export interface SwapAuthorizationFields {
+  userAddress: string;
+  marketId: string;
+  action: 'buy' | 'sell';
+  tokenInIndex: number;
+  tokenOutIndex: number;
+  amount: string;
+  minAmountOut: string;
+  senderRailgunAddress: string;
+}
+
+export function swapAuthorizationMessage(
+  request: SwapAuthorizationFields,
+  nonce: string,
+  expiry: number
+): string {
+  return [
+    `Authorize private ${request.action} on market ${request.marketId}`,
+    `Spend: ${request.amount} of token ${request.tokenInIndex}`,
+    `Receive: at least ${request.minAmountOut} of token ${request.tokenOutIndex}`,
+    `Shield to: ${request.senderRailgunAddress}`,
+    `Nonce: ${nonce}`,
+    `Valid until: ${expiry}`,
+  ].join('\n');
+}
+
+/**
+ * Check that `auth` is userAddress's signature over the request; throws if not.
+ * The caller still has to spend the nonce (relayerJobs.claimNonce).
+ */
+export function verifySwapAuthorization(
+  request: SwapAuthorizationFields,
+  auth: SwapAuthorization | undefined,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): SwapAuthorization {
+  const denied = (reason: string) => new Error(`Not authorized to spend from ${request.userAddress}: ${reason}`);
+  if (!auth?.signature || !auth.nonce || !Number.isInteger(auth.expiry)) {
+    throw denied('missing authorization');
+  }
+  if (auth.expiry < nowSeconds || auth.expiry > nowSeconds + MAX_SWAP_AUTH_WINDOW_SECONDS) {
+    throw denied('authorization expired or too long-lived');
+  }
+
+  let signer: string;
+  try {
+    signer = verifyMessage(swapAuthorizationMessage(request, auth.nonce, auth.expiry), auth.signature);
+  } catch {
+    throw denied('invalid signature');
+  }
+  if (signer.toLowerCase() !== request.userAddress.toLowerCase()) {
+    throw denied('not signed by userAddress');
+  }
+  return auth;
+}
@@ -14,30 +14,14 @@ export interface EngineStatusResponse {
   network: string;
 }
 
-export interface WalletCreateRequest {
-  mnemonic: string;
-  password: string;
-}
-
-export interface WalletCreateResponse {
-  success: boolean;
-  walletID?: string;
-  railgunAddress?: string;
-  encryptionKey?: string; // Server-derived key for wallet operations
-  error?: string;
-}
-
-export interface BalanceRequest {
-  walletID: string;
-  tokenAddress: string;
-}
-
-export interface BalanceResponse {
-  success: boolean;
-  spendable: string;
-  total: string;
-  tokenAddress: string;
-  error?: string;
+/**
+ * An unshield proved in the browser, ready for the relayer to broadcast.
+ * Proofs are generated with sendWithPublicWallet, so any account can submit
+ * the transaction; the relayer only ever sees this, never the wallet keys.
+ */
+export interface ProvedTransaction {
+  to: string; // RAILGUN proxy, or RelayAdapt for cross-contract calls
+  data: string;
 }
 
 /**
@@ -82,46 +66,20 @@ export interface TransferRecipientInput {
   tokenAddress: string; // ERC20 token address
 }
 
-/**
- * Legacy single-recipient transfer request (backward compatible)
- */
-export interface TransferRequestLegacy {
-  senderWalletID: string;
-  senderEncryptionKey: string;
-  senderRailgunAddress: string; // 0zk... address
-  recipientAddress: string; // Public 0x address - we'll shield/unshield behind the scenes
-  tokenAddress: string;
-  amount: string; // In base units (e.g., "1000000" for 1 USDC)
-  userAddress: string; // User's public wallet address
-
-  // Gas abstraction - one of these should be provided
-  gasAbstraction: GasAbstractionMethod;
-  eip7702Auth?: EIP7702Authorization; // Required if gasAbstraction === 'eip7702'
-  permitData?: PermitData; // Required if gasAbstraction === 'permit'
-}
-
 /**
  * Batch transfer request supporting multiple recipients and tokens
  * 
  * Flow:
  * 1. User signs permits (one per unique token)
- * 2. Shield phase (one TX per unique token)
- * 3. Wait for POI (all tokens)
- * 4. Generate ZK proof (single proof covering all recipients)
- * 5. Unshield TX (single TX to all recipients)
+ * 2. Shield phase (one TX per unique token) - this request
+ * 3. Wait for POI (all tokens) - browser
+ * 4. Generate ZK proof (one per recipient) - browser
+ * 5. Unshield TX per recipient - UnshieldBroadcastRequest
  */
 export interface TransferRequest {
-  senderWalletID: string;
-  senderEncryptionKey: string;
   senderRailgunAddress: string; // 0zk... address
   userAddress: string; // User's public wallet address
 
-  // Wallet recreation fields (required for serverless environments)
-  // The mnemonic is needed to recreate the wallet on each request
-  // since serverless functions lose in-memory state between invocations
-  mnemonic: string;
-  password: string;
-
   // Multi-recipient support
   recipients: TransferRecipientInput[];
 
@@ -138,6 +96,27 @@ export interface TransferRequest {
   tokenAddress?: string;
   amount?: string;
   permitData?: PermitData;
+
+  // Resume the shield job an earlier request started; its stored request is used
+  jobId?: string;
+  resumeAuth?: JobResumeAuth;
+}
+
+/**
+ * Broadcast one browser-proved unshield to a transfer recipient
+ */
+export interface UnshieldBroadcastRequest {
+  transaction: ProvedTransaction;
+
+  // Transfer job and recipient this unshield pays; recorded so it is only broadcast once
+  jobId?: string;
+  recipientIndex?: number;
+}
+
+export interface UnshieldBroadcastResponse {
+  success: boolean;
+  unshieldTxHash?: string;
+  error?: string;
 }
 
 export type TransferStep =
@@ -166,6 +145,9 @@ export interface TransferProgress {
   // Multi-recipient progress
   currentRecipientIndex?: number;
   totalRecipients?: number;
+
+  // Relayer job this run belongs to (GET /api/relayer/jobs/:id)
+  jobId?: string;
 }
 
 /**
@@ -179,49 +161,17 @@ export interface TokenShieldResult {
   error?: string;
 }
 
-/**
- * Per-recipient unshield result
- */
-export interface RecipientUnshieldResult {
-  address: string;
-  tokenAddress: string;
-  amount: string;
-  status: 'pending' | 'complete' | 'error';
-  unshieldTxHash?: string;
-  error?: string;
-}
-
-/**
- * Batch transfer response
- */
-export interface TransferResponse {
-  success: boolean;
-
-  // Per-token shield transactions (one per unique token)
-  shieldResults?: TokenShieldResult[];
-
-  // Single unshield TX for all recipients
-  unshieldTxHash?: string;
-
-  // Per-recipient results
-  recipientResults?: RecipientUnshieldResult[];
-
-  senderRailgunAddress?: string;
-  error?: string;
-
-  // Legacy single-transfer fields (backward compat)
-  shieldTxHash?: string;
-}
-
 // Private Swap Types (Prediction Market)
 export type PrivateSwapStep =
   | 'preparing'
   | 'approving' // Permit/Allowance
   | 'shielding' // Shield input tokens
+  | 'awaiting_proof' // Input shielded; the browser waits for POI and proves the unshield
   | 'waiting_poi' // Wait for privacy
   | 'generating_proof' // Generate ZK proof
   | 'unshielding' // Unshield to Adapter
   | 'transferring' // Execute swap on Adapter
+  | 'reshielding' // Swap and shield the output to the user's 0zk address in one tx
   | 'complete'
   | 'error';
 
@@ -233,7 +183,11 @@ export interface PrivateSwapProgress {
   inputShieldTxHash?: string;
   unshieldTxHash?: string;
   swapTxHash?: string;
+  outputShieldTxHash?: string;
   error?: string;
+
+  // Relayer job this run belongs to (GET /api/relayer/jobs/:id)
+  jobId?: string;
 }
 
 export interface PrivateSwapResult {
@@ -241,5 +195,75 @@ export interface PrivateSwapResult {
   inputShieldTxHash?: string;
   unshieldTxHash?: string;
   swapTxHash?: string;
+  outputShieldTxHash?: string;
+  amountOut?: string; // Swap output in wei
   error?: string;
 }
+
+// Relayer Job Types
+
+/**
+ * Relayer jobs persist the on-chain steps of a private swap or transfer, so a
+ * request that dies mid-pipeline can be resumed instead of stranding funds.
+ */
+export type RelayerJobKind = 'private_swap' | 'transfer';
+
+export type RelayerJobStatus =
+  | 'running'
+  | 'awaiting_proof' // Shielded; waiting for the browser's proved unshield(s)
+  | 'complete'
+  | 'error';
+
+export type JobStepStatus = 'running' | 'done' | 'error';
+
+// Step outputs are persisted as JSON, so amounts are decimal strings
+export type JobStepOutput = Record<string, string>;
+
+export interface JobStepRecord {
+  status: JobStepStatus;
+  txHash?: string; // Recorded as soon as the step's transaction is sent
+  output?: JobStepOutput;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface RelayerJob<TRequest = unknown, TProgress = unknown, TResult = unknown> {
+  id: string;
+  kind: RelayerJobKind;
+  status: RelayerJobStatus;
+  request: TRequest;
+  steps: Record<string, JobStepRecord>; // In the order they started
+  progress: TProgress[]; // Events of the latest run
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A job without its request (permits, authorizations), for anyone with the ID
+export type RelayerJobView = Omit<RelayerJob, 'request'>;
+
+export interface RelayerJobResponse {
+  success: boolean;
+  job?: RelayerJobView;
+  error?: string;
+}
+
+/**
+ * The job owner's consent to resume it: a signature from the job's
+ * userAddress over jobResumeMessage(jobId, expiry), see ./jobResume
+ */
+export interface JobResumeAuth {
+  expiry: number;
+  signature: string;
+}
+
+/**
+ * userAddress's consent to a swap pulling their tokens: a signature over
+ * swapAuthorizationMessage(request, nonce, expiry), see ./swapAuth
+ */
+export interface SwapAuthorization {
+  nonce: string;
+  expiry: number;
+  signature: string;
+}
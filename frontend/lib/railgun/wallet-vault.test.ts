@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearLegacyWallet,
+  clearVault,
+  deriveVaultKeys,
+  hasVault,
+  openWallet,
+  readLegacyWallet,
+  sealWallet,
+  vaultMessage,
+} from './wallet-vault';
+
+const ADDRESS = '0xAbC0000000000000000000000000000000000001';
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const SIGNATURE = `0x${'11'.repeat(65)}`;
+const OTHER_SIGNATURE = `0x${'22'.repeat(65)}`;
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+}
+
+let storage: ReturnType<typeof memoryStorage>;
+
+beforeEach(() => {
+  storage = memoryStorage();
+  vi.stubGlobal('localStorage', storage);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('deriveVaultKeys', () => {
+  it('derives the same engine key from the same signature', async () => {
+    const a = await deriveVaultKeys(SIGNATURE);
+    const b = await deriveVaultKeys(SIGNATURE);
+    const other = await deriveVaultKeys(OTHER_SIGNATURE);
+
+    expect(a.encryptionKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(b.encryptionKey).toBe(a.encryptionKey);
+    expect(other.encryptionKey).not.toBe(a.encryptionKey);
+  });
+
+  it('binds the message to the account', () => {
+    expect(vaultMessage(ADDRESS)).toContain(ADDRESS.toLowerCase());
+  });
+});
+
+describe('vault', () => {
+  it('seals the mnemonic and opens it with the same signature', async () => {
+    await sealWallet(ADDRESS, MNEMONIC, await deriveVaultKeys(SIGNATURE));
+
+    expect(hasVault(ADDRESS.toLowerCase())).toBe(true);
+    const [stored] = storage.items.values();
+    expect(stored).not.toContain('junk');
+    await expect(openWallet(ADDRESS, await deriveVaultKeys(SIGNATURE))).resolves.toBe(MNEMONIC);
+  });
+
+  it('refuses to open with another signature', async () => {
+    await sealWallet(ADDRESS, MNEMONIC, await deriveVaultKeys(SIGNATURE));
+
+    await expect(openWallet(ADDRESS, await deriveVaultKeys(OTHER_SIGNATURE))).rejects.toThrow(/does not match/);
+  });
+
+  it('rejects missing vaults and unknown versions', async () => {
+    const keys = await deriveVaultKeys(SIGNATURE);
+    await expect(openWallet(ADDRESS, keys)).rejects.toThrow(/No stored wallet/);
+
+    await sealWallet(ADDRESS, MNEMONIC, keys);
+    const [[key, stored]] = storage.items.entries();
+    storage.setItem(key, JSON.stringify({ ...JSON.parse(stored), version: 99 }));
+    await expect(openWallet(ADDRESS, keys)).rejects.toThrow(/version: 99/);
+
+    clearVault(ADDRESS);
+    expect(hasVault(ADDRESS)).toBe(false);
+  });
+
+  it('reads and clears plaintext wallets from older versions', () => {
+    expect(readLegacyWallet(ADDRESS)).toBeNull();
+    storage.setItem(`railgun_wallet_${ADDRESS}`, JSON.stringify({ mnemonic: MNEMONIC, password: 'x' }));
+    expect(readLegacyWallet(ADDRESS)).toBe(MNEMONIC);
+
+    storage.setItem(`railgun_wallet_${ADDRESS}`, 'not json');
+    expect(readLegacyWallet(ADDRESS)).toBeNull();
+
+    clearLegacyWallet(ADDRESS);
+    expect(storage.items.size).toBe(0);
+  });
+});
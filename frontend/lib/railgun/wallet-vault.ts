@@ -0,0 +1,167 @@
+import { getBytes, hexlify, keccak256, toUtf8Bytes, toUtf8String, type BytesLike } from 'ethers';
+
+/**
+ * Encrypted-at-rest storage for the RAILGUN mnemonic in the browser
+ * Keys are derived from the user's signature over vaultMessage(address) and are
+ * never stored, so the vault only opens after the connected account signs again.
+ */
+
+export type VaultKeys = {
+  vaultKey: CryptoKey;   // AES-GCM key sealing the mnemonic
+  encryptionKey: string; // 32-byte hex key the RAILGUN engine encrypts the wallet with
+};
+
+type VaultRecord = {
+  version: number;
+  iv: string;
+  ciphertext: string;
+};
+
+const VAULT_VERSION = 1;
+const VAULT_PREFIX = 'railgun_vault_';
+// Older versions stored { mnemonic, password } in plaintext under this prefix
+const LEGACY_PREFIX = 'railgun_wallet_';
+
+const vaultStorageKey = (address: string) => `${VAULT_PREFIX}${address.toLowerCase()}`;
+
+// WebCrypto wants bytes backed by a plain ArrayBuffer, which ethers does not promise
+const buffer = (data: BytesLike): Uint8Array<ArrayBuffer> => new Uint8Array(getBytes(data));
+
+/**
+ * Message the user signs to unlock their wallet on this device
+ * @param address - Connected account
+ * @returns Message to pass to personal_sign
+ */
+export const vaultMessage = (address: string): string =>
+  'Unlock your private trading wallet on this device.\n\n' +
+  'This signature encrypts your RAILGUN wallet locally. It does not send a transaction or cost gas.\n\n' +
+  `Account: ${address.toLowerCase()}`;
+
+/**
+ * Derives the vault and engine keys from a signature of vaultMessage
+ * @param signature - The user's signature
+ * @returns Keys for sealing the mnemonic and loading the wallet in the engine
+ */
+export const deriveVaultKeys = async (signature: string): Promise<VaultKeys> => {
+  const seed = await crypto.subtle.importKey(
+    'raw',
+    buffer(keccak256(signature)),
+    'HKDF',
+    false,
+    ['deriveKey', 'deriveBits']
+  );
+  const hkdf = (info: string): HkdfParams => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(32),
+    info: buffer(toUtf8Bytes(info)),
+  });
+
+  const vaultKey = await crypto.subtle.deriveKey(
+    hkdf('railgun-vault'),
+    seed,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  const engineKeyBits = await crypto.subtle.deriveBits(hkdf('railgun-engine'), seed, 256);
+
+  return {
+    vaultKey,
+    encryptionKey: hexlify(new Uint8Array(engineKeyBits)).slice(2),
+  };
+};
+
+/**
+ * Checks if this device holds a sealed wallet for an account
+ * @param address - Connected account
+ * @returns true if a vault exists
+ */
+export const hasVault = (address: string): boolean =>
+  localStorage.getItem(vaultStorageKey(address)) !== null;
+
+/**
+ * Encrypts a mnemonic and stores it for an account, replacing any previous one
+ * @param address - Connected account
+ * @param mnemonic - Mnemonic to seal
+ * @param keys - Keys from deriveVaultKeys
+ */
+export const sealWallet = async (address: string, mnemonic: string, keys: VaultKeys): Promise<void> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    keys.vaultKey,
+    buffer(toUtf8Bytes(mnemonic))
+  );
+
+  const record: VaultRecord = {
+    version: VAULT_VERSION,
+    iv: hexlify(iv),
+    ciphertext: hexlify(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(vaultStorageKey(address), JSON.stringify(record));
+};
+
+/**
+ * Decrypts the stored mnemonic for an account
+ * @param address - Connected account
+ * @param keys - Keys from deriveVaultKeys
+ * @returns The mnemonic
+ */
+export const openWallet = async (address: string, keys: VaultKeys): Promise<string> => {
+  const stored = localStorage.getItem(vaultStorageKey(address));
+  if (!stored) {
+    throw new Error('No stored wallet for this account');
+  }
+
+  const record = JSON.parse(stored) as VaultRecord;
+  if (record.version !== VAULT_VERSION) {
+    throw new Error(`Unsupported wallet vault version: ${record.version}`);
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: buffer(record.iv) },
+      keys.vaultKey,
+      buffer(record.ciphertext)
+    );
+    return toUtf8String(new Uint8Array(plaintext));
+  } catch {
+    throw new Error('Could not unlock the stored wallet: the signature does not match');
+  }
+};
+
+/**
+ * Removes the sealed wallet for an account
+ * @param address - Connected account
+ */
+export const clearVault = (address: string): void => {
+  localStorage.removeItem(vaultStorageKey(address));
+};
+
+/**
+ * Reads a plaintext mnemonic stored by older versions, so it can be sealed
+ * @param address - Connected account
+ * @returns The mnemonic, or null if there is none
+ */
+export const readLegacyWallet = (address: string): string | null => {
+  const stored = localStorage.getItem(`${LEGACY_PREFIX}${address}`);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    const { mnemonic } = JSON.parse(stored) as { mnemonic?: unknown };
+    return typeof mnemonic === 'string' ? mnemonic : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Deletes a plaintext mnemonic stored by older versions
+ * @param address - Connected account
+ */
+export const clearLegacyWallet = (address: string): void => {
+  localStorage.removeItem(`${LEGACY_PREFIX}${address}`);
+};